@@ -0,0 +1,34 @@
+-- ============================================
+-- Leitura de Pedidos pelo Painel Admin
+-- ============================================
+-- O painel admin não abre sessão no Supabase (o login é verificado no
+-- próprio site) e usa a chave anon, como na edição de produtos (ver
+-- fix-rls-policies.sql). Com a leitura de orders e order_items restrita a
+-- usuários autenticados (supabase-rls-policies.sql), a lista e o detalhe
+-- de pedidos do painel ficariam sempre vazios.
+--
+-- NOTA: assim qualquer pessoa com a chave anon consegue ler os pedidos.
+-- Quando o painel passar a entrar com o Supabase Auth, volte estas
+-- políticas para auth.role() = 'authenticated'.
+-- Execute no SQL Editor do Supabase, depois de supabase-rls-policies.sql
+-- ============================================
+
+DROP POLICY IF EXISTS "Orders are viewable by authenticated users" ON orders;
+DROP POLICY IF EXISTS "Orders are viewable by the admin panel" ON orders;
+
+CREATE POLICY "Orders are viewable by the admin panel"
+  ON orders FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Order items are viewable by authenticated users" ON order_items;
+DROP POLICY IF EXISTS "Order items are viewable by the admin panel" ON order_items;
+
+CREATE POLICY "Order items are viewable by the admin panel"
+  ON order_items FOR SELECT
+  USING (true);
+
+-- Verificar as políticas
+SELECT tablename, policyname, cmd, qual
+FROM pg_policies
+WHERE tablename IN ('orders', 'order_items')
+ORDER BY tablename, policyname;
@@ -0,0 +1,411 @@
+-- ============================================
+-- Criação de Pedidos no Checkout
+-- ============================================
+-- Este script cria a função create_order, usada pelo checkout para
+-- gravar o pedido e seus itens em uma única transação antes do
+-- redirecionamento para o WhatsApp.
+-- Execute no SQL Editor do Supabase, depois de product-variants.sql,
+-- product-sale-pricing.sql, product-search.sql, product-shipping-dimensions.sql,
+-- stock-functions.sql, order-status-history.sql, delivery-slots.sql e
+-- store-pickup.sql
+-- ============================================
+
+-- O e-mail é opcional no checkout
+ALTER TABLE orders
+ALTER COLUMN customer_email DROP NOT NULL;
+
+-- ============================================
+-- FORMA DE PAGAMENTO
+-- ============================================
+-- Escolhida no checkout: PIX, cartão na entrega (maquininha) ou dinheiro
+-- na entrega, com o valor para troco opcional. Pedidos anteriores ao
+-- passo de pagamento ficam sem forma de pagamento.
+ALTER TABLE orders
+ALTER COLUMN payment_method DROP NOT NULL;
+
+ALTER TABLE orders
+DROP CONSTRAINT IF EXISTS orders_payment_method_check;
+
+ALTER TABLE orders
+ADD CONSTRAINT orders_payment_method_check CHECK (
+  payment_method IN ('credit_card', 'debit_card', 'pix', 'boleto', 'cash')
+);
+
+-- "Troco para R$ X" (apenas dinheiro)
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS payment_change_for DECIMAL(10, 2) CHECK (payment_change_for > 0);
+
+-- ============================================
+-- NÚMERO DO PEDIDO
+-- ============================================
+-- Números sequenciais no formato TIM-AAAA-NNNNNN (ex: TIM-2026-000123),
+-- gerados pelo banco no INSERT. A sequência é única para todos os anos,
+-- então dois pedidos nunca recebem o mesmo número.
+CREATE SEQUENCE IF NOT EXISTS order_number_seq;
+
+CREATE OR REPLACE FUNCTION next_order_number()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  SELECT 'TIM-' || TO_CHAR(NOW() AT TIME ZONE 'America/Recife', 'YYYY') || '-'
+    || LPAD(nextval('order_number_seq')::TEXT, 6, '0');
+$$;
+
+-- Usada apenas como DEFAULT da coluna (dentro de create_order)
+REVOKE EXECUTE ON FUNCTION next_order_number() FROM PUBLIC, anon;
+
+ALTER TABLE orders
+ALTER COLUMN order_number SET DEFAULT next_order_number();
+
+-- ============================================
+-- FRETE DO PEDIDO
+-- ============================================
+-- Mesmas regras de calculateShipping (src/services/shippingService.ts):
+-- cidades atendidas, regiões de entrega, peso (ou peso cubado) dos
+-- produtos e frete grátis, lidas de settings. Configurações ausentes ou
+-- inválidas usam os mesmos padrões do site (DEFAULT_SHIPPING_SETTINGS).
+
+-- Valor numérico de settings (número ou texto, ex: "15.00"); inválido = padrão
+CREATE OR REPLACE FUNCTION settings_amount(p_value JSONB, p_default DECIMAL)
+RETURNS DECIMAL
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_value) = 'number' AND (p_value #>> '{}')::DECIMAL >= 0
+      THEN (p_value #>> '{}')::DECIMAL
+    WHEN jsonb_typeof(p_value) = 'string' AND trim(p_value #>> '{}') ~ '^[0-9]+(\.[0-9]+)?$'
+      THEN trim(p_value #>> '{}')::DECIMAL
+    ELSE p_default
+  END;
+$$;
+
+-- Frete de um pedido: 0 na retirada, NULL se não houver entrega para o
+-- endereço (cidade fora da área ou retirada desativada).
+-- p_lines: itens com product_id e quantity; p_subtotal: subtotal dos itens
+CREATE OR REPLACE FUNCTION calculate_order_shipping(p_order JSONB, p_lines JSONB, p_subtotal DECIMAL)
+RETURNS DECIMAL(10, 2)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_settings JSONB;
+  v_city TEXT := search_normalize(trim(p_order->>'shipping_city'));
+  v_neighborhood TEXT := search_normalize(trim(p_order->>'shipping_neighborhood'));
+  v_cep TEXT := regexp_replace(COALESCE(p_order->>'shipping_zip_code', ''), '\D', '', 'g');
+  v_zone JSONB;
+  v_weight_per_bottle DECIMAL;
+  v_weight DECIMAL;
+BEGIN
+  IF COALESCE(p_order->>'fulfillment_method', 'delivery') = 'pickup' THEN
+    SELECT value INTO v_settings FROM settings WHERE key = 'store_pickup';
+    RETURN CASE WHEN COALESCE((v_settings->>'enabled')::BOOLEAN, FALSE) THEN 0 END;
+  END IF;
+
+  SELECT jsonb_object_agg(key, value) INTO v_settings
+  FROM settings
+  WHERE key LIKE 'shipping\_%';
+  v_settings := COALESCE(v_settings, '{}'::JSONB);
+
+  -- Cidade atendida (maiúsculas e acentos ignorados)
+  IF v_city = '' OR NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(v_settings->'shipping_cities') = 'array'
+        THEN v_settings->'shipping_cities'
+        ELSE '["Recife", "Olinda", "Jaboatão dos Guararapes", "Camaragibe"]'::JSONB
+      END
+    ) AS c(name)
+    WHERE search_normalize(trim(c.name)) <> ''
+      AND (position(search_normalize(trim(c.name)) IN v_city) > 0
+        OR position(v_city IN search_normalize(trim(c.name))) > 0)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Região: o bairro vale mais que as faixas de CEP; entre faixas, a mais estreita
+  SELECT z.zone INTO v_zone
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(v_settings->'shipping_zones') = 'array'
+      THEN v_settings->'shipping_zones'
+      ELSE '[]'::JSONB
+    END
+  ) WITH ORDINALITY AS z(zone, position)
+  CROSS JOIN LATERAL (
+    SELECT -1::BIGINT AS width
+    FROM jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(z.zone->'neighborhoods') = 'array' THEN z.zone->'neighborhoods' ELSE '[]'::JSONB END
+    ) AS n(name)
+    WHERE v_neighborhood <> '' AND search_normalize(trim(n.name)) = v_neighborhood
+    UNION ALL
+    SELECT r.range_end::BIGINT - r.range_start::BIGINT
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(z.zone->'cep_ranges') = 'array' THEN z.zone->'cep_ranges' ELSE '[]'::JSONB END
+    ) AS cr(cep_range)
+    CROSS JOIN LATERAL (
+      SELECT
+        regexp_replace(COALESCE(cr.cep_range->>'start', ''), '\D', '', 'g') AS range_start,
+        regexp_replace(COALESCE(cr.cep_range->>'end', ''), '\D', '', 'g') AS range_end
+    ) AS r
+    WHERE length(v_cep) = 8
+      AND length(r.range_start) = 8
+      AND length(r.range_end) = 8
+      AND v_cep BETWEEN r.range_start AND r.range_end
+  ) AS m
+  WHERE trim(COALESCE(z.zone->>'name', '')) <> ''
+  ORDER BY m.width, z.position
+  LIMIT 1;
+
+  v_weight_per_bottle := settings_amount(v_settings->'shipping_weight_per_bottle', 1.5);
+
+  IF p_subtotal >= settings_amount(
+    v_zone->'free_threshold',
+    settings_amount(v_settings->'shipping_free_threshold', 200)
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  -- Peso: o do produto (ou o padrão por garrafa), ou o peso cubado se for maior
+  SELECT COALESCE(SUM(
+    GREATEST(
+      COALESCE(p.weight_kg, v_weight_per_bottle),
+      CASE WHEN p.length_cm IS NOT NULL AND p.width_cm IS NOT NULL AND p.height_cm IS NOT NULL
+        THEN p.length_cm * p.width_cm * p.height_cm / 6000
+        ELSE 0
+      END
+    ) * (l.item->>'quantity')::INTEGER
+  ), 0) INTO v_weight
+  FROM jsonb_array_elements(p_lines) AS l(item)
+  JOIN products p ON p.id = (l.item->>'product_id')::UUID;
+
+  -- Frete base (primeira garrafa incluída) + valor por kg adicional, em kg
+  -- inteiros (arredondados para cima, a partir dos gramas)
+  RETURN settings_amount(v_zone->'base_cost', settings_amount(v_settings->'shipping_base_cost', 15))
+    + CEIL(ROUND(GREATEST(0, v_weight - v_weight_per_bottle), 3))
+      * settings_amount(v_zone->'cost_per_kg', settings_amount(v_settings->'shipping_cost_per_kg', 5));
+END;
+$$;
+
+-- Usada apenas dentro de create_order
+REVOKE EXECUTE ON FUNCTION calculate_order_shipping(JSONB, JSONB, DECIMAL) FROM PUBLIC, anon;
+
+-- ============================================
+-- FUNÇÃO: create_order
+-- ============================================
+-- Recebe o pedido e a lista de itens em JSONB e retorna o pedido criado
+-- com os itens em "order_items" e o histórico em "order_status_history"
+-- (mesmo formato de um select com join).
+--
+-- SECURITY DEFINER: o checkout é público e a leitura de orders é restrita
+-- a usuários autenticados, então um INSERT ... RETURNING direto falharia.
+-- O status é sempre 'pending' e o número do pedido é sempre gerado pelo
+-- banco (next_order_number), independente do que o cliente enviar.
+--
+-- O estoque é baixado na mesma transação (decrement_stock). Se faltar
+-- estoque, a função falha com HINT 'insufficient_stock' e DETAIL contendo
+-- o JSON das linhas sem estoque; nenhum pedido é criado.
+--
+-- Entrega agendada: quando p_order traz shipping_delivery_window_end, a
+-- faixa (shipping_delivery_time até shipping_delivery_window_end) é
+-- validada e reservada por reserve_delivery_slot, que falha com HINT
+-- 'delivery_slot_unavailable' se a faixa estiver esgotada ou fora do prazo.
+--
+-- Retirada na loja: p_order traz fulfillment_method = 'pickup' e o
+-- endereço vazio (padrão: 'delivery').
+--
+-- Itens de produtos com variantes trazem variant_id, gravado no item e
+-- usado na baixa de estoque.
+--
+-- Preços: o preço de cada item vem do produto ou da variante, com a
+-- promoção que estiver valendo (product_effective_price), e o subtotal e o
+-- total são calculados a partir deles. Se o preço de algum item, o subtotal
+-- ou o total enviados pelo cliente não baterem, a função falha com HINT
+-- 'price_changed' (promoção que começou ou acabou durante a compra).
+--
+-- Frete: calculado pelo banco (calculate_order_shipping) para o endereço e
+-- a forma de entrega. Se o frete enviado pelo cliente não bater, ou se não
+-- houver entrega para o endereço, a função falha com HINT 'shipping_changed'.
+CREATE OR REPLACE FUNCTION create_order(p_order JSONB, p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_lines JSONB;
+  v_items JSONB;
+  v_failed JSONB;
+  v_subtotal DECIMAL(10, 2);
+  v_shipping_cost DECIMAL(10, 2);
+  v_price_changed BOOLEAN;
+  v_unknown_product BOOLEAN;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'O pedido deve ter pelo menos um item'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Itens com o preço atual do produto ou da variante
+  SELECT
+    jsonb_agg(line.item || jsonb_build_object('product_price', line.price) ORDER BY line.position),
+    SUM(line.price * (line.item->>'quantity')::INTEGER),
+    bool_or(line.price IS DISTINCT FROM (line.item->>'product_price')::DECIMAL(10, 2)),
+    bool_or(line.price IS NULL)
+  INTO v_lines, v_subtotal, v_price_changed, v_unknown_product
+  FROM (
+    SELECT
+      i.item,
+      i.position,
+      CASE
+        WHEN p.id IS NULL OR (NULLIF(i.item->>'variant_id', '') IS NOT NULL AND v.id IS NULL)
+          THEN NULL
+        ELSE product_effective_price(p, v.price)
+      END AS price
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS i(item, position)
+    LEFT JOIN products p ON p.id = (i.item->>'product_id')::UUID
+    LEFT JOIN product_variants v
+      ON v.id = NULLIF(i.item->>'variant_id', '')::UUID AND v.product_id = p.id
+  ) AS line;
+
+  IF v_unknown_product THEN
+    RAISE EXCEPTION 'Produto não encontrado'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF v_price_changed OR (p_order->>'subtotal')::DECIMAL(10, 2) IS DISTINCT FROM v_subtotal THEN
+    RAISE EXCEPTION 'Os preços dos produtos mudaram'
+      USING ERRCODE = 'P0001',
+            HINT = 'price_changed';
+  END IF;
+
+  v_shipping_cost := calculate_order_shipping(p_order, v_lines, v_subtotal);
+
+  IF v_shipping_cost IS NULL
+    OR (p_order->>'shipping_cost')::DECIMAL(10, 2) IS DISTINCT FROM v_shipping_cost THEN
+    RAISE EXCEPTION 'O frete mudou'
+      USING ERRCODE = 'P0001',
+            HINT = 'shipping_changed';
+  END IF;
+
+  IF (p_order->>'total')::DECIMAL(10, 2) IS DISTINCT FROM v_subtotal + v_shipping_cost THEN
+    RAISE EXCEPTION 'Os preços dos produtos mudaram'
+      USING ERRCODE = 'P0001',
+            HINT = 'price_changed';
+  END IF;
+
+  IF p_order->>'shipping_delivery_window_end' IS NOT NULL THEN
+    PERFORM reserve_delivery_slot(
+      (p_order->>'shipping_delivery_time')::TIMESTAMP WITH TIME ZONE,
+      (p_order->>'shipping_delivery_window_end')::TIMESTAMP WITH TIME ZONE
+    );
+  END IF;
+
+  v_failed := decrement_stock(v_lines);
+
+  IF jsonb_array_length(v_failed) > 0 THEN
+    RAISE EXCEPTION 'Estoque insuficiente'
+      USING ERRCODE = 'P0001',
+            DETAIL = v_failed::TEXT,
+            HINT = 'insufficient_stock';
+  END IF;
+
+  INSERT INTO orders (
+    customer_name,
+    customer_email,
+    customer_phone,
+    fulfillment_method,
+    shipping_street,
+    shipping_number,
+    shipping_complement,
+    shipping_neighborhood,
+    shipping_city,
+    shipping_state,
+    shipping_zip_code,
+    subtotal,
+    shipping_cost,
+    total,
+    shipping_carrier,
+    shipping_estimated_hours,
+    shipping_is_free,
+    shipping_delivery_time,
+    shipping_delivery_window_end,
+    payment_method,
+    payment_change_for,
+    status
+  ) VALUES (
+    p_order->>'customer_name',
+    NULLIF(p_order->>'customer_email', ''),
+    p_order->>'customer_phone',
+    COALESCE(p_order->>'fulfillment_method', 'delivery'),
+    p_order->>'shipping_street',
+    p_order->>'shipping_number',
+    NULLIF(p_order->>'shipping_complement', ''),
+    p_order->>'shipping_neighborhood',
+    p_order->>'shipping_city',
+    p_order->>'shipping_state',
+    p_order->>'shipping_zip_code',
+    v_subtotal,
+    v_shipping_cost,
+    v_subtotal + v_shipping_cost,
+    p_order->>'shipping_carrier',
+    (p_order->>'shipping_estimated_hours')::INTEGER,
+    v_shipping_cost = 0,
+    (p_order->>'shipping_delivery_time')::TIMESTAMP WITH TIME ZONE,
+    (p_order->>'shipping_delivery_window_end')::TIMESTAMP WITH TIME ZONE,
+    p_order->>'payment_method',
+    CASE WHEN p_order->>'payment_method' = 'cash'
+      THEN (p_order->>'payment_change_for')::DECIMAL(10, 2)
+    END,
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    variant_id,
+    product_name,
+    product_price,
+    quantity,
+    subtotal
+  )
+  SELECT
+    v_order.id,
+    (item->>'product_id')::UUID,
+    NULLIF(item->>'variant_id', '')::UUID,
+    item->>'product_name',
+    (item->>'product_price')::DECIMAL(10, 2),
+    (item->>'quantity')::INTEGER,
+    (item->>'product_price')::DECIMAL(10, 2) * (item->>'quantity')::INTEGER
+  FROM jsonb_array_elements(v_lines) AS item;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by)
+  VALUES (v_order.id, NULL, 'pending', 'cliente');
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at), '[]'::JSONB)
+  INTO v_items
+  FROM order_items oi
+  WHERE oi.order_id = v_order.id;
+
+  RETURN to_jsonb(v_order)
+    || jsonb_build_object(
+      'order_items', v_items,
+      'order_status_history', order_status_history_json(v_order.id)
+    );
+END;
+$$;
+
+-- Checkout público: qualquer visitante pode criar pedidos
+GRANT EXECUTE ON FUNCTION create_order(JSONB, JSONB) TO anon, authenticated;
+
+COMMENT ON FUNCTION create_order(JSONB, JSONB) IS 'Cria pedido e itens em uma única transação (checkout)';
+
+-- Verificar as funções criadas
+SELECT routine_name, security_type
+FROM information_schema.routines
+WHERE routine_name IN ('next_order_number', 'settings_amount', 'calculate_order_shipping', 'create_order');
@@ -0,0 +1,175 @@
+-- ============================================
+-- Entregas Agendadas
+-- ============================================
+-- Este script permite que o cliente agende a entrega no checkout,
+-- escolhendo uma data e uma faixa de horário, em vez da entrega expressa.
+-- Cada faixa tem um limite de pedidos (capacidade).
+-- Execute no SQL Editor do Supabase, antes de create-order-function.sql
+-- ============================================
+
+-- enabled: mostra a opção "Agendar entrega" no checkout
+-- days_ahead: quantos dias (a partir de hoje) podem ser escolhidos
+-- min_notice_hours: antecedência mínima (horas, aceita fração: 1.5 = 1h30)
+--                   entre o pedido e o início da faixa
+-- windows: faixas de horário (horário de Recife) e o limite de pedidos de
+--          cada uma
+INSERT INTO settings (key, value) VALUES
+  ('delivery_slots', '{
+    "enabled": true,
+    "days_ahead": 7,
+    "min_notice_hours": 3,
+    "windows": [
+      {"start": "10:00", "end": "12:00", "capacity": 5},
+      {"start": "14:00", "end": "16:00", "capacity": 5},
+      {"start": "18:00", "end": "20:00", "capacity": 8},
+      {"start": "20:00", "end": "22:00", "capacity": 8}
+    ]
+  }'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- COLUNA: fim da faixa de entrega
+-- ============================================
+-- Pedidos agendados guardam o início da faixa em shipping_delivery_time e
+-- o fim em shipping_delivery_window_end. Pedidos com entrega expressa
+-- ficam com shipping_delivery_window_end vazio.
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS shipping_delivery_window_end TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_orders_delivery_slot
+ON orders(shipping_delivery_time)
+WHERE shipping_delivery_window_end IS NOT NULL;
+
+-- ============================================
+-- FUNÇÃO: get_delivery_slot_usage
+-- ============================================
+-- Retorna quantos pedidos (não cancelados) já ocupam cada faixa que começa
+-- entre p_from e p_to. Usada pelo checkout para mostrar as faixas
+-- esgotadas, sem liberar a leitura da tabela orders.
+CREATE OR REPLACE FUNCTION get_delivery_slot_usage(p_from TIMESTAMP WITH TIME ZONE, p_to TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (slot_start TIMESTAMP WITH TIME ZONE, orders_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT shipping_delivery_time, COUNT(*)::INTEGER
+  FROM orders
+  WHERE shipping_delivery_window_end IS NOT NULL
+    AND status <> 'cancelled'
+    AND shipping_delivery_time >= p_from
+    AND shipping_delivery_time < p_to
+  GROUP BY shipping_delivery_time;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_delivery_slot_usage(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO anon, authenticated;
+
+COMMENT ON FUNCTION get_delivery_slot_usage(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) IS 'Pedidos por faixa de entrega agendada (checkout)';
+
+-- ============================================
+-- FUNÇÃO: reserve_delivery_slot
+-- ============================================
+-- Chamada por create_order antes de gravar um pedido agendado. Confere se
+-- a faixa existe em settings.delivery_slots, se respeita a antecedência
+-- mínima e o limite de dias, se está dentro do horário de funcionamento
+-- (settings.store_hours, quando configurado) e se ainda há vaga. Dois checkouts simultâneos
+-- na mesma faixa são serializados (pg_advisory_xact_lock), então a
+-- capacidade nunca é ultrapassada.
+--
+-- Se a faixa não puder ser usada, falha com HINT 'delivery_slot_unavailable'.
+CREATE OR REPLACE FUNCTION reserve_delivery_slot(p_start TIMESTAMP WITH TIME ZONE, p_end TIMESTAMP WITH TIME ZONE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_config JSONB;
+  v_store_hours JSONB;
+  v_day_hours JSONB;
+  v_capacity INTEGER;
+  v_local_start TIMESTAMP := p_start AT TIME ZONE 'America/Recife';
+  v_local_end TIMESTAMP := p_end AT TIME ZONE 'America/Recife';
+  v_orders INTEGER;
+BEGIN
+  SELECT value INTO v_config FROM settings WHERE key = 'delivery_slots';
+
+  IF v_config IS NULL OR NOT COALESCE((v_config->>'enabled')::BOOLEAN, FALSE) THEN
+    RAISE EXCEPTION 'Entrega agendada indisponível'
+      USING ERRCODE = 'P0001', HINT = 'delivery_slot_unavailable';
+  END IF;
+
+  SELECT (w->>'capacity')::INTEGER INTO v_capacity
+  FROM jsonb_array_elements(v_config->'windows') AS w
+  WHERE w->>'start' = TO_CHAR(v_local_start, 'HH24:MI')
+    AND w->>'end' = TO_CHAR(v_local_end, 'HH24:MI')
+    AND v_local_start::DATE = v_local_end::DATE
+  LIMIT 1;
+
+  IF v_capacity IS NULL
+    OR p_start < NOW() + COALESCE((v_config->>'min_notice_hours')::NUMERIC, 0) * INTERVAL '1 hour'
+    OR v_local_start::DATE >= (NOW() AT TIME ZONE 'America/Recife')::DATE
+      + COALESCE((v_config->>'days_ahead')::INTEGER, 7)
+  THEN
+    RAISE EXCEPTION 'Horário de entrega indisponível'
+      USING ERRCODE = 'P0001', HINT = 'delivery_slot_unavailable';
+  END IF;
+
+  -- Horário do dia: o do feriado, se houver, ou o do dia da semana.
+  -- Sem nenhum dia com horário (horário desativado no painel), a loja é
+  -- considerada sempre aberta, como no site
+  SELECT value INTO v_store_hours FROM settings WHERE key = 'store_hours';
+
+  IF v_store_hours IS NOT NULL AND EXISTS (
+    SELECT 1
+    FROM jsonb_each(COALESCE(v_store_hours->'weekly', '{}'::jsonb)) AS d
+    WHERE jsonb_typeof(d.value) = 'object'
+  ) THEN
+    SELECT c INTO v_day_hours
+    FROM jsonb_array_elements(COALESCE(v_store_hours->'closures', '[]'::jsonb)) AS c
+    WHERE c->>'date' = TO_CHAR(v_local_start, 'YYYY-MM-DD')
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_day_hours := v_store_hours->'weekly'->(
+        ARRAY['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+      )[EXTRACT(DOW FROM v_local_start)::INTEGER + 1];
+    END IF;
+
+    IF v_day_hours IS NULL
+      OR jsonb_typeof(v_day_hours) <> 'object'
+      OR v_day_hours->>'open' IS NULL
+      OR TO_CHAR(v_local_start, 'HH24:MI') < v_day_hours->>'open'
+      OR TO_CHAR(v_local_end, 'HH24:MI') > v_day_hours->>'close'
+    THEN
+      RAISE EXCEPTION 'Loja fechada no horário de entrega escolhido'
+        USING ERRCODE = 'P0001', HINT = 'delivery_slot_unavailable';
+    END IF;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('delivery_slot:' || p_start::TEXT));
+
+  SELECT COUNT(*) INTO v_orders
+  FROM orders
+  WHERE shipping_delivery_window_end IS NOT NULL
+    AND status <> 'cancelled'
+    AND shipping_delivery_time = p_start;
+
+  IF v_orders >= v_capacity THEN
+    RAISE EXCEPTION 'Horário de entrega esgotado'
+      USING ERRCODE = 'P0001', HINT = 'delivery_slot_unavailable';
+  END IF;
+END;
+$$;
+
+-- Usada apenas dentro de create_order
+REVOKE EXECUTE ON FUNCTION reserve_delivery_slot(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+
+COMMENT ON FUNCTION reserve_delivery_slot(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) IS 'Valida e reserva vaga em uma faixa de entrega agendada';
+
+-- Verificar
+SELECT key, value FROM settings WHERE key = 'delivery_slots';
+
+SELECT routine_name, security_type
+FROM information_schema.routines
+WHERE routine_name IN ('get_delivery_slot_usage', 'reserve_delivery_slot');
@@ -0,0 +1,211 @@
+-- ============================================
+-- Cancelamento de Pedidos com Devolução de Estoque
+-- ============================================
+-- Este script cria a função cancel_order, que cancela um pedido, registra
+-- o motivo e devolve ao estoque as quantidades dos itens na mesma
+-- transação, e a função cancel_expired_orders, que cancela
+-- automaticamente pedidos não confirmados após um tempo configurável.
+-- Execute no SQL Editor do Supabase, depois de order-status-history.sql
+-- e product-variants.sql
+-- ============================================
+
+-- Motivo e data do cancelamento; stock_restored_at marca que o estoque
+-- já foi devolvido, para que um segundo cancelamento nunca devolva de novo
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS stock_restored_at TIMESTAMP WITH TIME ZONE;
+
+-- Tempo (em minutos) para cancelar automaticamente pedidos pendentes
+INSERT INTO settings (key, value) VALUES
+  ('order_auto_cancel_minutes', '120')
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- FUNÇÃO: cancel_order
+-- ============================================
+-- Cancela o pedido e devolve o estoque dos itens. É idempotente: se o
+-- pedido já estiver cancelado, retorna o pedido sem alterar nada.
+--
+-- p_expected_status (opcional) funciona como em change_order_status: se o
+-- pedido não estiver mais nesse status, a função falha com HINT
+-- 'status_conflict'. Pedidos enviados ou entregues não podem ser
+-- cancelados (HINT 'invalid_transition').
+CREATE OR REPLACE FUNCTION cancel_order(
+  p_order_id UUID,
+  p_reason TEXT,
+  p_changed_by TEXT DEFAULT NULL,
+  p_expected_status TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_reason TEXT := NULLIF(TRIM(p_reason), '');
+  v_previous_status TEXT;
+  v_items JSONB;
+BEGIN
+  -- Bloquear o pedido: cancelamentos simultâneos esperam um pelo outro
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'Pedido não encontrado'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_order.status <> 'cancelled' THEN
+    IF p_expected_status IS NOT NULL AND v_order.status <> p_expected_status THEN
+      RAISE EXCEPTION 'O pedido não está mais no status %', p_expected_status
+        USING ERRCODE = 'P0001',
+              HINT = 'status_conflict';
+    END IF;
+
+    IF v_order.status NOT IN ('pending', 'confirmed', 'processing') THEN
+      RAISE EXCEPTION 'Pedidos com status % não podem ser cancelados', v_order.status
+        USING ERRCODE = '22023',
+              HINT = 'invalid_transition';
+    END IF;
+
+    IF v_reason IS NULL THEN
+      RAISE EXCEPTION 'Informe o motivo do cancelamento'
+        USING ERRCODE = '22023',
+              HINT = 'reason_required';
+    END IF;
+
+    v_previous_status := v_order.status;
+
+    -- Devolver o estoque (uma única vez por pedido), à variante comprada
+    -- ou ao produto, nos itens sem variante
+    IF v_order.stock_restored_at IS NULL THEN
+      UPDATE product_variants v
+      SET stock = v.stock + returned.quantity,
+          updated_at = NOW()
+      FROM (
+        SELECT variant_id, SUM(quantity) AS quantity
+        FROM order_items
+        WHERE order_id = v_order.id AND variant_id IS NOT NULL
+        GROUP BY variant_id
+      ) AS returned
+      WHERE v.id = returned.variant_id;
+
+      UPDATE products p
+      SET stock = p.stock + returned.quantity
+      FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM order_items
+        WHERE order_id = v_order.id AND variant_id IS NULL
+        GROUP BY product_id
+      ) AS returned
+      WHERE p.id = returned.product_id;
+    END IF;
+
+    UPDATE orders
+    SET status = 'cancelled',
+        cancellation_reason = v_reason,
+        cancelled_at = NOW(),
+        stock_restored_at = COALESCE(stock_restored_at, NOW())
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+    INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, note)
+    VALUES (
+      v_order.id,
+      v_previous_status,
+      'cancelled',
+      COALESCE(auth.email(), NULLIF(TRIM(p_changed_by), '')),
+      v_reason
+    );
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at), '[]'::JSONB)
+  INTO v_items
+  FROM order_items oi
+  WHERE oi.order_id = v_order.id;
+
+  RETURN to_jsonb(v_order)
+    || jsonb_build_object(
+      'order_items', v_items,
+      'order_status_history', order_status_history_json(v_order.id)
+    );
+END;
+$$;
+
+-- Chamada pelo painel admin, que usa a chave anon (como change_order_status)
+GRANT EXECUTE ON FUNCTION cancel_order(UUID, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION cancel_order(UUID, TEXT, TEXT, TEXT) IS 'Cancela o pedido, registra o motivo e devolve o estoque (idempotente)';
+
+-- ============================================
+-- FUNÇÃO: cancel_expired_orders
+-- ============================================
+-- Cancela os pedidos que continuam 'pending' depois de
+-- settings.order_auto_cancel_minutes (padrão: 120) e retorna quantos
+-- foram cancelados. Cada pedido é cancelado com cancel_order, então o
+-- estoque volta e o histórico registra o motivo.
+CREATE OR REPLACE FUNCTION cancel_expired_orders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_minutes INTEGER;
+  v_order_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE((value #>> '{}')::INTEGER, 120)
+  INTO v_minutes
+  FROM settings
+  WHERE key = 'order_auto_cancel_minutes';
+
+  v_minutes := COALESCE(v_minutes, 120);
+
+  -- 0 ou negativo desativa o cancelamento automático
+  IF v_minutes <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_order_id IN
+    SELECT id
+    FROM orders
+    WHERE status = 'pending'
+      AND created_at < NOW() - MAKE_INTERVAL(mins => v_minutes)
+    ORDER BY created_at
+  LOOP
+    BEGIN
+      PERFORM cancel_order(
+        v_order_id,
+        FORMAT('Cancelado automaticamente: pedido não confirmado em %s minutos', v_minutes),
+        'sistema',
+        'pending'
+      );
+      v_count := v_count + 1;
+    EXCEPTION
+      -- O pedido foi confirmado enquanto a rotina rodava: manter como está
+      WHEN raise_exception THEN
+        NULL;
+    END;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Agendada no banco (pg_cron) ou chamada pelo painel admin, com a chave anon
+GRANT EXECUTE ON FUNCTION cancel_expired_orders() TO anon, authenticated;
+
+COMMENT ON FUNCTION cancel_expired_orders() IS 'Cancela pedidos pendentes após o tempo configurado em settings';
+
+-- Agendamento (requer a extensão pg_cron, em Database > Extensions):
+-- SELECT cron.schedule('cancel-expired-orders', '*/10 * * * *', 'SELECT cancel_expired_orders()');
+
+-- Verificar as funções criadas
+SELECT routine_name, security_type
+FROM information_schema.routines
+WHERE routine_name IN ('cancel_order', 'cancel_expired_orders');
@@ -0,0 +1,161 @@
+-- ============================================
+-- Histórico de Status dos Pedidos
+-- ============================================
+-- Este script cria a tabela order_status_history, que registra cada
+-- mudança de status de um pedido (quem alterou, quando, de qual status
+-- para qual e uma observação opcional), e a função change_order_status,
+-- usada pelo painel admin para alterar o status.
+-- Execute no SQL Editor do Supabase, antes de create-order-function.sql
+-- ============================================
+
+-- ============================================
+-- TABELA: order_status_history
+-- ============================================
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  changed_by VARCHAR(255),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id
+  ON order_status_history(order_id, created_at);
+
+-- Leitura pelo painel admin, que usa a chave anon (como a leitura de
+-- orders, ver admin-orders-access.sql); as linhas são gravadas apenas
+-- pelas funções abaixo
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Order status history is viewable by authenticated users" ON order_status_history;
+DROP POLICY IF EXISTS "Order status history is viewable by the admin panel" ON order_status_history;
+
+CREATE POLICY "Order status history is viewable by the admin panel"
+  ON order_status_history FOR SELECT
+  USING (true);
+
+-- ============================================
+-- FUNÇÃO: order_status_history_json
+-- ============================================
+-- Histórico de um pedido em ordem cronológica, no formato usado pelas
+-- funções que retornam pedidos (chave "order_status_history").
+-- p_public = TRUE omite quem alterou e a observação (rastreamento do cliente).
+CREATE OR REPLACE FUNCTION order_status_history_json(p_order_id UUID, p_public BOOLEAN DEFAULT FALSE)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    CASE WHEN p_public
+      THEN to_jsonb(h) - 'changed_by' - 'note'
+      ELSE to_jsonb(h)
+    END
+    ORDER BY h.created_at
+  ), '[]'::JSONB)
+  FROM order_status_history h
+  WHERE h.order_id = p_order_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION order_status_history_json(UUID, BOOLEAN) FROM PUBLIC, anon;
+
+-- ============================================
+-- FUNÇÃO: change_order_status
+-- ============================================
+-- Altera o status do pedido e grava o histórico na mesma transação.
+--
+-- Só aceita as transições do fluxo (igual a src/lib/orderStatus.ts):
+--   pending -> confirmed | cancelled
+--   confirmed -> processing | cancelled
+--   processing -> shipped | cancelled
+--   shipped -> delivered
+-- A alteração só acontece se o pedido ainda estiver em p_from_status; se
+-- outra pessoa mudou o pedido antes, a função falha com HINT 'status_conflict'.
+-- Cancelamentos são repassados para cancel_order (order-cancellation.sql),
+-- que devolve o estoque; p_note é usado como motivo.
+CREATE OR REPLACE FUNCTION change_order_status(
+  p_order_id UUID,
+  p_from_status TEXT,
+  p_to_status TEXT,
+  p_changed_by TEXT DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_items JSONB;
+BEGIN
+  IF NOT (
+    (p_from_status = 'pending' AND p_to_status IN ('confirmed', 'cancelled'))
+    OR (p_from_status = 'confirmed' AND p_to_status IN ('processing', 'cancelled'))
+    OR (p_from_status = 'processing' AND p_to_status IN ('shipped', 'cancelled'))
+    OR (p_from_status = 'shipped' AND p_to_status = 'delivered')
+  ) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % -> %', p_from_status, p_to_status
+      USING ERRCODE = '22023',
+            HINT = 'invalid_transition';
+  END IF;
+
+  IF p_to_status = 'cancelled' THEN
+    RETURN cancel_order(p_order_id, p_note, p_changed_by, p_from_status);
+  END IF;
+
+  UPDATE orders
+  SET status = p_to_status
+  WHERE id = p_order_id
+    AND status = p_from_status
+  RETURNING * INTO v_order;
+
+  IF v_order.id IS NULL THEN
+    RAISE EXCEPTION 'O pedido não está mais no status %', p_from_status
+      USING ERRCODE = 'P0001',
+            HINT = 'status_conflict';
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (
+    v_order.id,
+    p_from_status,
+    p_to_status,
+    COALESCE(auth.email(), NULLIF(TRIM(p_changed_by), '')),
+    NULLIF(TRIM(p_note), '')
+  );
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at), '[]'::JSONB)
+  INTO v_items
+  FROM order_items oi
+  WHERE oi.order_id = v_order.id;
+
+  RETURN to_jsonb(v_order)
+    || jsonb_build_object(
+      'order_items', v_items,
+      'order_status_history', order_status_history_json(v_order.id)
+    );
+END;
+$$;
+
+-- Chamada pelo painel admin, que usa a chave anon (sem sessão no Supabase,
+-- quem alterou vem de p_changed_by)
+GRANT EXECUTE ON FUNCTION change_order_status(UUID, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE order_status_history IS 'Histórico de mudanças de status dos pedidos';
+COMMENT ON FUNCTION change_order_status(UUID, TEXT, TEXT, TEXT, TEXT) IS 'Altera o status do pedido validando a transição e registrando o histórico';
+
+-- Registrar o status atual dos pedidos que já existiam antes do histórico
+INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, created_at)
+SELECT o.id, NULL, o.status, NULL, o.created_at
+FROM orders o
+WHERE NOT EXISTS (
+  SELECT 1 FROM order_status_history h WHERE h.order_id = o.id
+);
+
+-- Verificar as funções criadas
+SELECT routine_name, security_type
+FROM information_schema.routines
+WHERE routine_name IN ('order_status_history_json', 'change_order_status');
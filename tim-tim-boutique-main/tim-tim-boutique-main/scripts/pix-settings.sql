@@ -0,0 +1,28 @@
+-- ============================================
+-- Dados PIX da Loja
+-- ============================================
+-- Este script cadastra na tabela settings os dados usados para gerar o
+-- PIX "copia e cola" e o QR Code dos pedidos pagos com PIX (página de
+-- confirmação e mensagem do WhatsApp).
+-- Execute no SQL Editor do Supabase e troque os valores abaixo pelos
+-- dados reais da loja.
+-- ============================================
+
+-- key: chave PIX (CPF/CNPJ, e-mail, telefone no formato +5581999999999
+--      ou chave aleatória)
+-- merchant_name: nome do recebedor (até 25 caracteres)
+-- merchant_city: cidade do recebedor (até 15 caracteres)
+--
+-- Enquanto a chave estiver vazia, o site não mostra o PIX copia e cola e
+-- a chave continua sendo enviada pelo WhatsApp.
+INSERT INTO settings (key, value) VALUES
+  ('pix', '{"key": "", "merchant_name": "Tim-Tim Bebidas", "merchant_city": "Recife"}'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Para atualizar depois:
+-- UPDATE settings
+-- SET value = jsonb_set(value, '{key}', '"contato@timtimbebidas.com"')
+-- WHERE key = 'pix';
+
+-- Verificar
+SELECT key, value FROM settings WHERE key = 'pix';
@@ -0,0 +1,78 @@
+-- ============================================
+-- Preços Promocionais dos Produtos
+-- ============================================
+-- Este script completa a coluna discount (percentual de desconto, 0 a 100)
+-- com um preço promocional fixo e o período da promoção. Cada produto tem
+-- no máximo uma promoção: percentual (discount) ou preço fixo (sale_price).
+--
+-- O preço promocional fixo vale só para produtos sem variantes; nos
+-- produtos com variantes o percentual vale para o preço de cada variante.
+-- Sem datas, a promoção vale enquanto estiver cadastrada.
+-- Execute no SQL Editor do Supabase, depois de product-variants.sql e antes
+-- de product-search.sql e create-order-function.sql
+-- ============================================
+
+-- Adicionar preço promocional fixo (R$)
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS sale_price DECIMAL(10, 2);
+
+-- Adicionar período da promoção (vazio = sem limite)
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS sale_starts_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS sale_ends_at TIMESTAMP WITH TIME ZONE;
+
+-- Percentual entre 0 e 100, preço fixo abaixo do preço normal, uma promoção por vez
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_sale_check;
+ALTER TABLE products ADD CONSTRAINT products_sale_check CHECK (
+  (discount IS NULL OR discount BETWEEN 0 AND 100) AND
+  (sale_price IS NULL OR (sale_price > 0 AND sale_price < price)) AND
+  (sale_price IS NULL OR COALESCE(discount, 0) = 0) AND
+  (sale_starts_at IS NULL OR sale_ends_at IS NULL OR sale_ends_at > sale_starts_at)
+);
+
+-- ============================================
+-- FUNÇÃO: product_effective_price
+-- ============================================
+-- Preço cobrado agora: o preço promocional enquanto a promoção vale, o
+-- preço normal fora dela. Mesmas regras de getSalePrice (src/lib/salePricing.ts).
+-- p_price: preço normal da variante (vazio = preço do produto)
+CREATE OR REPLACE FUNCTION product_effective_price(p products, p_price DECIMAL DEFAULT NULL)
+RETURNS DECIMAL(10, 2)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    -- Fora do período da promoção
+    WHEN (p.sale_starts_at IS NOT NULL AND NOW() < p.sale_starts_at)
+      OR (p.sale_ends_at IS NOT NULL AND NOW() > p.sale_ends_at)
+      THEN COALESCE(p_price, p.price)
+    -- Preço fixo: só para produtos sem variantes
+    WHEN p.sale_price > 0
+      THEN CASE
+        WHEN EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = p.id)
+          THEN COALESCE(p_price, p.price)
+        ELSE LEAST(p.sale_price, COALESCE(p_price, p.price))
+      END
+    WHEN p.discount > 0
+      THEN ROUND(COALESCE(p_price, p.price) * (100 - LEAST(p.discount, 100)) / 100, 2)
+    ELSE COALESCE(p_price, p.price)
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION product_effective_price(products, DECIMAL) TO anon, authenticated;
+
+-- Comentários nas colunas
+COMMENT ON COLUMN products.discount IS 'Desconto promocional em % (0 = sem desconto)';
+COMMENT ON COLUMN products.sale_price IS 'Preço promocional fixo, em R$ (vazio = sem preço fixo; só para produtos sem variantes)';
+COMMENT ON COLUMN products.sale_starts_at IS 'Início da promoção (vazio = já vale)';
+COMMENT ON COLUMN products.sale_ends_at IS 'Fim da promoção (vazio = sem data para acabar)';
+
+-- Verificar as colunas adicionadas
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'products'
+  AND column_name IN ('discount', 'sale_price', 'sale_starts_at', 'sale_ends_at')
+ORDER BY ordinal_position;
@@ -0,0 +1,461 @@
+-- ============================================
+-- Busca de Produtos
+-- ============================================
+-- Este script cria a busca usada pela barra de busca e pelo catálogo:
+-- - ignora acentos: "cachaca" encontra "Cachaça" (extensão unaccent);
+-- - compara radicais em português: "tintos" encontra "Vinho Tinto";
+-- - tolera erros de digitação: "espumate" encontra "Espumante" (pg_trgm);
+-- - ordena por relevância: o nome pesa mais que a descrição;
+-- - sinônimos e redirecionamentos cadastrados no painel (/admin/configuracoes/busca);
+-- - registra as buscas sem resultado, para saber quais sinônimos faltam;
+-- - filtros do catálogo com contagem por opção (uva, região, produtor...).
+-- Execute no SQL Editor do Supabase, depois de add-product-details-columns.sql,
+-- product-variants.sql e product-sale-pricing.sql
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- ============================================
+-- NORMALIZAÇÃO DO TEXTO
+-- ============================================
+-- Minúsculas e sem acentos. IMMUTABLE para poder ser usada nos índices
+-- (a unaccent() da extensão é apenas STABLE)
+CREATE OR REPLACE FUNCTION search_normalize(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = public, extensions
+AS $$
+  SELECT lower(extensions.unaccent('extensions.unaccent'::REGDICTIONARY, COALESCE(p_text, '')));
+$$;
+
+-- Configuração de busca em português sem acentos (radicais do dicionário portuguese)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'portuguese_unaccent') THEN
+    CREATE TEXT SEARCH CONFIGURATION public.portuguese_unaccent (COPY = pg_catalog.portuguese);
+    ALTER TEXT SEARCH CONFIGURATION public.portuguese_unaccent
+      ALTER MAPPING FOR hword, hword_part, word
+      WITH extensions.unaccent, portuguese_stem;
+  END IF;
+END $$;
+
+-- ============================================
+-- COLUNAS DE BUSCA
+-- ============================================
+-- search_vector: palavras com radical, com peso por campo
+--   A = nome e produtor, B = categoria, país, região e uvas,
+--   C = notas de degustação e harmonização, D = descrição
+-- search_text: nome, produtor, categoria, país, região e uvas normalizados,
+--   usado na busca por trecho ("vi" -> "Vinho") e na tolerância a erros
+-- alcohol_percent: teor alcoólico em número ("13,5% vol." -> 13.5), para o
+--   filtro por faixa de teor do catálogo
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS alcohol_percent DECIMAL(4, 1);
+
+CREATE OR REPLACE FUNCTION products_search_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('public.portuguese_unaccent', concat_ws(' ', NEW.name, NEW.producer)), 'A') ||
+    setweight(to_tsvector('public.portuguese_unaccent', concat_ws(' ',
+      NEW.category, NEW.country, NEW.region, array_to_string(NEW.grapes, ' ')
+    )), 'B') ||
+    setweight(to_tsvector('public.portuguese_unaccent', concat_ws(' ',
+      array_to_string(NEW.tasting_notes, ' '), array_to_string(NEW.pairing, ' ')
+    )), 'C') ||
+    setweight(to_tsvector('public.portuguese_unaccent', COALESCE(NEW.description, '')), 'D');
+
+  NEW.search_text := search_normalize(concat_ws(' ',
+    NEW.name, NEW.producer, NEW.category, NEW.country, NEW.region, array_to_string(NEW.grapes, ' ')
+  ));
+
+  NEW.alcohol_percent := substring(replace(NEW.alcohol_content, ',', '.') FROM '[0-9]+(?:\.[0-9]+)?')::DECIMAL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_search_update ON products;
+CREATE TRIGGER products_search_update
+  BEFORE INSERT OR UPDATE ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION products_search_update();
+
+-- Preencher os produtos já cadastrados (o trigger recalcula as colunas)
+UPDATE products SET search_text = NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector
+  ON products USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_products_search_text
+  ON products USING GIN (search_text extensions.gin_trgm_ops);
+
+-- ============================================
+-- TABELAS: sinônimos, redirecionamentos e buscas sem resultado
+-- ============================================
+-- Grupos de termos equivalentes: buscar qualquer um deles encontra os
+-- produtos de todos ("champanhe", "champagne", "espumante", "prosecco")
+CREATE TABLE IF NOT EXISTS search_synonyms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  terms TEXT[] NOT NULL CHECK (cardinality(terms) >= 2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Buscas que levam direto a uma página ("kit presente" -> /catalogo?categoria=kit)
+CREATE TABLE IF NOT EXISTS search_redirects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  query TEXT NOT NULL,
+  url TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_redirects_query
+  ON search_redirects (search_normalize(query));
+
+-- Buscas do catálogo que não encontraram nenhum produto (uma linha por termo)
+CREATE TABLE IF NOT EXISTS search_misses (
+  term TEXT PRIMARY KEY, -- Termo normalizado (sem acentos, minúsculo)
+  query TEXT NOT NULL, -- Como o cliente digitou da última vez
+  searches INTEGER NOT NULL DEFAULT 1,
+  last_searched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- O painel admin usa a chave anon (mesmo acesso de products, ver fix-rls-policies.sql);
+-- as buscas sem resultado são gravadas apenas pela função log_search_miss
+ALTER TABLE search_synonyms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_redirects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE search_misses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on search_synonyms" ON search_synonyms;
+CREATE POLICY "Allow all operations on search_synonyms"
+  ON search_synonyms FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Redirecionamentos: leitura pública; gravação só de páginas da loja
+-- ("/catalogo?..."): "//site" e "/\site" abririam outro site
+DROP POLICY IF EXISTS "Allow all operations on search_redirects" ON search_redirects;
+DROP POLICY IF EXISTS "Search redirects are viewable by everyone" ON search_redirects;
+CREATE POLICY "Search redirects are viewable by everyone"
+  ON search_redirects FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Search redirects to store pages can be saved" ON search_redirects;
+CREATE POLICY "Search redirects to store pages can be saved"
+  ON search_redirects FOR INSERT
+  WITH CHECK (url ~ '^/([^/\\\s]\S*)?$');
+
+DROP POLICY IF EXISTS "Search redirects to store pages can be updated" ON search_redirects;
+CREATE POLICY "Search redirects to store pages can be updated"
+  ON search_redirects FOR UPDATE
+  USING (true)
+  WITH CHECK (url ~ '^/([^/\\\s]\S*)?$');
+
+DROP POLICY IF EXISTS "Search redirects can be deleted" ON search_redirects;
+CREATE POLICY "Search redirects can be deleted"
+  ON search_redirects FOR DELETE
+  USING (true);
+
+DROP POLICY IF EXISTS "Search misses are viewable by everyone" ON search_misses;
+CREATE POLICY "Search misses are viewable by everyone"
+  ON search_misses FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Search misses can be deleted" ON search_misses;
+CREATE POLICY "Search misses can be deleted"
+  ON search_misses FOR DELETE
+  USING (true);
+
+-- ============================================
+-- FUNÇÃO: log_search_miss
+-- ============================================
+-- Conta uma busca sem resultado (termos vazios ou muito longos são ignorados)
+CREATE OR REPLACE FUNCTION log_search_miss(p_query TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  INSERT INTO search_misses (term, query)
+  SELECT search_normalize(trim(p_query)), trim(p_query)
+  WHERE length(trim(COALESCE(p_query, ''))) BETWEEN 2 AND 100
+  ON CONFLICT (term) DO UPDATE
+  SET query = EXCLUDED.query,
+      searches = search_misses.searches + 1,
+      last_searched_at = NOW();
+$$;
+
+GRANT EXECUTE ON FUNCTION log_search_miss(TEXT) TO anon, authenticated;
+
+-- ============================================
+-- FUNÇÃO: search_product_matches
+-- ============================================
+-- Produtos encontrados pelo termo de busca, com a relevância de cada um.
+-- O termo chega como parâmetro (nunca concatenado em filtros), e um
+-- produto é encontrado quando, para o termo ou um de seus sinônimos:
+-- - as palavras do termo batem com as palavras do produto (com radical);
+-- - o termo aparece como trecho do nome, categoria, país etc.;
+-- - o termo é parecido o bastante com esses campos (erros de digitação).
+-- Sem termo, todos os produtos (relevância 0).
+--
+-- p_synonyms: variações do termo com sinônimos, montadas pelo site a partir
+--   de search_synonyms ("champanhe brut" -> {"espumante brut", ...})
+CREATE OR REPLACE FUNCTION search_product_matches(p_query TEXT, p_synonyms TEXT[] DEFAULT NULL)
+RETURNS TABLE (id UUID, relevance DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH search AS (
+    -- O termo e suas variações com sinônimos
+    SELECT DISTINCT
+      search_normalize(trim(t)) AS term,
+      websearch_to_tsquery('public.portuguese_unaccent', search_normalize(trim(t))) AS query
+    FROM unnest(ARRAY[p_query] || COALESCE(p_synonyms, '{}'::TEXT[])) AS t
+    WHERE search_normalize(trim(t)) <> ''
+  )
+  SELECT p.id, COALESCE(r.relevance, 0)
+  FROM products p
+  -- Melhor relevância entre as variações encontradas (NULL = nenhuma)
+  LEFT JOIN LATERAL (
+    SELECT max(
+      ts_rank_cd(p.search_vector, s.query) * 2
+      + word_similarity(s.term, p.search_text)
+      + CASE WHEN starts_with(search_normalize(p.name), s.term) THEN 1 ELSE 0 END
+    )::DOUBLE PRECISION AS relevance
+    FROM search s
+    WHERE p.search_vector @@ s.query
+      OR strpos(p.search_text, s.term) > 0
+      OR (length(s.term) >= 3 AND s.term <% p.search_text)
+  ) r ON TRUE
+  WHERE NOT EXISTS (SELECT 1 FROM search) OR r.relevance IS NOT NULL;
+$$;
+
+-- ============================================
+-- FUNÇÃO: product_matches_filters
+-- ============================================
+-- Se o produto atende aos filtros do catálogo. p_filters (chaves opcionais):
+--   {"categories": ["vinho"], "countries": [...], "regions": [...],
+--    "grapes": [...], "producers": [...], "volumes": [...],
+--    "min_price": 50, "max_price": 200, "min_alcohol": 12, "max_alcohol": 14,
+--    "featured": true}
+-- Várias opções do mesmo filtro valem como "ou"; filtros diferentes, como "e".
+-- O preço é o cobrado agora (promocional, se houver: product_effective_price).
+-- p_skip ignora um filtro ('categories', ..., 'price', 'alcohol'): a contagem
+-- de cada opção considera os outros filtros, não as opções já marcadas nele.
+CREATE OR REPLACE FUNCTION filter_values(p_values JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY(
+    SELECT jsonb_array_elements_text(CASE WHEN jsonb_typeof(p_values) = 'array' THEN p_values ELSE '[]' END)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION product_matches_filters(p products, p_filters JSONB, p_skip TEXT DEFAULT '')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (p_skip = 'categories' OR cardinality(filter_values(p_filters->'categories')) = 0
+      OR p.category = ANY (filter_values(p_filters->'categories')))
+    AND (p_skip = 'countries' OR cardinality(filter_values(p_filters->'countries')) = 0
+      OR p.country = ANY (filter_values(p_filters->'countries')))
+    AND (p_skip = 'regions' OR cardinality(filter_values(p_filters->'regions')) = 0
+      OR p.region = ANY (filter_values(p_filters->'regions')))
+    AND (p_skip = 'grapes' OR cardinality(filter_values(p_filters->'grapes')) = 0
+      OR COALESCE(p.grapes && filter_values(p_filters->'grapes'), FALSE))
+    AND (p_skip = 'producers' OR cardinality(filter_values(p_filters->'producers')) = 0
+      OR p.producer = ANY (filter_values(p_filters->'producers')))
+    AND (p_skip = 'volumes' OR cardinality(filter_values(p_filters->'volumes')) = 0
+      OR p.volume = ANY (filter_values(p_filters->'volumes')))
+    AND (p_skip = 'price' OR (
+      (p_filters->>'min_price' IS NULL OR product_effective_price(p) >= (p_filters->>'min_price')::NUMERIC)
+      AND (p_filters->>'max_price' IS NULL OR product_effective_price(p) <= (p_filters->>'max_price')::NUMERIC)
+    ))
+    AND (p_skip = 'alcohol' OR (
+      (p_filters->>'min_alcohol' IS NULL OR COALESCE(p.alcohol_percent >= (p_filters->>'min_alcohol')::NUMERIC, FALSE))
+      AND (p_filters->>'max_alcohol' IS NULL OR COALESCE(p.alcohol_percent <= (p_filters->>'max_alcohol')::NUMERIC, FALSE))
+    ))
+    AND (p_filters->>'featured' IS NULL OR p.featured = (p_filters->>'featured')::BOOLEAN);
+$$;
+
+-- ============================================
+-- FUNÇÃO: search_products
+-- ============================================
+-- Busca, filtra, ordena e pagina os produtos em uma única chamada.
+--
+-- p_filters: filtros do catálogo (ver product_matches_filters)
+-- p_sort: 'relevance', 'newest', 'price-asc', 'price-desc' ou 'name-asc'
+--         (preço promocional, se houver)
+--
+-- Retorna: {"total": 42, "products": [{...linha de products..., "product_variants": [...]}, ...]}
+
+-- Versões anteriores, com um parâmetro por filtro
+DROP FUNCTION IF EXISTS search_products(TEXT, TEXT, TEXT, NUMERIC, NUMERIC, BOOLEAN, TEXT, INTEGER, INTEGER);
+DROP FUNCTION IF EXISTS search_products(TEXT, TEXT, TEXT, NUMERIC, NUMERIC, BOOLEAN, TEXT, INTEGER, INTEGER, TEXT[]);
+
+CREATE OR REPLACE FUNCTION search_products(
+  p_query TEXT DEFAULT NULL,
+  p_filters JSONB DEFAULT '{}',
+  p_sort TEXT DEFAULT 'newest',
+  p_limit INTEGER DEFAULT 12,
+  p_offset INTEGER DEFAULT 0,
+  p_synonyms TEXT[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH matches AS (
+    SELECT p.*, m.relevance, product_effective_price(p) AS effective_price
+    FROM products p
+    JOIN search_product_matches(p_query, p_synonyms) m ON m.id = p.id
+    WHERE product_matches_filters(p, COALESCE(p_filters, '{}'))
+  ),
+  page AS (
+    SELECT
+      matches.*,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN p_sort = 'relevance' THEN relevance END DESC,
+          CASE WHEN p_sort = 'price-asc' THEN effective_price END ASC,
+          CASE WHEN p_sort = 'price-desc' THEN effective_price END DESC,
+          CASE WHEN p_sort = 'name-asc' THEN name END ASC,
+          created_at DESC,
+          id
+      ) AS position
+    FROM matches
+    ORDER BY position
+    LIMIT LEAST(GREATEST(p_limit, 1), 100)
+    OFFSET GREATEST(p_offset, 0)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matches),
+    'products', COALESCE(
+      (SELECT jsonb_agg(
+        to_jsonb(page) - 'search_vector' - 'search_text' - 'alcohol_percent' - 'relevance' - 'effective_price' - 'position'
+          || jsonb_build_object('product_variants', product_variants_json(page.id))
+        ORDER BY position
+      ) FROM page),
+      '[]'::JSONB
+    )
+  );
+$$;
+
+-- ============================================
+-- FUNÇÃO: search_product_facets
+-- ============================================
+-- Opções dos filtros do catálogo para a busca atual, com a quantidade de
+-- produtos de cada uma, e as faixas reais de preço (promocional, se houver)
+-- e teor alcoólico.
+--
+-- Retorna: {"categories": [{"value": "vinho", "count": 12}, ...],
+--           "countries": [...], "regions": [...], "grapes": [...],
+--           "producers": [...], "volumes": [...],
+--           "price": {"min": 39.9, "max": 890}, "alcohol": {"min": 5, "max": 43}}
+CREATE OR REPLACE FUNCTION search_product_facets(
+  p_query TEXT DEFAULT NULL,
+  p_filters JSONB DEFAULT '{}',
+  p_synonyms TEXT[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH found AS (
+    SELECT p.*
+    FROM products p
+    JOIN search_product_matches(p_query, p_synonyms) m ON m.id = p.id
+  ),
+  -- Uma linha por produto e opção de cada filtro, com os demais filtros aplicados
+  options AS (
+    SELECT 'categories' AS facet, f.category AS value
+    FROM found f WHERE product_matches_filters(f::products, p_filters, 'categories')
+    UNION ALL
+    SELECT 'countries', f.country
+    FROM found f WHERE product_matches_filters(f::products, p_filters, 'countries')
+    UNION ALL
+    SELECT 'regions', f.region
+    FROM found f WHERE product_matches_filters(f::products, p_filters, 'regions')
+    UNION ALL
+    SELECT 'grapes', grape
+    FROM found f, unnest(f.grapes) AS grape WHERE product_matches_filters(f::products, p_filters, 'grapes')
+    UNION ALL
+    SELECT 'producers', f.producer
+    FROM found f WHERE product_matches_filters(f::products, p_filters, 'producers')
+    UNION ALL
+    SELECT 'volumes', f.volume
+    FROM found f WHERE product_matches_filters(f::products, p_filters, 'volumes')
+  ),
+  counts AS (
+    SELECT facet, jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value) AS items
+    FROM (
+      SELECT facet, trim(value) AS value, count(*) AS total
+      FROM options
+      WHERE trim(COALESCE(value, '')) <> ''
+      GROUP BY facet, trim(value)
+    ) grouped
+    GROUP BY facet
+  )
+  SELECT
+    jsonb_build_object(
+      'categories', '[]'::JSONB, 'countries', '[]'::JSONB, 'regions', '[]'::JSONB,
+      'grapes', '[]'::JSONB, 'producers', '[]'::JSONB, 'volumes', '[]'::JSONB
+    )
+    || COALESCE((SELECT jsonb_object_agg(facet, items) FROM counts), '{}'::JSONB)
+    || jsonb_build_object(
+      'price', (
+        SELECT jsonb_build_object(
+          'min', min(product_effective_price(f::products)),
+          'max', max(product_effective_price(f::products))
+        )
+        FROM found f WHERE product_matches_filters(f::products, p_filters, 'price')
+      ),
+      'alcohol', (
+        SELECT jsonb_build_object('min', min(f.alcohol_percent), 'max', max(f.alcohol_percent))
+        FROM found f WHERE product_matches_filters(f::products, p_filters, 'alcohol')
+      )
+    );
+$$;
+
+-- SECURITY INVOKER: a leitura continua sujeita às políticas RLS de products
+GRANT EXECUTE ON FUNCTION search_products(TEXT, JSONB, TEXT, INTEGER, INTEGER, TEXT[])
+  TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_product_facets(TEXT, JSONB, TEXT[])
+  TO anon, authenticated;
+
+COMMENT ON FUNCTION search_products(TEXT, JSONB, TEXT, INTEGER, INTEGER, TEXT[])
+  IS 'Busca de produtos sem acentos, com radicais em português e tolerante a erros de digitação';
+COMMENT ON FUNCTION search_product_facets(TEXT, JSONB, TEXT[])
+  IS 'Opções dos filtros do catálogo com a quantidade de produtos de cada uma';
+
+-- Sinônimos iniciais (apenas se ainda não houver nenhum)
+INSERT INTO search_synonyms (terms)
+SELECT terms
+FROM (VALUES
+  (ARRAY['espumante', 'champanhe', 'champagne', 'prosecco', 'cava']),
+  (ARRAY['whisky', 'whiskey', 'uísque'])
+) AS initial(terms)
+WHERE NOT EXISTS (SELECT 1 FROM search_synonyms);
+
+-- Verificar a busca e os filtros
+SELECT search_products('espumate', p_limit => 3);
+SELECT search_product_facets('vinho');
@@ -0,0 +1,44 @@
+-- ============================================
+-- Peso e Dimensões da Embalagem dos Produtos
+-- ============================================
+-- Este script adiciona o peso e as dimensões da embalagem de cada produto,
+-- usados no cálculo do frete. Produtos sem peso usam o peso padrão por
+-- garrafa das configurações de frete (shipping_weight_per_bottle).
+-- Execute no SQL Editor do Supabase
+-- ============================================
+
+-- Adicionar coluna de peso (kg, embalagem incluída)
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS weight_kg DECIMAL(6, 3);
+
+-- Adicionar colunas de dimensões da embalagem (cm)
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS length_cm DECIMAL(6, 1);
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS width_cm DECIMAL(6, 1);
+
+ALTER TABLE products
+ADD COLUMN IF NOT EXISTS height_cm DECIMAL(6, 1);
+
+-- Valores positivos quando preenchidos
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_shipping_dimensions_check;
+ALTER TABLE products ADD CONSTRAINT products_shipping_dimensions_check CHECK (
+  (weight_kg IS NULL OR weight_kg > 0) AND
+  (length_cm IS NULL OR length_cm > 0) AND
+  (width_cm IS NULL OR width_cm > 0) AND
+  (height_cm IS NULL OR height_cm > 0)
+);
+
+-- Comentários nas novas colunas
+COMMENT ON COLUMN products.weight_kg IS 'Peso da unidade com embalagem, em kg (vazio = peso padrão por garrafa)';
+COMMENT ON COLUMN products.length_cm IS 'Comprimento da embalagem, em cm';
+COMMENT ON COLUMN products.width_cm IS 'Largura da embalagem, em cm';
+COMMENT ON COLUMN products.height_cm IS 'Altura da embalagem, em cm';
+
+-- Verificar as colunas adicionadas
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'products'
+  AND column_name IN ('weight_kg', 'length_cm', 'width_cm', 'height_cm')
+ORDER BY ordinal_position;
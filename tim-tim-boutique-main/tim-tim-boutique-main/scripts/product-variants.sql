@@ -0,0 +1,201 @@
+-- ============================================
+-- Variantes dos Produtos (volume/tamanho)
+-- ============================================
+-- Este script cria a tabela product_variants: o mesmo whisky vendido em
+-- 750 ml e 1 L, o mesmo vinho em 375 ml e magnum. Cada variante tem SKU,
+-- volume, preço, estoque e imagem (opcional) próprios. Também cria a função
+-- save_product_variants, usada pelo painel admin para salvar as variantes.
+--
+-- Produtos sem variantes continuam usando o preço e o estoque do produto.
+-- Nos produtos com variantes, products.price passa a ser o menor preço e
+-- products.stock a soma dos estoques das variantes (mantidos pelo trigger
+-- abaixo), então o catálogo, os filtros e a ordenação continuam iguais.
+-- Execute no SQL Editor do Supabase, antes de product-sale-pricing.sql,
+-- product-search.sql, stock-functions.sql, order-cancellation.sql e
+-- create-order-function.sql
+-- ============================================
+
+-- ============================================
+-- TABELA: product_variants
+-- ============================================
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  sku VARCHAR(64) NOT NULL CHECK (TRIM(sku) <> ''),
+  volume VARCHAR(50) NOT NULL CHECK (TRIM(volume) <> ''),
+  price DECIMAL(10, 2) NOT NULL CHECK (price > 0),
+  stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
+  image_url TEXT, -- Vazio = imagem do produto
+  position INTEGER NOT NULL DEFAULT 0, -- Ordem no seletor da página do produto
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- O SKU identifica a variante no estoque: único na loja, sem diferenciar maiúsculas
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_sku
+  ON product_variants (UPPER(sku));
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id
+  ON product_variants (product_id, position);
+
+-- Mesmo acesso de products (ver fix-rls-policies.sql): o painel admin usa a chave anon
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on product_variants" ON product_variants;
+CREATE POLICY "Allow all operations on product_variants"
+  ON product_variants FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================
+-- TRIGGER: preço e estoque do produto
+-- ============================================
+-- Depois de qualquer alteração nas variantes (inclusive a baixa de estoque
+-- de um pedido), o produto recebe o menor preço e a soma dos estoques.
+CREATE OR REPLACE FUNCTION sync_product_from_variants()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Produto da variante (e o anterior, se a variante mudou de produto);
+  -- produtos que ficaram sem variantes mantêm o último preço e estoque
+  UPDATE products p
+  SET price = summary.price,
+      stock = summary.stock,
+      updated_at = NOW()
+  FROM (
+    SELECT product_id, MIN(price) AS price, SUM(stock) AS stock
+    FROM product_variants
+    WHERE product_id IN (NEW.product_id, OLD.product_id)
+    GROUP BY product_id
+  ) AS summary
+  WHERE p.id = summary.product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS product_variants_sync_product ON product_variants;
+CREATE TRIGGER product_variants_sync_product
+  AFTER INSERT OR UPDATE OR DELETE ON product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_product_from_variants();
+
+-- ============================================
+-- FUNÇÃO: product_variants_json
+-- ============================================
+-- Variantes de um produto na ordem do seletor, no formato usado pelas
+-- funções que retornam produtos (chave "product_variants", igual a um
+-- select com join).
+CREATE OR REPLACE FUNCTION product_variants_json(p_product_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(to_jsonb(v) ORDER BY v.position, v.created_at), '[]'::JSONB)
+  FROM product_variants v
+  WHERE v.product_id = p_product_id;
+$$;
+
+-- ============================================
+-- FUNÇÃO: save_product_variants
+-- ============================================
+-- Usada pelo painel admin para salvar a lista de variantes de um produto
+-- de uma vez só: remove as que saíram da lista, atualiza as mantidas e
+-- insere as novas (sem "id"), com a posição na ordem recebida. Tudo roda
+-- na mesma transação, então se um passo falhar (ex: SKU repetido) nenhuma
+-- variante é alterada.
+--
+-- Cada item: {"id", "sku", "volume", "price", "stock", "image_url"}
+CREATE OR REPLACE FUNCTION save_product_variants(p_product_id UUID, p_variants JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_position INTEGER;
+  v_id UUID;
+BEGIN
+  IF jsonb_typeof(p_variants) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Variantes inválidas'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Removidas primeiro: uma variante nova pode reusar o SKU de uma removida
+  DELETE FROM product_variants v
+  WHERE v.product_id = p_product_id
+    AND v.id NOT IN (
+      SELECT (item->>'id')::UUID
+      FROM jsonb_array_elements(p_variants) AS item
+      WHERE NULLIF(item->>'id', '') IS NOT NULL
+    );
+
+  -- SKU provisório (o próprio id) nas mantidas, para que duas variantes
+  -- possam trocar de SKU sem esbarrar no índice único
+  UPDATE product_variants
+  SET sku = id::TEXT
+  WHERE product_id = p_product_id;
+
+  FOR v_item, v_position IN
+    SELECT value, (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_variants) WITH ORDINALITY
+  LOOP
+    v_id := NULLIF(v_item->>'id', '')::UUID;
+
+    IF v_id IS NULL THEN
+      INSERT INTO product_variants (product_id, sku, volume, price, stock, image_url, position)
+      VALUES (
+        p_product_id,
+        v_item->>'sku',
+        v_item->>'volume',
+        (v_item->>'price')::DECIMAL,
+        (v_item->>'stock')::INTEGER,
+        NULLIF(v_item->>'image_url', ''),
+        v_position
+      );
+    ELSE
+      UPDATE product_variants
+      SET sku = v_item->>'sku',
+          volume = v_item->>'volume',
+          price = (v_item->>'price')::DECIMAL,
+          stock = (v_item->>'stock')::INTEGER,
+          image_url = NULLIF(v_item->>'image_url', ''),
+          position = v_position,
+          updated_at = NOW()
+      WHERE id = v_id
+        AND product_id = p_product_id;
+
+      -- Variante de outro produto (ou já removida)
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variante não encontrada: %', v_id
+          USING ERRCODE = 'P0002';
+      END IF;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Mesmo acesso da tabela: o painel admin usa a chave anon
+GRANT EXECUTE ON FUNCTION save_product_variants(UUID, JSONB) TO anon, authenticated;
+
+-- ============================================
+-- ITENS DOS PEDIDOS
+-- ============================================
+-- Variante comprada (vazia para produtos sem variantes). O nome do item
+-- já inclui o volume ("Johnnie Walker Black Label (1 L)").
+ALTER TABLE order_items
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL;
+
+-- Comentários
+COMMENT ON TABLE product_variants IS 'Variantes de volume/tamanho dos produtos, com SKU, preço e estoque próprios';
+COMMENT ON COLUMN product_variants.image_url IS 'Imagem da variante (vazio = imagem do produto)';
+COMMENT ON COLUMN order_items.variant_id IS 'Variante comprada (vazio = produto sem variantes)';
+
+-- Verificar a tabela criada
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'product_variants'
+ORDER BY ordinal_position;
@@ -0,0 +1,119 @@
+-- ============================================
+-- Regras de Frete
+-- ============================================
+-- Este script cadastra na tabela settings as regras de frete que ainda não
+-- existirem. O site lê esses valores ao calcular o frete; se alguma
+-- configuração estiver ausente ou inválida, usa o valor padrão. Também cria
+-- a função save_shipping_settings, usada pelo painel admin para salvar.
+-- Execute no SQL Editor do Supabase.
+-- ============================================
+
+-- shipping_cities: cidades atendidas (maiúsculas e acentos são ignorados)
+-- shipping_free_threshold: subtotal (R$) a partir do qual o frete é grátis
+-- shipping_base_cost: frete base (R$), já inclui a primeira garrafa
+-- shipping_cost_per_kg: valor (R$) por kg adicional
+-- shipping_weight_per_bottle: peso (kg) de cada garrafa
+-- shipping_delivery_hours: prazo de entrega (horas)
+-- shipping_zones: regiões com preço próprio (veja abaixo)
+INSERT INTO settings (key, value) VALUES
+  ('shipping_cities', '["Recife", "Olinda", "Jaboatão dos Guararapes", "Camaragibe"]'),
+  ('shipping_free_threshold', '200.00'),
+  ('shipping_base_cost', '15.00'),
+  ('shipping_cost_per_kg', '5.00'),
+  ('shipping_weight_per_bottle', '1.5'),
+  ('shipping_delivery_hours', '2'),
+  ('shipping_zones', '[]')
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- Regiões de entrega (shipping_zones)
+-- ============================================
+-- Cada região é definida por faixas de CEP e/ou nomes de bairro e tem seu
+-- próprio frete base, valor por kg, frete grátis e prazo. Valores omitidos
+-- usam as regras gerais acima. Se o endereço se encaixar em mais de uma
+-- região, vale o bairro; entre faixas de CEP, vale a mais estreita.
+-- Endereços fora de todas as regiões usam as regras gerais.
+--
+-- UPDATE settings SET value = '[
+--   {
+--     "name": "Zona Sul",
+--     "cep_ranges": [{"start": "51000-000", "end": "51349-999"}],
+--     "neighborhoods": [],
+--     "base_cost": 10.00,
+--     "cost_per_kg": 4.00,
+--     "free_threshold": 150.00,
+--     "delivery_hours": 1
+--   },
+--   {
+--     "name": "Região Metropolitana",
+--     "cep_ranges": [{"start": "53000-000", "end": "54999-999"}],
+--     "neighborhoods": ["Aldeia"],
+--     "base_cost": 25.00,
+--     "delivery_hours": 3
+--   }
+-- ]'
+-- WHERE key = 'shipping_zones';
+
+-- ============================================
+-- FUNÇÃO: save_shipping_settings
+-- ============================================
+-- Usada pelo painel admin (/admin/configuracoes/entrega) para gravar as
+-- regras de frete e o horário de funcionamento de uma vez só: todas as
+-- chaves são gravadas na mesma transação (criadas se ainda não existirem)
+-- e a função retorna quantas foram gravadas. Chaves fora da lista abaixo
+-- são recusadas, então a função não altera outras configurações (PIX,
+-- retirada, etc.).
+--
+-- SECURITY DEFINER: o painel admin usa a chave anon (sem sessão no
+-- Supabase), e o RLS de settings só libera UPDATE para usuários
+-- autenticados.
+CREATE OR REPLACE FUNCTION save_shipping_settings(p_values JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF jsonb_typeof(p_values) IS DISTINCT FROM 'object' OR EXISTS (
+    SELECT 1
+    FROM jsonb_object_keys(p_values) AS k(key)
+    WHERE k.key <> ALL (ARRAY[
+      'shipping_cities',
+      'shipping_free_threshold',
+      'shipping_base_cost',
+      'shipping_cost_per_kg',
+      'shipping_weight_per_bottle',
+      'shipping_delivery_hours',
+      'shipping_zones',
+      'store_hours'
+    ])
+  ) THEN
+    RAISE EXCEPTION 'Configurações de frete inválidas'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO settings (key, value, updated_at)
+  SELECT key, value, NOW()
+  FROM jsonb_each(p_values)
+  ON CONFLICT (key) DO UPDATE
+  SET value = EXCLUDED.value,
+      updated_at = EXCLUDED.updated_at;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_shipping_settings(JSONB) TO anon, authenticated;
+
+-- Exemplos de alteração:
+-- UPDATE settings
+-- SET value = value || '["Paulista"]'::jsonb
+-- WHERE key = 'shipping_cities';
+--
+-- UPDATE settings SET value = '150.00' WHERE key = 'shipping_free_threshold';
+
+-- Verificar
+SELECT key, value FROM settings WHERE key LIKE 'shipping_%' ORDER BY key;
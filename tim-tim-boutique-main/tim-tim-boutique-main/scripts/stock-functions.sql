@@ -0,0 +1,121 @@
+-- ============================================
+-- Baixa Atômica de Estoque
+-- ============================================
+-- Este script cria a função decrement_stock, que baixa o estoque de
+-- um carrinho inteiro em uma única chamada. Substitui o antigo fluxo
+-- "ler estoque -> subtrair no app -> gravar", que permitia que dois
+-- clientes comprassem a última garrafa ao mesmo tempo.
+-- Produtos com variantes (product-variants.sql) têm o estoque baixado
+-- em cada variante.
+-- Execute no SQL Editor do Supabase, depois de product-variants.sql
+-- ============================================
+
+-- ============================================
+-- FUNÇÃO: stock_request_lines
+-- ============================================
+-- Linhas de um array de itens somadas por produto e variante
+-- (o mesmo item pode aparecer repetido).
+CREATE OR REPLACE FUNCTION stock_request_lines(p_items JSONB)
+RETURNS TABLE (product_id UUID, variant_id UUID, quantity INTEGER)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (item->>'product_id')::UUID,
+         NULLIF(item->>'variant_id', '')::UUID,
+         SUM((item->>'quantity')::INTEGER)::INTEGER
+  FROM jsonb_array_elements(p_items) AS item
+  GROUP BY 1, 2;
+$$;
+
+-- ============================================
+-- FUNÇÃO: decrement_stock
+-- ============================================
+-- Recebe um array JSONB de itens:
+--   [{"product_id": "...", "variant_id": "...", "quantity": 2}, ...]
+-- variant_id é omitido nos produtos sem variantes.
+--
+-- As linhas dos produtos e das variantes são bloqueadas (FOR UPDATE) antes
+-- da conferência, então compras simultâneas esperam umas pelas outras. Se
+-- qualquer item não tiver estoque suficiente, NADA é alterado e a função
+-- retorna as linhas que falharam:
+--   [{"product_id": "...", "variant_id": "...", "product_name": "...", "requested": 3, "available": 1}]
+-- Um array vazio significa que todo o estoque foi baixado.
+--
+-- Um item sem variant_id de um produto que passou a ter variantes (carrinho
+-- antigo) volta como sem estoque: o cliente precisa escolher a variante.
+CREATE OR REPLACE FUNCTION decrement_stock(p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_failed JSONB;
+BEGIN
+  -- Bloquear sempre na mesma ordem (produtos, depois variantes) para evitar
+  -- deadlocks; o trigger das variantes também atualiza o produto
+  PERFORM 1
+  FROM products
+  WHERE id IN (SELECT product_id FROM stock_request_lines(p_items))
+  ORDER BY id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM product_variants
+  WHERE id IN (SELECT variant_id FROM stock_request_lines(p_items))
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Conferir estoque
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'product_id', requested.product_id,
+    'variant_id', requested.variant_id,
+    'product_name', CASE WHEN v.id IS NULL THEN p.name ELSE p.name || ' (' || v.volume || ')' END,
+    'requested', requested.quantity,
+    'available', CASE
+      WHEN requested.variant_id IS NOT NULL THEN COALESCE(v.stock, 0)
+      WHEN has_variants.product_id IS NOT NULL THEN 0
+      ELSE COALESCE(p.stock, 0)
+    END
+  )), '[]'::JSONB)
+  INTO v_failed
+  FROM stock_request_lines(p_items) AS requested
+  LEFT JOIN products p ON p.id = requested.product_id
+  LEFT JOIN product_variants v
+    ON v.id = requested.variant_id AND v.product_id = requested.product_id
+  LEFT JOIN (SELECT DISTINCT product_id FROM product_variants) AS has_variants
+    ON has_variants.product_id = requested.product_id
+  WHERE p.id IS NULL
+    OR (requested.variant_id IS NOT NULL AND (v.id IS NULL OR v.stock < requested.quantity))
+    OR (requested.variant_id IS NULL AND (has_variants.product_id IS NOT NULL OR p.stock < requested.quantity));
+
+  IF jsonb_array_length(v_failed) > 0 THEN
+    RETURN v_failed;
+  END IF;
+
+  UPDATE product_variants v
+  SET stock = v.stock - requested.quantity,
+      updated_at = NOW()
+  FROM stock_request_lines(p_items) AS requested
+  WHERE v.id = requested.variant_id;
+
+  UPDATE products p
+  SET stock = p.stock - requested.quantity
+  FROM stock_request_lines(p_items) AS requested
+  WHERE requested.variant_id IS NULL
+    AND p.id = requested.product_id;
+
+  RETURN '[]'::JSONB;
+END;
+$$;
+
+-- Apenas o painel admin chama diretamente; o checkout usa create_order
+REVOKE EXECUTE ON FUNCTION decrement_stock(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION decrement_stock(JSONB) TO authenticated;
+
+COMMENT ON FUNCTION decrement_stock(JSONB) IS 'Baixa estoque de vários produtos atomicamente; retorna itens sem estoque';
+
+-- Verificar a função criada
+SELECT routine_name, security_type
+FROM information_schema.routines
+WHERE routine_name IN ('stock_request_lines', 'decrement_stock');
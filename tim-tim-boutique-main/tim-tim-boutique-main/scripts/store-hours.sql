@@ -0,0 +1,49 @@
+-- ============================================
+-- Horário de Funcionamento e Feriados
+-- ============================================
+-- Este script cadastra na tabela settings o horário de funcionamento da
+-- loja e o calendário de feriados/fechamentos. O site usa esses dados para:
+-- - calcular a previsão da entrega expressa: pedidos feitos com a loja
+--   fechada contam o prazo a partir da próxima abertura;
+-- - mostrar um aviso na loja enquanto ela estiver fechada;
+-- - oferecer na entrega agendada apenas faixas dentro do horário.
+-- Sem esta configuração a loja é considerada sempre aberta.
+-- Execute no SQL Editor do Supabase.
+-- ============================================
+
+-- weekly: horário de cada dia da semana (horário de Recife); null = fechado
+-- closures: feriados e fechamentos. Sem "open"/"close" a loja fica fechada
+--           o dia todo; com eles, abre em horário reduzido
+INSERT INTO settings (key, value) VALUES
+  ('store_hours', '{
+    "weekly": {
+      "sunday": {"open": "12:00", "close": "20:00"},
+      "monday": {"open": "10:00", "close": "22:00"},
+      "tuesday": {"open": "10:00", "close": "22:00"},
+      "wednesday": {"open": "10:00", "close": "22:00"},
+      "thursday": {"open": "10:00", "close": "22:00"},
+      "friday": {"open": "10:00", "close": "23:00"},
+      "saturday": {"open": "10:00", "close": "23:00"}
+    },
+    "closures": [
+      {"date": "2026-12-24", "name": "Véspera de Natal", "open": "10:00", "close": "16:00"},
+      {"date": "2026-12-25", "name": "Natal"},
+      {"date": "2026-12-31", "name": "Véspera de Ano Novo", "open": "10:00", "close": "16:00"},
+      {"date": "2027-01-01", "name": "Ano Novo"}
+    ]
+  }'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- Exemplos de alteração:
+-- Fechar às segundas:
+-- UPDATE settings
+-- SET value = jsonb_set(value, '{weekly,monday}', 'null')
+-- WHERE key = 'store_hours';
+--
+-- Adicionar um feriado:
+-- UPDATE settings
+-- SET value = jsonb_set(value, '{closures}', value->'closures' || '[{"date": "2027-03-06", "name": "Data Magna de Pernambuco"}]')
+-- WHERE key = 'store_hours';
+
+-- Verificar
+SELECT key, value FROM settings WHERE key = 'store_hours';
@@ -0,0 +1,69 @@
+-- ============================================
+-- Retirada na Loja
+-- ============================================
+-- Este script permite que o cliente escolha retirar o pedido na loja em
+-- vez de recebê-lo em casa. Pedidos para retirada não têm frete nem
+-- endereço de entrega.
+-- Execute no SQL Editor do Supabase, antes de create-order-function.sql
+-- ============================================
+
+-- enabled: mostra a opção "Retirar na loja" no carrinho e no checkout
+-- address: endereço da loja mostrado ao cliente
+-- ready_hours: tempo para separar o pedido (contado dentro do horário de
+--              funcionamento, veja store-hours.sql)
+-- instructions: orientação opcional para a retirada
+INSERT INTO settings (key, value) VALUES
+  ('store_pickup', '{
+    "enabled": true,
+    "address": "Rua da Aurora, 100 - Boa Vista, Recife - PE",
+    "ready_hours": 1,
+    "instructions": "Apresente o número do pedido no balcão."
+  }'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================
+-- COLUNA: forma de recebimento
+-- ============================================
+-- 'delivery' (entrega no endereço) ou 'pickup' (retirada na loja).
+-- Pedidos anteriores ficam como entrega.
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS fulfillment_method VARCHAR(20) NOT NULL DEFAULT 'delivery';
+
+ALTER TABLE orders
+DROP CONSTRAINT IF EXISTS orders_fulfillment_method_check;
+
+ALTER TABLE orders
+ADD CONSTRAINT orders_fulfillment_method_check CHECK (
+  fulfillment_method IN ('delivery', 'pickup')
+);
+
+-- O endereço passa a ser opcional, mas continua obrigatório na entrega
+ALTER TABLE orders ALTER COLUMN shipping_street DROP NOT NULL;
+ALTER TABLE orders ALTER COLUMN shipping_number DROP NOT NULL;
+ALTER TABLE orders ALTER COLUMN shipping_neighborhood DROP NOT NULL;
+ALTER TABLE orders ALTER COLUMN shipping_city DROP NOT NULL;
+ALTER TABLE orders ALTER COLUMN shipping_state DROP NOT NULL;
+ALTER TABLE orders ALTER COLUMN shipping_zip_code DROP NOT NULL;
+
+ALTER TABLE orders
+DROP CONSTRAINT IF EXISTS orders_shipping_address_check;
+
+ALTER TABLE orders
+ADD CONSTRAINT orders_shipping_address_check CHECK (
+  fulfillment_method = 'pickup' OR (
+    shipping_street IS NOT NULL
+    AND shipping_number IS NOT NULL
+    AND shipping_neighborhood IS NOT NULL
+    AND shipping_city IS NOT NULL
+    AND shipping_state IS NOT NULL
+    AND shipping_zip_code IS NOT NULL
+  )
+);
+
+-- Verificar
+SELECT key, value FROM settings WHERE key = 'store_pickup';
+
+SELECT column_name, is_nullable, column_default
+FROM information_schema.columns
+WHERE table_name = 'orders'
+  AND column_name IN ('fulfillment_method', 'shipping_street', 'shipping_zip_code');
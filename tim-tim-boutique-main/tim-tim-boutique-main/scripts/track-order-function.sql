@@ -0,0 +1,78 @@
+-- ============================================
+-- Rastreamento de Pedidos
+-- ============================================
+-- Este script cria a função track_order, usada pela página /perfil
+-- para que o cliente consulte um pedido sem login.
+-- Execute no SQL Editor do Supabase, depois de create-order-function.sql
+-- ============================================
+
+-- ============================================
+-- FUNÇÃO: track_order
+-- ============================================
+-- Recebe o número do pedido e o e-mail OU telefone usado no checkout e
+-- retorna o pedido com os itens em "order_items" e o histórico de status
+-- em "order_status_history" (mesmo formato de create_order), ou NULL se
+-- não houver pedido com esse número E contato. O histórico público não
+-- inclui quem alterou o status nem as observações internas.
+--
+-- A tabela orders continua legível apenas por usuários autenticados: a
+-- função só devolve um pedido por vez, e apenas para quem conhece os dois
+-- dados. O telefone é comparado somente pelos dígitos, então
+-- "(81) 99999-9999" e "81999999999" são equivalentes.
+CREATE OR REPLACE FUNCTION track_order(p_order_number TEXT, p_contact TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_contact TEXT := LOWER(TRIM(COALESCE(p_contact, '')));
+  v_phone TEXT := REGEXP_REPLACE(COALESCE(p_contact, ''), '\D', '', 'g');
+  v_items JSONB;
+BEGIN
+  IF v_contact = '' OR TRIM(COALESCE(p_order_number, '')) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT o.*
+  INTO v_order
+  FROM orders o
+  WHERE UPPER(o.order_number) = UPPER(TRIM(p_order_number))
+    AND (
+      (POSITION('@' IN v_contact) > 0 AND LOWER(o.customer_email) = v_contact)
+      OR (
+        POSITION('@' IN v_contact) = 0
+        AND LENGTH(v_phone) >= 10
+        AND REGEXP_REPLACE(o.customer_phone, '\D', '', 'g') = v_phone
+      )
+    )
+  LIMIT 1;
+
+  IF v_order.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(oi) ORDER BY oi.created_at), '[]'::JSONB)
+  INTO v_items
+  FROM order_items oi
+  WHERE oi.order_id = v_order.id;
+
+  RETURN to_jsonb(v_order)
+    || jsonb_build_object(
+      'order_items', v_items,
+      'order_status_history', order_status_history_json(v_order.id, TRUE)
+    );
+END;
+$$;
+
+-- Consulta pública: o cliente não precisa estar logado
+GRANT EXECUTE ON FUNCTION track_order(TEXT, TEXT) TO anon, authenticated;
+
+COMMENT ON FUNCTION track_order(TEXT, TEXT) IS 'Consulta um pedido pelo número + e-mail ou telefone do cliente';
+
+-- Verificar a função criada
+SELECT routine_name, security_type
+FROM information_schema.routines
+WHERE routine_name = 'track_order';
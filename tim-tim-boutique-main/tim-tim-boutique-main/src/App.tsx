@@ -3,13 +3,15 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, useLocation, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, useLocation, Navigate, Outlet } from "react-router-dom";
 import { CartProvider } from "@/contexts/CartContext";
+import { OrderProvider } from "@/contexts/OrderContext";
 import { AdminAuthProvider } from "@/contexts/AdminAuthContext";
 import { ProductProvider } from "@/contexts/ProductContext";
 import { AdminProtectedRoute } from "@/components/AdminProtectedRoute";
 import Navbar from "@/components/Navbar";
 import Footer from "@/components/Footer";
+import StoreClosedBanner from "@/components/StoreClosedBanner";
 import LoadingSpinner from "@/components/LoadingSpinner";
 import ErrorBoundary from "@/components/ErrorBoundary";
 
@@ -31,13 +33,27 @@ const AdminDashboard = lazy(() => import("./pages/admin/AdminDashboard").then(m
 const AdminProducts = lazy(() => import("./pages/admin/AdminProducts"));
 const AdminProductNew = lazy(() => import("./pages/admin/AdminProductNew"));
 const AdminProductEdit = lazy(() => import("./pages/admin/AdminProductEdit"));
+const AdminOrders = lazy(() => import("./pages/admin/AdminOrders"));
+const AdminOrderDetail = lazy(() => import("./pages/admin/AdminOrderDetail"));
+const AdminShippingSettings = lazy(() => import("./pages/admin/AdminShippingSettings"));
+const AdminSearchSettings = lazy(() => import("./pages/admin/AdminSearchSettings"));
 
 const queryClient = new QueryClient();
 
+// Admin screens that list or edit the whole catalog; the store pages load
+// products on demand (catalog search, product by ID)
+const AdminProductsLayout = () => (
+  <ProductProvider>
+    <Outlet />
+  </ProductProvider>
+);
+
 const Layout = () => {
   const location = useLocation();
   const isHomePage = location.pathname === "/";
   const isAdminPage = location.pathname.startsWith("/admin");
+  // Cart and checkout show the closed store notice next to the delivery estimate
+  const isPurchasePage = location.pathname === "/carrinho" || location.pathname === "/checkout";
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -55,7 +71,7 @@ const Layout = () => {
         Pular para a navegação
       </a>
       
-      {!isHomePage && !isAdminPage && <nav id="navigation"><Navbar /></nav>}
+      {!isHomePage && !isAdminPage && <nav id="navigation" className="print:hidden"><Navbar /></nav>}
       <main id="main-content" className={isAdminPage ? "" : "flex-1"} role="main">
         <Suspense fallback={<LoadingSpinner />}>
           <Routes>
@@ -76,35 +92,69 @@ const Layout = () => {
               path="/admin" 
               element={<Navigate to="/admin/dashboard" replace />} 
             />
+            <Route element={<AdminProductsLayout />}>
+              <Route 
+                path="/admin/dashboard" 
+                element={
+                  <AdminProtectedRoute>
+                    <AdminDashboard />
+                  </AdminProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/admin/produtos" 
+                element={
+                  <AdminProtectedRoute>
+                    <AdminProducts />
+                  </AdminProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/admin/produtos/novo" 
+                element={
+                  <AdminProtectedRoute>
+                    <AdminProductNew />
+                  </AdminProtectedRoute>
+                } 
+              />
+              <Route 
+                path="/admin/produtos/:id" 
+                element={
+                  <AdminProtectedRoute>
+                    <AdminProductEdit />
+                  </AdminProtectedRoute>
+                } 
+              />
+            </Route>
             <Route 
-              path="/admin/dashboard" 
+              path="/admin/pedidos" 
               element={
                 <AdminProtectedRoute>
-                  <AdminDashboard />
+                  <AdminOrders />
                 </AdminProtectedRoute>
               } 
             />
             <Route 
-              path="/admin/produtos" 
+              path="/admin/pedidos/:id" 
               element={
                 <AdminProtectedRoute>
-                  <AdminProducts />
+                  <AdminOrderDetail />
                 </AdminProtectedRoute>
               } 
             />
             <Route 
-              path="/admin/produtos/novo" 
+              path="/admin/configuracoes/entrega" 
               element={
                 <AdminProtectedRoute>
-                  <AdminProductNew />
+                  <AdminShippingSettings />
                 </AdminProtectedRoute>
               } 
             />
             <Route 
-              path="/admin/produtos/:id" 
+              path="/admin/configuracoes/busca" 
               element={
                 <AdminProtectedRoute>
-                  <AdminProductEdit />
+                  <AdminSearchSettings />
                 </AdminProtectedRoute>
               } 
             />
@@ -114,6 +164,7 @@ const Layout = () => {
         </Suspense>
       </main>
       {!isAdminPage && <Footer />}
+      {!isAdminPage && !isPurchasePage && <StoreClosedBanner />}
     </div>
   );
 };
@@ -125,9 +176,9 @@ const App = () => (
         <ErrorBoundary>
           <AdminAuthProvider>
             <ErrorBoundary>
-              <ProductProvider>
+              <CartProvider>
                 <ErrorBoundary>
-                  <CartProvider>
+                  <OrderProvider>
                     <ErrorBoundary>
                       <Toaster />
                       <Sonner />
@@ -135,9 +186,9 @@ const App = () => (
                         <Layout />
                       </BrowserRouter>
                     </ErrorBoundary>
-                  </CartProvider>
+                  </OrderProvider>
                 </ErrorBoundary>
-              </ProductProvider>
+              </CartProvider>
             </ErrorBoundary>
           </AdminAuthProvider>
         </ErrorBoundary>
@@ -14,6 +14,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { BrowserRouter, MemoryRouter, Routes, Route } from 'react-router-dom';
 import { CartProvider } from '@/contexts/CartContext';
+import { OrderProvider } from '@/contexts/OrderContext';
 import { sessionService } from '@/services/sessionService';
 import Cart from '@/pages/Cart';
 import Checkout from '@/pages/Checkout';
@@ -22,14 +23,27 @@ import * as shippingService from '@/services/shippingService';
 // Mock services
 vi.mock('@/services/shippingService', () => ({
   validateShippingArea: vi.fn(),
+  loadShippingSettings: vi.fn().mockResolvedValue(null),
   getShippingInfo: vi.fn(() => ({
     baseShippingCost: 15.00,
     freeShippingThreshold: 200.00,
     estimatedHours: 2,
+    deliveryTime: 'até 2 horas',
     coveredCities: ['Recife', 'Olinda', 'Jaboatão dos Guararapes', 'Camaragibe']
   }))
 }));
 
+vi.mock('@/services/orderService', () => ({
+  createOrder: vi.fn().mockResolvedValue({ id: 'order-1', orderNumber: 'TIM-2026-000123' }),
+}));
+
+vi.mock('@/services/settingsService', () => ({
+  getPixSettings: vi.fn().mockResolvedValue(null),
+  getDeliverySlotSettings: vi.fn().mockResolvedValue(null),
+  getPickupSettings: vi.fn().mockResolvedValue(null),
+  getShippingSettings: vi.fn().mockResolvedValue({}),
+}));
+
 vi.mock('sonner', () => ({
   toast: {
     success: vi.fn(),
@@ -91,10 +105,12 @@ describe('Cart Session Integration Tests', () => {
     return render(
       <MemoryRouter initialEntries={['/checkout']}>
         <CartProvider>
-          <Routes>
-            <Route path="/checkout" element={<Checkout />} />
-            <Route path="/carrinho" element={<div>Cart Page</div>} />
-          </Routes>
+          <OrderProvider>
+            <Routes>
+              <Route path="/checkout" element={<Checkout />} />
+              <Route path="/carrinho" element={<div>Cart Page</div>} />
+            </Routes>
+          </OrderProvider>
         </CartProvider>
       </MemoryRouter>
     );
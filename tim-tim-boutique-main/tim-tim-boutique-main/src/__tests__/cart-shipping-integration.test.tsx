@@ -8,14 +8,20 @@ import * as shippingService from '@/services/shippingService';
 // Mock the shipping service
 vi.mock('@/services/shippingService', () => ({
   validateShippingArea: vi.fn(),
+  loadShippingSettings: vi.fn().mockResolvedValue(null),
   getShippingInfo: vi.fn(() => ({
     baseShippingCost: 15.00,
     freeShippingThreshold: 200.00,
     estimatedHours: 2,
+    deliveryTime: 'até 2 horas',
     coveredCities: ['Recife', 'Olinda', 'Jaboatão dos Guararapes', 'Camaragibe']
   }))
 }));
 
+vi.mock('@/services/settingsService', () => ({
+  getPickupSettings: vi.fn().mockResolvedValue(null),
+}));
+
 // Mock sonner toast
 vi.mock('sonner', () => ({
   toast: {
@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CATALOG_FILTERS,
+  getPageCount,
+  getPageNumbers,
+  hasActiveCatalogFilters,
+  parseCatalogParams,
+  parseRange,
+  toCatalogParams,
+  toggleFacetValue,
+  toProductSearch,
+  withSearchQuery,
+} from "@/lib/catalogFilters";
+
+describe("Catalog Filters", () => {
+  describe("parseCatalogParams", () => {
+    it("should read every filter from the URL", () => {
+      const filters = parseCatalogParams(
+        new URLSearchParams(
+          "busca=malbec&categoria=vinho&pais=Argentina&uva=Malbec&uva=Merlot&preco=0-500&teor=13.5%2B&ordem=price-asc&pagina=2"
+        )
+      );
+
+      expect(filters).toEqual({
+        ...DEFAULT_CATALOG_FILTERS,
+        query: "malbec",
+        categories: ["vinho"],
+        countries: ["Argentina"],
+        grapes: ["Malbec", "Merlot"],
+        price: { min: 0, max: 500 },
+        alcohol: { min: 13.5 },
+        sort: "price-asc",
+        page: 2,
+      });
+    });
+
+    it("should fall back to the defaults for invalid values", () => {
+      const filters = parseCatalogParams(
+        new URLSearchParams("preco=barato&teor=-&uva=%20&ordem=toString&pagina=-3")
+      );
+
+      expect(filters).toEqual(DEFAULT_CATALOG_FILTERS);
+      expect(parseCatalogParams(new URLSearchParams("ordem=relevance")).sort).toBe("newest");
+      expect(parseCatalogParams(new URLSearchParams("pagina=1.5")).page).toBe(1);
+    });
+  });
+
+  describe("parseRange", () => {
+    it("should read closed and open ranges", () => {
+      expect(parseRange("100-500")).toEqual({ min: 100, max: 500 });
+      expect(parseRange("2000+")).toEqual({ min: 2000 });
+      expect(parseRange("-14,5")).toEqual({ max: 14.5 });
+      expect(parseRange("500-100")).toEqual({ min: 100, max: 500 });
+      expect(parseRange("100-abc")).toEqual({});
+    });
+  });
+
+  describe("toggleFacetValue", () => {
+    it("should check and uncheck values, back on the first page", () => {
+      const filters = { ...DEFAULT_CATALOG_FILTERS, grapes: ["Malbec"], page: 3 };
+
+      expect(toggleFacetValue(filters, "grapes", "Merlot")).toMatchObject({ grapes: ["Malbec", "Merlot"], page: 1 });
+      expect(toggleFacetValue(filters, "grapes", "Malbec").grapes).toEqual([]);
+    });
+  });
+
+  describe("search sort", () => {
+    it("should sort by relevance while searching", () => {
+      expect(parseCatalogParams(new URLSearchParams("busca=espumante")).sort).toBe("relevance");
+      expect(toCatalogParams(withSearchQuery(DEFAULT_CATALOG_FILTERS, "espumante")).toString())
+        .toBe("busca=espumante");
+    });
+
+    it("should keep a sort chosen by the customer when the term changes", () => {
+      const filters = { ...DEFAULT_CATALOG_FILTERS, sort: "price-asc" as const, page: 3 };
+
+      expect(withSearchQuery(filters, "malbec")).toMatchObject({ query: "malbec", sort: "price-asc", page: 1 });
+      expect(withSearchQuery({ ...filters, query: "malbec", sort: "relevance" }, "").sort).toBe("newest");
+    });
+  });
+
+  describe("toCatalogParams", () => {
+    it("should leave the default values out of the URL", () => {
+      expect(toCatalogParams(DEFAULT_CATALOG_FILTERS).toString()).toBe("");
+      expect(toCatalogParams({ ...DEFAULT_CATALOG_FILTERS, countries: ["Chile"], page: 3 }).toString())
+        .toBe("pais=Chile&pagina=3");
+    });
+
+    it("should round-trip through parseCatalogParams", () => {
+      const filters = {
+        ...DEFAULT_CATALOG_FILTERS,
+        query: "vinho tinto",
+        categories: ["vinho"],
+        countries: ["França", "Itália"],
+        regions: ["Bordeaux"],
+        producers: ["Château Margaux"],
+        volumes: ["750ml"],
+        price: { min: 2000 },
+        alcohol: { min: 12, max: 14.5 },
+        sort: "name-asc" as const,
+        page: 4,
+      };
+
+      expect(parseCatalogParams(toCatalogParams(filters))).toEqual(filters);
+    });
+  });
+
+  describe("hasActiveCatalogFilters", () => {
+    it("should ignore the page", () => {
+      expect(hasActiveCatalogFilters({ ...DEFAULT_CATALOG_FILTERS, page: 5 })).toBe(false);
+      expect(hasActiveCatalogFilters({ ...DEFAULT_CATALOG_FILTERS, sort: "price-desc" })).toBe(true);
+      expect(hasActiveCatalogFilters({ ...DEFAULT_CATALOG_FILTERS, alcohol: { max: 12 } })).toBe(true);
+    });
+  });
+
+  describe("toProductSearch", () => {
+    it("should turn the ranges into bounds", () => {
+      const filters = {
+        ...DEFAULT_CATALOG_FILTERS,
+        grapes: ["Malbec"],
+        price: { min: 500, max: 1000 },
+        alcohol: { max: 13 },
+        page: 2,
+      };
+
+      expect(toProductSearch(filters)).toEqual({
+        query: undefined,
+        categories: [],
+        countries: [],
+        regions: [],
+        grapes: ["Malbec"],
+        producers: [],
+        volumes: [],
+        minPrice: 500,
+        maxPrice: 1000,
+        minAlcohol: undefined,
+        maxAlcohol: 13,
+        sort: "newest",
+        page: 2,
+        pageSize: 12,
+      });
+    });
+  });
+
+  describe("pagination", () => {
+    it("should count at least one page", () => {
+      expect(getPageCount(0)).toBe(1);
+      expect(getPageCount(12)).toBe(1);
+      expect(getPageCount(13)).toBe(2);
+    });
+
+    it("should list every page when there are few", () => {
+      expect(getPageNumbers(1, 5)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should collapse distant pages into ellipses", () => {
+      expect(getPageNumbers(1, 10)).toEqual([1, 2, 3, 4, 5, "ellipsis", 10]);
+      expect(getPageNumbers(5, 10)).toEqual([1, "ellipsis", 4, 5, 6, "ellipsis", 10]);
+      expect(getPageNumbers(10, 10)).toEqual([1, "ellipsis", 6, 7, 8, 9, 10]);
+    });
+  });
+});
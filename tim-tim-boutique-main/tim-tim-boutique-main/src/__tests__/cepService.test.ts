@@ -0,0 +1,192 @@
+/**
+ * Tests for the CEP lookup providers and cache
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  CEP_CACHE_TTL_MS,
+  brasilApiProvider,
+  clearCepCache,
+  fetchAddressByCep,
+  localCepProvider,
+  setCepProviders,
+  viaCepProvider,
+  type AddressData,
+  type CepProvider,
+} from '@/services/cepService';
+import { AppError, ErrorType } from '@/lib/errorHandling';
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+  },
+}));
+
+const address: AddressData = {
+  street: 'Rua das Flores',
+  neighborhood: 'Boa Viagem',
+  city: 'Recife',
+  state: 'PE',
+};
+
+const createProvider = (lookup: CepProvider['lookup'], cache?: boolean): CepProvider => ({
+  name: 'fake',
+  lookup: vi.fn(lookup),
+  cache,
+});
+
+const networkError = () => Promise.reject(new AppError('Erro ao buscar CEP', ErrorType.NETWORK));
+
+describe('cepService', () => {
+  beforeEach(() => {
+    clearCepCache();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setCepProviders(null);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should return the address of the first provider that knows the CEP', async () => {
+    const first = createProvider(async () => address);
+    const second = createProvider(async () => null);
+    setCepProviders([first, second]);
+
+    expect(await fetchAddressByCep('51020-000')).toEqual(address);
+    expect(first.lookup).toHaveBeenCalledWith('51020000');
+    expect(second.lookup).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the next provider when one is down', async () => {
+    const down = createProvider(networkError);
+    const backup = createProvider(async () => address);
+    setCepProviders([down, backup]);
+
+    expect(await fetchAddressByCep('51020000')).toEqual(address);
+    expect(backup.lookup).toHaveBeenCalled();
+  });
+
+  it('should return null when no provider knows the CEP', async () => {
+    setCepProviders([createProvider(async () => null), createProvider(async () => null)]);
+
+    expect(await fetchAddressByCep('99999999')).toBeNull();
+  });
+
+  it('should use fallback providers only when no provider answered', async () => {
+    const fallback = { ...createProvider(async () => address), fallback: true };
+    setCepProviders([createProvider(async () => null), fallback]);
+
+    expect(await fetchAddressByCep('50999999')).toBeNull();
+    expect(fallback.lookup).not.toHaveBeenCalled();
+
+    setCepProviders([createProvider(networkError), fallback]);
+
+    expect(await fetchAddressByCep('50999999')).toEqual(address);
+  });
+
+  it('should return null when every provider is down', async () => {
+    setCepProviders([createProvider(networkError)]);
+
+    expect(await fetchAddressByCep('51020000')).toBeNull();
+  });
+
+  it('should not call the providers for an invalid CEP', async () => {
+    const provider = createProvider(async () => address);
+    setCepProviders([provider]);
+
+    expect(await fetchAddressByCep('123')).toBeNull();
+    expect(provider.lookup).not.toHaveBeenCalled();
+  });
+
+  describe('cache', () => {
+    it('should reuse cached addresses', async () => {
+      const provider = createProvider(async () => address);
+      setCepProviders([provider]);
+
+      await fetchAddressByCep('51020000');
+      expect(await fetchAddressByCep('51020-000')).toEqual(address);
+      expect(provider.lookup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should look the CEP up again after the TTL', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-10-19T12:00:00-03:00'));
+      const provider = createProvider(async () => address);
+      setCepProviders([provider]);
+
+      await fetchAddressByCep('51020000');
+      vi.setSystemTime(Date.now() + CEP_CACHE_TTL_MS + 1);
+      await fetchAddressByCep('51020000');
+
+      expect(provider.lookup).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache providers with cache disabled', async () => {
+      const provider = createProvider(async () => address, false);
+      setCepProviders([provider]);
+
+      await fetchAddressByCep('51020000');
+      await fetchAddressByCep('51020000');
+
+      expect(provider.lookup).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('online providers', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should map the ViaCEP response and its "not found" answer', async () => {
+      vi.stubGlobal('fetch', vi.fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify({
+          cep: '51020-000',
+          logradouro: 'Rua das Flores',
+          complemento: '',
+          bairro: 'Boa Viagem',
+          localidade: 'Recife',
+          uf: 'PE',
+        })))
+        .mockResolvedValueOnce(new Response(JSON.stringify({ erro: 'true' }))));
+
+      expect(await viaCepProvider.lookup('51020000')).toEqual(address);
+      expect(await viaCepProvider.lookup('99999999')).toBeNull();
+    });
+
+    it('should map the BrasilAPI response and fail on server errors', async () => {
+      vi.stubGlobal('fetch', vi.fn()
+        .mockResolvedValueOnce(new Response(JSON.stringify({
+          cep: '51020000',
+          state: 'PE',
+          city: 'Recife',
+          neighborhood: 'Boa Viagem',
+          street: 'Rua das Flores',
+        })))
+        .mockResolvedValueOnce(new Response('{}', { status: 404 }))
+        .mockResolvedValueOnce(new Response('{}', { status: 500 })));
+
+      expect(await brasilApiProvider.lookup('51020000')).toEqual(address);
+      expect(await brasilApiProvider.lookup('99999999')).toBeNull();
+      await expect(brasilApiProvider.lookup('51020000')).rejects.toBeInstanceOf(AppError);
+    });
+  });
+
+  describe('localCepProvider', () => {
+    it('should know the city of the covered CEP ranges', async () => {
+      expect(await localCepProvider.lookup('51020000')).toEqual({
+        street: '',
+        neighborhood: '',
+        city: 'Recife',
+        state: 'PE',
+      });
+      expect((await localCepProvider.lookup('54753000'))?.city).toBe('Camaragibe');
+    });
+
+    it('should not know CEPs outside the covered cities', async () => {
+      expect(await localCepProvider.lookup('01310100')).toBeNull();
+    });
+  });
+});
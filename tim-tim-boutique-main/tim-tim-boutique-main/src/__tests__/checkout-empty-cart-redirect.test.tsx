@@ -4,6 +4,7 @@ import { BrowserRouter, useNavigate } from 'react-router-dom';
 import { toast as sonnerToast } from 'sonner';
 import Checkout from '@/pages/Checkout';
 import { CartProvider } from '@/contexts/CartContext';
+import { OrderProvider } from '@/contexts/OrderContext';
 
 // Mock dependencies
 vi.mock('react-router-dom', async () => {
@@ -14,6 +15,17 @@ vi.mock('react-router-dom', async () => {
   };
 });
 
+vi.mock('@/services/orderService', () => ({
+  createOrder: vi.fn().mockResolvedValue({ id: 'order-1', orderNumber: 'TIM-2026-000123' }),
+}));
+
+vi.mock('@/services/settingsService', () => ({
+  getPixSettings: vi.fn().mockResolvedValue(null),
+  getDeliverySlotSettings: vi.fn().mockResolvedValue(null),
+  getPickupSettings: vi.fn().mockResolvedValue(null),
+  getShippingSettings: vi.fn().mockResolvedValue({}),
+}));
+
 vi.mock('sonner', () => ({
   toast: {
     error: vi.fn(),
@@ -30,6 +42,9 @@ vi.mock('@/services/sessionService', () => ({
     saveShipping: vi.fn(),
     clearShipping: vi.fn(),
     clearSession: vi.fn(),
+    getLastOrder: vi.fn(() => null),
+    saveLastOrder: vi.fn(),
+    clearLastOrder: vi.fn(),
   },
 }));
 
@@ -46,7 +61,9 @@ describe('Checkout - Empty Cart Redirect', () => {
     render(
       <BrowserRouter>
         <CartProvider>
-          <Checkout />
+          <OrderProvider>
+            <Checkout />
+          </OrderProvider>
         </CartProvider>
       </BrowserRouter>
     );
@@ -62,7 +79,9 @@ describe('Checkout - Empty Cart Redirect', () => {
     render(
       <BrowserRouter>
         <CartProvider>
-          <Checkout />
+          <OrderProvider>
+            <Checkout />
+          </OrderProvider>
         </CartProvider>
       </BrowserRouter>
     );
@@ -83,7 +102,9 @@ describe('Checkout - Empty Cart Redirect', () => {
     const { container } = render(
       <BrowserRouter>
         <CartProvider>
-          <Checkout />
+          <OrderProvider>
+            <Checkout />
+          </OrderProvider>
         </CartProvider>
       </BrowserRouter>
     );
@@ -16,6 +16,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(validData);
@@ -34,6 +35,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(validData);
@@ -51,6 +53,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(invalidData);
@@ -71,6 +74,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(invalidData);
@@ -91,6 +95,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(invalidData);
@@ -111,6 +116,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(invalidData);
@@ -131,6 +137,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const landlineData = {
@@ -153,6 +160,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(invalidData);
@@ -173,6 +181,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "SAO", // Too long
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(invalidData);
@@ -193,6 +202,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "Centro",
         city: "São Paulo",
         state: "sp", // Lowercase
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(invalidData);
@@ -210,6 +220,7 @@ describe("Checkout Form Validation", () => {
         neighborhood: "",
         city: "",
         state: "",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(invalidData);
@@ -4,7 +4,10 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import Checkout from '@/pages/Checkout';
 import { CartProvider } from '@/contexts/CartContext';
+import { OrderProvider } from '@/contexts/OrderContext';
 import { sessionService } from '@/services/sessionService';
+import { createOrder, type CreateOrderData } from '@/services/orderService';
+import { getPickupSettings, getPixSettings } from '@/services/settingsService';
 
 // Mock dependencies
 vi.mock('@/services/cepService', () => ({
@@ -16,6 +19,32 @@ vi.mock('@/services/cepService', () => ({
   }),
 }));
 
+// Echo the order back like create_order does, with the number assigned by the database
+vi.mock('@/services/orderService', () => ({
+  createOrder: vi.fn(async (data: CreateOrderData) => ({
+    ...data,
+    id: 'order-1',
+    orderNumber: 'TIM-2026-000123',
+    items: data.items.map((item, index) => ({
+      ...item,
+      id: `item-${index}`,
+      subtotal: item.price * item.quantity,
+    })),
+    estimatedDeliveryTime: data.estimatedDeliveryTime?.toISOString(),
+    status: 'pending',
+    statusHistory: [],
+    createdAt: '2026-01-01T12:00:00Z',
+    updatedAt: '2026-01-01T12:00:00Z',
+  })),
+}));
+
+vi.mock('@/services/settingsService', () => ({
+  getPixSettings: vi.fn().mockResolvedValue(null),
+  getDeliverySlotSettings: vi.fn().mockResolvedValue(null),
+  getPickupSettings: vi.fn().mockResolvedValue(null),
+  getShippingSettings: vi.fn().mockResolvedValue({}),
+}));
+
 vi.mock('sonner', () => ({
   toast: {
     success: vi.fn(),
@@ -80,7 +109,9 @@ describe('Checkout Page - Session Integration', () => {
     return render(
       <BrowserRouter>
         <CartProvider>
-          <Checkout />
+          <OrderProvider>
+            <Checkout />
+          </OrderProvider>
         </CartProvider>
       </BrowserRouter>
     );
@@ -237,6 +268,7 @@ describe('Checkout Page - Session Integration', () => {
       expect(whatsappUrl).toContain('wa.me');
       // Decode URL to check content
       const decodedUrl = decodeURIComponent(whatsappUrl);
+      expect(decodedUrl).toContain('PEDIDO #TIM-2026-000123');
       expect(decodedUrl).toContain('Ana Lima');
       expect(decodedUrl).toContain('Vinho Teste');
       expect(decodedUrl).toContain('110.00'); // Total with shipping
@@ -269,7 +301,7 @@ describe('Checkout Page - Session Integration', () => {
     // Verify navigation to confirmation page
     await waitFor(() => {
       expect(mockNavigate).toHaveBeenCalledWith(
-        expect.stringContaining('/pedido-confirmado?orderId=')
+        '/pedido-confirmado?orderId=TIM-2026-000123'
       );
     });
   });
@@ -372,4 +404,129 @@ describe('Checkout Page - Session Integration', () => {
       expect(orderData.total).toBe(100.00); // No shipping cost
     });
   });
+
+  describe('payment method', () => {
+    const fillForm = async (user: ReturnType<typeof userEvent.setup>) => {
+      await waitFor(() => {
+        expect(screen.getByLabelText(/nome completo/i)).toBeInTheDocument();
+      });
+
+      await user.type(screen.getByLabelText(/nome completo/i), 'Paula Reis');
+      await user.type(screen.getByLabelText(/telefone/i), '81977777777');
+      await user.type(screen.getByLabelText(/cep/i), '50000000');
+
+      await waitFor(() => {
+        expect(screen.getByLabelText(/endereço/i)).toHaveValue('Rua Teste');
+      });
+
+      await user.type(screen.getByLabelText(/número/i), '10');
+      await user.type(screen.getByLabelText(/bairro/i), 'Bairro Teste');
+    };
+
+    it('should send cash with change to the order and the WhatsApp message', async () => {
+      const user = userEvent.setup();
+      renderCheckout();
+      await fillForm(user);
+
+      await user.click(screen.getByLabelText(/dinheiro na entrega/i));
+      await user.type(screen.getByLabelText(/troco para/i), '200,00');
+      await user.click(screen.getByRole('button', { name: /finalizar via whatsapp/i }));
+
+      await waitFor(() => {
+        expect(createOrder).toHaveBeenCalledWith(
+          expect.objectContaining({ paymentMethod: 'cash', changeFor: 200 })
+        );
+      });
+
+      const decodedUrl = decodeURIComponent(mockWindowOpen.mock.calls[0][0] as string);
+      expect(decodedUrl).toContain('Dinheiro na entrega');
+      expect(decodedUrl).toContain('Troco para: R$ 200.00');
+    });
+
+    it('should reject change smaller than the order total', async () => {
+      const user = userEvent.setup();
+      renderCheckout();
+      await fillForm(user);
+
+      await user.click(screen.getByLabelText(/dinheiro na entrega/i));
+      await user.type(screen.getByLabelText(/troco para/i), '50');
+      await user.click(screen.getByRole('button', { name: /finalizar via whatsapp/i }));
+
+      expect(await screen.findByText(/maior ou igual ao total/i)).toBeInTheDocument();
+      expect(createOrder).not.toHaveBeenCalled();
+    });
+
+    it('should send the PIX copia e cola code when the PIX key is configured', async () => {
+      vi.mocked(getPixSettings).mockResolvedValueOnce({
+        key: 'pix@timtim.com.br',
+        merchantName: 'Tim-Tim Bebidas',
+        merchantCity: 'Recife',
+      });
+      const user = userEvent.setup();
+      renderCheckout();
+      await fillForm(user);
+
+      await user.click(screen.getByRole('button', { name: /finalizar via whatsapp/i }));
+
+      await waitFor(() => {
+        expect(mockWindowOpen).toHaveBeenCalled();
+      });
+
+      const decodedUrl = decodeURIComponent(mockWindowOpen.mock.calls[0][0] as string);
+      expect(decodedUrl).toContain('PIX copia e cola:');
+      expect(decodedUrl).toContain('0117pix@timtim.com.br');
+      expect(decodedUrl).toContain('0513TIM2026000123');
+    });
+  });
+
+  describe('store pickup', () => {
+    beforeEach(() => {
+      vi.mocked(getPickupSettings).mockResolvedValue({
+        address: 'Rua da Aurora, 100 - Boa Vista, Recife - PE',
+        readyHours: 1,
+        instructions: 'Apresente o número do pedido no balcão.',
+      });
+    });
+
+    it('should place a pickup order without address or shipping', async () => {
+      const user = userEvent.setup();
+      renderCheckout();
+
+      await user.click(await screen.findByLabelText(/retirar na loja/i));
+
+      expect(screen.queryByLabelText(/cep/i)).not.toBeInTheDocument();
+      expect(screen.getAllByText(/Rua da Aurora, 100/).length).toBeGreaterThan(0);
+
+      await user.type(screen.getByLabelText(/nome completo/i), 'Paula Reis');
+      await user.type(screen.getByLabelText(/telefone/i), '81977777777');
+      await user.click(screen.getByRole('button', { name: /finalizar via whatsapp/i }));
+
+      await waitFor(() => {
+        expect(createOrder).toHaveBeenCalledWith(
+          expect.objectContaining({
+            fulfillmentMethod: 'pickup',
+            shippingAddress: undefined,
+            shippingCost: 0,
+            shippingIsFree: true,
+            total: 100,
+          })
+        );
+      });
+
+      const decodedUrl = decodeURIComponent(mockWindowOpen.mock.calls[0][0] as string);
+      expect(decodedUrl).toContain('RETIRADA NA LOJA');
+      expect(decodedUrl).not.toContain('ENDEREÇO DE ENTREGA');
+    });
+
+    it('should restore the delivery shipping when switching back', async () => {
+      const user = userEvent.setup();
+      renderCheckout();
+
+      await user.click(await screen.findByLabelText(/retirar na loja/i));
+      await user.click(screen.getByLabelText(/entrega no endereço/i));
+
+      expect(screen.getByLabelText(/cep/i)).toHaveValue('50000-000');
+      expect(screen.getByText('R$ 10.00')).toBeInTheDocument();
+    });
+  });
 });
@@ -4,6 +4,7 @@ import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import Checkout from '@/pages/Checkout';
 import { CartProvider } from '@/contexts/CartContext';
+import { OrderProvider } from '@/contexts/OrderContext';
 import { sessionService } from '@/services/sessionService';
 
 // Mock dependencies
@@ -20,6 +21,17 @@ vi.mock('@/lib/whatsappMessage', () => ({
   generateWhatsAppUrl: vi.fn().mockReturnValue('https://wa.me/5581999999999?text=test'),
 }));
 
+vi.mock('@/services/orderService', () => ({
+  createOrder: vi.fn().mockResolvedValue({ id: 'order-1', orderNumber: 'TIM-2026-000123' }),
+}));
+
+vi.mock('@/services/settingsService', () => ({
+  getPixSettings: vi.fn().mockResolvedValue(null),
+  getDeliverySlotSettings: vi.fn().mockResolvedValue(null),
+  getPickupSettings: vi.fn().mockResolvedValue(null),
+  getShippingSettings: vi.fn().mockResolvedValue({}),
+}));
+
 vi.mock('sonner', () => ({
   toast: {
     success: vi.fn(),
@@ -51,7 +63,9 @@ const renderCheckout = (cartItems = []) => {
   return render(
     <BrowserRouter>
       <CartProvider>
-        <Checkout />
+        <OrderProvider>
+          <Checkout />
+        </OrderProvider>
       </CartProvider>
     </BrowserRouter>
   );
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { maskCep, maskPhone, unmask } from "@/lib/masks";
-import { checkoutSchema } from "@/lib/validations";
+import { checkoutSchema, pickupCheckoutSchema } from "@/lib/validations";
 
 describe("Checkout Validation - Input Masks", () => {
   describe("maskCep", () => {
@@ -85,6 +85,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(validData);
@@ -102,6 +103,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(validData);
@@ -120,6 +122,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -139,6 +142,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -158,6 +162,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -178,6 +183,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -195,6 +201,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -213,6 +220,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -232,6 +240,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -248,6 +257,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -264,6 +274,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -282,6 +293,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -301,6 +313,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -317,6 +330,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -335,6 +349,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -354,6 +369,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -372,6 +388,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "S",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -391,6 +408,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SAO",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -410,6 +428,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -426,6 +445,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "sp",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -446,6 +466,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -461,6 +482,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -476,6 +498,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -491,6 +514,7 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
@@ -506,12 +530,144 @@ describe("Checkout Validation - Zod Schema", () => {
         neighborhood: "Bela Vista",
         city: "São Paulo",
         state: "SP",
+        paymentMethod: "pix",
       };
 
       const result = checkoutSchema.safeParse(data);
       expect(result.success).toBe(false);
     });
   });
+
+  describe("Payment validation", () => {
+    const baseData = {
+      name: "João Silva",
+      phone: "(11) 99988-7766",
+      cep: "01310-100",
+      address: "Avenida Paulista",
+      number: "1000",
+      neighborhood: "Bela Vista",
+      city: "São Paulo",
+      state: "SP",
+    };
+
+    it("should accept every payment method offered at checkout", () => {
+      for (const paymentMethod of ["pix", "credit_card", "debit_card", "cash"]) {
+        expect(checkoutSchema.safeParse({ ...baseData, paymentMethod }).success).toBe(true);
+      }
+    });
+
+    it("should reject a missing or unknown payment method", () => {
+      const missing = checkoutSchema.safeParse(baseData);
+      const unknown = checkoutSchema.safeParse({ ...baseData, paymentMethod: "boleto" });
+
+      expect(missing.success).toBe(false);
+      expect(unknown.success).toBe(false);
+      if (!unknown.success) {
+        expect(unknown.error.issues[0].path).toContain("paymentMethod");
+      }
+    });
+
+    it("should accept cash with or without change", () => {
+      expect(checkoutSchema.safeParse({ ...baseData, paymentMethod: "cash" }).success).toBe(true);
+      expect(checkoutSchema.safeParse({ ...baseData, paymentMethod: "cash", changeFor: "100,00" }).success).toBe(true);
+    });
+
+    it("should reject an invalid change amount for cash", () => {
+      const result = checkoutSchema.safeParse({ ...baseData, paymentMethod: "cash", changeFor: "cem reais" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toContain("changeFor");
+      }
+    });
+  });
+
+  describe("Delivery validation", () => {
+    const baseData = {
+      name: "João Silva",
+      phone: "(11) 99988-7766",
+      cep: "01310-100",
+      address: "Avenida Paulista",
+      number: "1000",
+      neighborhood: "Bela Vista",
+      city: "São Paulo",
+      state: "SP",
+      paymentMethod: "pix",
+    };
+
+    it("should default to express delivery", () => {
+      const result = checkoutSchema.safeParse(baseData);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.deliveryType).toBe("express");
+      }
+    });
+
+    it("should require date and slot for scheduled delivery", () => {
+      const result = checkoutSchema.safeParse({ ...baseData, deliveryType: "scheduled" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const paths = result.error.issues.map((issue) => issue.path[0]);
+        expect(paths).toContain("deliveryDate");
+        expect(paths).toContain("deliverySlot");
+      }
+    });
+
+    it("should accept a scheduled delivery with date and slot", () => {
+      const result = checkoutSchema.safeParse({
+        ...baseData,
+        deliveryType: "scheduled",
+        deliveryDate: "2026-10-24",
+        deliverySlot: "18:00",
+      });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("Store pickup validation", () => {
+    const pickupData = {
+      name: "João Silva",
+      phone: "(11) 99988-7766",
+      paymentMethod: "cash",
+      fulfillment: "pickup",
+    };
+
+    it("should not require the address for pickup", () => {
+      const result = pickupCheckoutSchema.safeParse(pickupData);
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should ignore the delivery schedule for pickup", () => {
+      const result = pickupCheckoutSchema.safeParse({ ...pickupData, deliveryType: "scheduled" });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should still validate the contact and the change", () => {
+      const result = pickupCheckoutSchema.safeParse({ ...pickupData, phone: "", changeFor: "abc" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const paths = result.error.issues.map((issue) => issue.path[0]);
+        expect(paths).toContain("phone");
+      }
+    });
+
+    it("should require the address for delivery", () => {
+      const result = checkoutSchema.safeParse({ ...pickupData, fulfillment: "delivery" });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        const paths = result.error.issues.map((issue) => issue.path[0]);
+        expect(paths).toContain("cep");
+        expect(paths).toContain("address");
+      }
+    });
+  });
 });
 
 describe("Checkout Validation - Integration", () => {
@@ -539,6 +695,7 @@ describe("Checkout Validation - Integration", () => {
       neighborhood: "Bela Vista",
       city: "São Paulo",
       state: "SP",
+      paymentMethod: "pix",
     };
 
     const result = checkoutSchema.safeParse(data);
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import DeliveryChecker from '@/components/DeliveryChecker';
+import { calculateShipping } from '@/services/shippingService';
+import { getSavedCep } from '@/lib/savedCep';
+import type { Product } from '@/types';
+
+vi.mock('@/services/shippingService', () => ({
+  calculateShipping: vi.fn(),
+}));
+
+const product = {
+  id: '1',
+  name: 'Vinho Tinto',
+  price: 80,
+} as Product;
+
+const olinda = {
+  isAvailable: true,
+  cost: 15,
+  isFree: false,
+  estimatedHours: 2,
+  totalWeight: 1.5,
+  city: 'Olinda',
+  state: 'PE',
+  freeShippingThreshold: 200,
+  message: 'Entrega expressa em até 2 horas por R$ 15.00',
+};
+
+describe('DeliveryChecker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.mocked(calculateShipping).mockResolvedValue(olinda);
+  });
+
+  it('should show the delivery time and shipping cost for the CEP', async () => {
+    render(<DeliveryChecker product={product} />);
+
+    fireEvent.change(screen.getByLabelText(/cep para consultar/i), { target: { value: '53120000' } });
+    fireEvent.click(screen.getByRole('button', { name: /consultar/i }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent(/Entregamos em Olinda em até 2 horas, frete R\$\s15,00/);
+    expect(calculateShipping).toHaveBeenCalledWith('53120-000', [{ ...product, quantity: 1 }], 80);
+    expect(getSavedCep()).toBe('53120-000');
+  });
+
+  it('should check the remembered CEP right away, with the chosen quantity', async () => {
+    localStorage.setItem('tim-tim-cep', '53120-000');
+
+    render(<DeliveryChecker product={product} quantity={3} />);
+
+    expect(screen.getByLabelText(/cep para consultar/i)).toHaveValue('53120-000');
+    await waitFor(() => {
+      expect(calculateShipping).toHaveBeenCalledWith('53120-000', [{ ...product, quantity: 3 }], 240);
+    });
+  });
+
+  it('should show why the CEP is not served', async () => {
+    vi.mocked(calculateShipping).mockResolvedValue({
+      ...olinda,
+      isAvailable: false,
+      message: 'Desculpe, não entregamos em São Paulo.',
+    });
+
+    render(<DeliveryChecker product={product} />);
+
+    fireEvent.change(screen.getByLabelText(/cep para consultar/i), { target: { value: '01310-100' } });
+    fireEvent.click(screen.getByRole('button', { name: /consultar/i }));
+
+    expect(await screen.findByText('Desculpe, não entregamos em São Paulo.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for scheduled delivery slots
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatDeliveryDate,
+  formatDeliverySlot,
+  getDeliveryDates,
+  getDeliveryPeriod,
+  getDeliverySlots,
+} from '@/lib/deliverySlots';
+import type { DeliverySlotSettings } from '@/types';
+
+const settings: DeliverySlotSettings = {
+  daysAhead: 3,
+  minNoticeHours: 3,
+  windows: [
+    { start: '10:00', end: '12:00', capacity: 5 },
+    { start: '18:00', end: '20:00', capacity: 2 },
+  ],
+};
+
+// Monday, 19/10/2026, 16:00 in Recife
+const now = new Date('2026-10-19T16:00:00-03:00');
+
+describe('Delivery slots', () => {
+  it('should build the slots of a date in store time', () => {
+    const slots = getDeliverySlots(settings, '2026-10-20', {}, null, now);
+
+    expect(slots.map((slot) => slot.label)).toEqual(['10:00 às 12:00', '18:00 às 20:00']);
+    expect(slots[1].start.toISOString()).toBe('2026-10-20T21:00:00.000Z');
+    expect(slots[1].end.toISOString()).toBe('2026-10-20T23:00:00.000Z');
+    expect(slots.every((slot) => slot.isAvailable)).toBe(true);
+  });
+
+  it('should disable slots without the minimum notice', () => {
+    const slots = getDeliverySlots(settings, '2026-10-19', {}, null, now);
+
+    expect(slots[0].isAvailable).toBe(false); // 10:00 already passed
+    expect(slots[1].isAvailable).toBe(false); // 18:00 is only 2h away
+
+    const morning = getDeliverySlots(settings, '2026-10-19', {}, null, new Date('2026-10-19T08:00:00-03:00'));
+    expect(morning.map((slot) => slot.isAvailable)).toEqual([false, true]); // 10:00 is only 2h away
+  });
+
+  it('should disable full slots', () => {
+    const slots = getDeliverySlots(settings, '2026-10-20', { '2026-10-20T21:00:00.000Z': 2 }, null, now);
+
+    expect(slots[1].remaining).toBe(0);
+    expect(slots[1].isAvailable).toBe(false);
+    expect(slots[0].remaining).toBe(5);
+  });
+
+  it('should list the dates that still have slots', () => {
+    const dates = getDeliveryDates(settings, null, now);
+
+    expect(dates).toEqual(['2026-10-20', '2026-10-21']);
+    expect(getDeliveryDates(settings, null, new Date('2026-10-19T08:00:00-03:00'))).toEqual([
+      '2026-10-19',
+      '2026-10-20',
+      '2026-10-21',
+    ]);
+  });
+
+  it('should skip closed days and windows outside the opening hours', () => {
+    const storeHours = {
+      // Closed on Tuesdays, closes at 19:00 on Wednesdays
+      weekly: Array.from({ length: 7 }, (_, weekday) =>
+        weekday === 2 ? null : { open: '10:00', close: weekday === 3 ? '19:00' : '22:00' }
+      ),
+      closures: [],
+    };
+
+    expect(getDeliveryDates(settings, storeHours, now)).toEqual(['2026-10-21']);
+    expect(getDeliverySlots(settings, '2026-10-21', {}, storeHours, now).map((slot) => slot.isAvailable)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  it('should cover whole days when loading the usage', () => {
+    const period = getDeliveryPeriod(['2026-10-20', '2026-10-21']);
+
+    expect(period?.from.toISOString()).toBe('2026-10-20T03:00:00.000Z');
+    expect(period?.to.toISOString()).toBe('2026-10-22T03:00:00.000Z');
+    expect(getDeliveryPeriod([])).toBeNull();
+  });
+
+  it('should describe a scheduled delivery in store time', () => {
+    expect(formatDeliveryDate('2026-10-24')).toBe('sábado, 24/10');
+    expect(formatDeliverySlot('2026-10-24T21:00:00Z', '2026-10-24T23:00:00Z')).toBe(
+      'sábado, 24/10, das 18:00 às 20:00'
+    );
+  });
+});
@@ -16,6 +16,7 @@ import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { BrowserRouter } from 'react-router-dom';
 import { CartProvider } from '@/contexts/CartContext';
+import { OrderProvider } from '@/contexts/OrderContext';
 import { ProductProvider } from '@/contexts/ProductContext';
 import { AdminAuthProvider } from '@/contexts/AdminAuthContext';
 import { sessionService } from '@/services/sessionService';
@@ -62,6 +63,17 @@ vi.mock('@/lib/supabase', () => ({
   }
 }));
 
+vi.mock('@/services/orderService', () => ({
+  createOrder: vi.fn().mockResolvedValue({ id: 'order-1', orderNumber: 'TIM-2026-000123' }),
+}));
+
+vi.mock('@/services/settingsService', () => ({
+  getPixSettings: vi.fn().mockResolvedValue(null),
+  getDeliverySlotSettings: vi.fn().mockResolvedValue(null),
+  getPickupSettings: vi.fn().mockResolvedValue(null),
+  getShippingSettings: vi.fn().mockResolvedValue({}),
+}));
+
 // Mock window.open for WhatsApp tests
 const mockWindowOpen = vi.fn();
 window.open = mockWindowOpen;
@@ -72,7 +84,9 @@ const TestWrapper = ({ children }: { children: React.ReactNode }) => (
     <AdminAuthProvider>
       <ProductProvider>
         <CartProvider>
-          {children}
+          <OrderProvider>
+            {children}
+          </OrderProvider>
         </CartProvider>
       </ProductProvider>
     </AdminAuthProvider>
@@ -177,7 +191,7 @@ describe('Task 31: Final Integration Tests', () => {
       // Verify session was cleared
       expect(sessionService.getCart()).toHaveLength(0);
       expect(sessionService.getShipping()).toBeNull();
-    });
+    }, 10000);
 
     it('should redirect to cart if cart is empty', async () => {
       // Ensure cart is empty
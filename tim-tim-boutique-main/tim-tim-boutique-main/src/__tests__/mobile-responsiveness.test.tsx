@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, within } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { CartProvider } from '@/contexts/CartContext';
+import { OrderProvider } from '@/contexts/OrderContext';
 import { ProductProvider } from '@/contexts/ProductContext';
 import { AdminAuthProvider } from '@/contexts/AdminAuthContext';
 import Cart from '@/pages/Cart';
@@ -62,7 +63,9 @@ const renderWithProviders = (component: React.ReactElement) => {
       <AdminAuthProvider>
         <ProductProvider>
           <CartProvider>
-            {component}
+            <OrderProvider>
+              {component}
+            </OrderProvider>
           </CartProvider>
         </ProductProvider>
       </AdminAuthProvider>
@@ -0,0 +1,184 @@
+/**
+ * Order Confirmation Page Tests
+ *
+ * After checkout, /pedido-confirmado shows the order kept in the session
+ * (so a refresh does not lose it), reloads it from the database and lets the
+ * customer resend it to WhatsApp or print a receipt.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import OrderConfirmation from '@/pages/OrderConfirmation';
+import { OrderProvider } from '@/contexts/OrderContext';
+import { sessionService } from '@/services/sessionService';
+import { trackOrder } from '@/services/orderService';
+import { getPixSettings } from '@/services/settingsService';
+import type { Order } from '@/types';
+
+vi.mock('@/services/orderService', () => ({
+  trackOrder: vi.fn(),
+}));
+
+vi.mock('@/services/settingsService', () => ({
+  getPixSettings: vi.fn(),
+  getPickupSettings: vi.fn().mockResolvedValue(null),
+}));
+
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+const mockWindowOpen = vi.fn();
+window.open = mockWindowOpen;
+
+const mockOrder: Order = {
+  id: 'order-uuid',
+  orderNumber: 'TIM-2026-000123',
+  items: [
+    {
+      id: 'item-1',
+      productId: 'prod-1',
+      name: 'Vinho Tinto Reserva',
+      price: 89.9,
+      quantity: 2,
+      subtotal: 179.8,
+    },
+  ],
+  subtotal: 179.8,
+  shippingCost: 15,
+  shippingIsFree: false,
+  total: 194.8,
+  shippingAddress: {
+    cep: '50000-000',
+    street: 'Rua das Flores',
+    number: '123',
+    neighborhood: 'Boa Viagem',
+    city: 'Recife',
+    state: 'PE',
+  },
+  customerInfo: {
+    name: 'João Silva',
+    phone: '(81) 99999-9999',
+  },
+  status: 'pending',
+  statusHistory: [{ id: 'hist-1', toStatus: 'pending', createdAt: '2026-01-01T12:00:00Z' }],
+  createdAt: '2026-01-01T12:00:00Z',
+  updatedAt: '2026-01-01T12:00:00Z',
+};
+
+const renderConfirmation = (url = '/pedido-confirmado?orderId=TIM-2026-000123') =>
+  render(
+    <MemoryRouter initialEntries={[url]}>
+      <OrderProvider>
+        <OrderConfirmation />
+      </OrderProvider>
+    </MemoryRouter>
+  );
+
+describe('Order Confirmation Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+    vi.mocked(trackOrder).mockResolvedValue(null);
+    vi.mocked(getPixSettings).mockResolvedValue({
+      key: 'pix@timtim.com.br',
+      merchantName: 'Tim-Tim Bebidas',
+      merchantCity: 'Recife',
+    });
+  });
+
+  it('should show the order saved in the session (survives a refresh)', () => {
+    sessionService.saveLastOrder(mockOrder);
+    renderConfirmation();
+
+    expect(screen.getByRole('heading', { name: /pedido confirmado/i })).toBeInTheDocument();
+    expect(screen.getAllByText('TIM-2026-000123').length).toBeGreaterThan(0);
+    expect(screen.getAllByText('Vinho Tinto Reserva').length).toBeGreaterThan(0);
+  });
+
+  it('should reload the persisted order by number and phone', async () => {
+    vi.mocked(trackOrder).mockResolvedValue({
+      ...mockOrder,
+      status: 'confirmed',
+      statusHistory: [
+        ...mockOrder.statusHistory,
+        { id: 'hist-2', fromStatus: 'pending', toStatus: 'confirmed', createdAt: '2026-01-01T12:30:00Z' },
+      ],
+    });
+    sessionService.saveLastOrder(mockOrder);
+    renderConfirmation();
+
+    await waitFor(() => {
+      expect(screen.getByText('Confirmado', { selector: 'li[aria-current="step"] span' })).toBeInTheDocument();
+    });
+
+    expect(trackOrder).toHaveBeenCalledWith('TIM-2026-000123', '(81) 99999-9999');
+    expect(sessionService.getLastOrder()?.status).toBe('confirmed');
+  });
+
+  it('should resend the order to WhatsApp', () => {
+    sessionService.saveLastOrder(mockOrder);
+    renderConfirmation();
+
+    fireEvent.click(screen.getByRole('button', { name: /reenviar para o whatsapp/i }));
+
+    const whatsappUrl = decodeURIComponent(mockWindowOpen.mock.calls[0][0] as string);
+    expect(whatsappUrl).toContain('wa.me');
+    expect(whatsappUrl).toContain('PEDIDO #TIM-2026-000123');
+    expect(whatsappUrl).toContain('João Silva');
+  });
+
+  it('should print the receipt', () => {
+    const printSpy = vi.spyOn(window, 'print').mockImplementation(() => {});
+    sessionService.saveLastOrder(mockOrder);
+    renderConfirmation();
+
+    fireEvent.click(screen.getByRole('button', { name: /imprimir comprovante/i }));
+
+    expect(printSpy).toHaveBeenCalled();
+    expect(screen.getByRole('region', { name: /comprovante do pedido/i })).toBeInTheDocument();
+    printSpy.mockRestore();
+  });
+
+  it('should show the PIX QR code and copia e cola for PIX orders', async () => {
+    sessionService.saveLastOrder({ ...mockOrder, paymentMethod: 'pix' });
+    renderConfirmation();
+
+    expect(await screen.findByRole('img', { name: /qr code pix/i })).toBeInTheDocument();
+    const pixCode = screen.getByLabelText(/pix copia e cola/i) as HTMLInputElement;
+    expect(pixCode.value).toContain('5406194.80');
+    expect(pixCode.value).toContain('0513TIM2026000123');
+
+    fireEvent.click(screen.getByRole('button', { name: /reenviar para o whatsapp/i }));
+    const whatsappUrl = decodeURIComponent(mockWindowOpen.mock.calls[0][0] as string);
+    expect(whatsappUrl).toContain(pixCode.value);
+  });
+
+  it('should not show the PIX QR code for cancelled orders', () => {
+    sessionService.saveLastOrder({ ...mockOrder, paymentMethod: 'pix', status: 'cancelled' });
+    renderConfirmation();
+
+    expect(screen.queryByRole('img', { name: /qr code pix/i })).not.toBeInTheDocument();
+    expect(getPixSettings).not.toHaveBeenCalled();
+  });
+
+  it('should point to order tracking when the order is not in this session', () => {
+    sessionService.saveLastOrder({ ...mockOrder, orderNumber: 'TIM-2026-000100' });
+    renderConfirmation();
+
+    expect(screen.getByText(/não encontramos os detalhes deste pedido/i)).toBeInTheDocument();
+    expect(trackOrder).not.toHaveBeenCalled();
+  });
+
+  it('should redirect home without an order number', () => {
+    renderConfirmation('/pedido-confirmado');
+
+    expect(mockNavigate).toHaveBeenCalledWith('/');
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Tests for the order status workflow
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canTransitionOrderStatus,
+  getNextOrderStatuses,
+  getOrderStatusLabel,
+} from '@/lib/orderStatus';
+
+describe('Order status workflow', () => {
+  it('should follow pending → confirmed → processing → shipped → delivered', () => {
+    expect(canTransitionOrderStatus('pending', 'confirmed')).toBe(true);
+    expect(canTransitionOrderStatus('confirmed', 'processing')).toBe(true);
+    expect(canTransitionOrderStatus('processing', 'shipped')).toBe(true);
+    expect(canTransitionOrderStatus('shipped', 'delivered')).toBe(true);
+  });
+
+  it('should allow cancelling until the order is shipped', () => {
+    expect(canTransitionOrderStatus('pending', 'cancelled')).toBe(true);
+    expect(canTransitionOrderStatus('confirmed', 'cancelled')).toBe(true);
+    expect(canTransitionOrderStatus('processing', 'cancelled')).toBe(true);
+    expect(canTransitionOrderStatus('shipped', 'cancelled')).toBe(false);
+  });
+
+  it('should reject skipping or going back in the flow', () => {
+    expect(canTransitionOrderStatus('pending', 'shipped')).toBe(false);
+    expect(canTransitionOrderStatus('shipped', 'confirmed')).toBe(false);
+    expect(canTransitionOrderStatus('pending', 'pending')).toBe(false);
+  });
+
+  it('should treat delivered and cancelled as final', () => {
+    expect(getNextOrderStatuses('delivered')).toEqual([]);
+    expect(getNextOrderStatuses('cancelled')).toEqual([]);
+  });
+
+  it('should have a label for processing', () => {
+    expect(getOrderStatusLabel('processing')).toBe('Em preparação');
+  });
+});
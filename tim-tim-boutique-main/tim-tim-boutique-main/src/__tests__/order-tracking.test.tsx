@@ -0,0 +1,119 @@
+/**
+ * Order Tracking Page Tests
+ *
+ * The /perfil page looks an order up by number + email or phone and shows
+ * its items, totals, address and status timeline.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import Profile from '@/pages/Profile';
+import { trackOrder } from '@/services/orderService';
+import type { Order } from '@/types';
+
+vi.mock('@/services/orderService', () => ({
+  trackOrder: vi.fn(),
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const mockOrder: Order = {
+  id: 'order-uuid',
+  orderNumber: 'TIM-2026-000123',
+  items: [
+    {
+      id: 'item-1',
+      productId: 'prod-1',
+      name: 'Vinho Tinto Reserva',
+      price: 89.9,
+      quantity: 2,
+      subtotal: 179.8,
+    },
+  ],
+  subtotal: 179.8,
+  shippingCost: 15,
+  shippingIsFree: false,
+  total: 194.8,
+  shippingAddress: {
+    cep: '50000-000',
+    street: 'Rua das Flores',
+    number: '123',
+    neighborhood: 'Boa Viagem',
+    city: 'Recife',
+    state: 'PE',
+  },
+  customerInfo: {
+    name: 'João Silva',
+    phone: '(81) 99999-9999',
+  },
+  status: 'confirmed',
+  statusHistory: [
+    { id: 'hist-1', toStatus: 'pending', createdAt: '2025-01-01T12:00:00Z' },
+    { id: 'hist-2', fromStatus: 'pending', toStatus: 'confirmed', createdAt: '2025-01-01T13:30:00Z' },
+  ],
+  createdAt: '2025-01-01T12:00:00Z',
+  updatedAt: '2025-01-01T12:00:00Z',
+};
+
+const renderProfile = () =>
+  render(
+    <BrowserRouter>
+      <Profile />
+    </BrowserRouter>
+  );
+
+const search = (orderNumber: string, contact: string) => {
+  fireEvent.change(screen.getByLabelText(/número do pedido/i), { target: { value: orderNumber } });
+  fireEvent.change(screen.getByLabelText(/email ou telefone/i), { target: { value: contact } });
+  fireEvent.click(screen.getByRole('button', { name: /rastrear pedido/i }));
+};
+
+describe('Order Tracking Page', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should not search when a field is empty', () => {
+    renderProfile();
+
+    search('TIM-2026-000123', '');
+
+    expect(trackOrder).not.toHaveBeenCalled();
+  });
+
+  it('should display the order with its status timeline', async () => {
+    vi.mocked(trackOrder).mockResolvedValue(mockOrder);
+    renderProfile();
+
+    search('TIM-2026-000123', '(81) 99999-9999');
+
+    await waitFor(() => {
+      expect(screen.getByText('TIM-2026-000123')).toBeInTheDocument();
+    });
+
+    expect(trackOrder).toHaveBeenCalledWith('TIM-2026-000123', '(81) 99999-9999');
+    expect(screen.getByText('2x Vinho Tinto Reserva')).toBeInTheDocument();
+    expect(screen.getByText(/rua das flores, 123/i)).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: /andamento do pedido/i })).toBeInTheDocument();
+    expect(screen.getByText('Confirmado', { selector: 'li[aria-current="step"] span' })).toBeInTheDocument();
+    expect(screen.getByText('Enviado')).toBeInTheDocument();
+    expect(screen.getAllByText(/01\/01\/2025/).length).toBeGreaterThan(1);
+  });
+
+  it('should show a message when no order matches', async () => {
+    vi.mocked(trackOrder).mockResolvedValue(null);
+    renderProfile();
+
+    search('TIM-2026-999999', 'outro@email.com');
+
+    await waitFor(() => {
+      expect(screen.getByText(/nenhum pedido encontrado/i)).toBeInTheDocument();
+    });
+  });
+});
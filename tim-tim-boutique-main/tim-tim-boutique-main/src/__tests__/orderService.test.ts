@@ -0,0 +1,455 @@
+/**
+ * Tests for OrderService
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  cancelOrder,
+  createOrder,
+  getDeliverySlotUsage,
+  trackOrder,
+  updateOrderStatus,
+  type CreateOrderData,
+} from '@/services/orderService';
+import {
+  DeliverySlotUnavailableError,
+  InsufficientStockError,
+  PriceChangedError,
+  ShippingChangedError,
+} from '@/lib/errorHandling';
+import { supabase } from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    rpc: vi.fn(),
+  },
+}));
+
+const mockOrderData: CreateOrderData = {
+  items: [
+    { productId: 'prod-1', name: 'Vinho Tinto Reserva', price: 89.9, quantity: 2 },
+    { productId: 'prod-2', name: 'Espumante Brut', price: 65, quantity: 1 },
+  ],
+  subtotal: 244.8,
+  shippingCost: 0,
+  shippingIsFree: true,
+  total: 244.8,
+  customerInfo: {
+    name: 'João Silva',
+    phone: '(81) 99999-9999',
+  },
+  shippingAddress: {
+    cep: '50000-000',
+    street: 'Rua das Flores',
+    number: '123',
+    neighborhood: 'Boa Viagem',
+    city: 'Recife',
+    state: 'PE',
+  },
+  paymentMethod: 'cash',
+  changeFor: 300,
+  estimatedHours: 2,
+};
+
+const mockDbOrder = {
+  id: 'order-uuid',
+  order_number: 'TIM-2026-000123',
+  customer_name: 'João Silva',
+  customer_email: null,
+  customer_phone: '(81) 99999-9999',
+  shipping_street: 'Rua das Flores',
+  shipping_number: '123',
+  shipping_complement: null,
+  shipping_neighborhood: 'Boa Viagem',
+  shipping_city: 'Recife',
+  shipping_state: 'PE',
+  shipping_zip_code: '50000-000',
+  subtotal: '244.80',
+  shipping_cost: '0.00',
+  total: '244.80',
+  shipping_carrier: 'Tim-Tim Entrega Expressa',
+  shipping_estimated_hours: 2,
+  shipping_is_free: true,
+  shipping_tracking_code: null,
+  shipping_delivery_time: null,
+  status: 'pending',
+  payment_method: 'cash',
+  payment_change_for: '300.00',
+  created_at: '2025-01-01T12:00:00Z',
+  updated_at: '2025-01-01T12:00:00Z',
+  order_items: [
+    {
+      id: 'item-1',
+      order_id: 'order-uuid',
+      product_id: 'prod-1',
+      product_name: 'Vinho Tinto Reserva',
+      product_price: '89.90',
+      quantity: 2,
+      subtotal: '179.80',
+      created_at: '2025-01-01T12:00:00Z',
+    },
+  ],
+};
+
+describe('OrderService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createOrder', () => {
+    it('should send order and items to the create_order function', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: mockDbOrder, error: null } as never);
+
+      await createOrder(mockOrderData);
+
+      expect(supabase.rpc).toHaveBeenCalledWith('create_order', {
+        p_order: expect.objectContaining({
+          customer_name: 'João Silva',
+          customer_email: null,
+          shipping_zip_code: '50000-000',
+          shipping_city: 'Recife',
+          subtotal: 244.8,
+          total: 244.8,
+          shipping_is_free: true,
+          shipping_estimated_hours: 2,
+          payment_method: 'cash',
+          payment_change_for: 300,
+        }),
+        p_items: [
+          { product_id: 'prod-1', variant_id: null, product_name: 'Vinho Tinto Reserva', product_price: 89.9, quantity: 2 },
+          { product_id: 'prod-2', variant_id: null, product_name: 'Espumante Brut', product_price: 65, quantity: 1 },
+        ],
+      });
+    });
+
+    it('should leave the order number to the database', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: mockDbOrder, error: null } as never);
+
+      await createOrder(mockOrderData);
+
+      const [, params] = vi.mocked(supabase.rpc).mock.calls[0] as [string, { p_order: object }];
+      expect(params.p_order).not.toHaveProperty('order_number');
+    });
+
+    it('should map the created order to the app Order type', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: mockDbOrder, error: null } as never);
+
+      const order = await createOrder(mockOrderData);
+
+      expect(order.orderNumber).toBe('TIM-2026-000123');
+      expect(order.status).toBe('pending');
+      expect(order.total).toBe(244.8);
+      expect(order.customerInfo.email).toBeUndefined();
+      expect(order.paymentMethod).toBe('cash');
+      expect(order.changeFor).toBe(300);
+      expect(order.shippingAddress.cep).toBe('50000-000');
+      expect(order.items).toEqual([
+        {
+          id: 'item-1',
+          productId: 'prod-1',
+          name: 'Vinho Tinto Reserva',
+          price: 89.9,
+          quantity: 2,
+          subtotal: 179.8,
+        },
+      ]);
+    });
+
+    it('should throw a friendly error for duplicated order numbers', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { code: '23505', message: 'duplicate key value' },
+      } as never);
+
+      await expect(createOrder(mockOrderData)).rejects.toThrow('Já existe um pedido com este número');
+    });
+
+    it('should throw InsufficientStockError with the failed lines', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: {
+          code: 'P0001',
+          message: 'Estoque insuficiente',
+          hint: 'insufficient_stock',
+          details: JSON.stringify([
+            { product_id: 'prod-1', product_name: 'Vinho Tinto Reserva', requested: 2, available: 1 },
+          ]),
+        },
+      } as never);
+
+      const error = await createOrder(mockOrderData).catch(e => e);
+
+      expect(error).toBeInstanceOf(InsufficientStockError);
+      expect(error.shortages).toEqual([
+        { productId: 'prod-1', productName: 'Vinho Tinto Reserva', requested: 2, available: 1 },
+      ]);
+    });
+
+    it('should send the scheduled delivery window', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: mockDbOrder, error: null } as never);
+
+      await createOrder({
+        ...mockOrderData,
+        estimatedHours: undefined,
+        estimatedDeliveryTime: new Date('2026-10-24T21:00:00Z'),
+        deliveryWindowEnd: new Date('2026-10-24T23:00:00Z'),
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('create_order', expect.objectContaining({
+        p_order: expect.objectContaining({
+          shipping_estimated_hours: null,
+          shipping_delivery_time: '2026-10-24T21:00:00.000Z',
+          shipping_delivery_window_end: '2026-10-24T23:00:00.000Z',
+        }),
+      }));
+    });
+
+    it('should send store pickup orders without address', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: {
+          ...mockDbOrder,
+          fulfillment_method: 'pickup',
+          shipping_street: null,
+          shipping_number: null,
+          shipping_neighborhood: null,
+          shipping_city: null,
+          shipping_state: null,
+          shipping_zip_code: null,
+          shipping_carrier: 'Retirada na loja',
+        },
+        error: null,
+      } as never);
+
+      const order = await createOrder({
+        ...mockOrderData,
+        fulfillmentMethod: 'pickup',
+        shippingAddress: undefined,
+        estimatedHours: undefined,
+        estimatedDeliveryTime: new Date('2026-10-19T18:00:00Z'),
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('create_order', expect.objectContaining({
+        p_order: expect.objectContaining({
+          fulfillment_method: 'pickup',
+          shipping_street: null,
+          shipping_zip_code: null,
+          shipping_carrier: 'Retirada na loja',
+          shipping_delivery_time: '2026-10-19T18:00:00.000Z',
+        }),
+      }));
+      expect(order.fulfillmentMethod).toBe('pickup');
+      expect(order.shippingAddress).toBeUndefined();
+    });
+
+    it('should throw DeliverySlotUnavailableError when the window is full', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { code: 'P0001', message: 'Horário de entrega esgotado', hint: 'delivery_slot_unavailable' },
+      } as never);
+
+      await expect(createOrder(mockOrderData)).rejects.toBeInstanceOf(DeliverySlotUnavailableError);
+    });
+
+    it('should throw PriceChangedError when the prices no longer match the store', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { code: 'P0001', message: 'Os preços dos produtos mudaram', hint: 'price_changed' },
+      } as never);
+
+      await expect(createOrder(mockOrderData)).rejects.toBeInstanceOf(PriceChangedError);
+    });
+
+    it('should throw ShippingChangedError when the shipping no longer matches the store rules', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { code: 'P0001', message: 'O frete mudou', hint: 'shipping_changed' },
+      } as never);
+
+      await expect(createOrder(mockOrderData)).rejects.toBeInstanceOf(ShippingChangedError);
+    });
+
+    it('should throw when the database returns an error', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { code: '42501', message: 'permission denied' },
+      } as never);
+
+      await expect(createOrder(mockOrderData)).rejects.toThrow('Erro ao criar pedido: permission denied');
+    });
+  });
+
+  describe('getDeliverySlotUsage', () => {
+    it('should return the orders per slot start', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: [{ slot_start: '2026-10-24T21:00:00+00:00', orders_count: 3 }],
+        error: null,
+      } as never);
+
+      const usage = await getDeliverySlotUsage(
+        new Date('2026-10-19T03:00:00Z'),
+        new Date('2026-10-26T03:00:00Z')
+      );
+
+      expect(supabase.rpc).toHaveBeenCalledWith('get_delivery_slot_usage', {
+        p_from: '2026-10-19T03:00:00.000Z',
+        p_to: '2026-10-26T03:00:00.000Z',
+      });
+      expect(usage).toEqual({ '2026-10-24T21:00:00.000Z': 3 });
+    });
+  });
+
+  describe('trackOrder', () => {
+    it('should look the order up by number and contact', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: mockDbOrder, error: null } as never);
+
+      const order = await trackOrder(' TIM-2026-000123 ', '(81) 99999-9999');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('track_order', {
+        p_order_number: 'TIM-2026-000123',
+        p_contact: '(81) 99999-9999',
+      });
+      expect(order?.orderNumber).toBe('TIM-2026-000123');
+      expect(order?.items).toHaveLength(1);
+    });
+
+    it('should return null when number and contact do not match', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: null } as never);
+
+      await expect(trackOrder('TIM-2026-000123', 'outro@email.com')).resolves.toBeNull();
+    });
+
+    it('should throw when the database returns an error', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { code: '42883', message: 'function does not exist' },
+      } as never);
+
+      await expect(trackOrder('TIM-2026-000123', 'joao@email.com')).rejects.toThrow(
+        'Erro ao rastrear pedido: function does not exist'
+      );
+    });
+  });
+
+  describe('updateOrderStatus', () => {
+    it('should change the status through change_order_status with the audit data', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: {
+          ...mockDbOrder,
+          status: 'confirmed',
+          order_status_history: [
+            {
+              id: 'hist-2',
+              order_id: 'order-uuid',
+              from_status: 'pending',
+              to_status: 'confirmed',
+              changed_by: 'admin@timtim.com',
+              note: 'Pagamento confirmado',
+              created_at: '2025-01-01T13:00:00Z',
+            },
+            {
+              id: 'hist-1',
+              order_id: 'order-uuid',
+              from_status: null,
+              to_status: 'pending',
+              changed_by: 'cliente',
+              note: null,
+              created_at: '2025-01-01T12:00:00Z',
+            },
+          ],
+        },
+        error: null,
+      } as never);
+
+      const order = await updateOrderStatus('order-uuid', 'pending', 'confirmed', {
+        changedBy: 'admin@timtim.com',
+        note: ' Pagamento confirmado ',
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('change_order_status', {
+        p_order_id: 'order-uuid',
+        p_from_status: 'pending',
+        p_to_status: 'confirmed',
+        p_changed_by: 'admin@timtim.com',
+        p_note: 'Pagamento confirmado',
+      });
+      expect(order.status).toBe('confirmed');
+      expect(order.statusHistory.map(entry => entry.toStatus)).toEqual(['pending', 'confirmed']);
+      expect(order.statusHistory[0].fromStatus).toBeUndefined();
+      expect(order.statusHistory[1]).toMatchObject({
+        fromStatus: 'pending',
+        changedBy: 'admin@timtim.com',
+        note: 'Pagamento confirmado',
+      });
+    });
+
+    it('should reject invalid transitions without calling the database', async () => {
+      await expect(updateOrderStatus('order-uuid', 'pending', 'delivered')).rejects.toThrow(
+        'Não é possível alterar o pedido de "Pendente" para "Entregue"'
+      );
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should throw when the order was changed by someone else', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { code: 'P0001', message: 'O pedido não está mais no status pending', hint: 'status_conflict' },
+      } as never);
+
+      await expect(updateOrderStatus('order-uuid', 'pending', 'confirmed')).rejects.toThrow(
+        'O pedido foi alterado por outra pessoa'
+      );
+    });
+  });
+
+  describe('cancelOrder', () => {
+    const mockCancelledOrder = {
+      ...mockDbOrder,
+      status: 'cancelled',
+      cancellation_reason: 'Cliente desistiu',
+      cancelled_at: '2025-01-01T14:00:00Z',
+    };
+
+    it('should cancel through cancel_order with the reason', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: mockCancelledOrder, error: null } as never);
+
+      const order = await cancelOrder('order-uuid', 'confirmed', ' Cliente desistiu ', {
+        changedBy: 'admin@timtim.com',
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('cancel_order', {
+        p_order_id: 'order-uuid',
+        p_reason: 'Cliente desistiu',
+        p_changed_by: 'admin@timtim.com',
+        p_expected_status: 'confirmed',
+      });
+      expect(order.status).toBe('cancelled');
+      expect(order.cancellationReason).toBe('Cliente desistiu');
+      expect(order.cancelledAt).toBe('2025-01-01T14:00:00Z');
+    });
+
+    it('should require a reason', async () => {
+      await expect(cancelOrder('order-uuid', 'pending', '  ')).rejects.toThrow(
+        'Informe o motivo do cancelamento'
+      );
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should not cancel shipped orders', async () => {
+      await expect(cancelOrder('order-uuid', 'shipped', 'Cliente desistiu')).rejects.toThrow(
+        'Pedidos com status "Enviado" não podem ser cancelados'
+      );
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should be used by updateOrderStatus when cancelling', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: mockCancelledOrder, error: null } as never);
+
+      await updateOrderStatus('order-uuid', 'pending', 'cancelled', { note: 'Cliente desistiu' });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('cancel_order', expect.objectContaining({
+        p_reason: 'Cliente desistiu',
+        p_expected_status: 'pending',
+      }));
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for store pickup windows
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatPickupWindow, getPickupWindow } from '@/lib/pickup';
+import type { PickupSettings, StoreHours } from '@/types';
+
+const settings: PickupSettings = {
+  address: 'Rua da Aurora, 100 - Boa Vista, Recife - PE',
+  readyHours: 1,
+};
+
+// Closed on Sundays, 10:00 to 22:00 on the other days
+const storeHours: StoreHours = {
+  weekly: Array.from({ length: 7 }, (_, weekday) => (weekday === 0 ? null : { open: '10:00', close: '22:00' })),
+  closures: [],
+};
+
+describe('Store pickup', () => {
+  it('should be ready after the preparation time, until the store closes', () => {
+    const now = new Date('2026-10-19T14:00:00-03:00');
+    const window = getPickupWindow(settings, storeHours, now);
+
+    expect(window.start).toEqual(new Date('2026-10-19T15:00:00-03:00'));
+    expect(window.end).toEqual(new Date('2026-10-19T22:00:00-03:00'));
+    expect(formatPickupWindow(window, now)).toBe('a partir de hoje às 15:00 (até 22:00)');
+  });
+
+  it('should move to the next opening when the order is ready after closing time', () => {
+    // Saturday 21:30: ready at 22:30, store closed on Sunday
+    const now = new Date('2026-10-24T21:30:00-03:00');
+    const window = getPickupWindow(settings, storeHours, now);
+
+    expect(window.start).toEqual(new Date('2026-10-26T10:00:00-03:00'));
+    expect(window.end).toEqual(new Date('2026-10-26T22:00:00-03:00'));
+  });
+
+  it('should count the preparation time from the opening when the store is closed', () => {
+    const now = new Date('2026-10-20T08:00:00-03:00');
+
+    expect(getPickupWindow(settings, storeHours, now).start).toEqual(new Date('2026-10-20T11:00:00-03:00'));
+  });
+
+  it('should have no closing time without configured hours', () => {
+    const now = new Date('2026-10-19T23:00:00-03:00');
+    const window = getPickupWindow(settings, null, now);
+
+    expect(window).toEqual({ start: new Date('2026-10-20T00:00:00-03:00') });
+    expect(formatPickupWindow(window, now)).toBe('a partir de amanhã às 00:00');
+  });
+});
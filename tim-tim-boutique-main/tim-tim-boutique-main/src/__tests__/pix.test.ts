@@ -0,0 +1,68 @@
+/**
+ * Tests for the PIX BR Code ("copia e cola") generator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { crc16, generatePixPayload, toPixTxid } from '@/lib/pix';
+
+const settings = {
+  key: 'pix@timtim.com.br',
+  merchantName: 'Tim-Tim Bebidas',
+  merchantCity: 'Recife',
+};
+
+describe('PIX BR Code', () => {
+  it('should compute the CRC16 of the Banco Central example', () => {
+    const payload =
+      '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-426655440000' +
+      '5204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***6304';
+
+    expect(crc16(payload)).toBe('1D3D');
+  });
+
+  it('should build the payload with key, amount, merchant and order number', () => {
+    const payload = generatePixPayload({ ...settings, amount: 194.8, txid: 'TIM-2026-000123' });
+
+    expect(payload).toBe(
+      '000201' +
+        '26390014br.gov.bcb.pix0117pix@timtim.com.br' +
+        '52040000' +
+        '5303986' +
+        '5406194.80' +
+        '5802BR' +
+        '5915Tim-Tim Bebidas' +
+        '6006Recife' +
+        '62170513TIM2026000123' +
+        '6304' +
+        crc16(payload.slice(0, -4))
+    );
+  });
+
+  it('should end with a valid checksum', () => {
+    const payload = generatePixPayload({ ...settings, amount: 50 });
+
+    expect(payload.slice(-4)).toBe(crc16(payload.slice(0, -4)));
+    expect(payload).toContain('62070503***');
+  });
+
+  it('should remove accents and truncate merchant name and city', () => {
+    const payload = generatePixPayload({
+      ...settings,
+      merchantName: 'Distribuidora de Bebidas Tim-Tim Ltda',
+      merchantCity: 'São José da Coroa Grande',
+      amount: 10,
+    });
+
+    expect(payload).toContain('5924Distribuidora de Bebidas6015');
+    expect(payload).toContain('6015Sao Jose da Cor');
+  });
+
+  it('should omit the amount when it is zero', () => {
+    expect(generatePixPayload({ ...settings, amount: 0 })).not.toContain('5404');
+  });
+
+  it('should keep only letters and digits in the txid', () => {
+    expect(toPixTxid('TIM-2026-000123')).toBe('TIM2026000123');
+    expect(toPixTxid('A'.repeat(30))).toHaveLength(25);
+  });
+});
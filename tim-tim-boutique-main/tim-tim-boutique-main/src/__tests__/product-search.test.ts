@@ -0,0 +1,157 @@
+/**
+ * Tests for the product search (searchProducts -> search_products)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getProductFacets, searchProducts } from '@/services/productService';
+import { supabase } from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    rpc: vi.fn(),
+  },
+}));
+
+const mockDbProduct = {
+  id: 'prod-1',
+  name: 'Cachaça Envelhecida',
+  description: 'Cachaça mineira envelhecida em carvalho',
+  price: 120,
+  category: 'destilado',
+  image_url: '/images/cachaca.jpg',
+  stock: 4,
+  tags: [],
+  featured: false,
+  discount: 0,
+  country: 'Brasil',
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+describe('searchProducts', () => {
+  beforeEach(() => {
+    vi.mocked(supabase.rpc).mockReset();
+    vi.mocked(supabase.rpc).mockResolvedValue({
+      data: { total: 13, products: [mockDbProduct] },
+      error: null,
+    } as never);
+  });
+
+  it('should send the term as a parameter, sorted by relevance', async () => {
+    await searchProducts({ query: '  cachaca,  (velha)%  ' });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_products', {
+      p_query: 'cachaca, (velha)%',
+      p_filters: {},
+      p_sort: 'relevance',
+      p_limit: 12,
+      p_offset: 0,
+      p_synonyms: null,
+    });
+  });
+
+  it('should send the filters, the chosen sort and the page offset', async () => {
+    await searchProducts({
+      categories: ['vinho'],
+      countries: [],
+      grapes: ['Malbec', 'Merlot'],
+      minPrice: 500,
+      maxPrice: 1000,
+      maxAlcohol: 14,
+      sort: 'price-asc',
+      page: 3,
+      pageSize: 10,
+    });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_products', expect.objectContaining({
+      p_query: null,
+      p_filters: {
+        categories: ['vinho'],
+        grapes: ['Malbec', 'Merlot'],
+        min_price: 500,
+        max_price: 1000,
+        max_alcohol: 14,
+      },
+      p_sort: 'price-asc',
+      p_limit: 10,
+      p_offset: 20,
+    }));
+  });
+
+  it('should send the synonyms of the term', async () => {
+    await searchProducts({ query: 'champanhe brut', synonyms: ['espumante brut', 'prosecco brut'] });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_products', expect.objectContaining({
+      p_query: 'champanhe brut',
+      p_synonyms: ['espumante brut', 'prosecco brut'],
+    }));
+  });
+
+  it('should list the newest products without a term', async () => {
+    await searchProducts();
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_products', expect.objectContaining({
+      p_query: null,
+      p_sort: 'newest',
+    }));
+  });
+
+  it('should return the page of products and the total', async () => {
+    const result = await searchProducts({ query: 'cachaca', page: 2 });
+
+    expect(result.total).toBe(13);
+    expect(result.page).toBe(2);
+    expect(result.products).toHaveLength(1);
+    expect(result.products[0]).toMatchObject({
+      id: 'prod-1',
+      name: 'Cachaça Envelhecida',
+      image: '/images/cachaca.jpg',
+    });
+  });
+
+  it('should throw a friendly error when the search fails', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({
+      data: null,
+      error: { message: 'function search_products does not exist' },
+    } as never);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(searchProducts({ query: 'vinho' })).rejects.toThrow('Não foi possível buscar os produtos');
+  });
+});
+
+describe('getProductFacets', () => {
+  beforeEach(() => {
+    vi.mocked(supabase.rpc).mockReset();
+  });
+
+  it('should send the search and the filters', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: {}, error: null } as never);
+
+    await getProductFacets({ query: 'tinto', synonyms: ['vermelho'], countries: ['Chile'] });
+
+    expect(supabase.rpc).toHaveBeenCalledWith('search_product_facets', {
+      p_query: 'tinto',
+      p_filters: { countries: ['Chile'] },
+      p_synonyms: ['vermelho'],
+    });
+  });
+
+  it('should return the options with their counts and the ranges', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({
+      data: {
+        grapes: [{ value: 'Malbec', count: 3 }],
+        price: { min: '39.9', max: 890 },
+        alcohol: { min: null, max: null },
+      },
+      error: null,
+    } as never);
+
+    const facets = await getProductFacets();
+
+    expect(facets.grapes).toEqual([{ value: 'Malbec', count: 3 }]);
+    expect(facets.countries).toEqual([]);
+    expect(facets.price).toEqual({ min: 39.9, max: 890 });
+    expect(facets.alcohol).toBeNull();
+  });
+});
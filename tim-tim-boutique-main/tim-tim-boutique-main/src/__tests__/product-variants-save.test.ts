@@ -0,0 +1,53 @@
+/**
+ * Tests for saving product variants (saveProductVariants -> save_product_variants)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { saveProductVariants } from '@/services/productService';
+import { supabase } from '@/lib/supabase';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    rpc: vi.fn(),
+  },
+}));
+
+describe('saveProductVariants', () => {
+  beforeEach(() => {
+    vi.mocked(supabase.rpc).mockReset();
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: null } as never);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should save the whole list in a single call, in order', async () => {
+    await saveProductVariants('p1', [
+      { id: 'v2', sku: ' JW-BLACK-1L ', volume: '1 L', price: 250, stock: 2, image: '' },
+      { sku: 'JW-BLACK-750', volume: '750ml ', price: 180, stock: 5, image: 'black.jpg' },
+    ]);
+
+    expect(supabase.rpc).toHaveBeenCalledTimes(1);
+    expect(supabase.rpc).toHaveBeenCalledWith('save_product_variants', {
+      p_product_id: 'p1',
+      p_variants: [
+        { id: 'v2', sku: 'JW-BLACK-1L', volume: '1 L', price: 250, stock: 2, image_url: null },
+        { id: null, sku: 'JW-BLACK-750', volume: '750ml', price: 180, stock: 5, image_url: 'black.jpg' },
+      ],
+    });
+  });
+
+  it('should report a repeated SKU', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: { code: '23505' } } as never);
+
+    await expect(
+      saveProductVariants('p1', [{ sku: 'JW-BLACK-750', volume: '750ml', price: 180, stock: 5 }])
+    ).rejects.toThrow('Já existe uma variante com este SKU');
+  });
+
+  it('should throw a friendly error when the save fails', async () => {
+    vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: { code: 'P0002' } } as never);
+
+    await expect(saveProductVariants('p1', [])).rejects.toThrow(
+      'Não foi possível salvar as variantes do produto'
+    );
+  });
+});
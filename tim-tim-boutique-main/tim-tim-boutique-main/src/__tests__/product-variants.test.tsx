@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import type { ReactNode } from 'react';
+import { CartProvider, useCart } from '@/contexts/CartContext';
+import { getProductsByIds } from '@/services/productService';
+import {
+  getCartItemKey,
+  getCartItemName,
+  getDefaultVariant,
+  hasVariants,
+  toCartProduct,
+} from '@/lib/productVariants';
+import { Product } from '@/types';
+
+vi.mock('@/services/sessionService', () => ({
+  sessionService: {
+    getCart: vi.fn(() => []),
+    saveCart: vi.fn(),
+    clearCart: vi.fn(),
+    getShipping: vi.fn(() => null),
+    saveShipping: vi.fn(),
+    clearShipping: vi.fn(),
+    clearSession: vi.fn(),
+  },
+  ShippingInfo: {},
+}));
+
+vi.mock('@/lib/migration', () => ({
+  migrateFromLocalStorage: vi.fn(),
+}));
+
+vi.mock('@/services/productService', () => ({
+  getProductsByIds: vi.fn(),
+}));
+
+const product: Product = {
+  id: 'p1',
+  name: 'Johnnie Walker Black Label',
+  category: 'Whisky',
+  country: 'Escócia',
+  price: 180,
+  image: 'black.jpg',
+  description: 'Blended Scotch Whisky',
+  alcoholContent: '40%',
+  volume: '750ml',
+  tastingNotes: [],
+  pairing: [],
+  stock: 7,
+  variants: [
+    { id: 'v1', sku: 'JW-BLACK-750', volume: '750ml', price: 180, stock: 0 },
+    { id: 'v2', sku: 'JW-BLACK-1L', volume: '1L', price: 230, stock: 2, image: 'black-1l.jpg' },
+    { id: 'v3', sku: 'JW-BLACK-375', volume: '375ml', price: 110, stock: 5 },
+  ],
+};
+
+const wrapper = ({ children }: { children: ReactNode }) => <CartProvider>{children}</CartProvider>;
+
+describe('Product Variants', () => {
+  describe('helpers', () => {
+    it('should open the product page on the first variant in stock', () => {
+      expect(hasVariants(product)).toBe(true);
+      expect(getDefaultVariant(product)?.id).toBe('v2');
+      expect(hasVariants({ ...product, variants: [] })).toBe(false);
+    });
+
+    it('should sell the variant with its own price, stock, volume and image', () => {
+      const item = toCartProduct(product, product.variants[1]);
+
+      expect(item).toMatchObject({ id: 'p1', variantId: 'v2', price: 230, stock: 2, volume: '1L', image: 'black-1l.jpg' });
+      expect(toCartProduct(product, product.variants[2]).image).toBe('black.jpg');
+      expect(toCartProduct(product)).toBe(product);
+    });
+
+    it('should name and key cart lines by variant', () => {
+      const item = toCartProduct(product, product.variants[1]);
+
+      expect(getCartItemKey(item)).toBe('v2');
+      expect(getCartItemKey(product)).toBe('p1');
+      expect(getCartItemName(item)).toBe('Johnnie Walker Black Label (1L)');
+      expect(getCartItemName(product)).toBe('Johnnie Walker Black Label');
+    });
+  });
+
+  describe('cart', () => {
+    it('should keep each variant in its own line with its own stock limit', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(product, product.variants[1]);
+        result.current.addItem(product, product.variants[2]);
+      });
+
+      expect(result.current.items).toHaveLength(2);
+      expect(result.current.items.map((item) => item.variantId)).toEqual(['v2', 'v3']);
+
+      // The 1L variant has 2 bottles, even though the product has 7 in total
+      act(() => {
+        result.current.addItem(product, product.variants[1]);
+      });
+      act(() => {
+        result.current.addItem(product, product.variants[1]);
+      });
+
+      expect(result.current.items[0].quantity).toBe(2);
+    });
+
+    it('should update and remove a variant line by its key', () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(product, product.variants[1]);
+        result.current.addItem(product, product.variants[2]);
+      });
+      act(() => {
+        result.current.updateQuantity('v3', 4);
+      });
+      act(() => {
+        result.current.removeItem('v2');
+      });
+
+      expect(result.current.items).toHaveLength(1);
+      expect(result.current.items[0]).toMatchObject({ variantId: 'v3', quantity: 4, price: 110 });
+    });
+
+    it('should reload prices and sales from the store when prices are refreshed', async () => {
+      const { result } = renderHook(() => useCart(), { wrapper });
+
+      act(() => {
+        result.current.addItem(product, product.variants[1]);
+      });
+      act(() => {
+        result.current.addItem(product, product.variants[1]);
+      });
+
+      // The admin raised the 1L price and put the product on sale
+      vi.mocked(getProductsByIds).mockResolvedValue([{
+        ...product,
+        sale: { type: 'percentage', value: 10 },
+        variants: product.variants.map((variant) => (variant.id === 'v2' ? { ...variant, price: 250 } : variant)),
+      }]);
+
+      await act(async () => {
+        await result.current.refreshPrices();
+      });
+
+      expect(getProductsByIds).toHaveBeenCalledWith(['p1']);
+      expect(result.current.items[0]).toMatchObject({ variantId: 'v2', quantity: 2, price: 225, originalPrice: 250 });
+      expect(result.current.total).toBe(450);
+    });
+  });
+});
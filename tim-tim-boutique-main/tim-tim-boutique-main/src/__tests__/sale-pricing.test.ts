@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { getDiscountPercent, getSalePrice, isSaleActive } from '@/lib/salePricing';
+import { repriceCartItem, toCartProduct } from '@/lib/productVariants';
+import { Product } from '@/types';
+
+const product: Product = {
+  id: 'p1',
+  name: 'Vinho Tinto Reserva',
+  category: 'Vinho Tinto',
+  country: 'Chile',
+  price: 89.9,
+  image: 'reserva.jpg',
+  description: 'Vinho tinto encorpado',
+  alcoholContent: '13.5%',
+  volume: '750ml',
+  tastingNotes: [],
+  pairing: [],
+  stock: 10,
+};
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+describe('Sale Pricing', () => {
+  describe('isSaleActive', () => {
+    it('should run between the start and end dates', () => {
+      const sale = { type: 'percentage' as const, value: 10, startsAt: '2026-03-01T00:00:00Z', endsAt: '2026-03-15T23:59:59Z' };
+
+      expect(isSaleActive(sale, NOW)).toBe(true);
+      expect(isSaleActive(sale, new Date('2026-02-28T12:00:00Z'))).toBe(false);
+      expect(isSaleActive(sale, new Date('2026-03-16T00:00:00Z'))).toBe(false);
+    });
+
+    it('should run without dates and ignore empty sales', () => {
+      expect(isSaleActive({ type: 'fixed', value: 70 }, NOW)).toBe(true);
+      expect(isSaleActive({ type: 'percentage', value: 0 }, NOW)).toBe(false);
+      expect(isSaleActive(undefined, NOW)).toBe(false);
+    });
+  });
+
+  describe('getSalePrice', () => {
+    it('should take the percentage off, rounded to cents', () => {
+      expect(getSalePrice({ ...product, sale: { type: 'percentage', value: 15 } }, undefined, NOW)).toBe(76.42);
+    });
+
+    it('should round half up in whole cents, like product_effective_price in SQL', () => {
+      // ROUND(price * (100 - discount) / 100, 2) in PostgreSQL
+      const sqlResults: [number, number, number][] = [
+        [16.9, 15, 14.37],
+        [10.7, 15, 9.1],
+        [17.9, 15, 15.22],
+        [1.15, 10, 1.04],
+        [89.9, 12.5, 78.66],
+        [200, 100, 0],
+      ];
+
+      sqlResults.forEach(([price, value, expected]) => {
+        expect(getSalePrice({ price, sale: { type: 'percentage', value } }, undefined, NOW)).toBe(expected);
+      });
+    });
+
+    it('should use the fixed price for products without variants only', () => {
+      const sale = { type: 'fixed' as const, value: 69.9 };
+
+      expect(getSalePrice({ ...product, sale }, undefined, NOW)).toBe(69.9);
+      expect(getSalePrice({
+        ...product,
+        sale,
+        variants: [{ id: 'v1', sku: 'RES-750', volume: '750ml', price: 89.9, stock: 10 }],
+      }, 89.9, NOW)).toBe(89.9);
+    });
+
+    it('should keep the regular price outside the sale period', () => {
+      const sale = { type: 'percentage' as const, value: 15, endsAt: '2026-03-01T00:00:00Z' };
+
+      expect(getSalePrice({ ...product, sale }, undefined, NOW)).toBe(89.9);
+    });
+  });
+
+  describe('toCartProduct', () => {
+    it('should sell products on sale at the sale price and keep the regular one', () => {
+      const item = toCartProduct({ ...product, sale: { type: 'percentage', value: 15 } });
+
+      expect(item.price).toBe(76.42);
+      expect(item.originalPrice).toBe(89.9);
+      expect(getDiscountPercent(item.originalPrice, item.price)).toBe(15);
+    });
+
+    it('should apply the percentage to the variant price', () => {
+      const onSale: Product = {
+        ...product,
+        sale: { type: 'percentage', value: 20 },
+        variants: [{ id: 'v1', sku: 'RES-1500', volume: '1,5L', price: 200, stock: 3 }],
+      };
+
+      expect(toCartProduct(onSale, onSale.variants[0])).toMatchObject({ variantId: 'v1', price: 160, originalPrice: 200 });
+    });
+
+    it('should leave products without a sale untouched', () => {
+      expect(toCartProduct(product).originalPrice).toBeUndefined();
+    });
+  });
+
+  describe('repriceCartItem', () => {
+    const sale = { type: 'percentage' as const, value: 15, endsAt: '2026-03-05T23:59:59Z' };
+
+    it('should go back to the regular price once the sale has ended', () => {
+      const item = { ...product, sale, price: 76.42, originalPrice: 89.9, quantity: 2 };
+      const repriced = repriceCartItem(item, NOW);
+
+      expect(repriced).toMatchObject({ price: 89.9, quantity: 2 });
+      expect(repriced.originalPrice).toBeUndefined();
+    });
+
+    it('should apply a sale that started after the item was added', () => {
+      const item = { ...product, sale: { type: 'fixed' as const, value: 69.9 }, quantity: 1 };
+
+      expect(repriceCartItem(item, NOW)).toMatchObject({ price: 69.9, originalPrice: 89.9 });
+    });
+
+    it('should keep lines whose price is still right', () => {
+      const item = { ...product, sale: { ...sale, endsAt: undefined }, price: 76.42, originalPrice: 89.9, quantity: 1 };
+
+      expect(repriceCartItem(item, NOW)).toBe(item);
+    });
+  });
+});
@@ -3,6 +3,8 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import SearchBar from '@/components/SearchBar';
 import { ProductProvider } from '@/contexts/ProductContext';
+import { searchProducts } from '@/services/productService';
+import { resolveSearch } from '@/services/searchRulesService';
 
 // Mock useNavigate
 const mockNavigate = vi.fn();
@@ -48,6 +50,29 @@ const mockProducts = [
   },
 ];
 
+// Mock product search (the database search is covered in product-search.test)
+vi.mock('@/services/productService', () => ({
+  searchProducts: vi.fn(async ({ query, pageSize }: { query: string; pageSize: number }) => {
+    const term = query.toLowerCase();
+    const products = mockProducts
+      .filter((product) =>
+        [product.name, product.category, product.description].some((field) =>
+          field.toLowerCase().includes(term)
+        )
+      )
+      .slice(0, pageSize);
+
+    return { products, total: products.length, page: 1, pageSize };
+  }),
+}));
+
+// Mock search rules: "kit presente" opens the kits page, no synonyms
+vi.mock('@/services/searchRulesService', () => ({
+  resolveSearch: vi.fn(async (query: string) =>
+    query === 'kit presente' ? { redirectUrl: '/catalogo?categoria=kit', synonyms: [] } : { synonyms: [] }
+  ),
+}));
+
 // Mock ProductContext
 vi.mock('@/contexts/ProductContext', () => ({
   useProducts: () => ({
@@ -147,6 +172,18 @@ describe('SearchBar Component', () => {
       }, { timeout: 500 });
     });
 
+    it('should ask the product search for the suggestions', async () => {
+      renderSearchBar();
+      const input = screen.getByPlaceholderText(/pesquisar produtos/i);
+
+      fireEvent.change(input, { target: { value: '  cachaca ' } });
+
+      await waitFor(() => {
+        expect(resolveSearch).toHaveBeenCalledWith('cachaca');
+        expect(searchProducts).toHaveBeenCalledWith({ query: 'cachaca', pageSize: 5, synonyms: [] });
+      }, { timeout: 500 });
+    });
+
     it('should limit suggestions to 5 items', async () => {
       renderSearchBar();
       const input = screen.getByPlaceholderText(/pesquisar produtos/i);
@@ -173,6 +210,18 @@ describe('SearchBar Component', () => {
       });
     });
 
+    it('should follow the redirect registered for the search', async () => {
+      renderSearchBar();
+      const input = screen.getByPlaceholderText(/pesquisar produtos/i);
+
+      fireEvent.change(input, { target: { value: 'kit presente' } });
+      fireEvent.submit(input.closest('form')!);
+
+      await waitFor(() => {
+        expect(mockNavigate).toHaveBeenCalledWith('/catalogo?categoria=kit');
+      });
+    });
+
     it('should navigate to product detail on suggestion click', async () => {
       renderSearchBar();
       const input = screen.getByPlaceholderText(/pesquisar produtos/i);
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  expandSynonyms,
+  findSearchRedirect,
+  isStorePath,
+  normalizeSearchText,
+} from "@/lib/searchRules";
+import { searchRulesSchema } from "@/lib/validations";
+
+const SYNONYMS = [
+  { id: "1", terms: ["Espumante", "champanhe", "Champagne", "prosecco"] },
+  { id: "2", terms: ["whisky", "whiskey", "uísque"] },
+];
+
+const REDIRECTS = [{ id: "1", query: "Kit Presente", url: "/catalogo?categoria=kit" }];
+
+describe("Search Rules", () => {
+  describe("normalizeSearchText", () => {
+    it("should ignore accents, case and extra spaces", () => {
+      expect(normalizeSearchText("  Uísque   Escocês ")).toBe("uisque escoces");
+    });
+  });
+
+  describe("expandSynonyms", () => {
+    it("should replace the matching term with each synonym", () => {
+      expect(expandSynonyms("Champanhe brut", SYNONYMS)).toEqual([
+        "espumante brut",
+        "champagne brut",
+        "prosecco brut",
+      ]);
+    });
+
+    it("should match accented terms and combine groups", () => {
+      const variants = expandSynonyms("uisque e espumante", SYNONYMS);
+
+      expect(variants).toContain("whisky e espumante");
+      expect(variants).toContain("whisky e prosecco");
+    });
+
+    it("should match whole words only", () => {
+      expect(expandSynonyms("vinho escavado", [{ terms: ["cava", "espumante"] }])).toEqual([]);
+    });
+
+    it("should limit the number of variations", () => {
+      expect(expandSynonyms("whisky espumante", SYNONYMS, 4)).toHaveLength(4);
+    });
+  });
+
+  describe("findSearchRedirect", () => {
+    it("should find the redirect of the same search, ignoring case and accents", () => {
+      expect(findSearchRedirect(" kit  presente ", REDIRECTS)?.url).toBe("/catalogo?categoria=kit");
+      expect(findSearchRedirect("kit", REDIRECTS)).toBeUndefined();
+    });
+
+    it("should accept store pages only", () => {
+      expect(isStorePath("/catalogo?categoria=kit")).toBe(true);
+      expect(isStorePath("https://wa.me/5581999999999")).toBe(false);
+      expect(isStorePath("//evil.example/vinho")).toBe(false);
+      expect(isStorePath("/\\evil.example")).toBe(false);
+    });
+
+    it("should ignore redirects to other sites saved in the table", () => {
+      const redirects = [{ id: "2", query: "vinho", url: "//evil.example" }];
+
+      expect(findSearchRedirect("vinho", redirects)).toBeUndefined();
+    });
+  });
+
+  describe("searchRulesSchema", () => {
+    it("should drop repeated terms and require two different ones", () => {
+      const result = searchRulesSchema.safeParse({
+        synonyms: [{ terms: ["Uísque", "uisque"] }],
+        redirects: [],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(["synonyms", 0, "terms"]);
+    });
+
+    it("should accept store paths only", () => {
+      const result = searchRulesSchema.safeParse({
+        synonyms: [],
+        redirects: [
+          { query: "kit presente", url: "/catalogo?categoria=kit" },
+          { query: "whatsapp", url: "https://wa.me/5581999999999" },
+          { query: "promo", url: "javascript:alert(1)" },
+          { query: "vinho", url: "//evil.example" },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map((issue) => issue.path)).toEqual([
+        ["redirects", 1, "url"],
+        ["redirects", 2, "url"],
+        ["redirects", 3, "url"],
+      ]);
+    });
+
+    it("should reject two redirects for the same search", () => {
+      const result = searchRulesSchema.safeParse({
+        synonyms: [],
+        redirects: [
+          { query: "Kit Presente", url: "/catalogo?categoria=kit" },
+          { query: "kit presente", url: "/catalogo" },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(["redirects", 1, "query"]);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for SettingsService (admin shipping settings)
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getShippingSettings, saveShippingSettings } from '@/services/settingsService';
+import { supabase } from '@/lib/supabase';
+import type { ShippingSettings } from '@/types';
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+}));
+
+const settings: ShippingSettings = {
+  coveredCities: ['Recife', 'Olinda'],
+  freeShippingThreshold: 200,
+  baseShippingCost: 15,
+  costPerKg: 5,
+  weightPerBottle: 1.5,
+  deliveryTimeHours: 2,
+  zones: [],
+  storeHours: null,
+};
+
+// Query builder of supabase.from('settings'): select(...).in(...)
+const mockSettingsTable = (rows: { key: string; value: unknown }[] = []) => {
+  const select = vi.fn(() => ({ in: vi.fn().mockResolvedValue({ data: rows, error: null }) }));
+  vi.mocked(supabase.from).mockReturnValue({ select } as never);
+};
+
+// Number of keys written by save_shipping_settings
+const mockSave = (saved = 8, error: unknown = null) => {
+  vi.mocked(supabase.rpc).mockResolvedValue({ data: error ? null : saved, error } as never);
+};
+
+describe('SettingsService', () => {
+  beforeEach(() => {
+    vi.mocked(supabase.from).mockReset();
+    vi.mocked(supabase.rpc).mockReset();
+  });
+
+  describe('saveShippingSettings', () => {
+    it('should save all keys in a single call', async () => {
+      mockSave();
+
+      await saveShippingSettings(settings);
+
+      expect(supabase.rpc).toHaveBeenCalledTimes(1);
+      expect(supabase.rpc).toHaveBeenCalledWith('save_shipping_settings', {
+        p_values: expect.objectContaining({ shipping_base_cost: 15, shipping_cities: ['Recife', 'Olinda'] }),
+      });
+    });
+
+    it('should save opening hours turned off as a week without open days', async () => {
+      mockSave();
+
+      await saveShippingSettings(settings);
+
+      expect(vi.mocked(supabase.rpc).mock.calls[0][1]).toMatchObject({
+        p_values: { store_hours: { weekly: {}, closures: [] } },
+      });
+    });
+
+    it('should read a week without open days back as "always open"', async () => {
+      mockSettingsTable([{ key: 'store_hours', value: { weekly: {}, closures: [] } }]);
+
+      const saved = await getShippingSettings();
+
+      expect(saved.storeHours).toBeNull();
+    });
+
+    it('should throw when the settings cannot be saved', async () => {
+      mockSave(0, { code: '42501', message: 'permission denied' });
+
+      await expect(saveShippingSettings(settings)).rejects.toThrow(
+        'Não foi possível salvar as configurações de frete'
+      );
+    });
+
+    it('should throw when fewer keys were saved than sent', async () => {
+      mockSave(0);
+
+      await expect(saveShippingSettings(settings)).rejects.toThrow(
+        'Não foi possível salvar as configurações de frete'
+      );
+    });
+  });
+});
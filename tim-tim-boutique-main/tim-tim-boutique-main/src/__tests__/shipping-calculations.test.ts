@@ -4,7 +4,7 @@
  * Requirements: 6.1, 6.2
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   calculateTotalWeight,
   calculateShippingCost,
@@ -12,6 +12,10 @@ import {
 } from '@/services/shippingService';
 import type { CartItem } from '@/types';
 
+vi.mock('@/services/settingsService', () => ({
+  getShippingSettings: vi.fn().mockResolvedValue({}),
+}));
+
 describe('Shipping Calculations', () => {
   describe('calculateTotalWeight', () => {
     it('should calculate weight for single item', () => {
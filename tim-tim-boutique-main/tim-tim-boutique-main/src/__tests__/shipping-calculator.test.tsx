@@ -7,6 +7,7 @@ import { CartProvider } from '@/contexts/CartContext';
 // Mock the shipping service
 vi.mock('@/services/shippingService', () => ({
   validateShippingArea: vi.fn(),
+  loadShippingSettings: vi.fn().mockResolvedValue(null),
   getShippingInfo: vi.fn(() => ({
     deliveryTime: 'até 2 horas',
     freeShippingThreshold: 200,
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { shippingSettingsSchema, type ShippingSettingsFormData } from "@/lib/validations";
+
+const validForm = (): ShippingSettingsFormData => ({
+  coveredCities: ["Recife", " Olinda "],
+  freeShippingThreshold: "200",
+  baseShippingCost: "15",
+  costPerKg: "5",
+  weightPerBottle: "1.5",
+  deliveryTimeHours: "2",
+  zones: [],
+  hoursEnabled: false,
+  weekly: Array.from({ length: 7 }, () => ({ closed: false, open: "10:00", close: "22:00" })),
+  closures: [],
+});
+
+const errorPaths = (form: ShippingSettingsFormData) => {
+  const result = shippingSettingsSchema.safeParse(form);
+  return result.success ? [] : result.error.issues.map((issue) => issue.path.join("."));
+};
+
+describe("Admin shipping settings validation", () => {
+  it("should parse the form into shipping rules", () => {
+    const settings = shippingSettingsSchema.parse(validForm());
+
+    expect(settings).toEqual({
+      coveredCities: ["Recife", "Olinda"],
+      freeShippingThreshold: 200,
+      baseShippingCost: 15,
+      costPerKg: 5,
+      weightPerBottle: 1.5,
+      deliveryTimeHours: 2,
+      zones: [],
+      storeHours: null,
+    });
+  });
+
+  it("should require a covered city and valid prices", () => {
+    const form = {
+      ...validForm(),
+      coveredCities: [],
+      baseShippingCost: "",
+      costPerKg: "-1",
+      weightPerBottle: "0",
+    };
+
+    expect(errorPaths(form)).toEqual(["coveredCities", "baseShippingCost", "costPerKg", "weightPerBottle"]);
+  });
+
+  it("should parse zones with CEP ranges and keep blank prices unset", () => {
+    const form = {
+      ...validForm(),
+      zones: [
+        {
+          name: "Zona Sul",
+          cepRanges: ["51000-000 a 51349-999"],
+          neighborhoods: [" Boa Viagem "],
+          baseShippingCost: "10",
+          costPerKg: "",
+          freeShippingThreshold: "150",
+          deliveryTimeHours: "",
+        },
+      ],
+    };
+
+    expect(shippingSettingsSchema.parse(form).zones).toEqual([
+      {
+        name: "Zona Sul",
+        cepRanges: [{ start: "51000000", end: "51349999" }],
+        neighborhoods: ["Boa Viagem"],
+        baseShippingCost: 10,
+        costPerKg: undefined,
+        freeShippingThreshold: 150,
+        deliveryTimeHours: undefined,
+      },
+    ]);
+  });
+
+  it("should reject zones without a name, area or with an invalid CEP range", () => {
+    const zone = {
+      name: "",
+      cepRanges: [],
+      neighborhoods: [],
+      baseShippingCost: "",
+      costPerKg: "",
+      freeShippingThreshold: "",
+      deliveryTimeHours: "",
+    };
+    const form = {
+      ...validForm(),
+      zones: [zone, { ...zone, name: "Centro", cepRanges: ["50099-999 a 50000-000"] }],
+    };
+
+    expect(errorPaths(form)).toEqual(["zones.0.name", "zones.0.cepRanges", "zones.1.cepRanges"]);
+  });
+
+  it("should parse opening hours and closures", () => {
+    const form = validForm();
+    form.hoursEnabled = true;
+    form.weekly[0] = { closed: true, open: "10:00", close: "22:00" };
+    form.closures = [
+      { date: "2026-12-24", name: "Véspera de Natal", open: "10:00", close: "16:00" },
+      { date: "2026-12-25", name: "", open: "", close: "" },
+    ];
+
+    const { storeHours } = shippingSettingsSchema.parse(form);
+
+    expect(storeHours?.weekly[0]).toBeNull();
+    expect(storeHours?.weekly[1]).toEqual({ open: "10:00", close: "22:00" });
+    expect(storeHours?.closures).toEqual([
+      { date: "2026-12-24", name: "Véspera de Natal", hours: { open: "10:00", close: "16:00" } },
+      { date: "2026-12-25", name: "Feriado" },
+    ]);
+  });
+
+  it("should reject invalid opening hours only when they are enabled", () => {
+    const form = validForm();
+    form.weekly[1] = { closed: false, open: "22:00", close: "10:00" };
+    form.closures = [{ date: "2026-12-24", name: "", open: "10:00", close: "" }];
+
+    expect(errorPaths(form)).toEqual([]);
+    expect(errorPaths({ ...form, hoursEnabled: true })).toEqual(["weekly.1", "closures.0"]);
+  });
+
+  it("should require at least one open day", () => {
+    const form = {
+      ...validForm(),
+      hoursEnabled: true,
+      weekly: validForm().weekly.map((day) => ({ ...day, closed: true })),
+    };
+
+    expect(errorPaths(form)).toEqual(["weekly"]);
+  });
+});
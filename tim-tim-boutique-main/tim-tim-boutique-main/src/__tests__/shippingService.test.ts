@@ -2,7 +2,7 @@
  * Tests for ShippingService
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   validateShippingArea,
   calculateTotalWeight,
@@ -13,16 +13,25 @@ import {
   formatShippingMessage,
   getCoveredCities,
   getShippingInfo,
+  loadShippingSettings,
+  findShippingZone,
+  DEFAULT_SHIPPING_SETTINGS,
   type ShippingCalculation
 } from '../services/shippingService';
-import type { CartItem } from '../types';
+import type { CartItem, ShippingZone } from '../types';
 import * as cepService from '../services/cepService';
+import * as settingsService from '../services/settingsService';
 
 // Mock the cepService
 vi.mock('../services/cepService', () => ({
   fetchAddressByCep: vi.fn()
 }));
 
+// Mock the settingsService (no settings: default rules)
+vi.mock('../services/settingsService', () => ({
+  getShippingSettings: vi.fn().mockResolvedValue({})
+}));
+
 describe('ShippingService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -160,6 +169,35 @@ describe('ShippingService', () => {
       
       expect(weight).toBe(15); // 10 bottles * 1.5kg
     });
+
+    it('should use the product weight when set', () => {
+      const items: CartItem[] = [
+        { id: '1', quantity: 2, weightKg: 0.8 } as CartItem, // 375ml dessert wine
+        { id: '2', quantity: 1, weightKg: 2.4 } as CartItem, // 1.75L whisky
+        { id: '3', quantity: 1 } as CartItem
+      ];
+
+      expect(calculateTotalWeight(items)).toBeCloseTo(5.5); // 1.6 + 2.4 + 1.5 default
+    });
+
+    it('should use the volumetric weight of bulky packages', () => {
+      const items: CartItem[] = [
+        // Gift box: 40 x 30 x 20 cm = 4kg volumetric
+        { id: '1', quantity: 1, weightKg: 2, lengthCm: 40, widthCm: 30, heightCm: 20 } as CartItem,
+        // 6-pack: 25 x 17 x 24 cm = 1.7kg volumetric, lighter than the real weight
+        { id: '2', quantity: 2, weightKg: 2.3, lengthCm: 25, widthCm: 17, heightCm: 24 } as CartItem
+      ];
+
+      expect(calculateTotalWeight(items)).toBeCloseTo(8.6); // 4 + 2 * 2.3
+    });
+
+    it('should ignore incomplete package dimensions', () => {
+      const items: CartItem[] = [
+        { id: '1', quantity: 1, lengthCm: 40, widthCm: 30 } as CartItem
+      ];
+
+      expect(calculateTotalWeight(items)).toBe(1.5);
+    });
   });
 
   describe('calculateShippingCost', () => {
@@ -316,6 +354,52 @@ describe('ShippingService', () => {
       expect(diffHours).toBeGreaterThanOrEqual(1.9);
       expect(diffHours).toBeLessThanOrEqual(2.1);
     });
+
+    describe('with opening hours', () => {
+      const openDaily = { open: '10:00', close: '22:00' };
+      const settings = {
+        ...DEFAULT_SHIPPING_SETTINGS,
+        storeHours: { weekly: Array(7).fill(openDaily), closures: [] }
+      };
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should count from now while the store is open', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-10-19T15:00:00-03:00'));
+
+        expect(getEstimatedDeliveryTime(settings)).toEqual(new Date('2026-10-19T17:00:00-03:00'));
+      });
+
+      it('should roll over to the next opening when the store is closed', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-10-19T23:50:00-03:00'));
+
+        expect(getEstimatedDeliveryTime(settings)).toEqual(new Date('2026-10-20T12:00:00-03:00'));
+        expect(getEstimatedDeliveryTime(settings, 1)).toEqual(new Date('2026-10-20T11:00:00-03:00'));
+      });
+
+      it('should promise the next day in the shipping message just before closing', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2026-10-19T21:30:00-03:00'));
+        vi.mocked(cepService.fetchAddressByCep).mockResolvedValue({
+          street: 'Rua da Aurora',
+          neighborhood: 'Boa Vista',
+          city: 'Recife',
+          state: 'PE'
+        });
+
+        const result = await calculateShipping('50050-000', [{ id: '1', quantity: 1 } as CartItem], 100, settings);
+
+        expect(result.opensAt).toBeUndefined();
+        expect(result.deliveryAt).toEqual(new Date('2026-10-20T12:00:00-03:00'));
+        expect(result.message).toContain('prevista para amanhã às 12:00');
+        expect(result.message).not.toContain('2 horas');
+        expect(formatShippingMessage(result)).toContain('prevista para amanhã às 12:00');
+      });
+    });
   });
 
   describe('formatShippingMessage', () => {
@@ -369,6 +453,28 @@ describe('ShippingService', () => {
       expect(message).toContain('R$ 15.00');
       expect(message).toContain('2 horas');
     });
+
+    it('should give the estimate after the next opening when the store is closed', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-19T23:50:00-03:00'));
+
+      const calculation: ShippingCalculation = {
+        isAvailable: true,
+        cost: 15,
+        isFree: false,
+        estimatedHours: 2,
+        totalWeight: 1.5,
+        city: 'Olinda',
+        opensAt: new Date('2026-10-20T10:00:00-03:00'),
+        message: 'Frete pago'
+      };
+
+      const message = formatShippingMessage(calculation);
+      vi.useRealTimers();
+
+      expect(message).toContain('R$ 15.00');
+      expect(message).toContain('prevista para amanhã às 12:00 (loja fechada agora)');
+    });
   });
 
   describe('getCoveredCities', () => {
@@ -394,4 +500,175 @@ describe('ShippingService', () => {
       expect(info.weightPerBottle).toBe(1.5);
     });
   });
+
+  describe('shipping zones', () => {
+    const zones: ShippingZone[] = [
+      {
+        name: 'Zona Sul',
+        cepRanges: [{ start: '51000000', end: '51349999' }],
+        neighborhoods: [],
+        baseShippingCost: 10,
+        freeShippingThreshold: 150,
+        deliveryTimeHours: 1
+      },
+      {
+        name: 'Pina',
+        cepRanges: [{ start: '51010000', end: '51012999' }],
+        neighborhoods: [],
+        baseShippingCost: 8
+      },
+      {
+        name: 'Aldeia',
+        cepRanges: [],
+        neighborhoods: ['Aldeia dos Camarás'],
+        baseShippingCost: 30,
+        costPerKg: 10
+      }
+    ];
+    const settings = { ...DEFAULT_SHIPPING_SETTINGS, zones };
+
+    it('should match a zone by CEP range', () => {
+      expect(findShippingZone('51020-000', 'Boa Viagem', settings)?.name).toBe('Zona Sul');
+    });
+
+    it('should prefer the narrowest CEP range', () => {
+      expect(findShippingZone('51011-000', 'Pina', settings)?.name).toBe('Pina');
+    });
+
+    it('should prefer a neighborhood match over CEP ranges', () => {
+      expect(findShippingZone('51011-000', 'aldeia dos camaras', settings)?.name).toBe('Aldeia');
+    });
+
+    it('should return undefined when no zone matches', () => {
+      expect(findShippingZone('50050-000', 'Boa Vista', settings)).toBeUndefined();
+    });
+
+    it('should price the shipping with the rules of the matched zone', async () => {
+      vi.mocked(settingsService.getShippingSettings).mockResolvedValue({ zones });
+      await loadShippingSettings(true);
+
+      vi.mocked(cepService.fetchAddressByCep).mockResolvedValue({
+        street: 'Avenida Boa Viagem',
+        neighborhood: 'Boa Viagem',
+        city: 'Recife',
+        state: 'PE'
+      });
+
+      const items: CartItem[] = [
+        { id: '1', quantity: 2 } as CartItem
+      ];
+
+      const result = await calculateShipping('51020-000', items, 100);
+
+      expect(result.zone).toBe('Zona Sul');
+      expect(result.cost).toBe(20); // R$ 10 zone base + 2kg extra (1.5kg rounded up) * R$ 5 general per-kg cost
+      expect(result.estimatedHours).toBe(1);
+      expect(result.freeShippingThreshold).toBe(150);
+
+      const freeResult = await calculateShipping('51020-000', items, 160);
+      expect(freeResult.isFree).toBe(true);
+
+      vi.mocked(settingsService.getShippingSettings).mockResolvedValue({});
+      await loadShippingSettings(true);
+    });
+  });
+
+  describe('shipping settings', () => {
+    afterEach(async () => {
+      vi.mocked(settingsService.getShippingSettings).mockResolvedValue({});
+      await loadShippingSettings(true);
+    });
+
+    it('should use the cities and costs from settings', async () => {
+      vi.mocked(settingsService.getShippingSettings).mockResolvedValue({
+        coveredCities: ['Recife', 'Paulista'],
+        freeShippingThreshold: 150,
+        baseShippingCost: 12,
+        deliveryTimeHours: 3
+      });
+      await loadShippingSettings(true);
+
+      vi.mocked(cepService.fetchAddressByCep).mockResolvedValue({
+        street: 'Avenida Doutor Cláudio José Gueiros Leite',
+        neighborhood: 'Janga',
+        city: 'Paulista',
+        state: 'PE'
+      });
+
+      const items: CartItem[] = [
+        { id: '1', quantity: 1 } as CartItem
+      ];
+
+      const result = await calculateShipping('53435-000', items, 100);
+
+      expect(result.isAvailable).toBe(true);
+      expect(result.cost).toBe(12);
+      expect(result.estimatedHours).toBe(3);
+      expect(result.message).toContain('até 3 horas');
+      expect(calculateShippingCost(1.5, 150)).toBe(0);
+      expect(isCityInCoverage('Olinda')).toBe(false);
+      expect(getShippingInfo().coveredCities).toEqual(['Recife', 'Paulista']);
+    });
+
+    it('should list the configured cities when the CEP is not covered', async () => {
+      vi.mocked(settingsService.getShippingSettings).mockResolvedValue({
+        coveredCities: ['Recife', 'Olinda', 'Paulista']
+      });
+      await loadShippingSettings(true);
+
+      vi.mocked(cepService.fetchAddressByCep).mockResolvedValue({
+        street: 'Rua Teste',
+        neighborhood: 'Centro',
+        city: 'Camaragibe',
+        state: 'PE'
+      });
+
+      const result = await validateShippingArea('54700-000');
+
+      expect(result.isValid).toBe(false);
+      expect(result.error).toContain('Atendemos apenas: Recife, Olinda e Paulista.');
+    });
+
+    it('should keep the default rules for missing settings', async () => {
+      vi.mocked(settingsService.getShippingSettings).mockResolvedValue({
+        baseShippingCost: 20
+      });
+
+      const settings = await loadShippingSettings(true);
+
+      expect(settings.baseShippingCost).toBe(20);
+      expect(settings.freeShippingThreshold).toBe(200);
+      expect(settings.coveredCities).toHaveLength(4);
+    });
+
+    it('should calculate with the given rules instead of the loaded ones', async () => {
+      vi.mocked(cepService.fetchAddressByCep).mockResolvedValue({
+        street: 'Avenida Doutor Cláudio José Gueiros Leite',
+        neighborhood: 'Janga',
+        city: 'Paulista',
+        state: 'PE'
+      });
+
+      const rules = { ...DEFAULT_SHIPPING_SETTINGS, coveredCities: ['Paulista'], baseShippingCost: 9 };
+      const items: CartItem[] = [
+        { id: '1', quantity: 1 } as CartItem
+      ];
+
+      const result = await calculateShipping('53435-000', items, 100, rules);
+
+      expect(result.isAvailable).toBe(true);
+      expect(result.cost).toBe(9);
+      expect((await calculateShipping('53435-000', items, 100)).isAvailable).toBe(false);
+    });
+
+    it('should fall back to the default rules when settings fail to load', async () => {
+      vi.mocked(settingsService.getShippingSettings).mockRejectedValue(new Error('offline'));
+
+      const settings = await loadShippingSettings(true);
+
+      expect(settings.freeShippingThreshold).toBe(200);
+      expect(settings.baseShippingCost).toBe(15);
+      expect(getCoveredCities()).toHaveLength(4);
+    });
+  });
 });
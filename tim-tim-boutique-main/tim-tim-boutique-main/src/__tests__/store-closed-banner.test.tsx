@@ -0,0 +1,67 @@
+/**
+ * Store Closed Banner Tests
+ *
+ * While the store is closed the storefront shows when it opens again;
+ * orders can still be placed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import StoreClosedBanner from '@/components/StoreClosedBanner';
+import { loadShippingSettings } from '@/services/shippingService';
+import type { ShippingSettings, StoreHours } from '@/types';
+
+vi.mock('@/services/shippingService', () => ({
+  loadShippingSettings: vi.fn(),
+}));
+
+const storeHours: StoreHours = {
+  weekly: Array(7).fill({ open: '10:00', close: '22:00' }),
+  closures: [{ date: '2026-12-25', name: 'Natal' }],
+};
+
+describe('StoreClosedBanner', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.mocked(loadShippingSettings).mockResolvedValue({ storeHours } as ShippingSettings);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should show the next opening while the store is closed', async () => {
+    vi.setSystemTime(new Date('2026-10-19T23:50:00-03:00'));
+
+    render(<StoreClosedBanner />);
+
+    expect(await screen.findByText(/Estamos fechados agora/)).toBeInTheDocument();
+    expect(screen.getByText(/Abrimos amanhã às 10:00/)).toBeInTheDocument();
+  });
+
+  it('should name the holiday', async () => {
+    vi.setSystemTime(new Date('2026-12-25T12:00:00-03:00'));
+
+    render(<StoreClosedBanner />);
+
+    expect(await screen.findByText(/Estamos fechados agora \(Natal\)/)).toBeInTheDocument();
+  });
+
+  it('should not show while the store is open', async () => {
+    vi.setSystemTime(new Date('2026-10-19T15:00:00-03:00'));
+
+    render(<StoreClosedBanner />);
+    await vi.mocked(loadShippingSettings).mock.results[0].value;
+
+    expect(screen.queryByText(/Estamos fechados agora/)).not.toBeInTheDocument();
+  });
+
+  it('should hide when dismissed', async () => {
+    vi.setSystemTime(new Date('2026-10-19T23:50:00-03:00'));
+
+    render(<StoreClosedBanner />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Fechar aviso' }));
+
+    expect(screen.queryByText(/Estamos fechados agora/)).not.toBeInTheDocument();
+  });
+});
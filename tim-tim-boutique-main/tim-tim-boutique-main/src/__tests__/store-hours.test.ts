@@ -0,0 +1,87 @@
+/**
+ * Tests for store opening hours and closures
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatStoreMoment,
+  getEstimatedDelivery,
+  getNextOpening,
+  getOpeningHours,
+  getStoreStatus,
+} from '@/lib/storeHours';
+import type { StoreHours } from '@/types';
+
+// Closed on Sundays, 10:00 to 22:00 on the other days
+const storeHours: StoreHours = {
+  weekly: Array.from({ length: 7 }, (_, weekday) => (weekday === 0 ? null : { open: '10:00', close: '22:00' })),
+  closures: [
+    { date: '2026-11-02', name: 'Finados' },
+    { date: '2026-12-24', name: 'Véspera de Natal', hours: { open: '10:00', close: '16:00' } },
+  ],
+};
+
+describe('Store hours', () => {
+  it('should use the closure hours on holidays', () => {
+    expect(getOpeningHours(storeHours, '2026-10-19')).toEqual({ open: '10:00', close: '22:00' });
+    expect(getOpeningHours(storeHours, '2026-10-25')).toBeNull(); // Sunday
+    expect(getOpeningHours(storeHours, '2026-11-02')).toBeNull();
+    expect(getOpeningHours(storeHours, '2026-12-24')).toEqual({ open: '10:00', close: '16:00' });
+  });
+
+  it('should tell whether the store is open now', () => {
+    const open = getStoreStatus(storeHours, new Date('2026-10-19T15:00:00-03:00'));
+    expect(open.isOpen).toBe(true);
+    expect(open.closesAt).toEqual(new Date('2026-10-19T22:00:00-03:00'));
+
+    const closed = getStoreStatus(storeHours, new Date('2026-10-19T23:50:00-03:00'));
+    expect(closed.isOpen).toBe(false);
+    expect(closed.opensAt).toEqual(new Date('2026-10-20T10:00:00-03:00'));
+  });
+
+  it('should skip closed weekdays and holidays when looking for the next opening', () => {
+    // Saturday night: Sunday closed, Monday is Finados
+    expect(getNextOpening(storeHours, new Date('2026-10-31T23:00:00-03:00'))).toEqual(
+      new Date('2026-11-03T10:00:00-03:00')
+    );
+
+    const status = getStoreStatus(storeHours, new Date('2026-11-02T12:00:00-03:00'));
+    expect(status.isOpen).toBe(false);
+    expect(status.closure?.name).toBe('Finados');
+  });
+
+  it('should be always open without configured hours', () => {
+    const now = new Date('2026-10-19T23:50:00-03:00');
+
+    expect(getStoreStatus(null, now)).toEqual({ isOpen: true });
+    expect(getEstimatedDelivery(null, 2, now)).toEqual(new Date('2026-10-20T01:50:00-03:00'));
+  });
+
+  it('should roll the delivery estimate over to the next opening', () => {
+    expect(getEstimatedDelivery(storeHours, 2, new Date('2026-10-19T15:00:00-03:00'))).toEqual(
+      new Date('2026-10-19T17:00:00-03:00')
+    );
+    expect(getEstimatedDelivery(storeHours, 2, new Date('2026-10-19T23:50:00-03:00'))).toEqual(
+      new Date('2026-10-20T12:00:00-03:00')
+    );
+  });
+
+  it('should not promise a delivery after closing time', () => {
+    // 21:30 with a 22:00 close: delivered after the next opening (Tuesday 10:00)
+    expect(getEstimatedDelivery(storeHours, 2, new Date('2026-10-19T21:30:00-03:00'))).toEqual(
+      new Date('2026-10-20T12:00:00-03:00')
+    );
+    // Saturday evening: Sunday is closed, so Monday
+    expect(getEstimatedDelivery(storeHours, 2, new Date('2026-10-24T21:00:00-03:00'))).toEqual(
+      new Date('2026-10-26T12:00:00-03:00')
+    );
+  });
+
+  it('should describe an instant relative to today', () => {
+    const now = new Date('2026-10-19T23:50:00-03:00');
+
+    expect(formatStoreMoment(new Date('2026-10-19T23:55:00-03:00'), now)).toBe('hoje às 23:55');
+    expect(formatStoreMoment(new Date('2026-10-20T10:00:00-03:00'), now)).toBe('amanhã às 10:00');
+    expect(formatStoreMoment(new Date('2026-10-24T10:00:00-03:00'), now)).toBe('sábado, 24/10, às 10:00');
+  });
+});
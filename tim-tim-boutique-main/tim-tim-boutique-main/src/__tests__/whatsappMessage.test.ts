@@ -2,7 +2,7 @@
  * Tests for WhatsApp Message Generator
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   generateWhatsAppMessage,
   generateWhatsAppUrl,
@@ -78,6 +78,15 @@ describe('WhatsApp Message Generator', () => {
       expect(message).toContain('R$ 65.00');
     });
 
+    it('should show the regular price of items on sale', () => {
+      mockOrderData.items[0] = { ...mockOrderData.items[0], price: 76.42, originalPrice: 89.90 };
+
+      const message = generateWhatsAppMessage(mockOrderData);
+
+      expect(message).toContain('R$ 152.84 (promoção, de R$ 179.80)');
+      expect(message).not.toContain('R$ 65.00 (promoção');
+    });
+
     it('should include correct totals', () => {
       const message = generateWhatsAppMessage(mockOrderData);
 
@@ -142,14 +151,42 @@ describe('WhatsApp Message Generator', () => {
       expect(message).toContain('📍 Recife');
     });
 
-    it('should include estimated delivery time when provided', () => {
-      const deliveryTime = new Date('2024-01-15T16:30:00');
-      mockOrderData.estimatedDeliveryTime = deliveryTime;
+    describe('estimated delivery time', () => {
+      beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-01-15T14:30:00-03:00'));
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should include estimated delivery time when provided', () => {
+        mockOrderData.estimatedDeliveryTime = new Date('2024-01-15T16:30:00-03:00');
+
+        const message = generateWhatsAppMessage(mockOrderData);
+
+        expect(message).toContain('até 2 horas 🚚');
+        expect(message).toContain('*Previsão:* hoje às 16:30');
+      });
+
+      it('should show the day when the delivery rolls over to the next opening', () => {
+        mockOrderData.estimatedDeliveryTime = new Date('2024-01-16T12:00:00-03:00');
+
+        const message = generateWhatsAppMessage(mockOrderData);
+
+        expect(message).toContain('*Previsão:* amanhã às 12:00');
+      });
+    });
+
+    it('should show the scheduled slot instead of the express delivery time', () => {
+      mockOrderData.estimatedDeliveryTime = new Date('2026-10-24T21:00:00Z');
+      mockOrderData.deliveryWindowEnd = new Date('2026-10-24T23:00:00Z');
 
       const message = generateWhatsAppMessage(mockOrderData);
 
-      expect(message).toContain('até 2 horas 🚚');
-      expect(message).toContain('*Previsão:* 16:30');
+      expect(message).toContain('*Agendada:* sábado, 24/10, das 18:00 às 20:00');
+      expect(message).not.toContain('até 2 horas');
     });
 
     it('should format prices with 2 decimal places', () => {
@@ -198,6 +235,97 @@ describe('WhatsApp Message Generator', () => {
       expect(message).toContain('📍');
       expect(message).toContain('✨');
     });
+
+    it('should include the delivery zone and its delivery time', () => {
+      mockOrderData.shipping = { ...mockOrderData.shipping, zone: 'Zona Sul', estimatedHours: 1 };
+
+      const message = generateWhatsAppMessage(mockOrderData);
+
+      expect(message).toContain('até 1 hora 🚚');
+      expect(message).toContain('(Zona Sul)');
+    });
+
+    it('should include cash payment with the change amount', () => {
+      mockOrderData.payment = { method: 'cash', changeFor: 300 };
+
+      const message = generateWhatsAppMessage(mockOrderData);
+
+      expect(message).toContain('💳 *PAGAMENTO*');
+      expect(message).toContain('Dinheiro na entrega');
+      expect(message).toContain('Troco para: R$ 300.00');
+    });
+
+    it('should ask for the card machine when paying by card on delivery', () => {
+      mockOrderData.payment = { method: 'debit_card' };
+
+      const message = generateWhatsAppMessage(mockOrderData);
+
+      expect(message).toContain('Cartão de débito na entrega');
+      expect(message).toContain('Levar maquininha');
+    });
+
+    it('should include the PIX copia e cola code when available', () => {
+      mockOrderData.payment = { method: 'pix', pixCode: '00020126360014br.gov.bcb.pix6304ABCD' };
+
+      const message = generateWhatsAppMessage(mockOrderData);
+
+      expect(message).toContain('PIX');
+      expect(message).toContain('PIX copia e cola:\n00020126360014br.gov.bcb.pix6304ABCD');
+    });
+
+    it('should omit the payment section when no method was chosen', () => {
+      const message = generateWhatsAppMessage(mockOrderData);
+
+      expect(message).not.toContain('💳 *PAGAMENTO*');
+    });
+
+    describe('store pickup', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2026-10-19T14:00:00-03:00'));
+
+        mockOrderData = {
+          ...mockOrderData,
+          shipping: undefined,
+          shippingAddress: undefined,
+          total: 244.80,
+          pickup: {
+            address: 'Rua da Aurora, 100 - Boa Vista, Recife - PE',
+            readyAt: new Date('2026-10-19T15:00:00-03:00'),
+            closesAt: new Date('2026-10-19T22:00:00-03:00'),
+            instructions: 'Apresente o número do pedido no balcão.',
+          },
+          payment: { method: 'credit_card' },
+        };
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('should show the pickup section instead of the delivery address', () => {
+        const message = generateWhatsAppMessage(mockOrderData);
+
+        expect(message).toContain('Frete: Retirada na loja');
+        expect(message).toContain('🏪 *RETIRADA NA LOJA*');
+        expect(message).toContain('📍 Rua da Aurora, 100 - Boa Vista, Recife - PE');
+        expect(message).toContain('*Retirada:* a partir de hoje às 15:00 (até 22:00)');
+        expect(message).toContain('Apresente o número do pedido no balcão.');
+        expect(message).not.toContain('*ENDEREÇO DE ENTREGA*');
+        expect(message).not.toContain('🚚 *ENTREGA*');
+      });
+
+      it('should charge cards at the store', () => {
+        const message = generateWhatsAppMessage(mockOrderData);
+
+        expect(message).toContain('Cartão de crédito na retirada');
+        expect(message).not.toContain('Levar maquininha');
+      });
+
+      it('should be valid without shipping address', () => {
+        expect(validateOrderData(mockOrderData)).toBe(true);
+      });
+    });
   });
 
   describe('generateWhatsAppUrl', () => {
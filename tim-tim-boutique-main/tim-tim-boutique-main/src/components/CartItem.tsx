@@ -5,28 +5,32 @@ import { Card } from "@/components/ui/card";
 import { Minus, Plus, Trash2, Loader2 } from "lucide-react";
 import OptimizedImage from "@/components/OptimizedImage";
 import { toast } from "sonner";
-import { CartItem as CartItemType } from "@/contexts/CartContext";
+import { getCartItemKey } from "@/lib/productVariants";
+import type { CartItem as CartItemType, StockShortage } from "@/types";
 
 interface CartItemProps {
   item: CartItemType;
-  onRemove: (id: string) => void;
-  onUpdateQuantity: (id: string, quantity: number) => boolean;
+  onRemove: (itemKey: string) => void;
+  onUpdateQuantity: (itemKey: string, quantity: number) => boolean;
+  shortage?: StockShortage;
 }
 
-const CartItem = memo(({ item, onRemove, onUpdateQuantity }: CartItemProps) => {
+const CartItem = memo(({ item, onRemove, onUpdateQuantity, shortage }: CartItemProps) => {
   const [removingItemId, setRemovingItemId] = useState<string | null>(null);
+  // Product ID, or variant ID for products sold in variants
+  const itemKey = getCartItemKey(item);
 
   const handleRemove = () => {
-    setRemovingItemId(item.id);
+    setRemovingItemId(itemKey);
     setTimeout(() => {
-      onRemove(item.id);
+      onRemove(itemKey);
       setRemovingItemId(null);
       toast.success("Produto removido do carrinho");
     }, 300);
   };
 
   const handleIncreaseQuantity = () => {
-    const success = onUpdateQuantity(item.id, item.quantity + 1);
+    const success = onUpdateQuantity(itemKey, item.quantity + 1);
     if (!success) {
       toast.error(`Estoque máximo atingido. Disponível: ${item.stock} unidades`);
     }
@@ -58,11 +62,11 @@ const CartItem = memo(({ item, onRemove, onUpdateQuantity }: CartItemProps) => {
               variant="ghost"
               size="sm"
               onClick={handleRemove}
-              disabled={removingItemId === item.id}
+              disabled={removingItemId === itemKey}
               className="text-muted-foreground hover:text-destructive h-7 w-7 sm:h-8 sm:w-8 p-0 flex-shrink-0 -mt-1"
               aria-label="Remover produto"
             >
-              {removingItemId === item.id ? (
+              {removingItemId === itemKey ? (
                 <Loader2 className="h-3.5 w-3.5 sm:h-4 sm:w-4 animate-spin" />
               ) : (
                 <Trash2 className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
@@ -75,8 +79,14 @@ const CartItem = memo(({ item, onRemove, onUpdateQuantity }: CartItemProps) => {
             {item.country} • {item.volume}
           </p>
           
-          {/* Aviso de Estoque Baixo */}
-          {item.stock <= 5 && (
+          {/* Aviso de Estoque Insuficiente (conferido no servidor) */}
+          {shortage ? (
+            <p className="text-[10px] sm:text-xs text-destructive font-medium mb-2" role="alert">
+              {shortage.available === 0
+                ? 'Produto esgotado. Remova-o para continuar.'
+                : `Só restam ${shortage.available} unidades. Ajuste a quantidade.`}
+            </p>
+          ) : item.stock <= 5 && (
             <p className="text-[10px] sm:text-xs text-orange-600 mb-2">
               {item.stock === 0 ? 'Sem estoque' : `Apenas ${item.stock} em estoque`}
             </p>
@@ -89,7 +99,7 @@ const CartItem = memo(({ item, onRemove, onUpdateQuantity }: CartItemProps) => {
               <Button
                 size="sm"
                 variant="outline"
-                onClick={() => onUpdateQuantity(item.id, item.quantity - 1)}
+                onClick={() => onUpdateQuantity(itemKey, item.quantity - 1)}
                 className="flex-shrink-0 p-0 h-7 w-7 sm:h-8 sm:w-8 md:h-9 md:w-9 lg:h-8 lg:w-8 xl:h-9 xl:w-9"
                 style={{ minWidth: '28px', minHeight: '28px' }}
                 aria-label="Diminuir quantidade"
@@ -118,6 +128,11 @@ const CartItem = memo(({ item, onRemove, onUpdateQuantity }: CartItemProps) => {
                 R$ {(item.price * item.quantity).toFixed(2)}
               </p>
               <p className="text-[9px] sm:text-[10px] md:text-xs text-muted-foreground leading-tight">
+                {item.originalPrice && (
+                  <span className="line-through mr-1" aria-label={`Preço normal: R$ ${item.originalPrice.toFixed(2)}`}>
+                    R$ {item.originalPrice.toFixed(2)}
+                  </span>
+                )}
                 R$ {item.price.toFixed(2)} cada
               </p>
             </div>
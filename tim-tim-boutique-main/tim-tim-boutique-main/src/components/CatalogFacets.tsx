@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Slider } from "@/components/ui/slider";
+import { formatAlcohol, formatCurrency } from "@/lib/formatters";
+import {
+  CATALOG_FACETS,
+  hasRange,
+  toggleFacetValue,
+  type CatalogFacet,
+  type CatalogFilters,
+  type NumberRangeFilter,
+} from "@/lib/catalogFilters";
+import type { FacetValue, NumberRange, ProductFacets } from "@/services/productService";
+
+// Values listed before "Ver todos"
+const VISIBLE_VALUES = 6;
+
+interface CatalogFacetsProps {
+  filters: CatalogFilters;
+  facets: ProductFacets | null;
+  onChange: (filters: CatalogFilters) => void;
+}
+
+interface FacetSectionProps {
+  id: string;
+  label: string;
+  active: boolean;
+  onClear: () => void;
+  children: React.ReactNode;
+}
+
+const FacetSection = ({ id, label, active, onClear, children }: FacetSectionProps) => (
+  <section aria-labelledby={`${id}-title`} className="border-b border-border pb-5 last:border-b-0">
+    <div className="flex items-center justify-between mb-3">
+      <h3 id={`${id}-title`} className="font-heading text-base">{label}</h3>
+      {active && (
+        <button
+          type="button"
+          onClick={onClear}
+          className="text-xs text-muted-foreground hover:text-foreground underline-offset-4 hover:underline"
+          aria-label={`Limpar filtro ${label}`}
+        >
+          Limpar
+        </button>
+      )}
+    </div>
+    {children}
+  </section>
+);
+
+interface FacetOptionsProps {
+  facet: CatalogFacet;
+  options: FacetValue[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}
+
+const FacetOptions = ({ facet, options, selected, onToggle }: FacetOptionsProps) => {
+  const [showAll, setShowAll] = useState(false);
+
+  // Selected values stay visible even without products under the other filters
+  const values = [
+    ...options,
+    ...selected
+      .filter((value) => !options.some((option) => option.value === value))
+      .map((value) => ({ value, count: 0 })),
+  ];
+  const visible = showAll ? values : values.slice(0, VISIBLE_VALUES);
+
+  return (
+    <div className="space-y-2">
+      {visible.map((option) => {
+        const id = `facet-${facet}-${option.value}`;
+        const checked = selected.includes(option.value);
+
+        return (
+          <div key={option.value} className="flex items-center gap-2">
+            <Checkbox
+              id={id}
+              checked={checked}
+              disabled={!checked && option.count === 0}
+              onCheckedChange={() => onToggle(option.value)}
+            />
+            <label htmlFor={id} className="flex-1 flex justify-between gap-2 text-sm cursor-pointer">
+              <span className="truncate">{option.value}</span>
+              <span className="text-muted-foreground tabular-nums">{option.count}</span>
+            </label>
+          </div>
+        );
+      })}
+      {values.length > VISIBLE_VALUES && (
+        <button
+          type="button"
+          onClick={() => setShowAll((prev) => !prev)}
+          className="text-sm text-secondary hover:underline underline-offset-4"
+        >
+          {showAll ? "Ver menos" : `Ver todos (${values.length})`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface RangeSliderProps {
+  label: string;
+  bounds: NumberRange;
+  value: NumberRangeFilter;
+  step: number;
+  format: (value: number) => string;
+  onCommit: (range: NumberRangeFilter) => void;
+}
+
+const RangeSlider = ({ label, bounds, value, step, format, onCommit }: RangeSliderProps) => {
+  const min = Math.floor(bounds.min / step) * step;
+  const max = Math.ceil(bounds.max / step) * step;
+  const selected: [number, number] = [value.min ?? min, value.max ?? max];
+  const [draft, setDraft] = useState<number[]>(selected);
+
+  // Follow the URL and the bounds of new results (the draft only lives while dragging)
+  useEffect(() => {
+    setDraft([value.min ?? min, value.max ?? max]);
+  }, [value.min, value.max, min, max]);
+
+  const handleCommit = ([from, to]: number[]) => {
+    // A bound at the end of the slider stays open
+    onCommit({
+      min: from > min ? from : undefined,
+      max: to < max ? to : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-3 px-1">
+      <Slider
+        min={Math.min(min, selected[0])}
+        max={Math.max(max, selected[1])}
+        step={step}
+        value={draft}
+        onValueChange={setDraft}
+        onValueCommit={handleCommit}
+        minStepsBetweenThumbs={0}
+        aria-label={label}
+      />
+      <div className="flex justify-between text-sm text-muted-foreground tabular-nums" aria-live="polite">
+        <span>{format(draft[0])}</span>
+        <span>{format(draft[1])}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Catalog filters with the number of products of each option
+ * (counts and ranges come from search_product_facets)
+ */
+const CatalogFacets = ({ filters, facets, onChange }: CatalogFacetsProps) => {
+  const updateRange = (key: "price" | "alcohol", range: NumberRangeFilter) => {
+    onChange({ ...filters, [key]: range, page: 1 });
+  };
+
+  const showRange = (bounds: NumberRange | null, value: NumberRangeFilter) =>
+    !!bounds && (bounds.max > bounds.min || hasRange(value));
+
+  return (
+    <div className="space-y-5">
+      {facets && showRange(facets.price, filters.price) && (
+        <FacetSection
+          id="facet-price"
+          label="Preço"
+          active={hasRange(filters.price)}
+          onClear={() => updateRange("price", {})}
+        >
+          <RangeSlider
+            label="Faixa de preço"
+            bounds={facets.price}
+            value={filters.price}
+            step={1}
+            format={formatCurrency}
+            onCommit={(range) => updateRange("price", range)}
+          />
+        </FacetSection>
+      )}
+
+      {CATALOG_FACETS.map((facet) => {
+        const options = facets?.[facet.key] ?? [];
+        const selected = filters[facet.key];
+        if (options.length === 0 && selected.length === 0) return null;
+
+        return (
+          <FacetSection
+            key={facet.key}
+            id={`facet-${facet.key}`}
+            label={facet.label}
+            active={selected.length > 0}
+            onClear={() => onChange({ ...filters, [facet.key]: [], page: 1 })}
+          >
+            <FacetOptions
+              facet={facet.key}
+              options={options}
+              selected={selected}
+              onToggle={(value) => onChange(toggleFacetValue(filters, facet.key, value))}
+            />
+          </FacetSection>
+        );
+      })}
+
+      {facets && showRange(facets.alcohol, filters.alcohol) && (
+        <FacetSection
+          id="facet-alcohol"
+          label="Teor Alcoólico"
+          active={hasRange(filters.alcohol)}
+          onClear={() => updateRange("alcohol", {})}
+        >
+          <RangeSlider
+            label="Faixa de teor alcoólico"
+            bounds={facets.alcohol}
+            value={filters.alcohol}
+            step={0.5}
+            format={formatAlcohol}
+            onCommit={(range) => updateRange("alcohol", range)}
+          />
+        </FacetSection>
+      )}
+
+      {!facets && (
+        <p className="text-sm text-muted-foreground">Carregando filtros...</p>
+      )}
+    </div>
+  );
+};
+
+export default CatalogFacets;
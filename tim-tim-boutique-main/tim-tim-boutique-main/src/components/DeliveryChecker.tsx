@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { MapPin, Truck } from "lucide-react";
+import { calculateShipping, type ShippingCalculation } from "@/services/shippingService";
+import { formatStoreMoment } from "@/lib/storeHours";
+import { maskCep, unmask } from "@/lib/masks";
+import { formatCurrency, formatDeliveryTime } from "@/lib/formatters";
+import { getSavedCep, saveCep } from "@/lib/savedCep";
+import type { Product } from "@/types";
+
+interface DeliveryCheckerProps {
+  product: Product;
+  quantity?: number;
+  className?: string;
+}
+
+/**
+ * Compact shipping calculator for the product page: delivery time and
+ * shipping cost of the product alone, for the remembered CEP
+ * Does not touch the cart shipping (calculated again in the cart)
+ */
+const DeliveryChecker = ({ product, quantity = 1, className = "" }: DeliveryCheckerProps) => {
+  const [cep, setCep] = useState(() => getSavedCep());
+  // CEP of the last check ("" until the customer checks one)
+  const [checkedCep, setCheckedCep] = useState(() => getSavedCep());
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<ShippingCalculation | null>(null);
+
+  // Remembered CEP: checks right away, and again when the quantity changes
+  useEffect(() => {
+    if (unmask(checkedCep).length !== 8) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    calculateShipping(checkedCep, [{ ...product, quantity }], product.price * quantity)
+      .then((calculation) => {
+        if (!cancelled) {
+          setResult(calculation);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [checkedCep, product, quantity]);
+
+  const handleCepChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setCep(maskCep(e.target.value));
+    setCheckedCep("");
+    setResult(null);
+  };
+
+  const handleCheck = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (unmask(cep).length !== 8) return;
+
+    saveCep(cep);
+    setCheckedCep(cep);
+  };
+
+  return (
+    <div className={`rounded-lg border border-border p-4 ${className}`}>
+      <form onSubmit={handleCheck} className="flex items-center gap-2">
+        <label htmlFor="delivery-cep" className="flex items-center gap-1.5 text-sm font-medium whitespace-nowrap">
+          <Truck className="h-4 w-4 text-secondary" aria-hidden="true" />
+          Entrega
+        </label>
+        <input
+          id="delivery-cep"
+          type="text"
+          inputMode="numeric"
+          value={cep}
+          onChange={handleCepChange}
+          placeholder="Seu CEP"
+          maxLength={9}
+          className="flex-1 min-w-0 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-secondary focus:border-transparent text-gray-900 placeholder:text-gray-400 text-sm"
+          aria-label="CEP para consultar a entrega"
+        />
+        <button
+          type="submit"
+          disabled={loading || unmask(cep).length !== 8}
+          className="px-3 py-1.5 bg-secondary text-white rounded-lg hover:bg-secondary/90 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors font-medium text-sm whitespace-nowrap"
+        >
+          {loading ? "Consultando..." : "Consultar"}
+        </button>
+      </form>
+
+      {result && !loading && (
+        <div role="status" className="mt-3 text-sm">
+          {result.isAvailable ? (
+            <>
+              <p className="flex items-start gap-1.5">
+                <MapPin className="h-4 w-4 mt-0.5 shrink-0 text-secondary" aria-hidden="true" />
+                <span>
+                  Entregamos em <strong>{result.city}</strong> em {formatDeliveryTime(result.estimatedHours)},{" "}
+                  {result.isFree ? <strong>frete grátis</strong> : <>frete <strong>{formatCurrency(result.cost)}</strong></>}
+                </span>
+              </p>
+              {result.opensAt && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Loja fechada agora: o prazo conta a partir da abertura, {formatStoreMoment(result.opensAt)}
+                </p>
+              )}
+              {!result.isFree && result.freeShippingThreshold && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Frete grátis em compras a partir de {formatCurrency(result.freeShippingThreshold)}
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-destructive">{result.message}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryChecker;
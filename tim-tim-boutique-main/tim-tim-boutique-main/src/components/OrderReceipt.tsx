@@ -0,0 +1,117 @@
+import { cn } from "@/lib/utils";
+import { getOrderStatusLabel } from "@/lib/orderStatus";
+import { formatPaymentMethod } from "@/lib/payment";
+import { formatDeliverySlot } from "@/lib/deliverySlots";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import type { Order } from "@/types";
+
+interface OrderReceiptProps {
+  order: Order;
+  className?: string;
+}
+
+/**
+ * Print-friendly receipt of an order (black on white, no cards or icons)
+ * Rendered hidden on screen by the confirmation page and shown only when
+ * printing, so the customer can print it or save it as PDF
+ */
+const OrderReceipt = ({ order, className }: OrderReceiptProps) => {
+  const { shippingAddress, customerInfo } = order;
+
+  return (
+    <section aria-label="Comprovante do pedido" className={cn("text-black text-sm", className)}>
+      <header className="flex items-start justify-between border-b border-black pb-4 mb-4">
+        <div>
+          <img src="/logo-timtim.png" alt="Tim Tim" className="h-12 w-auto mb-2" />
+          <p className="font-heading text-lg">Comprovante do Pedido</p>
+        </div>
+        <div className="text-right">
+          <p className="font-heading text-xl">{order.orderNumber}</p>
+          <p>{formatDate(order.createdAt)}</p>
+          <p>Status: {getOrderStatusLabel(order.status)}</p>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-2 gap-6 mb-4">
+        <div>
+          <p className="font-semibold mb-1">Cliente</p>
+          <p>{customerInfo.name}</p>
+          <p>{customerInfo.phone}</p>
+          {customerInfo.email && <p>{customerInfo.email}</p>}
+        </div>
+        {shippingAddress ? (
+          <div>
+            <p className="font-semibold mb-1">Entrega</p>
+            <p>{shippingAddress.street}, {shippingAddress.number}</p>
+            {shippingAddress.complement && <p>{shippingAddress.complement}</p>}
+            <p>{shippingAddress.neighborhood}</p>
+            <p>{shippingAddress.city} - {shippingAddress.state}</p>
+            <p>CEP: {shippingAddress.cep}</p>
+            {order.estimatedDeliveryTime && order.deliveryWindowEnd && (
+              <p className="mt-1">Agendada: {formatDeliverySlot(order.estimatedDeliveryTime, order.deliveryWindowEnd)}</p>
+            )}
+          </div>
+        ) : (
+          <div>
+            <p className="font-semibold mb-1">Retirada na loja</p>
+            {order.estimatedDeliveryTime && (
+              <p>Pronto a partir de {formatDate(order.estimatedDeliveryTime)}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <table className="w-full border-collapse mb-4">
+        <thead>
+          <tr className="border-b border-black text-left">
+            <th className="py-1 font-semibold">Produto</th>
+            <th className="py-1 font-semibold text-center">Qtd.</th>
+            <th className="py-1 font-semibold text-right">Preço</th>
+            <th className="py-1 font-semibold text-right">Subtotal</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.items.map((item) => (
+            <tr key={item.id} className="border-b border-gray-300">
+              <td className="py-1">{item.name}</td>
+              <td className="py-1 text-center">{item.quantity}</td>
+              <td className="py-1 text-right">{formatCurrency(item.price)}</td>
+              <td className="py-1 text-right">{formatCurrency(item.subtotal)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="ml-auto w-64 space-y-1">
+        <div className="flex justify-between">
+          <span>Subtotal</span>
+          <span>{formatCurrency(order.subtotal)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Frete</span>
+          <span>
+            {order.fulfillmentMethod === "pickup"
+              ? "Retirada na loja"
+              : order.shippingIsFree ? "Grátis" : formatCurrency(order.shippingCost)}
+          </span>
+        </div>
+        <div className="flex justify-between border-t border-black pt-1 font-semibold">
+          <span>Total</span>
+          <span>{formatCurrency(order.total)}</span>
+        </div>
+        {order.paymentMethod && (
+          <div className="flex justify-between">
+            <span>Pagamento</span>
+            <span>{formatPaymentMethod(order.paymentMethod, order.changeFor, order.fulfillmentMethod)}</span>
+          </div>
+        )}
+      </div>
+
+      <p className="mt-8 text-center text-xs">
+        Tim-Tim Bebidas · Acompanhe seu pedido em "Rastrear Pedido" no site, com o número acima
+      </p>
+    </section>
+  );
+};
+
+export default OrderReceipt;
@@ -0,0 +1,82 @@
+import { Check, Circle, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ORDER_STATUS_FLOW, ORDER_STATUS_LABELS } from "@/lib/orderStatus";
+import { formatDate } from "@/lib/formatters";
+import type { OrderStatus, OrderStatusChange } from "@/types";
+
+interface OrderStatusTimelineProps {
+  status: OrderStatus;
+  history?: OrderStatusChange[];
+  /** Show who changed each status and the notes (admin only) */
+  showDetails?: boolean;
+  className?: string;
+}
+
+interface TimelineStep {
+  key: string;
+  status: OrderStatus;
+  change?: OrderStatusChange;
+}
+
+/**
+ * Vertical timeline of the order progression (Pendente → Entregue)
+ * Steps already reached come from the status history (with dates) when
+ * available, otherwise from the regular flow; the remaining steps of the
+ * flow are shown greyed out until the order is delivered or cancelled
+ */
+const OrderStatusTimeline = ({ status, history = [], showDetails = false, className }: OrderStatusTimelineProps) => {
+  const currentIndex = ORDER_STATUS_FLOW.indexOf(status);
+
+  const doneSteps: TimelineStep[] = history.length > 0
+    ? history.map((change) => ({ key: change.id, status: change.toStatus, change }))
+    : status === "cancelled"
+      ? [{ key: "cancelled", status }]
+      : ORDER_STATUS_FLOW.slice(0, currentIndex + 1).map((step) => ({ key: step, status: step }));
+
+  const upcomingSteps = currentIndex >= 0 ? ORDER_STATUS_FLOW.slice(currentIndex + 1) : [];
+
+  return (
+    <ol className={cn("space-y-3", className)} aria-label="Andamento do pedido">
+      {doneSteps.map((step, index) => {
+        const isCurrent = index === doneSteps.length - 1;
+        const isCancelled = step.status === "cancelled";
+
+        return (
+          <li
+            key={step.key}
+            className={cn("flex items-start gap-3", isCancelled ? "text-destructive" : "text-foreground")}
+            aria-current={isCurrent ? "step" : undefined}
+          >
+            {isCancelled ? (
+              <XCircle className="h-5 w-5 shrink-0" />
+            ) : (
+              <span className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-secondary text-white">
+                <Check className="h-3 w-3" />
+              </span>
+            )}
+            <div>
+              <span className={cn(isCurrent && "font-medium")}>{ORDER_STATUS_LABELS[step.status]}</span>
+              {step.change && (
+                <p className="text-xs text-muted-foreground">
+                  {formatDate(step.change.createdAt)}
+                  {showDetails && step.change.changedBy && ` · ${step.change.changedBy}`}
+                </p>
+              )}
+              {showDetails && step.change?.note && (
+                <p className="text-sm text-muted-foreground mt-1">{step.change.note}</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+      {upcomingSteps.map((step) => (
+        <li key={step} className="flex items-start gap-3 text-muted-foreground">
+          <Circle className="h-5 w-5 shrink-0" />
+          <span>{ORDER_STATUS_LABELS[step]}</span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default OrderStatusTimeline;
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { Store } from "lucide-react";
+import { loadShippingSettings } from "@/services/shippingService";
+import { formatPickupWindow, getPickupWindow } from "@/lib/pickup";
+import type { PickupSettings, StoreHours } from "@/types";
+
+interface PickupInfoProps {
+  settings: PickupSettings;
+  className?: string;
+}
+
+/**
+ * Store address and pickup window, shown in the cart and at checkout when
+ * the customer chooses to pick up the order
+ */
+const PickupInfo = ({ settings, className = "" }: PickupInfoProps) => {
+  const [storeHours, setStoreHours] = useState<StoreHours | null>(null);
+
+  // The order is ready within the opening hours
+  useEffect(() => {
+    let cancelled = false;
+
+    loadShippingSettings().then((shippingSettings) => {
+      if (!cancelled) {
+        setStoreHours(shippingSettings.storeHours);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const pickupWindow = getPickupWindow(settings, storeHours);
+
+  return (
+    <div className={`bg-secondary/5 border border-secondary/20 rounded-lg p-3 ${className}`}>
+      <div className="flex items-start gap-2">
+        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-secondary/10 flex items-center justify-center">
+          <Store className="w-4 h-4 text-secondary" aria-hidden="true" />
+        </div>
+        <div className="flex-1 min-w-0 text-xs sm:text-sm">
+          <p className="font-heading text-foreground mb-1">Retirada na loja · Grátis</p>
+          <p className="text-muted-foreground break-words">{settings.address}</p>
+          <p className="text-muted-foreground mt-1">
+            Pronto para retirada <strong>{formatPickupWindow(pickupWindow)}</strong>
+          </p>
+          {settings.instructions && (
+            <p className="text-muted-foreground mt-1 break-words">{settings.instructions}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PickupInfo;
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Check, Copy } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/formatters";
+
+interface PixPaymentProps {
+  /** BR Code generated by generatePixPayload */
+  payload: string;
+  amount: number;
+  className?: string;
+}
+
+/**
+ * PIX QR code plus the "copia e cola" code with a copy button
+ */
+const PixPayment = ({ payload, amount, className }: PixPaymentProps) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(payload);
+      setCopied(true);
+      toast.success("Código PIX copiado!", {
+        description: "Cole no app do seu banco para pagar.",
+      });
+      setTimeout(() => setCopied(false), 3000);
+    } catch (error) {
+      console.error("Error copying PIX code:", error);
+      toast.error("Não foi possível copiar o código", {
+        description: "Selecione o código e copie manualmente.",
+      });
+    }
+  };
+
+  return (
+    <div className={cn("flex flex-col items-center gap-4", className)}>
+      <div className="rounded-lg bg-white p-3">
+        <QRCodeSVG value={payload} size={192} level="M" aria-label="QR Code PIX" role="img" />
+      </div>
+      <p className="text-sm text-muted-foreground text-center">
+        Escaneie o QR Code ou copie o código abaixo para pagar{" "}
+        <span className="font-medium text-foreground">{formatCurrency(amount)}</span>
+      </p>
+      <div className="flex w-full gap-2">
+        <Input
+          readOnly
+          value={payload}
+          aria-label="PIX copia e cola"
+          onFocus={(e) => e.target.select()}
+          className="font-mono text-xs"
+        />
+        <Button type="button" variant="outline" onClick={handleCopy} className="shrink-0">
+          {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+          {copied ? "Copiado" : "Copiar"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PixPayment;
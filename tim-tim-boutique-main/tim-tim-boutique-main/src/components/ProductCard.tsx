@@ -1,5 +1,5 @@
 import { memo } from "react";
-import { Link } from "react-router-dom";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { ShoppingCart } from "lucide-react";
@@ -7,15 +7,29 @@ import { useCart } from "@/contexts/CartContext";
 import { useToast } from "@/hooks/use-toast";
 import { Product } from "@/types";
 import OptimizedImage from "@/components/OptimizedImage";
+import { getCartItemName, toCartProduct } from "@/lib/productVariants";
+import { getDiscountPercent } from "@/lib/salePricing";
 
 const ProductCard = memo((product: Product) => {
   const { addItem } = useCart();
   const { toast } = useToast();
+  const navigate = useNavigate();
+
+  // Several sizes: the customer picks one on the product page
+  const choosesVariant = (product.variants?.length ?? 0) > 1;
+  const variant = product.variants?.length === 1 ? product.variants[0] : undefined;
+  const sold = toCartProduct(product, variant);
+  const itemName = getCartItemName(sold);
 
   const handleAddToCart = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
 
+    if (choosesVariant) {
+      navigate(`/produto/${product.id}`);
+      return;
+    }
+
     // Check stock before adding (Requirement 6.3)
     if (product.stock <= 0) {
       toast({
@@ -26,17 +40,17 @@ const ProductCard = memo((product: Product) => {
       return;
     }
 
-    const success = addItem(product);
+    const success = addItem(product, variant);
 
     if (success) {
       toast({
         title: "Produto adicionado!",
-        description: `${product.name} foi adicionado ao carrinho.`,
+        description: `${itemName} foi adicionado ao carrinho.`,
       });
     } else {
       toast({
         title: "Limite de estoque atingido",
-        description: `Você já tem a quantidade máxima disponível de ${product.name} no carrinho.`,
+        description: `Você já tem a quantidade máxima disponível de ${itemName} no carrinho.`,
         variant: "destructive",
       });
     }
@@ -47,7 +61,7 @@ const ProductCard = memo((product: Product) => {
       <Link
         to={`/produto/${product.id}`}
         className="flex flex-col h-full focus:outline-none focus:ring-2 focus:ring-secondary focus:ring-offset-2 rounded-lg"
-        aria-label={`Ver detalhes de ${product.name}, ${product.category}, R$ ${product.price.toFixed(2)}`}
+        aria-label={`Ver detalhes de ${product.name}, ${product.category}, R$ ${sold.price.toFixed(2)}${sold.originalPrice ? ', em promoção' : ''}`}
       >
         {/* Imagem do Produto - Aspect ratio fixo */}
         <div className="aspect-[3/4] overflow-hidden bg-gradient-card relative flex-shrink-0 w-full">
@@ -58,6 +72,11 @@ const ProductCard = memo((product: Product) => {
             sizes="(max-width: 640px) 50vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
           />
           <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-all duration-500" aria-hidden="true" />
+          {sold.originalPrice && (
+            <span className="absolute top-2 left-2 rounded-full bg-destructive px-2 py-0.5 text-[10px] sm:text-xs font-semibold text-destructive-foreground">
+              -{getDiscountPercent(sold.originalPrice, sold.price)}%
+            </span>
+          )}
         </div>
 
         {/* Conteúdo do Card */}
@@ -85,12 +104,23 @@ const ProductCard = memo((product: Product) => {
           </h3>
 
           {/* Preço */}
-          <div className="flex items-center justify-between mb-3 sm:mb-4 mt-auto">
+          <div className="flex flex-wrap items-center gap-x-2 mb-3 sm:mb-4 mt-auto">
+            {choosesVariant && (
+              <span className="text-[10px] sm:text-xs text-muted-foreground font-body">A partir de</span>
+            )}
+            {sold.originalPrice && (
+              <span
+                className="text-xs sm:text-sm text-muted-foreground line-through"
+                aria-label={`Preço normal: R$ ${sold.originalPrice.toFixed(2)}`}
+              >
+                R$ {sold.originalPrice.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+              </span>
+            )}
             <span
               className="price-text text-lg sm:text-xl md:text-xl lg:text-xl xl:text-2xl font-heading text-secondary font-bold"
-              aria-label={`Preço: R$ ${product.price.toFixed(2)}`}
+              aria-label={`${choosesVariant ? 'Preço a partir de' : sold.originalPrice ? 'Preço promocional' : 'Preço'}: R$ ${sold.price.toFixed(2)}`}
             >
-              R$ {product.price.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+              R$ {sold.price.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
             </span>
           </div>
 
@@ -99,10 +129,18 @@ const ProductCard = memo((product: Product) => {
             onClick={handleAddToCart}
             disabled={product.stock <= 0}
             className="w-full h-9 sm:h-10 md:h-10 lg:h-11 xl:h-12 gradient-wine text-white hover:opacity-90 uppercase tracking-wide transition-all duration-300 text-xs sm:text-sm md:text-sm lg:text-sm xl:text-base flex-shrink-0 focus:ring-2 focus:ring-secondary focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed px-2 sm:px-3 md:px-3 lg:px-3 xl:px-4"
-            aria-label={product.stock <= 0 ? `${product.name} sem estoque` : `Adicionar ${product.name} ao carrinho`}
+            aria-label={
+              product.stock <= 0
+                ? `${product.name} sem estoque`
+                : choosesVariant
+                  ? `Escolher volume de ${product.name}`
+                  : `Adicionar ${itemName} ao carrinho`
+            }
           >
             <ShoppingCart className="mr-1 sm:mr-2 h-3 w-3 sm:h-4 sm:w-4" aria-hidden="true" />
-            <span className="truncate">{product.stock <= 0 ? 'Sem Estoque' : 'Adicionar'}</span>
+            <span className="truncate">
+              {product.stock <= 0 ? 'Sem Estoque' : choosesVariant ? 'Escolher' : 'Adicionar'}
+            </span>
           </Button>
         </div>
       </Link>
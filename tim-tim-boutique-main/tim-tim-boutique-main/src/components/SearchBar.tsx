@@ -1,10 +1,14 @@
 import { useState, useEffect, useRef } from "react";
 import { Search, X } from "lucide-react";
 import { useNavigate } from "react-router-dom";
-import { useProducts } from "@/contexts/ProductContext";
 import { useDebounce } from "@/hooks/useDebounce";
+import { searchProducts } from "@/services/productService";
+import { resolveSearch } from "@/services/searchRulesService";
+import { getSalePrice } from "@/lib/salePricing";
 import { Product } from "@/types";
 
+const MAX_SUGGESTIONS = 5;
+
 interface SearchBarProps {
   theme?: "light" | "dark";
   className?: string;
@@ -13,7 +17,6 @@ interface SearchBarProps {
 
 const SearchBar = ({ theme = "light", className = "", inputClassName = "" }: SearchBarProps) => {
   const navigate = useNavigate();
-  const { products } = useProducts();
   const [searchQuery, setSearchQuery] = useState("");
   const [suggestions, setSuggestions] = useState<Product[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -24,30 +27,39 @@ const SearchBar = ({ theme = "light", className = "", inputClassName = "" }: Sea
   // Debounce search query
   const debouncedSearch = useDebounce(searchQuery, 300);
 
-  // Filter products based on search query
+  // Suggestions from the same search as the catalog (most relevant first)
   useEffect(() => {
-    if (debouncedSearch.trim().length >= 2) {
-      const query = debouncedSearch.toLowerCase();
-      const filtered = products
-        .filter((product) => {
-          const matchName = product.name.toLowerCase().includes(query);
-          const matchCategory = product.category.toLowerCase().includes(query);
-          const matchDescription = product.description?.toLowerCase().includes(query);
-          const matchTags = product.tastingNotes?.some((tag) =>
-            tag.toLowerCase().includes(query)
-          );
-          return matchName || matchCategory || matchDescription || matchTags;
-        })
-        .slice(0, 5); // Limit to 5 suggestions
-
-      setSuggestions(filtered);
-      setShowSuggestions(filtered.length > 0);
-    } else {
+    const query = debouncedSearch.trim();
+    let cancelled = false;
+
+    if (query.length < 2) {
       setSuggestions([]);
       setShowSuggestions(false);
+      setSelectedIndex(-1);
+      return;
     }
-    setSelectedIndex(-1);
-  }, [debouncedSearch, products]);
+
+    resolveSearch(query)
+      .then(({ synonyms }) => searchProducts({ query, pageSize: MAX_SUGGESTIONS, synonyms }))
+      .then(({ products }) => {
+        if (!cancelled) {
+          setSuggestions(products);
+          setShowSuggestions(products.length > 0);
+          setSelectedIndex(-1);
+        }
+      })
+      .catch(() => {
+        // No suggestions: submitting still opens the catalog search
+        if (!cancelled) {
+          setSuggestions([]);
+          setShowSuggestions(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearch]);
 
   // Close suggestions when clicking outside
   useEffect(() => {
@@ -61,15 +73,18 @@ const SearchBar = ({ theme = "light", className = "", inputClassName = "" }: Sea
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  // Handle search submission
-  const handleSearch = (e: React.FormEvent) => {
+  // Handle search submission (a redirect registered for the search wins)
+  const handleSearch = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (searchQuery.trim()) {
-      navigate(`/catalogo?busca=${encodeURIComponent(searchQuery.trim())}`);
-      setSearchQuery("");
-      setShowSuggestions(false);
-      inputRef.current?.blur();
-    }
+    const query = searchQuery.trim();
+    if (!query) return;
+
+    setSearchQuery("");
+    setShowSuggestions(false);
+    inputRef.current?.blur();
+
+    const { redirectUrl } = await resolveSearch(query);
+    navigate(redirectUrl ?? `/catalogo?busca=${encodeURIComponent(query)}`);
   };
 
   // Handle suggestion click
@@ -209,7 +224,7 @@ const SearchBar = ({ theme = "light", className = "", inputClassName = "" }: Sea
 
               {/* Price */}
               <div className="flex-shrink-0 text-sm font-semibold text-secondary">
-                {formatPrice(product.price)}
+                {formatPrice(getSalePrice(product))}
               </div>
             </button>
           ))}
@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
-import { validateShippingArea, getShippingInfo } from '@/services/shippingService';
+import { validateShippingArea, getShippingInfo, loadShippingSettings } from '@/services/shippingService';
+import { formatStoreMoment, getStoreStatus } from '@/lib/storeHours';
 import { maskCep, unmask } from '@/lib/masks';
+import { formatDeliveryTime } from '@/lib/formatters';
+import { getSavedCep, saveCep } from '@/lib/savedCep';
 import { useCart } from '@/contexts/CartContext';
 import type { ShippingValidation } from '@/services/shippingService';
 
@@ -16,13 +19,29 @@ export default function ShippingCalculator({
   className = ''
 }: ShippingCalculatorProps) {
   const { shipping, setShipping, items } = useCart();
-  const [cep, setCep] = useState('');
+  // CEP typed on another page (product page or checkout)
+  const [cep, setCep] = useState(() => getSavedCep());
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<ShippingValidation | null>(null);
   const [shippingCost, setShippingCost] = useState<number>(0);
   const [isFree, setIsFree] = useState(false);
 
-  const shippingInfo = getShippingInfo();
+  const [shippingInfo, setShippingInfo] = useState(() => getShippingInfo());
+
+  // Shipping rules come from the store settings
+  useEffect(() => {
+    let cancelled = false;
+
+    loadShippingSettings().then((settings) => {
+      if (!cancelled) {
+        setShippingInfo(getShippingInfo(settings));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // Load shipping info from session on mount (Requirement 6.2)
   useEffect(() => {
@@ -76,6 +95,7 @@ export default function ShippingCalculator({
       return;
     }
 
+    saveCep(cep);
     setLoading(true);
     setResult(null);
 
@@ -106,6 +126,9 @@ export default function ShippingCalculator({
           isFree: shippingCalc.isFree,
           city: shippingCalc.city,
           cep,
+          zone: shippingCalc.zone,
+          estimatedHours: shippingCalc.estimatedHours,
+          freeShippingThreshold: shippingCalc.freeShippingThreshold,
           isValid: true
         });
 
@@ -160,6 +183,12 @@ export default function ShippingCalculator({
     }
   };
 
+  // Rules of the address zone (from the last calculation), general rules otherwise
+  const deliveryTime = shipping?.estimatedHours ? formatDeliveryTime(shipping.estimatedHours) : shippingInfo.deliveryTime;
+  const freeShippingThreshold = shipping?.freeShippingThreshold ?? shippingInfo.freeShippingThreshold;
+  // Store closed: express orders go out after the next opening
+  const { opensAt } = getStoreStatus(shippingInfo.storeHours);
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter') {
       calculateShipping();
@@ -235,12 +264,24 @@ export default function ShippingCalculator({
                   </p>
 
                   <p className="text-[10px] sm:text-xs md:text-xs text-muted-foreground mb-1 sm:mb-1.5 break-words leading-tight">
-                    Entrega em <strong>até 2 horas</strong> para {result.address?.city}
+                    Entrega em <strong>{deliveryTime}</strong> para {result.address?.city}
                   </p>
 
-                  {!isFree && subtotal < shippingInfo.freeShippingThreshold && (
+                  {opensAt && (
+                    <p className="text-[10px] sm:text-xs md:text-xs text-muted-foreground mb-1 sm:mb-1.5 break-words leading-tight">
+                      Loja fechada agora: o prazo conta a partir da abertura, <strong>{formatStoreMoment(opensAt)}</strong>
+                    </p>
+                  )}
+
+                  {shipping?.zone && (
+                    <p className="text-[10px] sm:text-xs md:text-xs text-muted-foreground mb-1 sm:mb-1.5 break-words leading-tight">
+                      Região de entrega: <strong>{shipping.zone}</strong>
+                    </p>
+                  )}
+
+                  {!isFree && subtotal < freeShippingThreshold && (
                     <p className="text-[9px] sm:text-[10px] md:text-xs text-secondary bg-secondary/10 rounded px-1.5 py-0.5 sm:px-2 sm:py-1 inline-block break-words">
-                      💡 Falta R$ {(shippingInfo.freeShippingThreshold - subtotal).toFixed(2)} para frete grátis!
+                      💡 Falta R$ {(freeShippingThreshold - subtotal).toFixed(2)} para frete grátis!
                     </p>
                   )}
                 </div>
@@ -314,7 +355,7 @@ export default function ShippingCalculator({
             <div className="text-foreground min-w-0 flex-1">
               <p className="font-heading mb-0.5 sm:mb-1 text-xs sm:text-sm md:text-sm">Entrega Expressa</p>
               <ul className="space-y-0.5 text-[9px] sm:text-[10px] md:text-xs text-muted-foreground leading-tight">
-                <li>⚡ Entrega em até 2 horas</li>
+                <li>⚡ Entrega em {shippingInfo.deliveryTime}</li>
                 <li>🎁 Frete grátis acima de R$ {shippingInfo.freeShippingThreshold.toFixed(2)}</li>
                 <li className="break-words">📍 {shippingInfo.coveredCities.join(', ')}</li>
               </ul>
@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { Clock, X } from "lucide-react";
+import { loadShippingSettings } from "@/services/shippingService";
+import { formatStoreMoment, getStoreStatus, type StoreStatus } from "@/lib/storeHours";
+import type { StoreHours } from "@/types";
+
+// How often the banner checks whether the store opened or closed
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Notice shown while the store is closed, with the next opening
+ * Orders can still be placed: they go out for delivery after the opening
+ */
+const StoreClosedBanner = () => {
+  const [storeHours, setStoreHours] = useState<StoreHours | null>(null);
+  const [status, setStatus] = useState<StoreStatus>({ isOpen: true });
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadShippingSettings().then((settings) => {
+      if (!cancelled) {
+        setStoreHours(settings.storeHours);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!storeHours) return;
+
+    setStatus(getStoreStatus(storeHours));
+    const timer = setInterval(() => setStatus(getStoreStatus(storeHours)), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [storeHours]);
+
+  if (status.isOpen || dismissed) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-0 left-0 right-0 z-40 bg-primary text-primary-foreground shadow-lg print:hidden"
+    >
+      <div className="w-full max-w-[1400px] mx-auto px-4 py-3 md:px-6 flex items-center gap-3">
+        <Clock className="h-5 w-5 shrink-0" aria-hidden="true" />
+        <p className="flex-1 text-sm">
+          <span className="font-semibold">
+            Estamos fechados agora{status.closure ? ` (${status.closure.name})` : ""}.
+          </span>{" "}
+          {status.opensAt
+            ? `Abrimos ${formatStoreMoment(status.opensAt)}. Você já pode fazer seu pedido: ele sai para entrega após a abertura.`
+            : "Você já pode fazer seu pedido: ele sai para entrega após a reabertura."}
+        </p>
+        <button
+          type="button"
+          onClick={() => setDismissed(true)}
+          className="shrink-0 rounded p-1 hover:bg-primary-foreground/10 focus:outline-none focus:ring-2 focus:ring-primary-foreground"
+          aria-label="Fechar aviso"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StoreClosedBanner;
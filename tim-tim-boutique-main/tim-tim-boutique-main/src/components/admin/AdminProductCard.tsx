@@ -16,6 +16,7 @@ import {
 import { useProducts } from '@/contexts/ProductContext';
 import { toast } from 'sonner';
 import OptimizedImage from '@/components/OptimizedImage';
+import { getSalePrice, isSaleActive } from '@/lib/salePricing';
 
 interface AdminProductCardProps {
   product: Product;
@@ -102,6 +103,11 @@ const AdminProductCard = memo(function AdminProductCard({
               <span className="price-text text-lg sm:text-xl md:text-2xl lg:text-2xl font-heading text-secondary font-bold">
                 R$ {product.price.toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
               </span>
+              {isSaleActive(product.sale) && (
+                <span className="text-xs font-medium text-destructive">
+                  Promoção: R$ {getSalePrice(product).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}
+                </span>
+              )}
             </div>
 
             {/* Stock info */}
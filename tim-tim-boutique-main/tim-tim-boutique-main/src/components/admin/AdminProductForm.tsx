@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Product } from '@/types';
+import { Product, ProductSale, ProductVariant } from '@/types';
 import { useProducts } from '@/contexts/ProductContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,7 +16,7 @@ import {
 import { TagInput } from './TagInput';
 import { ProductImageUpload } from './ProductImageUpload';
 import { toast } from 'sonner';
-import { Loader2 } from 'lucide-react';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
 
 interface AdminProductFormProps {
   mode: 'add' | 'edit';
@@ -37,6 +37,24 @@ interface FormData {
   pairing: string[];
   grapes: string[];
   stock: string;
+  weightKg: string;
+  lengthCm: string;
+  widthCm: string;
+  heightCm: string;
+  variants: VariantFormData[];
+  saleType: 'none' | ProductSale['type'];
+  saleValue: string;
+  saleStartsAt: string; // yyyy-mm-dd
+  saleEndsAt: string;
+}
+
+interface VariantFormData {
+  id?: string;
+  sku: string;
+  volume: string;
+  price: string;
+  stock: string;
+  image: string;
 }
 
 interface FormErrors {
@@ -48,8 +66,36 @@ interface FormErrors {
   description?: string;
   alcoholContent?: string;
   volume?: string;
+  weightKg?: string;
+  dimensions?: string;
+  variants?: string;
+  sale?: string;
 }
 
+// Variant columns, in the order of the row
+const VARIANT_FIELDS = [
+  { name: 'sku', label: 'SKU', placeholder: 'Ex: JW-BLACK-1L', type: 'text' },
+  { name: 'volume', label: 'Volume', placeholder: 'Ex: 1L', type: 'text' },
+  { name: 'price', label: 'Preço (R$)', placeholder: '0.00', type: 'number' },
+  { name: 'stock', label: 'Estoque', placeholder: '0', type: 'number' },
+  { name: 'image', label: 'Imagem (opcional)', placeholder: 'URL da imagem', type: 'text' },
+] as const;
+
+const emptyVariant: VariantFormData = {
+  sku: '',
+  volume: '',
+  price: '',
+  stock: '0',
+  image: '',
+};
+
+// Package dimension fields, all optional
+const DIMENSION_FIELDS = [
+  { name: 'lengthCm', label: 'Comprimento (cm)' },
+  { name: 'widthCm', label: 'Largura (cm)' },
+  { name: 'heightCm', label: 'Altura (cm)' },
+] as const;
+
 const CATEGORIES = [
   'Cerveja',
   'Whisky',
@@ -80,20 +126,99 @@ const initialFormData: FormData = {
   pairing: [],
   grapes: [],
   stock: '0',
+  weightKg: '',
+  lengthCm: '',
+  widthCm: '',
+  heightCm: '',
+  variants: [],
+  saleType: 'none',
+  saleValue: '',
+  saleStartsAt: '',
+  saleEndsAt: '',
+};
+
+// Empty optional number fields are saved as "not set"
+const parseOptionalNumber = (value: string): number | undefined =>
+  value.trim() ? parseFloat(value) : undefined;
+
+const isInvalidOptionalNumber = (value: string): boolean => {
+  const number = parseOptionalNumber(value);
+  return number !== undefined && (isNaN(number) || number <= 0);
+};
+
+// Sales run for whole days: from the start of the first day to the end of the last one
+const toSaleDate = (date: string, endOfDay: boolean): string | undefined =>
+  date ? new Date(`${date}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString() : undefined;
+
+const toDateInput = (isoDate?: string): string => {
+  if (!isoDate) return '';
+  const date = new Date(isoDate);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const toVariant = (variant: VariantFormData): ProductVariant => ({
+  id: variant.id,
+  sku: variant.sku.trim(),
+  volume: variant.volume.trim(),
+  price: parseFloat(variant.price),
+  stock: parseInt(variant.stock),
+  image: variant.image.trim() || undefined,
+});
+
+/**
+ * First problem in the variant rows, if any
+ */
+const validateVariants = (variants: VariantFormData[]): string | undefined => {
+  const skus = new Set<string>();
+
+  for (const [index, variant] of variants.entries()) {
+    const row = `Variante ${index + 1}`;
+    const sku = variant.sku.trim().toUpperCase();
+
+    if (!sku || !variant.volume.trim()) {
+      return `${row}: SKU e volume são obrigatórios`;
+    }
+    if (skus.has(sku)) {
+      return `${row}: SKU repetido`;
+    }
+    skus.add(sku);
+
+    const price = parseFloat(variant.price);
+    if (isNaN(price) || price <= 0) {
+      return `${row}: preço deve ser maior que 0`;
+    }
+
+    const stock = parseInt(variant.stock);
+    if (isNaN(stock) || stock < 0) {
+      return `${row}: estoque não pode ser negativo`;
+    }
+
+    if (variant.image.trim()) {
+      try {
+        new URL(variant.image.trim());
+      } catch {
+        return `${row}: URL da imagem inválida`;
+      }
+    }
+  }
+
+  return undefined;
 };
 
 export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, productId }) => {
   const navigate = useNavigate();
-  const { addProduct, updateProduct, getProductById } = useProducts();
+  const { addProduct, updateProduct, getProductById, loading } = useProducts();
   
   const [formData, setFormData] = useState<FormData>(initialFormData);
   const [errors, setErrors] = useState<FormErrors>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(mode === 'edit');
 
-  // Load product data for edit mode
+  // Load product data for edit mode (once the product list is loaded)
   useEffect(() => {
-    if (mode === 'edit' && productId) {
+    if (mode === 'edit' && productId && !loading) {
       const product = getProductById(productId);
       
       if (product) {
@@ -111,6 +236,22 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
           pairing: product.pairing || [],
           grapes: product.grapes || [],
           stock: product.stock.toString(),
+          weightKg: product.weightKg?.toString() ?? '',
+          lengthCm: product.lengthCm?.toString() ?? '',
+          widthCm: product.widthCm?.toString() ?? '',
+          heightCm: product.heightCm?.toString() ?? '',
+          variants: (product.variants || []).map(variant => ({
+            id: variant.id,
+            sku: variant.sku,
+            volume: variant.volume,
+            price: variant.price.toString(),
+            stock: variant.stock.toString(),
+            image: variant.image || '',
+          })),
+          saleType: product.sale?.type ?? 'none',
+          saleValue: product.sale?.value.toString() ?? '',
+          saleStartsAt: toDateInput(product.sale?.startsAt),
+          saleEndsAt: toDateInput(product.sale?.endsAt),
         });
         setIsLoading(false);
       } else {
@@ -118,7 +259,7 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
         navigate('/admin/produtos');
       }
     }
-  }, [mode, productId, getProductById, navigate]);
+  }, [mode, productId, getProductById, loading, navigate]);
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -127,8 +268,11 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
     setFormData(prev => ({ ...prev, [name]: value }));
     
     // Clear error for this field
-    if (errors[name as keyof FormErrors]) {
-      setErrors(prev => ({ ...prev, [name]: undefined }));
+    const errorKey = DIMENSION_FIELDS.some(field => field.name === name)
+      ? 'dimensions'
+      : name.startsWith('sale') ? 'sale' : name;
+    if (errors[errorKey as keyof FormErrors]) {
+      setErrors(prev => ({ ...prev, [errorKey]: undefined }));
     }
   };
 
@@ -140,6 +284,58 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
     }
   };
 
+  const updateVariants = (variants: VariantFormData[]) => {
+    setFormData(prev => ({ ...prev, variants }));
+
+    if (errors.variants) {
+      setErrors(prev => ({ ...prev, variants: undefined }));
+    }
+  };
+
+  const handleVariantChange = (index: number, field: keyof VariantFormData, value: string) => {
+    updateVariants(formData.variants.map((variant, i) =>
+      i === index ? { ...variant, [field]: value } : variant
+    ));
+  };
+
+  // With variants, the product price and stock come from them (lowest price, total stock)
+  const hasVariants = formData.variants.length > 0;
+  const variantPrices = formData.variants.map(variant => parseFloat(variant.price)).filter(price => !isNaN(price));
+  const variantStock = formData.variants.reduce((sum, variant) => sum + (parseInt(variant.stock) || 0), 0);
+  const priceValue = hasVariants
+    ? (variantPrices.length > 0 ? Math.min(...variantPrices).toString() : '')
+    : formData.price;
+  const stockValue = hasVariants ? variantStock.toString() : formData.stock;
+
+  const handleSaleTypeChange = (value: string) => {
+    setFormData(prev => ({ ...prev, saleType: value as FormData['saleType'] }));
+
+    if (errors.sale) {
+      setErrors(prev => ({ ...prev, sale: undefined }));
+    }
+  };
+
+  const validateSale = (): string | undefined => {
+    if (formData.saleType === 'none') return undefined;
+
+    const value = parseFloat(formData.saleValue);
+    if (formData.saleType === 'percentage' && (isNaN(value) || value <= 0 || value >= 100)) {
+      return 'Desconto deve ser maior que 0% e menor que 100%';
+    }
+    if (formData.saleType === 'fixed') {
+      if (hasVariants) {
+        return 'Produtos com variantes só aceitam desconto percentual';
+      }
+      if (isNaN(value) || value <= 0 || value >= parseFloat(priceValue)) {
+        return 'Preço promocional deve ser maior que 0 e menor que o preço normal';
+      }
+    }
+    if (formData.saleStartsAt && formData.saleEndsAt && formData.saleEndsAt < formData.saleStartsAt) {
+      return 'A promoção deve terminar depois de começar';
+    }
+    return undefined;
+  };
+
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
 
@@ -156,7 +352,9 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
       newErrors.country = 'País de origem é obrigatório';
     }
 
-    if (!formData.price.trim()) {
+    if (hasVariants) {
+      newErrors.variants = validateVariants(formData.variants);
+    } else if (!formData.price.trim()) {
       newErrors.price = 'Preço é obrigatório';
     } else {
       const priceValue = parseFloat(formData.price);
@@ -194,6 +392,24 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
       newErrors.price = 'Estoque não pode ser negativo';
     }
 
+    // Shipping fields (optional)
+    if (isInvalidOptionalNumber(formData.weightKg)) {
+      newErrors.weightKg = 'Peso deve ser maior que 0';
+    }
+
+    if (DIMENSION_FIELDS.some(field => isInvalidOptionalNumber(formData[field.name]))) {
+      newErrors.dimensions = 'Dimensões devem ser maiores que 0';
+    }
+
+    newErrors.sale = validateSale();
+
+    if (!newErrors.variants) {
+      delete newErrors.variants;
+    }
+    if (!newErrors.sale) {
+      delete newErrors.sale;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -214,7 +430,7 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
         category: formData.category,
         country: formData.country.trim(),
         region: formData.region.trim() || undefined,
-        price: parseFloat(formData.price),
+        price: parseFloat(priceValue),
         image: formData.image.trim(),
         description: formData.description.trim(),
         alcoholContent: formData.alcoholContent.trim(),
@@ -222,7 +438,20 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
         tastingNotes: formData.tastingNotes,
         pairing: formData.pairing,
         grapes: formData.grapes.length > 0 ? formData.grapes : undefined,
-        stock: parseInt(formData.stock),
+        stock: parseInt(stockValue),
+        weightKg: parseOptionalNumber(formData.weightKg),
+        lengthCm: parseOptionalNumber(formData.lengthCm),
+        widthCm: parseOptionalNumber(formData.widthCm),
+        heightCm: parseOptionalNumber(formData.heightCm),
+        variants: formData.variants.map(toVariant),
+        sale: formData.saleType === 'none'
+          ? undefined
+          : {
+              type: formData.saleType,
+              value: parseFloat(formData.saleValue),
+              startsAt: toSaleDate(formData.saleStartsAt, false),
+              endsAt: toSaleDate(formData.saleEndsAt, true),
+            },
       };
 
       let success = false;
@@ -322,8 +551,9 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
               type="number"
               step="0.01"
               min="0"
-              value={formData.price}
+              value={priceValue}
               onChange={handleInputChange}
+              disabled={hasVariants}
               placeholder="0.00"
               aria-invalid={!!errors.price}
               aria-describedby={errors.price ? 'price-error' : undefined}
@@ -342,12 +572,156 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
               name="stock"
               type="number"
               min="0"
-              value={formData.stock}
+              value={stockValue}
               onChange={handleInputChange}
+              disabled={hasVariants}
               placeholder="0"
             />
           </div>
         </div>
+        {hasVariants && (
+          <p className="text-sm text-muted-foreground">
+            Preço e estoque calculados pelas variantes (menor preço e estoque total).
+          </p>
+        )}
+      </div>
+
+      {/* Promoção */}
+      <div className="bg-card rounded-lg border p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Promoção</h2>
+          <p className="text-sm text-muted-foreground">
+            O preço promocional aparece riscado ao lado do normal e vale no carrinho e no pedido. Sem datas, a promoção vale até ser removida.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="saleType">Tipo</Label>
+            <Select value={formData.saleType} onValueChange={handleSaleTypeChange}>
+              <SelectTrigger id="saleType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Sem promoção</SelectItem>
+                <SelectItem value="percentage">Desconto (%)</SelectItem>
+                <SelectItem value="fixed" disabled={hasVariants}>
+                  Preço fixo (R$)
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.saleType !== 'none' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="saleValue">
+                  {formData.saleType === 'percentage' ? 'Desconto (%)' : 'Preço promocional (R$)'}
+                </Label>
+                <Input
+                  id="saleValue"
+                  name="saleValue"
+                  type="number"
+                  step={formData.saleType === 'percentage' ? '1' : '0.01'}
+                  min="0"
+                  value={formData.saleValue}
+                  onChange={handleInputChange}
+                  placeholder={formData.saleType === 'percentage' ? 'Ex: 15' : '0.00'}
+                  aria-invalid={!!errors.sale}
+                  aria-describedby={errors.sale ? 'sale-error' : undefined}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="saleStartsAt">Início (opcional)</Label>
+                <Input
+                  id="saleStartsAt"
+                  name="saleStartsAt"
+                  type="date"
+                  value={formData.saleStartsAt}
+                  onChange={handleInputChange}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="saleEndsAt">Fim (opcional)</Label>
+                <Input
+                  id="saleEndsAt"
+                  name="saleEndsAt"
+                  type="date"
+                  value={formData.saleEndsAt}
+                  onChange={handleInputChange}
+                  aria-invalid={!!errors.sale}
+                  aria-describedby={errors.sale ? 'sale-error' : undefined}
+                />
+              </div>
+            </>
+          )}
+        </div>
+        {errors.sale && (
+          <p id="sale-error" className="text-sm text-red-500">
+            {errors.sale}
+          </p>
+        )}
+      </div>
+
+      {/* Variantes */}
+      <div className="bg-card rounded-lg border p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">Variantes</h2>
+            <p className="text-sm text-muted-foreground">
+              Volumes ou tamanhos vendidos separadamente, cada um com SKU, preço e estoque próprios. Sem imagem, a variante usa a imagem do produto.
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => updateVariants([...formData.variants, { ...emptyVariant }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Adicionar variante
+          </Button>
+        </div>
+
+        {formData.variants.map((variant, index) => (
+          <div
+            key={variant.id ?? `new-${index}`}
+            className="grid grid-cols-2 md:grid-cols-[1fr_1fr_1fr_1fr_2fr_auto] gap-3 items-end"
+          >
+            {VARIANT_FIELDS.map(field => (
+              <div key={field.name} className="space-y-2">
+                <Label htmlFor={`variant-${index}-${field.name}`}>{field.label}</Label>
+                <Input
+                  id={`variant-${index}-${field.name}`}
+                  type={field.type}
+                  step={field.name === 'price' ? '0.01' : undefined}
+                  min={field.type === 'number' ? '0' : undefined}
+                  value={variant[field.name]}
+                  onChange={(e) => handleVariantChange(index, field.name, e.target.value)}
+                  placeholder={field.placeholder}
+                  aria-invalid={!!errors.variants}
+                  aria-describedby={errors.variants ? 'variants-error' : undefined}
+                />
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => updateVariants(formData.variants.filter((_, i) => i !== index))}
+              aria-label={`Remover variante ${index + 1}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {errors.variants && (
+          <p id="variants-error" className="text-sm text-red-500">
+            {errors.variants}
+          </p>
+        )}
       </div>
 
       {/* Detalhes do Produto */}
@@ -482,6 +856,62 @@ export const AdminProductForm: React.FC<AdminProductFormProps> = ({ mode, produc
         )}
       </div>
 
+      {/* Envio */}
+      <div className="bg-card rounded-lg border p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Envio</h2>
+          <p className="text-sm text-muted-foreground">
+            Usados no cálculo do frete. Sem peso, o produto conta como uma garrafa (peso padrão das configurações de frete).
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="weightKg">Peso (kg)</Label>
+            <Input
+              id="weightKg"
+              name="weightKg"
+              type="number"
+              step="0.001"
+              min="0"
+              value={formData.weightKg}
+              onChange={handleInputChange}
+              placeholder="Ex: 1.5"
+              aria-invalid={!!errors.weightKg}
+              aria-describedby={errors.weightKg ? 'weightKg-error' : undefined}
+            />
+            {errors.weightKg && (
+              <p id="weightKg-error" className="text-sm text-red-500">
+                {errors.weightKg}
+              </p>
+            )}
+          </div>
+
+          {DIMENSION_FIELDS.map(field => (
+            <div key={field.name} className="space-y-2">
+              <Label htmlFor={field.name}>{field.label}</Label>
+              <Input
+                id={field.name}
+                name={field.name}
+                type="number"
+                step="0.1"
+                min="0"
+                value={formData[field.name]}
+                onChange={handleInputChange}
+                placeholder="Opcional"
+                aria-invalid={!!errors.dimensions}
+                aria-describedby={errors.dimensions ? 'dimensions-error' : undefined}
+              />
+            </div>
+          ))}
+        </div>
+        {errors.dimensions && (
+          <p id="dimensions-error" className="text-sm text-red-500">
+            {errors.dimensions}
+          </p>
+        )}
+      </div>
+
       {/* Imagem */}
       <div className="bg-card rounded-lg border p-6">
         <ProductImageUpload
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "react-router-dom";
-import { LayoutDashboard, Package, LogOut } from "lucide-react";
+import { LayoutDashboard, Package, ShoppingBag, Truck, Search, LogOut } from "lucide-react";
 import { useAdminAuth } from "@/contexts/AdminAuthContext";
 import { cn } from "@/lib/utils";
 
@@ -23,6 +23,21 @@ export const AdminSidebar = ({ isOpen, onClose }: AdminSidebarProps) => {
       icon: Package,
       path: "/admin/produtos",
     },
+    {
+      label: "Pedidos",
+      icon: ShoppingBag,
+      path: "/admin/pedidos",
+    },
+    {
+      label: "Entrega",
+      icon: Truck,
+      path: "/admin/configuracoes/entrega",
+    },
+    {
+      label: "Busca",
+      icon: Search,
+      path: "/admin/configuracoes/busca",
+    },
   ];
 
   const isActive = (path: string) => {
@@ -0,0 +1,5 @@
+/**
+ * Validation message under a form field (nothing when the field is valid)
+ */
+export const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="text-sm text-red-500">{message}</p> : null;
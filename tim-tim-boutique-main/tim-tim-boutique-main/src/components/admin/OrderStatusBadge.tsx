@@ -0,0 +1,30 @@
+import { CheckCircle, PackageOpen, Clock, Package, Truck, XCircle, type LucideIcon } from 'lucide-react';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import type { OrderStatus } from '@/types';
+
+interface OrderStatusBadgeProps {
+  status: OrderStatus;
+  className?: string;
+}
+
+const STATUS_STYLES: Record<OrderStatus, { icon: LucideIcon; variant: BadgeProps['variant']; className?: string }> = {
+  pending: { icon: Clock, variant: 'outline', className: 'border-yellow-500/50 text-yellow-600' },
+  confirmed: { icon: CheckCircle, variant: 'secondary' },
+  processing: { icon: PackageOpen, variant: 'outline', className: 'border-blue-500/50 text-blue-600' },
+  shipped: { icon: Truck, variant: 'default' },
+  delivered: { icon: Package, variant: 'outline', className: 'border-green-500/50 text-green-600' },
+  cancelled: { icon: XCircle, variant: 'destructive' },
+};
+
+export function OrderStatusBadge({ status, className }: OrderStatusBadgeProps) {
+  const { icon: Icon, variant, className: statusClassName } = STATUS_STYLES[status];
+
+  return (
+    <Badge variant={variant} className={cn('gap-1', statusClassName, className)}>
+      <Icon className="h-3 w-3" aria-hidden="true" />
+      {ORDER_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
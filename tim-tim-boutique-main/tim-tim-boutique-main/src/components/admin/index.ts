@@ -13,5 +13,9 @@ export { ProductImageUpload } from './ProductImageUpload';
 export { TagInput } from './TagInput';
 export { AdminProductCardSkeleton } from './AdminProductCardSkeleton';
 
+// Admin Order Components
+export { OrderStatusBadge } from './OrderStatusBadge';
+
 // Admin Utility Components
 export { ErrorState } from './ErrorState';
+export { FieldError } from './FieldError';
@@ -2,7 +2,7 @@
  * WhatsApp Configuration
  * 
  * Configuração centralizada para integração com WhatsApp Business.
- * Os pedidos são finalizados via WhatsApp, sem armazenamento no banco de dados.
+ * Os pedidos são registrados no banco de dados e finalizados via WhatsApp.
  */
 
 /**
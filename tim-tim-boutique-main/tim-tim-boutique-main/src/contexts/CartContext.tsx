@@ -1,21 +1,26 @@
-import { createContext, useContext, useState, useEffect, ReactNode, useMemo, useCallback } from "react";
+import { createContext, useContext, useState, useEffect, ReactNode, useMemo, useCallback, useRef } from "react";
 import { sessionService, ShippingInfo } from "@/services/sessionService";
 import { migrateFromLocalStorage } from "@/lib/migration";
-import { CartItem, Product } from "@/types";
+import { CartItem, Product, ProductVariant, StockShortage } from "@/types";
 import { toast } from "sonner";
 import { handleStorageError } from "@/lib/errorHandling";
+import { getCartItemKey, getShortageKey, refreshCartItem, repriceCartItem, toCartProduct } from "@/lib/productVariants";
 
+// Lines are identified by getCartItemKey: the product ID, or the variant ID
 interface CartContextType {
   items: CartItem[];
-  addItem: (product: Product) => boolean;
-  removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => boolean;
+  addItem: (product: Product, variant?: ProductVariant) => boolean;
+  removeItem: (itemKey: string) => void;
+  updateQuantity: (itemKey: string, quantity: number) => boolean;
   clearCart: () => void;
   total: number;
   itemCount: number;
   shipping: ShippingInfo | null;
   setShipping: (shipping: ShippingInfo | null) => void;
   grandTotal: number;
+  stockShortages: Record<string, StockShortage>;
+  applyStockShortages: (shortages: StockShortage[]) => void;
+  refreshPrices: () => Promise<void>;
   isLoading: boolean;
   error: string | null;
 }
@@ -33,8 +38,9 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       migrateFromLocalStorage();
 
       // Load cart from session (Requirements 1.1, 1.2, 1.3)
+      // Sale prices are rechecked: the sale may have ended since the last visit
       const savedCart = sessionService.getCart();
-      return savedCart;
+      return savedCart.map(item => repriceCartItem(item));
     } catch (error) {
       console.error('Error loading cart from session:', error);
       handleStorageError(error, 'carregar carrinho');
@@ -45,6 +51,10 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     }
   });
 
+  // Latest lines, for callbacks that read the cart without changing it
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
   // Initialize shipping from session
   const [shipping, setShipping] = useState<ShippingInfo | null>(() => {
     try {
@@ -55,9 +65,16 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     }
   });
 
+  // Lines rejected by the server-side stock check, keyed by line (getCartItemKey)
+  const [reportedShortages, setReportedShortages] = useState<Record<string, StockShortage>>({});
+
   // Memoize addItem function to prevent unnecessary re-renders (Requirement 9.2, 9.3)
-  const addItem = useCallback((product: Product): boolean => {
+  const addItem = useCallback((selected: Product, variant?: ProductVariant): boolean => {
     try {
+      // Variants are sold with their own price and stock
+      const product = toCartProduct(selected, variant);
+      const key = getCartItemKey(product);
+
       // Check if product has stock available (Requirement 6.3)
       if (product.stock <= 0) {
         toast.error('Produto sem estoque', {
@@ -68,7 +85,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
 
       // Check current cart state before adding
       setItems(current => {
-        const existing = current.find(item => item.id === product.id);
+        const existing = current.find(item => getCartItemKey(item) === key);
         if (existing && existing.quantity >= product.stock) {
           toast.warning('Estoque limitado', {
             description: `Apenas ${product.stock} unidades disponíveis`
@@ -76,14 +93,14 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
           return current;
         }
 
-        const existingItem = current.find(item => item.id === product.id);
+        const existingItem = current.find(item => getCartItemKey(item) === key);
         if (existingItem) {
           // Double-check stock limit (Requirement 6.3)
           if (existingItem.quantity >= product.stock) {
             return current;
           }
           return current.map(item =>
-            item.id === product.id
+            getCartItemKey(item) === key
               ? { ...item, quantity: item.quantity + 1 }
               : item
           );
@@ -104,9 +121,9 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
   }, []); // No dependencies needed as we use functional setState
 
   // Memoize removeItem function (Requirement 9.2, 9.3)
-  const removeItem = useCallback((productId: string) => {
+  const removeItem = useCallback((itemKey: string) => {
     try {
-      setItems(current => current.filter(item => item.id !== productId));
+      setItems(current => current.filter(item => getCartItemKey(item) !== itemKey));
       toast.success('Produto removido do carrinho');
     } catch (error) {
       console.error('Error removing item from cart:', error);
@@ -115,10 +132,10 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
   }, []);
 
   // Memoize updateQuantity function (Requirement 9.2, 9.3)
-  const updateQuantity = useCallback((productId: string, quantity: number): boolean => {
+  const updateQuantity = useCallback((itemKey: string, quantity: number): boolean => {
     try {
       if (quantity <= 0) {
-        setItems(current => current.filter(item => item.id !== productId));
+        setItems(current => current.filter(item => getCartItemKey(item) !== itemKey));
         toast.success('Produto removido do carrinho');
         return true;
       }
@@ -126,7 +143,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
       let stockExceeded = false;
       setItems(current => {
         // Find the item to check stock (Requirement 6.3)
-        const item = current.find(i => i.id === productId);
+        const item = current.find(i => getCartItemKey(i) === itemKey);
         if (!item) {
           toast.error('Produto não encontrado no carrinho');
           return current;
@@ -142,7 +159,7 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         }
 
         return current.map(item =>
-          item.id === productId ? { ...item, quantity } : item
+          getCartItemKey(item) === itemKey ? { ...item, quantity } : item
         );
       });
 
@@ -164,6 +181,48 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     }
   }, []);
 
+  // Record lines rejected by the stock check and cap them at the available stock
+  const applyStockShortages = useCallback((shortages: StockShortage[]) => {
+    const byLine: Record<string, StockShortage> = {};
+    shortages.forEach(shortage => {
+      byLine[getShortageKey(shortage)] = shortage;
+    });
+
+    setReportedShortages(byLine);
+    setItems(current =>
+      current.map(item => {
+        const shortage = byLine[getCartItemKey(item)];
+        return shortage ? { ...item, stock: shortage.available } : item;
+      })
+    );
+  }, []);
+
+  // Reload the cart lines from the store (e.g. when the checkout opens): the
+  // admin may have changed prices or sales since the items were added.
+  // Offline, the saved sale prices are at least rechecked.
+  const refreshPrices = useCallback(async () => {
+    setItems(current => {
+      const repriced = current.map(item => repriceCartItem(item));
+      return repriced.some((item, index) => item !== current[index]) ? repriced : current;
+    });
+
+    try {
+      const { getProductsByIds } = await import('@/services/productService');
+      const ids = [...new Set(itemsRef.current.map(item => item.id))];
+      const products = await getProductsByIds(ids);
+      const byId = new Map(products.map(product => [product.id, product]));
+
+      setItems(current =>
+        current.map(item => {
+          const product = byId.get(item.id);
+          return product ? refreshCartItem(item, product) : item;
+        })
+      );
+    } catch (error) {
+      console.error('Error refreshing cart prices:', error);
+    }
+  }, []);
+
   // Sync cart with sessionStorage whenever items change (Requirements 1.1, 1.3)
   useEffect(() => {
     try {
@@ -205,6 +264,19 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
     [total, shipping]
   );
 
+  // Only shortages the customer hasn't fixed yet (line removed or quantity reduced)
+  const stockShortages = useMemo(() => {
+    const active: Record<string, StockShortage> = {};
+    items.forEach(item => {
+      const key = getCartItemKey(item);
+      const shortage = reportedShortages[key];
+      if (shortage && item.quantity > shortage.available) {
+        active[key] = shortage;
+      }
+    });
+    return active;
+  }, [items, reportedShortages]);
+
   return (
     <CartContext.Provider
       value={{
@@ -218,6 +290,9 @@ export const CartProvider = ({ children }: { children: ReactNode }) => {
         shipping,
         setShipping,
         grandTotal,
+        stockShortages,
+        applyStockShortages,
+        refreshPrices,
         isLoading,
         error
       }}
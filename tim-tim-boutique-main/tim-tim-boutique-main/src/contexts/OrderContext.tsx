@@ -1,52 +1,31 @@
-import { createContext, useContext, useState, ReactNode } from "react";
+import { createContext, useCallback, useContext, useState, ReactNode } from "react";
+import { sessionService } from "@/services/sessionService";
+import type { Order } from "@/types";
 
 /**
- * Simplified OrderContext - Only for temporary order confirmation
- * No database persistence, no localStorage, just temporary state
- * Orders are finalized via WhatsApp, not stored in database
+ * OrderContext - Last order placed in this browser session
+ * Checkout stores the order returned by the database here; it is also kept
+ * in sessionStorage so the confirmation page survives a page refresh.
  */
 
-export interface OrderData {
-  id: string;
-  date: string;
-  items: Array<{
-    id: string;
-    name: string;
-    price: number;
-    quantity: number;
-    image?: string;
-  }>;
-  subtotal: number;
-  shippingCost: number;
-  shippingIsFree: boolean;
-  total: number;
-  estimatedDelivery: string;
-  shippingAddress: {
-    cep: string;
-    street: string;
-    number: string;
-    complement?: string;
-    neighborhood: string;
-    city: string;
-    state: string;
-  };
-  customerInfo: {
-    name: string;
-    email?: string;
-    phone: string;
-  };
-  status: string;
-}
-
 interface OrderContextType {
-  lastOrder: OrderData | null;
-  setLastOrder: (order: OrderData | null) => void;
+  lastOrder: Order | null;
+  setLastOrder: (order: Order | null) => void;
 }
 
 const OrderContext = createContext<OrderContextType | undefined>(undefined);
 
 export const OrderProvider = ({ children }: { children: ReactNode }) => {
-  const [lastOrder, setLastOrder] = useState<OrderData | null>(null);
+  const [lastOrder, setLastOrderState] = useState<Order | null>(() => sessionService.getLastOrder());
+
+  const setLastOrder = useCallback((order: Order | null) => {
+    setLastOrderState(order);
+    if (order) {
+      sessionService.saveLastOrder(order);
+    } else {
+      sessionService.clearLastOrder();
+    }
+  }, []);
 
   return (
     <OrderContext.Provider
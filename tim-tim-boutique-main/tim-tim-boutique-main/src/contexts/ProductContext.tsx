@@ -89,6 +89,27 @@ export function ProductProvider({ children }: ProductProviderProps) {
     return categoryMap[category] || 'destilado';
   };
 
+  /**
+   * Map the product sale to the sale columns (no sale clears all of them)
+   */
+  const mapSaleToDb = (sale?: Product['sale']) => ({
+    discount: sale?.type === 'percentage' ? sale.value : 0,
+    sale_price: sale?.type === 'fixed' ? sale.value : null,
+    sale_starts_at: sale?.startsAt ?? null,
+    sale_ends_at: sale?.endsAt ?? null,
+  });
+
+  /**
+   * Save the variants sent by the form and reload the product
+   * (its price and stock are recalculated from the variants by the database)
+   */
+  const saveVariants = async (product: Product, variants?: Product['variants']): Promise<Product> => {
+    if (!variants) return product;
+
+    await productService.saveProductVariants(product.id, variants);
+    return (await productService.getProductById(product.id)) ?? product;
+  };
+
   /**
    * Add a new product
    */
@@ -104,7 +125,7 @@ export function ProductProvider({ children }: ProductProviderProps) {
         stock: productData.stock ?? 0,
         tags: productData.tastingNotes || [],
         featured: false,
-        discount: 0,
+        ...mapSaleToDb(productData.sale),
         alcohol_content: productData.alcoholContent || undefined,
         volume: productData.volume || undefined,
         pairing: productData.pairing && productData.pairing.length > 0 ? productData.pairing : undefined,
@@ -112,9 +133,14 @@ export function ProductProvider({ children }: ProductProviderProps) {
         grapes: productData.grapes && productData.grapes.length > 0 ? productData.grapes : undefined,
         country: productData.country || undefined,
         region: productData.region || undefined,
+        weight_kg: productData.weightKg,
+        length_cm: productData.lengthCm,
+        width_cm: productData.widthCm,
+        height_cm: productData.heightCm,
       };
 
-      const newProduct = await productService.createProduct(createData);
+      const created = await productService.createProduct(createData);
+      const newProduct = await saveVariants(created, productData.variants);
       
       // Update local state
       setProducts(prev => [...prev, newProduct]);
@@ -154,9 +180,18 @@ export function ProductProvider({ children }: ProductProviderProps) {
         ...(productData.grapes && { grapes: productData.grapes }),
         ...(productData.country && { country: productData.country }),
         ...(productData.region && { region: productData.region }),
+        // Shipping fields can be cleared (back to the default weight)
+        ...('weightKg' in productData && { weight_kg: productData.weightKg ?? null }),
+        ...('lengthCm' in productData && { length_cm: productData.lengthCm ?? null }),
+        ...('widthCm' in productData && { width_cm: productData.widthCm ?? null }),
+        ...('heightCm' in productData && { height_cm: productData.heightCm ?? null }),
+        ...('sale' in productData && mapSaleToDb(productData.sale)),
       };
 
-      const updatedProduct = await productService.updateProduct(updateData);
+      const updatedProduct = await saveVariants(
+        await productService.updateProduct(updateData),
+        productData.variants
+      );
       
       // Update local state
       setProducts(prev => 
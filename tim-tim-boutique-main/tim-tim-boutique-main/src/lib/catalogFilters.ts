@@ -0,0 +1,260 @@
+/**
+ * Public catalog filters, kept in the URL so filtered views can be shared
+ * @example
+ * /catalogo?busca=malbec&uva=Malbec&uva=Merlot&preco=100-500&teor=12-14&ordem=price-asc&pagina=2
+ */
+
+import type { ProductFilters, ProductSearchFilters, ProductSort } from '@/services/productService';
+
+// Facet filters: several values each, any of them matches
+export type CatalogFacet = 'categories' | 'countries' | 'regions' | 'grapes' | 'producers' | 'volumes';
+
+// Range filter; a missing bound is open
+export interface NumberRangeFilter {
+  min?: number;
+  max?: number;
+}
+
+export interface CatalogFilters extends Record<CatalogFacet, string[]> {
+  query: string;
+  price: NumberRangeFilter; // {} = all
+  alcohol: NumberRangeFilter; // {} = all
+  sort: ProductSort;
+  page: number; // Starts at 1
+}
+
+export const CATALOG_PAGE_SIZE = 12;
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  query: '',
+  categories: [],
+  countries: [],
+  regions: [],
+  grapes: [],
+  producers: [],
+  volumes: [],
+  price: {},
+  alcohol: {},
+  sort: 'newest',
+  page: 1,
+};
+
+// Facets in the order shown in the catalog, with their URL parameter (repeated per value)
+export const CATALOG_FACETS: { key: CatalogFacet; param: string; label: string }[] = [
+  { key: 'categories', param: 'categoria', label: 'Categoria' },
+  { key: 'countries', param: 'pais', label: 'País' },
+  { key: 'regions', param: 'regiao', label: 'Região' },
+  { key: 'grapes', param: 'uva', label: 'Uva' },
+  { key: 'producers', param: 'produtor', label: 'Produtor' },
+  { key: 'volumes', param: 'volume', label: 'Volume' },
+];
+
+export const CATALOG_SORTS: Record<ProductSort, string> = {
+  relevance: 'Relevância', // Only with a search term
+  newest: 'Mais Recentes',
+  'price-asc': 'Menor Preço',
+  'price-desc': 'Maior Preço',
+  'name-asc': 'Nome (A-Z)',
+};
+
+// URL parameter of the other filters
+const PARAMS = {
+  query: 'busca',
+  price: 'preco',
+  alcohol: 'teor',
+  sort: 'ordem',
+  page: 'pagina',
+};
+
+/**
+ * Sort used when none is chosen: most relevant first while searching
+ */
+export function getDefaultSort(query: string): ProductSort {
+  return query ? 'relevance' : DEFAULT_CATALOG_FILTERS.sort;
+}
+
+const isOption = <T extends string>(options: Record<T, unknown>, value: string): value is T =>
+  Object.prototype.hasOwnProperty.call(options, value);
+
+const RANGE_PATTERN = /^(\d+(?:\.\d+)?)?-(\d+(?:\.\d+)?)?$/; // "100-500", "-500"
+const OPEN_RANGE_PATTERN = /^(\d+(?:\.\d+)?)\+$/; // "100+"
+
+/**
+ * Read a range from the URL: "100-500", "100+" or "-500" (invalid = no range)
+ */
+export function parseRange(value: string | null): NumberRangeFilter {
+  const text = value?.trim().replace(',', '.') ?? '';
+  const [, min, max] = text.match(RANGE_PATTERN) ?? text.match(OPEN_RANGE_PATTERN) ?? [];
+  const range: NumberRangeFilter = {};
+
+  if (min !== undefined) range.min = Number(min);
+  if (max !== undefined) range.max = Number(max);
+
+  // Bounds typed the wrong way around still make a valid range
+  if (range.min !== undefined && range.max !== undefined && range.min > range.max) {
+    return { min: range.max, max: range.min };
+  }
+
+  return range;
+}
+
+/**
+ * Write a range to the URL ("" = no range)
+ */
+export function formatRange(range: NumberRangeFilter): string {
+  const { min, max } = range;
+
+  if (min !== undefined && max !== undefined) return `${min}-${max}`;
+  if (min !== undefined) return `${min}+`;
+  if (max !== undefined) return `-${max}`;
+  return '';
+}
+
+export const hasRange = (range: NumberRangeFilter): boolean =>
+  range.min !== undefined || range.max !== undefined;
+
+/**
+ * Read the filters from the URL (invalid values fall back to the defaults)
+ */
+export function parseCatalogParams(params: URLSearchParams): CatalogFilters {
+  const sort = params.get(PARAMS.sort) ?? '';
+  const page = Number(params.get(PARAMS.page));
+  const query = params.get(PARAMS.query)?.trim() ?? '';
+  const isValidSort = isOption(CATALOG_SORTS, sort) && (sort !== 'relevance' || !!query);
+
+  const filters: CatalogFilters = {
+    ...DEFAULT_CATALOG_FILTERS,
+    query,
+    price: parseRange(params.get(PARAMS.price)),
+    alcohol: parseRange(params.get(PARAMS.alcohol)),
+    sort: isValidSort ? sort : getDefaultSort(query),
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+
+  for (const facet of CATALOG_FACETS) {
+    const values = params.getAll(facet.param).map((value) => value.trim()).filter(Boolean);
+    filters[facet.key] = Array.from(new Set(values));
+  }
+
+  return filters;
+}
+
+/**
+ * Filters with a facet value checked or unchecked, back on the first page
+ */
+export function toggleFacetValue(filters: CatalogFilters, facet: CatalogFacet, value: string): CatalogFilters {
+  const values = filters[facet].includes(value)
+    ? filters[facet].filter((item) => item !== value)
+    : [...filters[facet], value];
+
+  return { ...filters, [facet]: values, page: 1 };
+}
+
+/**
+ * Filters with a new search term, back on the first page
+ * (a default sort follows the term: relevance while searching)
+ */
+export function withSearchQuery(filters: CatalogFilters, query: string): CatalogFilters {
+  const sort = filters.sort === getDefaultSort(filters.query) ? getDefaultSort(query) : filters.sort;
+
+  return { ...filters, query, sort, page: 1 };
+}
+
+/**
+ * Write the filters to URL parameters (default values are left out)
+ */
+export function toCatalogParams(filters: CatalogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.query) params.set(PARAMS.query, filters.query);
+
+  for (const facet of CATALOG_FACETS) {
+    filters[facet.key].forEach((value) => params.append(facet.param, value));
+  }
+
+  if (hasRange(filters.price)) params.set(PARAMS.price, formatRange(filters.price));
+  if (hasRange(filters.alcohol)) params.set(PARAMS.alcohol, formatRange(filters.alcohol));
+  if (filters.sort !== getDefaultSort(filters.query)) params.set(PARAMS.sort, filters.sort);
+  if (filters.page > 1) params.set(PARAMS.page, String(filters.page));
+
+  return params;
+}
+
+/**
+ * Number of filters narrowing the products (each facet value and range counts)
+ */
+export function countActiveFilters(filters: CatalogFilters): number {
+  return CATALOG_FACETS.reduce((count, facet) => count + filters[facet.key].length, 0)
+    + (hasRange(filters.price) ? 1 : 0)
+    + (hasRange(filters.alcohol) ? 1 : 0);
+}
+
+/**
+ * Whether any filter differs from the defaults (the page does not count)
+ */
+export function hasActiveCatalogFilters(filters: CatalogFilters): boolean {
+  return !!filters.query
+    || countActiveFilters(filters) > 0
+    || filters.sort !== getDefaultSort(filters.query);
+}
+
+/**
+ * Database filters of the catalog (also used for the facet counts)
+ */
+export function toProductFilters(filters: CatalogFilters): ProductFilters {
+  return {
+    query: filters.query || undefined,
+    categories: filters.categories,
+    countries: filters.countries,
+    regions: filters.regions,
+    grapes: filters.grapes,
+    producers: filters.producers,
+    volumes: filters.volumes,
+    minPrice: filters.price.min,
+    maxPrice: filters.price.max,
+    minAlcohol: filters.alcohol.min,
+    maxAlcohol: filters.alcohol.max,
+  };
+}
+
+/**
+ * Database search of the filters
+ */
+export function toProductSearch(filters: CatalogFilters): ProductSearchFilters {
+  return {
+    ...toProductFilters(filters),
+    sort: filters.sort,
+    page: filters.page,
+    pageSize: CATALOG_PAGE_SIZE,
+  };
+}
+
+/**
+ * Number of pages for a result count (at least 1)
+ */
+export function getPageCount(total: number, pageSize = CATALOG_PAGE_SIZE): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+/**
+ * Page numbers shown in the pagination, with "ellipsis" for the gaps
+ * @example
+ * getPageNumbers(5, 10) // [1, "ellipsis", 4, 5, 6, "ellipsis", 10]
+ */
+export function getPageNumbers(page: number, pageCount: number): (number | 'ellipsis')[] {
+  if (pageCount <= 7) {
+    return Array.from({ length: pageCount }, (_, index) => index + 1);
+  }
+
+  const start = Math.max(2, Math.min(page - 1, pageCount - 4));
+  const end = Math.min(pageCount - 1, Math.max(page + 1, 5));
+  const middle = Array.from({ length: end - start + 1 }, (_, index) => start + index);
+
+  return [
+    1,
+    ...(start > 2 ? ['ellipsis' as const] : []),
+    ...middle,
+    ...(end < pageCount - 1 ? ['ellipsis' as const] : []),
+    pageCount,
+  ];
+}
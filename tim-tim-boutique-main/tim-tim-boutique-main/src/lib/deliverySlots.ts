@@ -0,0 +1,118 @@
+/**
+ * Scheduled delivery slots, shared by checkout, WhatsApp message,
+ * confirmation and admin screens
+ *
+ * Windows are configured in store time (see storeTime); a slot is a window
+ * on a given date.
+ */
+
+import type { DeliverySlotSettings, StoreHours } from '@/types';
+import { isWithinOpeningHours } from '@/lib/storeHours';
+import { addStoreDays, formatStoreDate, formatStoreTime, toStoreDate, toStoreDateTime } from '@/lib/storeTime';
+
+export interface DeliverySlot {
+  /** Window start in store time ("18:00"), unique within a date */
+  id: string;
+  start: Date;
+  end: Date;
+  /** "18:00 às 20:00" */
+  label: string;
+  /** Orders still accepted in this slot */
+  remaining: number;
+  isAvailable: boolean;
+}
+
+/**
+ * Orders already placed per slot, keyed by the slot start (ISO string)
+ */
+export type DeliverySlotUsage = Record<string, number>;
+
+/**
+ * List the slots of a date with their availability
+ * A slot is unavailable when it starts before the minimum notice, is full
+ * or is outside the store opening hours
+ * @param usage - Orders per slot, from getDeliverySlotUsage
+ * @param storeHours - Opening hours and closures (null = always open)
+ */
+export function getDeliverySlots(
+  settings: DeliverySlotSettings,
+  date: string,
+  usage: DeliverySlotUsage = {},
+  storeHours: StoreHours | null = null,
+  now = new Date()
+): DeliverySlot[] {
+  const earliestStart = now.getTime() + settings.minNoticeHours * 60 * 60 * 1000;
+
+  return settings.windows.map((window) => {
+    const start = toStoreDateTime(date, window.start);
+    const end = toStoreDateTime(date, window.end);
+    const remaining = Math.max(0, window.capacity - (usage[start.toISOString()] ?? 0));
+
+    return {
+      id: window.start,
+      start,
+      end,
+      label: `${window.start} às ${window.end}`,
+      remaining,
+      isAvailable:
+        remaining > 0 &&
+        start.getTime() >= earliestStart &&
+        isWithinOpeningHours(storeHours, date, window.start, window.end),
+    };
+  });
+}
+
+/**
+ * Dates (YYYY-MM-DD) that can be chosen: from today, up to daysAhead days,
+ * skipping dates without any window after the minimum notice and within
+ * the opening hours (holidays, closed weekdays)
+ */
+export function getDeliveryDates(
+  settings: DeliverySlotSettings,
+  storeHours: StoreHours | null = null,
+  now = new Date()
+): string[] {
+  const today = toStoreDate(now);
+  const dates: string[] = [];
+
+  for (let day = 0; day < settings.daysAhead; day++) {
+    const date = addStoreDays(today, day);
+    if (getDeliverySlots(settings, date, {}, storeHours, now).some((slot) => slot.isAvailable)) {
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Period covered by the given dates, for loading the slot usage
+ */
+export function getDeliveryPeriod(dates: string[]): { from: Date; to: Date } | null {
+  if (dates.length === 0) {
+    return null;
+  }
+
+  return {
+    from: toStoreDateTime(dates[0], '00:00'),
+    to: toStoreDateTime(addStoreDays(dates[dates.length - 1], 1), '00:00'),
+  };
+}
+
+/**
+ * Label of a date for the date picker
+ * @example
+ * formatDeliveryDate('2026-10-24') // "sábado, 24/10"
+ */
+export function formatDeliveryDate(date: string): string {
+  return formatStoreDate(date);
+}
+
+/**
+ * Describe a scheduled delivery
+ * @example
+ * formatDeliverySlot('2026-10-24T21:00:00Z', '2026-10-24T23:00:00Z') // "sábado, 24/10, das 18:00 às 20:00"
+ */
+export function formatDeliverySlot(start: Date | string, end: Date | string): string {
+  return `${formatStoreDate(toStoreDate(new Date(start)))}, das ${formatStoreTime(start)} às ${formatStoreTime(end)}`;
+}
@@ -1,4 +1,5 @@
 import { toast } from 'sonner';
+import type { StockShortage } from '@/types';
 
 /**
  * Error types for better error handling
@@ -27,6 +28,50 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * Error thrown when one or more cart lines exceed the available stock
+ */
+export class InsufficientStockError extends AppError {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super('Estoque insuficiente para alguns produtos', ErrorType.VALIDATION);
+    this.name = 'InsufficientStockError';
+    this.shortages = shortages;
+  }
+}
+
+/**
+ * Error thrown when the chosen delivery slot is full or no longer available
+ */
+export class DeliverySlotUnavailableError extends AppError {
+  constructor() {
+    super('O horário de entrega escolhido não está mais disponível', ErrorType.VALIDATION);
+    this.name = 'DeliverySlotUnavailableError';
+  }
+}
+
+/**
+ * Error thrown when the cart prices no longer match the store (a sale started or ended)
+ */
+export class PriceChangedError extends AppError {
+  constructor() {
+    super('Os preços de alguns produtos mudaram', ErrorType.VALIDATION);
+    this.name = 'PriceChangedError';
+  }
+}
+
+/**
+ * Error thrown when the shipping sent with the order no longer matches the
+ * store rules for the address (or the address is no longer covered)
+ */
+export class ShippingChangedError extends AppError {
+  constructor() {
+    super('O frete deste endereço mudou', ErrorType.VALIDATION);
+    this.name = 'ShippingChangedError';
+  }
+}
+
 /**
  * Check if error is a localStorage quota exceeded error
  */
@@ -44,6 +44,13 @@ export function formatCurrency(value: number): string {
   }).format(value);
 }
 
+/**
+ * Format an alcohol content in % vol. (13,5%)
+ */
+export function formatAlcohol(value: number): string {
+  return `${value.toLocaleString('pt-BR')}%`;
+}
+
 /**
  * Format a phone number to Brazilian format
  */
@@ -75,3 +82,10 @@ export function formatCEP(cep: string): string {
   
   return cep;
 }
+
+/**
+ * Format a delivery time in hours ("até 1 hora", "até 2 horas")
+ */
+export function formatDeliveryTime(hours: number): string {
+  return `até ${hours} ${hours === 1 ? 'hora' : 'horas'}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Order status labels and workflow shared by tracking and admin screens
+ */
+
+import type { OrderStatus } from '@/types';
+
+/**
+ * Customer-facing label for each order status
+ */
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pendente',
+  confirmed: 'Confirmado',
+  processing: 'Em preparação',
+  shipped: 'Enviado',
+  delivered: 'Entregue',
+  cancelled: 'Cancelado',
+};
+
+/**
+ * Happy-path sequence an order goes through (cancelled is off the path)
+ */
+export const ORDER_STATUS_FLOW: OrderStatus[] = ['pending', 'confirmed', 'processing', 'shipped', 'delivered'];
+
+/**
+ * Statuses staff can move an order to from each status
+ * An order can be cancelled until it leaves the store; delivered and
+ * cancelled are final
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+/**
+ * Get the label for a status, falling back to the raw value
+ */
+export function getOrderStatusLabel(status: OrderStatus): string {
+  return ORDER_STATUS_LABELS[status] ?? status;
+}
+
+/**
+ * Get the statuses an order can move to next
+ */
+export function getNextOrderStatuses(status: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[status] ?? [];
+}
+
+/**
+ * Check if an order can move from one status to another
+ */
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return getNextOrderStatuses(from).includes(to);
+}
@@ -0,0 +1,79 @@
+/**
+ * Payment methods offered at checkout, shared by checkout, WhatsApp message,
+ * confirmation and admin screens
+ */
+
+import type { FulfillmentMethod, PaymentMethod } from '@/types';
+
+/**
+ * Methods in the order they are offered at checkout
+ */
+export const PAYMENT_METHODS: [PaymentMethod, ...PaymentMethod[]] = ['pix', 'credit_card', 'debit_card', 'cash'];
+
+/**
+ * Customer-facing label for each payment method
+ */
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  pix: 'PIX',
+  credit_card: 'Cartão de crédito na entrega',
+  debit_card: 'Cartão de débito na entrega',
+  cash: 'Dinheiro na entrega',
+};
+
+/**
+ * Labels that change when the order is picked up at the store
+ */
+const PICKUP_PAYMENT_METHOD_LABELS: Partial<Record<PaymentMethod, string>> = {
+  credit_card: 'Cartão de crédito na retirada',
+  debit_card: 'Cartão de débito na retirada',
+  cash: 'Dinheiro na retirada',
+};
+
+/**
+ * Get the label for a payment method, falling back to the raw value
+ */
+export function getPaymentMethodLabel(method: PaymentMethod, fulfillmentMethod: FulfillmentMethod = 'delivery'): string {
+  if (fulfillmentMethod === 'pickup' && PICKUP_PAYMENT_METHOD_LABELS[method]) {
+    return PICKUP_PAYMENT_METHOD_LABELS[method];
+  }
+
+  return PAYMENT_METHOD_LABELS[method] ?? method;
+}
+
+/**
+ * Parse the "troco para" amount typed by the customer
+ * Accepts "100", "100,50", "1.000,00" and "R$ 50"
+ * @returns The amount, or undefined when empty or not a positive number
+ */
+export function parseChangeFor(value?: string): number | undefined {
+  const normalized = (value ?? '')
+    .replace(/[R$\s]/g, '')
+    .replace(/\.(?=\d{3}(\D|$))/g, '')
+    .replace(',', '.');
+
+  if (!/^\d+(\.\d{1,2})?$/.test(normalized)) {
+    return undefined;
+  }
+
+  const amount = Number(normalized);
+  return amount > 0 ? amount : undefined;
+}
+
+/**
+ * Describe how the order will be paid, including the change for cash
+ * @example
+ * formatPaymentMethod('cash', 100) // "Dinheiro na entrega (troco para R$ 100,00)"
+ */
+export function formatPaymentMethod(
+  method: PaymentMethod,
+  changeFor?: number,
+  fulfillmentMethod: FulfillmentMethod = 'delivery'
+): string {
+  const label = getPaymentMethodLabel(method, fulfillmentMethod);
+
+  if (method === 'cash' && changeFor) {
+    return `${label} (troco para R$ ${changeFor.toFixed(2).replace('.', ',')})`;
+  }
+
+  return label;
+}
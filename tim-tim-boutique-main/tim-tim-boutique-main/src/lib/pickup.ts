@@ -0,0 +1,68 @@
+/**
+ * Store pickup ("retirar na loja"), shared by cart, checkout, WhatsApp
+ * message and confirmation screens
+ *
+ * The order is ready readyHours after it is placed (counted from the next
+ * opening when the store is closed) and can be collected until the store
+ * closes that day.
+ */
+
+import type { PickupSettings, StoreHours } from '@/types';
+import type { ShippingInfo } from '@/services/sessionService';
+import { formatStoreMoment, getNextOpening, getOpeningHours } from '@/lib/storeHours';
+import { formatStoreTime, toStoreDate, toStoreDateTime } from '@/lib/storeTime';
+
+export interface PickupWindow {
+  /** When the order is ready */
+  start: Date;
+  /** Closing time of that day (undefined without opening hours) */
+  end?: Date;
+}
+
+/**
+ * When an order placed now can be collected
+ * @param storeHours - Opening hours and closures (null = always open)
+ */
+export function getPickupWindow(
+  settings: PickupSettings,
+  storeHours: StoreHours | null,
+  now = new Date()
+): PickupWindow {
+  // Prepared from now, or from the next opening when the store is closed
+  const preparationStart = (storeHours && getNextOpening(storeHours, now)) || now;
+  const ready = new Date(preparationStart.getTime() + settings.readyHours * 60 * 60 * 1000);
+
+  if (!storeHours) {
+    return { start: ready };
+  }
+
+  // Ready after closing time: collect at the next opening
+  const start = getNextOpening(storeHours, ready) ?? ready;
+  const date = toStoreDate(start);
+  const dayHours = getOpeningHours(storeHours, date);
+
+  return {
+    start,
+    end: dayHours ? toStoreDateTime(date, dayHours.close) : undefined,
+  };
+}
+
+/**
+ * Describe a pickup window
+ * @example
+ * formatPickupWindow(window) // "a partir de hoje às 15:00 (até 22:00)"
+ */
+export function formatPickupWindow(window: PickupWindow, now = new Date()): string {
+  const start = `a partir de ${formatStoreMoment(window.start, now)}`;
+  return window.end ? `${start} (até ${formatStoreTime(window.end)})` : start;
+}
+
+/**
+ * Cart shipping of a pickup order: no CEP, free
+ */
+export const PICKUP_SHIPPING: ShippingInfo = {
+  method: 'pickup',
+  cost: 0,
+  isFree: true,
+  isValid: true,
+};
@@ -0,0 +1,89 @@
+/**
+ * PIX BR Code ("copia e cola") generator
+ *
+ * Builds the static EMV payload defined in the Banco Central "Manual de
+ * Padrões para Iniciação do Pix": store key, merchant name and city, order
+ * amount and the order number as txid, closed by a CRC16 checksum.
+ */
+
+import type { PixSettings } from '@/types';
+
+export interface PixPayloadData extends PixSettings {
+  amount: number;
+  /** Up to 25 letters and digits; other characters are removed */
+  txid?: string;
+}
+
+// Field limits from the BR Code specification
+const MERCHANT_NAME_MAX_LENGTH = 25;
+const MERCHANT_CITY_MAX_LENGTH = 15;
+const TXID_MAX_LENGTH = 25;
+
+/**
+ * Encode one EMV field: ID + 2-digit length + value
+ */
+function emvField(id: string, value: string): string {
+  return `${id}${String(value.length).padStart(2, '0')}${value}`;
+}
+
+/**
+ * Remove accents and characters outside the BR Code charset, then truncate
+ */
+function sanitize(value: string, maxLength: number): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9 .\-@]/g, '')
+    .trim()
+    .slice(0, maxLength)
+    .trim();
+}
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF), as 4 uppercase hex digits
+ */
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Turn an order number into a valid txid
+ * @example
+ * toPixTxid('TIM-2026-000123') // "TIM2026000123"
+ */
+export function toPixTxid(orderNumber: string): string {
+  return orderNumber.replace(/[^A-Za-z0-9]/g, '').slice(0, TXID_MAX_LENGTH);
+}
+
+/**
+ * Generate the PIX "copia e cola" code, also used as the QR code content
+ */
+export function generatePixPayload({ key, merchantName, merchantCity, amount, txid }: PixPayloadData): string {
+  const merchantAccount = emvField('00', 'br.gov.bcb.pix') + emvField('01', key.trim());
+  const additionalData = emvField('05', (txid && toPixTxid(txid)) || '***');
+
+  const payload = [
+    emvField('00', '01'),
+    emvField('26', merchantAccount),
+    emvField('52', '0000'),
+    emvField('53', '986'),
+    amount > 0 ? emvField('54', amount.toFixed(2)) : '',
+    emvField('58', 'BR'),
+    emvField('59', sanitize(merchantName, MERCHANT_NAME_MAX_LENGTH)),
+    emvField('60', sanitize(merchantCity, MERCHANT_CITY_MAX_LENGTH)),
+    emvField('62', additionalData),
+    '6304',
+  ].join('');
+
+  return payload + crc16(payload);
+}
@@ -0,0 +1,102 @@
+/**
+ * Product variants (same product in different sizes) in the store and the cart
+ * @example
+ * const item = toCartProduct(product, product.variants[1]);
+ * getCartItemKey(item) // variant ID: each size is its own cart line
+ */
+
+import type { CartItem, Product, ProductVariant } from '@/types';
+import { getSalePrice } from '@/lib/salePricing';
+
+type CartLine = Pick<CartItem, 'id' | 'variantId'>;
+
+/**
+ * Whether the product is sold in variants (price and stock come from the chosen one)
+ */
+export function hasVariants(product: Product): boolean {
+  return (product.variants?.length ?? 0) > 0;
+}
+
+/**
+ * Variant selected when the product page opens: the first one in stock
+ */
+export function getDefaultVariant(product: Product): ProductVariant | undefined {
+  return product.variants?.find((variant) => variant.stock > 0) ?? product.variants?.[0];
+}
+
+/**
+ * Product as sold in a variant: its price, stock, volume and image
+ * (without a variant, the product itself). On sale, the price is the sale
+ * price and originalPrice the regular one.
+ */
+export function toCartProduct(
+  product: Product,
+  variant?: ProductVariant
+): Product & Pick<CartItem, 'variantId' | 'originalPrice'> {
+  const sold = variant
+    ? {
+        ...product,
+        variantId: variant.id,
+        price: variant.price,
+        stock: variant.stock,
+        volume: variant.volume,
+        image: variant.image || product.image,
+      }
+    : product;
+
+  const price = getSalePrice(product, sold.price);
+  return price < sold.price ? { ...sold, price, originalPrice: sold.price } : sold;
+}
+
+/**
+ * Cart line at today's price: the sale price saved when it was added is
+ * rechecked, since the sale may have started or ended since then
+ */
+export function repriceCartItem(item: CartItem, now: Date = new Date()): CartItem {
+  const regularPrice = item.originalPrice ?? item.price;
+  const price = getSalePrice(item, regularPrice, now);
+  if (price === item.price && (price < regularPrice) === (item.originalPrice !== undefined)) {
+    return item;
+  }
+
+  const { originalPrice: _previous, ...line } = item;
+  return price < regularPrice ? { ...line, price, originalPrice: regularPrice } : { ...line, price };
+}
+
+/**
+ * Cart line rebuilt from the product as it is in the store now (price, sale
+ * and stock may have changed since it was added). Lines whose variant no
+ * longer exists keep their data, at today's sale price.
+ */
+export function refreshCartItem(item: CartItem, product: Product): CartItem {
+  const variant = item.variantId ? product.variants?.find((v) => v.id === item.variantId) : undefined;
+  if (item.variantId && !variant) return repriceCartItem(item);
+
+  const { originalPrice: _previous, ...line } = item;
+  const sold = toCartProduct(product, variant);
+  return { ...line, ...sold, quantity: item.quantity };
+}
+
+/**
+ * Key of a cart line: each variant of a product is a separate line
+ */
+export function getCartItemKey(item: CartLine): string {
+  return item.variantId ?? item.id;
+}
+
+/**
+ * Key of the line a stock shortage refers to (see getCartItemKey)
+ */
+export function getShortageKey(shortage: { productId: string; variantId?: string }): string {
+  return shortage.variantId ?? shortage.productId;
+}
+
+/**
+ * Name of a cart line in orders and messages, with the variant volume
+ * @example
+ * getCartItemName({ name: 'Johnnie Walker Black Label', volume: '1L', variantId: '...' })
+ * // "Johnnie Walker Black Label (1L)"
+ */
+export function getCartItemName(item: Pick<CartItem, 'name' | 'volume' | 'variantId'>): string {
+  return item.variantId && item.volume ? `${item.name} (${item.volume})` : item.name;
+}
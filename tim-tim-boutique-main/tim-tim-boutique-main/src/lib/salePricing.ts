@@ -0,0 +1,56 @@
+/**
+ * Sale prices of products (percentage off or fixed price, optionally for a period)
+ * @example
+ * getSalePrice({ price: 100, sale: { type: 'percentage', value: 15 } }) // 85
+ * getDiscountPercent(100, 85) // 15
+ */
+
+import type { Product, ProductSale } from '@/types';
+
+type SaleProduct = Pick<Product, 'price' | 'sale' | 'variants'>;
+
+/**
+ * Whether the sale is running at the given moment (start and end dates included)
+ */
+export function isSaleActive(sale: ProductSale | undefined, now: Date = new Date()): boolean {
+  if (!sale || sale.value <= 0) return false;
+  if (sale.startsAt && now < new Date(sale.startsAt)) return false;
+  if (sale.endsAt && now > new Date(sale.endsAt)) return false;
+  return true;
+}
+
+/**
+ * Price the customer pays for the product (or one of its variants)
+ * @param price - Regular price: the product price, or the variant price
+ */
+export function getSalePrice(product: SaleProduct, price: number = product.price, now: Date = new Date()): number {
+  const { sale } = product;
+  if (!isSaleActive(sale, now)) return price;
+
+  if (sale.type === 'fixed') {
+    // A fixed price doesn't say which variant it is for
+    return product.variants?.length ? price : Math.min(sale.value, price);
+  }
+
+  return applyPercentOff(price, Math.min(sale.value, 100));
+}
+
+/**
+ * Price with a percentage off, in whole cents and rounded half up, like
+ * ROUND(price * (100 - discount) / 100, 2) in product_effective_price
+ * (scripts/product-sale-pricing.sql), so the cart and create_order agree.
+ * The discount has at most 2 decimals (DECIMAL(5, 2)).
+ */
+function applyPercentOff(price: number, percent: number): number {
+  const cents = Math.round(price * 100);
+  const keptBasisPoints = 10000 - Math.round(percent * 100);
+  return Math.floor((cents * keptBasisPoints + 5000) / 10000) / 100;
+}
+
+/**
+ * Discount shown on the sale badge, in whole percent
+ */
+export function getDiscountPercent(originalPrice: number, price: number): number {
+  if (originalPrice <= 0 || price >= originalPrice) return 0;
+  return Math.round((1 - price / originalPrice) * 100);
+}
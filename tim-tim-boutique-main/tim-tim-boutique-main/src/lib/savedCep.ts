@@ -0,0 +1,37 @@
+/**
+ * CEP typed by the customer, remembered across pages and visits
+ *
+ * Typed once (product page, cart or checkout), it pre-fills the other CEP
+ * fields. Kept in localStorage: it is not tied to the cart session.
+ */
+
+import { maskCep } from '@/lib/masks';
+
+const SAVED_CEP_KEY = 'tim-tim-cep';
+
+/**
+ * Remembered CEP, formatted ("" when there is none)
+ */
+export function getSavedCep(): string {
+  try {
+    const cep = localStorage.getItem(SAVED_CEP_KEY) ?? '';
+    return cep.replace(/\D/g, '').length === 8 ? maskCep(cep) : '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Remember a CEP (ignored unless it has 8 digits)
+ */
+export function saveCep(cep: string): void {
+  if (cep.replace(/\D/g, '').length !== 8) {
+    return;
+  }
+
+  try {
+    localStorage.setItem(SAVED_CEP_KEY, maskCep(cep));
+  } catch (error) {
+    console.warn('Não foi possível salvar o CEP:', error);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Search synonyms and redirects, applied before the database search
+ * @example
+ * expandSynonyms('champanhe brut', [{ terms: ['espumante', 'champanhe'] }])
+ * // ["espumante brut"]
+ */
+
+import type { SearchRedirect, SynonymGroup } from '@/types';
+
+// Variations sent to the search at most (groups multiply each other)
+export const MAX_SYNONYM_VARIANTS = 10;
+
+/**
+ * Normalize a search term for comparison: lowercase, no accents, single spaces
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Variations of a search with each synonym in place of the matching term
+ * (whole words only: "cava" does not match "escavado")
+ * @returns Normalized variations, without the search itself
+ */
+export function expandSynonyms(
+  query: string,
+  groups: SynonymGroup[],
+  limit = MAX_SYNONYM_VARIANTS
+): string[] {
+  const search = normalizeSearchText(query);
+  if (!search) return [];
+
+  const variants = [search];
+
+  for (const group of groups) {
+    const terms = group.terms.map(normalizeSearchText).filter(Boolean);
+
+    for (const variant of [...variants]) {
+      const padded = ` ${variant} `;
+      const match = terms.find((term) => padded.includes(` ${term} `));
+      if (!match) continue;
+
+      for (const synonym of terms) {
+        const expanded = padded.replace(` ${match} `, ` ${synonym} `).trim();
+        if (!variants.includes(expanded)) {
+          variants.push(expanded);
+        }
+      }
+    }
+  }
+
+  return variants.slice(1, limit + 1);
+}
+
+/**
+ * Redirect registered for a search (same words, ignoring case and accents).
+ * Only store pages count: other addresses saved in the table are ignored.
+ */
+export function findSearchRedirect(query: string, redirects: SearchRedirect[]): SearchRedirect | undefined {
+  const search = normalizeSearchText(query);
+  return search
+    ? redirects.find((redirect) => isStorePath(redirect.url) && normalizeSearchText(redirect.query) === search)
+    : undefined;
+}
+
+/**
+ * Whether an address is a page of the store ("/catalogo?..."), not another
+ * site: "//site" and "/\site" are opened by browsers as other hosts
+ */
+export function isStorePath(url: string): boolean {
+  return /^\/(?![/\\])\S*$/.test(url);
+}
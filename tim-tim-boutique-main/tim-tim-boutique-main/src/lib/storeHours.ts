@@ -0,0 +1,149 @@
+/**
+ * Store opening hours and closure calendar
+ *
+ * Express orders placed while the store is closed are delivered after the
+ * next opening; scheduled windows must fall within the opening hours.
+ * Without configured hours (null) the store is always open.
+ */
+
+import type { OpeningHours, StoreClosure, StoreHours } from '@/types';
+import {
+  addStoreDays,
+  formatStoreDate,
+  formatStoreTime,
+  getStoreWeekday,
+  toStoreDate,
+  toStoreDateTime,
+} from '@/lib/storeTime';
+
+// How many days getNextOpening looks ahead (covers long closures)
+const MAX_CLOSED_DAYS = 60;
+
+export interface StoreStatus {
+  isOpen: boolean;
+  /** When open: closing time of today */
+  closesAt?: Date;
+  /** When closed: next opening (undefined if none in the next days) */
+  opensAt?: Date;
+  /** Holiday or closure of today */
+  closure?: StoreClosure;
+}
+
+/**
+ * Holiday or closure of a date (YYYY-MM-DD)
+ */
+export function getStoreClosure(hours: StoreHours, date: string): StoreClosure | undefined {
+  return hours.closures.find((closure) => closure.date === date);
+}
+
+/**
+ * Opening hours of a date: the closure hours on holidays, the weekday hours otherwise
+ * @returns null when the store does not open on that date
+ */
+export function getOpeningHours(hours: StoreHours, date: string): OpeningHours | null {
+  const closure = getStoreClosure(hours, date);
+  if (closure) {
+    return closure.hours ?? null;
+  }
+
+  return hours.weekly[getStoreWeekday(date)] ?? null;
+}
+
+/**
+ * First instant from now when the store is open (now itself if open)
+ */
+export function getNextOpening(hours: StoreHours, now = new Date()): Date | undefined {
+  const today = toStoreDate(now);
+
+  for (let day = 0; day <= MAX_CLOSED_DAYS; day++) {
+    const date = addStoreDays(today, day);
+    const dayHours = getOpeningHours(hours, date);
+
+    if (dayHours && now < toStoreDateTime(date, dayHours.close)) {
+      const opensAt = toStoreDateTime(date, dayHours.open);
+      return now > opensAt ? now : opensAt;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether the store is open now, and when it closes or opens again
+ */
+export function getStoreStatus(hours: StoreHours | null, now = new Date()): StoreStatus {
+  if (!hours) {
+    return { isOpen: true };
+  }
+
+  const today = toStoreDate(now);
+  const closure = getStoreClosure(hours, today);
+  const opensAt = getNextOpening(hours, now);
+
+  if (opensAt && opensAt.getTime() === now.getTime()) {
+    const todayHours = getOpeningHours(hours, today) as OpeningHours;
+    return { isOpen: true, closesAt: toStoreDateTime(today, todayHours.close), closure };
+  }
+
+  return { isOpen: false, opensAt, closure };
+}
+
+/**
+ * Estimated express delivery: delivery hours counted from now, or from the
+ * next opening when the store is closed or would close before delivering
+ */
+export function getEstimatedDelivery(hours: StoreHours | null, deliveryHours: number, now = new Date()): Date {
+  const duration = deliveryHours * 60 * 60 * 1000;
+  if (!hours) {
+    return new Date(now.getTime() + duration);
+  }
+
+  const nextOpening = getNextOpening(hours, now);
+  let start = nextOpening;
+  for (let day = 0; start && day <= MAX_CLOSED_DAYS; day++) {
+    const date = toStoreDate(start);
+    const closesAt = toStoreDateTime(date, (getOpeningHours(hours, date) as OpeningHours).close);
+
+    if (start.getTime() + duration <= closesAt.getTime()) {
+      return new Date(start.getTime() + duration);
+    }
+
+    start = getNextOpening(hours, closesAt);
+  }
+
+  // Longer than any opening day: counted from the next opening
+  return new Date((nextOpening ?? now).getTime() + duration);
+}
+
+/**
+ * Whether a window of a date is within the opening hours
+ */
+export function isWithinOpeningHours(hours: StoreHours | null, date: string, start: string, end: string): boolean {
+  if (!hours) {
+    return true;
+  }
+
+  const dayHours = getOpeningHours(hours, date);
+  return !!dayHours && start >= dayHours.open && end <= dayHours.close;
+}
+
+/**
+ * Describe an instant relative to today
+ * @example
+ * formatStoreMoment(opensAt) // "hoje às 18:00", "amanhã às 10:00", "sábado, 24/10, às 10:00"
+ */
+export function formatStoreMoment(date: Date, now = new Date()): string {
+  const day = toStoreDate(date);
+  const today = toStoreDate(now);
+  const time = formatStoreTime(date);
+
+  if (day === today) {
+    return `hoje às ${time}`;
+  }
+
+  if (day === addStoreDays(today, 1)) {
+    return `amanhã às ${time}`;
+  }
+
+  return `${formatStoreDate(day)}, às ${time}`;
+}
@@ -0,0 +1,66 @@
+/**
+ * Store time helpers
+ *
+ * Opening hours and delivery windows are configured in store time (Recife,
+ * UTC-3 all year, no daylight saving time). Dates are YYYY-MM-DD strings
+ * and times are "HH:MM" strings.
+ */
+
+export const STORE_TIME_ZONE = 'America/Recife';
+const STORE_UTC_OFFSET = '-03:00';
+
+/**
+ * Date (YYYY-MM-DD) of an instant in store time
+ */
+export function toStoreDate(date: Date): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return date.toLocaleDateString('en-CA', { timeZone: STORE_TIME_ZONE });
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addStoreDays(date: string, days: number): string {
+  const next = new Date(`${date}T12:00:00${STORE_UTC_OFFSET}`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return toStoreDate(next);
+}
+
+/**
+ * Build the instant of a store date and time ("2026-10-24", "18:00")
+ */
+export function toStoreDateTime(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00${STORE_UTC_OFFSET}`);
+}
+
+/**
+ * Day of the week of a YYYY-MM-DD date (0 = Sunday)
+ */
+export function getStoreWeekday(date: string): number {
+  return new Date(`${date}T12:00:00${STORE_UTC_OFFSET}`).getUTCDay();
+}
+
+/**
+ * Time of an instant in store time ("18:00")
+ */
+export function formatStoreTime(date: Date | string): string {
+  return new Date(date).toLocaleTimeString('pt-BR', {
+    timeZone: STORE_TIME_ZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Weekday and day of a YYYY-MM-DD date
+ * @example
+ * formatStoreDate('2026-10-24') // "sábado, 24/10"
+ */
+export function formatStoreDate(date: string): string {
+  return toStoreDateTime(date, '12:00').toLocaleDateString('pt-BR', {
+    timeZone: STORE_TIME_ZONE,
+    weekday: 'long',
+    day: '2-digit',
+    month: '2-digit',
+  });
+}
@@ -1,4 +1,7 @@
-import { z } from "zod";
+import { z, type ZodError } from "zod";
+import { PAYMENT_METHODS, parseChangeFor } from "@/lib/payment";
+import { isStorePath, normalizeSearchText } from "@/lib/searchRules";
+import type { CepRange, SearchRules, ShippingSettings } from "@/types";
 
 // Login validation schema
 export const loginSchema = z.object({
@@ -28,7 +31,7 @@ export const registerSchema = z
 export type RegisterFormData = z.infer<typeof registerSchema>;
 
 // Checkout validation schema with enhanced validation
-export const checkoutSchema = z.object({
+const checkoutFields = z.object({
   name: z
     .string()
     .min(1, "Nome completo é obrigatório")
@@ -98,8 +101,63 @@ export const checkoutSchema = z.object({
     .length(2, "Estado deve ter exatamente 2 caracteres")
     .regex(/^[A-Z]{2}$/, "Estado deve conter apenas letras maiúsculas")
     .toUpperCase(),
+  paymentMethod: z.enum(PAYMENT_METHODS, {
+    errorMap: () => ({ message: "Selecione a forma de pagamento" }),
+  }),
+  // Cash only: "troco para R$ X" (optional; the total is checked at checkout)
+  changeFor: z
+    .string()
+    .max(20, "Valor muito longo")
+    .optional()
+    .or(z.literal("")),
+  // Express delivery or a scheduled date + window (availability is checked at checkout)
+  deliveryType: z.enum(["express", "scheduled"]).default("express"),
+  deliveryDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Data de entrega inválida")
+    .optional()
+    .or(z.literal("")),
+  deliverySlot: z
+    .string()
+    .regex(/^\d{2}:\d{2}$/, "Horário de entrega inválido")
+    .optional()
+    .or(z.literal("")),
+  // Delivery to the address or pickup at the store (no address, no shipping)
+  fulfillment: z.enum(["delivery", "pickup"]).default("delivery"),
+});
+
+// Store pickup: the address fields are not used
+const pickupFields = checkoutFields.extend({
+  cep: z.string().optional(),
+  address: z.string().optional(),
+  number: z.string().optional(),
+  complement: z.string().optional(),
+  neighborhood: z.string().optional(),
+  city: z.string().optional(),
+  state: z.string().optional(),
 });
 
+const checkoutRules = (data: z.infer<typeof pickupFields>, ctx: z.RefinementCtx) => {
+  if (data.paymentMethod === "cash" && data.changeFor && parseChangeFor(data.changeFor) === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Informe um valor válido para o troco", path: ["changeFor"] });
+  }
+
+  if (data.fulfillment === "pickup" || data.deliveryType !== "scheduled") {
+    return;
+  }
+
+  if (!data.deliveryDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Escolha a data da entrega", path: ["deliveryDate"] });
+  }
+  if (!data.deliverySlot) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Escolha o horário da entrega", path: ["deliverySlot"] });
+  }
+};
+
+export const checkoutSchema = checkoutFields.superRefine(checkoutRules);
+
+export const pickupCheckoutSchema = pickupFields.superRefine(checkoutRules);
+
 export type CheckoutFormData = z.infer<typeof checkoutSchema>;
 
 // Contact form validation schema
@@ -124,3 +182,215 @@ export const profileSchema = z.object({
 });
 
 export type ProfileFormData = z.infer<typeof profileSchema>;
+
+// Admin shipping settings: form values are the strings typed in the inputs,
+// parsed into the rules saved in the settings table
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+
+// "51000-000 a 51349-999"
+const CEP_RANGE_PATTERN = /^(\d{5}-?\d{3})\s*(?:a|até)\s*(\d{5}-?\d{3})$/i;
+
+const parseCepRange = (value: string): CepRange | null => {
+  const match = value.trim().match(CEP_RANGE_PATTERN);
+  if (!match) return null;
+
+  const start = match[1].replace(/\D/g, "");
+  const end = match[2].replace(/\D/g, "");
+  return start <= end ? { start, end } : null;
+};
+
+const isAmount = (value: string, positive: boolean) => {
+  const amount = Number(value);
+  return Number.isFinite(amount) && (positive ? amount > 0 : amount >= 0);
+};
+
+const amountMessage = (label: string, positive: boolean) =>
+  positive ? `${label} deve ser maior que 0` : `${label} não pode ser negativo`;
+
+const requiredAmount = (label: string, positive = false) =>
+  z
+    .string()
+    .trim()
+    .min(1, `${label} é obrigatório`)
+    .refine((value) => isAmount(value, positive), amountMessage(label, positive))
+    .transform(Number);
+
+// Empty = use the general rule
+const optionalAmount = (label: string, positive = false) =>
+  z
+    .string()
+    .trim()
+    .refine((value) => value === "" || isAmount(value, positive), amountMessage(label, positive))
+    .transform((value) => (value === "" ? undefined : Number(value)));
+
+const shippingZoneFields = z
+  .object({
+    name: z.string().trim().min(1, "Nome da região é obrigatório"),
+    cepRanges: z
+      .array(z.string())
+      .superRefine((ranges, ctx) => {
+        const invalid = ranges.find((range) => !parseCepRange(range));
+        if (invalid) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Faixa de CEP inválida: "${invalid}". Use o formato 00000-000 a 00000-000`,
+          });
+        }
+      })
+      .transform((ranges) => ranges.map(parseCepRange)),
+    neighborhoods: z
+      .array(z.string())
+      .transform((names) => names.map((name) => name.trim()).filter(Boolean)),
+    baseShippingCost: optionalAmount("Frete base"),
+    costPerKg: optionalAmount("Valor por kg"),
+    freeShippingThreshold: optionalAmount("Frete grátis"),
+    deliveryTimeHours: optionalAmount("Prazo", true),
+  })
+  .refine((zone) => zone.cepRanges.length > 0 || zone.neighborhoods.length > 0, {
+    message: "Informe ao menos uma faixa de CEP ou um bairro",
+    path: ["cepRanges"],
+  });
+
+const openingHoursFields = z.object({
+  closed: z.boolean(),
+  open: z.string(),
+  close: z.string(),
+});
+
+const storeClosureFields = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data inválida"),
+  name: z.string().trim(),
+  open: z.string(),
+  close: z.string(),
+});
+
+// Opening and closing times of an open day (or of a reduced-hours closure)
+const checkOpeningHours = (
+  hours: { open: string; close: string },
+  path: (string | number)[],
+  ctx: z.RefinementCtx
+) => {
+  if (!TIME_PATTERN.test(hours.open) || !TIME_PATTERN.test(hours.close)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Informe a abertura e o fechamento", path });
+  } else if (hours.open >= hours.close) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "O fechamento deve ser depois da abertura", path });
+  }
+};
+
+export const shippingSettingsSchema = z
+  .object({
+    coveredCities: z
+      .array(z.string())
+      .transform((cities) => cities.map((city) => city.trim()).filter(Boolean))
+      .refine((cities) => cities.length > 0, "Informe ao menos uma cidade atendida"),
+    freeShippingThreshold: requiredAmount("Frete grátis"),
+    baseShippingCost: requiredAmount("Frete base"),
+    costPerKg: requiredAmount("Valor por kg"),
+    weightPerBottle: requiredAmount("Peso por garrafa", true),
+    deliveryTimeHours: requiredAmount("Prazo de entrega", true),
+    zones: z.array(shippingZoneFields),
+    // Without opening hours the store is always open
+    hoursEnabled: z.boolean(),
+    weekly: z.array(openingHoursFields).length(7),
+    closures: z.array(storeClosureFields),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.hoursEnabled) {
+      return;
+    }
+
+    if (data.weekly.every((day) => day.closed)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Abra a loja em ao menos um dia", path: ["weekly"] });
+    }
+    data.weekly.forEach((day, weekday) => {
+      if (!day.closed) {
+        checkOpeningHours(day, ["weekly", weekday], ctx);
+      }
+    });
+
+    // Closures: closed all day, or both times for reduced hours
+    data.closures.forEach((closure, index) => {
+      if (closure.open || closure.close) {
+        checkOpeningHours(closure, ["closures", index], ctx);
+      }
+    });
+  })
+  .transform((data): ShippingSettings => ({
+    coveredCities: data.coveredCities,
+    freeShippingThreshold: data.freeShippingThreshold,
+    baseShippingCost: data.baseShippingCost,
+    costPerKg: data.costPerKg,
+    weightPerBottle: data.weightPerBottle,
+    deliveryTimeHours: data.deliveryTimeHours,
+    zones: data.zones,
+    storeHours: data.hoursEnabled
+      ? {
+          weekly: data.weekly.map((day) => (day.closed ? null : { open: day.open, close: day.close })),
+          closures: data.closures.map((closure) => ({
+            date: closure.date,
+            name: closure.name || "Feriado",
+            ...(closure.open && { hours: { open: closure.open, close: closure.close } }),
+          })),
+        }
+      : null,
+  }));
+
+export type ShippingSettingsFormData = z.input<typeof shippingSettingsSchema>;
+
+/**
+ * First error message of each field, keyed by its path ("zones.0.name")
+ */
+export function getFieldErrors(error: ZodError): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const path = issue.path.join(".");
+    errors[path] ??= issue.message;
+  }
+  return errors;
+}
+
+// Search synonyms and redirects (admin)
+
+const synonymGroupFields = z.object({
+  id: z.string().optional(),
+  terms: z
+    .array(z.string().trim().min(1).max(50, "Use termos de até 50 caracteres"))
+    // Same term with other accents or case counts once
+    .transform((terms) =>
+      terms.filter((term, index) =>
+        terms.findIndex((other) => normalizeSearchText(other) === normalizeSearchText(term)) === index
+      )
+    )
+    .refine((terms) => terms.length >= 2, "Informe ao menos dois termos diferentes"),
+});
+
+const searchRedirectFields = z.object({
+  id: z.string().optional(),
+  query: z.string().trim().min(2, "Informe a busca").max(100, "Use uma busca de até 100 caracteres"),
+  url: z
+    .string()
+    .trim()
+    .refine(isStorePath, "Use um endereço do site, começando com / (ex: /catalogo?categoria=kit)"),
+});
+
+export const searchRulesSchema = z
+  .object({
+    synonyms: z.array(synonymGroupFields),
+    redirects: z.array(searchRedirectFields),
+  })
+  .superRefine((data, ctx) => {
+    // One redirect per search
+    data.redirects.forEach((redirect, index) => {
+      const query = normalizeSearchText(redirect.query);
+      if (data.redirects.findIndex((other) => normalizeSearchText(other.query) === query) !== index) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Essa busca já tem um redirecionamento",
+          path: ["redirects", index, "query"],
+        });
+      }
+    });
+  })
+  .transform((data): SearchRules => data);
+
+export type SearchRulesFormData = z.input<typeof searchRulesSchema>;
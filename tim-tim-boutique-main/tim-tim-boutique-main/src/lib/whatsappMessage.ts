@@ -6,6 +6,12 @@
  */
 
 import { WHATSAPP_CONFIG } from '@/config/whatsapp';
+import { getPaymentMethodLabel } from '@/lib/payment';
+import { formatDeliveryTime } from '@/lib/formatters';
+import { formatDeliverySlot } from '@/lib/deliverySlots';
+import { formatStoreMoment } from '@/lib/storeHours';
+import { formatPickupWindow } from '@/lib/pickup';
+import type { Order, PaymentMethod, PickupSettings } from '@/types';
 
 /**
  * Item do carrinho para a mensagem
@@ -14,6 +20,7 @@ export interface MessageCartItem {
   id: string;
   name: string;
   price: number;
+  originalPrice?: number; // Preço normal de itens em promoção
   quantity: number;
 }
 
@@ -25,6 +32,9 @@ export interface MessageShippingInfo {
   city: string;
   cost: number;
   isFree: boolean;
+  zone?: string;
+  /** Prazo de entrega prometido (padrão: 2 horas) */
+  estimatedHours?: number;
 }
 
 /**
@@ -49,6 +59,30 @@ export interface MessageShippingAddress {
   state: string;
 }
 
+/**
+ * Forma de pagamento para a mensagem
+ */
+export interface MessagePaymentInfo {
+  method: PaymentMethod;
+  /** Apenas dinheiro: valor para troco */
+  changeFor?: number;
+  /** Apenas PIX: código "copia e cola" (quando a chave PIX está configurada) */
+  pixCode?: string;
+}
+
+/**
+ * Retirada na loja para a mensagem
+ */
+export interface MessagePickupInfo {
+  /** Endereço da loja */
+  address?: string;
+  /** A partir de quando o pedido pode ser retirado */
+  readyAt?: Date;
+  /** Até quando pode ser retirado nesse dia (fechamento da loja) */
+  closesAt?: Date;
+  instructions?: string;
+}
+
 /**
  * Dados completos do pedido para geração da mensagem
  */
@@ -56,11 +90,19 @@ export interface OrderMessageData {
   id: string;
   items: MessageCartItem[];
   subtotal: number;
-  shipping: MessageShippingInfo;
+  /** Apenas entrega */
+  shipping?: MessageShippingInfo;
   total: number;
   customerInfo: MessageCustomerInfo;
-  shippingAddress: MessageShippingAddress;
+  /** Apenas entrega */
+  shippingAddress?: MessageShippingAddress;
+  /** Apenas retirada na loja (substitui frete e endereço) */
+  pickup?: MessagePickupInfo;
+  payment?: MessagePaymentInfo;
+  /** Entrega agendada: início da faixa; expressa: previsão de entrega */
   estimatedDeliveryTime?: Date;
+  /** Apenas entrega agendada: fim da faixa */
+  deliveryWindowEnd?: Date;
 }
 
 /**
@@ -72,7 +114,7 @@ export interface OrderMessageData {
  * @example
  * ```typescript
  * const message = generateWhatsAppMessage({
- *   id: 'TIM-123456',
+ *   id: 'TIM-2026-000123',
  *   items: [{ id: '1', name: 'Vinho Tinto', price: 89.90, quantity: 2 }],
  *   subtotal: 179.80,
  *   shipping: { cep: '50000-000', city: 'Recife', cost: 10, isFree: false },
@@ -91,40 +133,81 @@ export function generateWhatsAppMessage(orderData: OrderMessageData): string {
     total,
     customerInfo,
     shippingAddress,
-    estimatedDeliveryTime
+    pickup,
+    payment,
+    estimatedDeliveryTime,
+    deliveryWindowEnd
   } = orderData;
 
   // Formatar lista de produtos
   const productsList = items
     .map(item => {
       const itemTotal = item.price * item.quantity;
-      return `  • ${item.quantity}x ${item.name}\n    R$ ${itemTotal.toFixed(2)}`;
+      const saleText = item.originalPrice
+        ? ` (promoção, de R$ ${(item.originalPrice * item.quantity).toFixed(2)})`
+        : '';
+      return `  • ${item.quantity}x ${item.name}\n    R$ ${itemTotal.toFixed(2)}${saleText}`;
     })
     .join('\n');
 
   // Formatar texto do frete
-  const shippingText = shipping.isFree 
-    ? '🎉 *FRETE GRÁTIS*' 
-    : `R$ ${shipping.cost.toFixed(2)}`;
-
-  // Formatar horário de entrega estimado
-  let deliveryTimeText = 'até 2 horas 🚚';
-  if (estimatedDeliveryTime) {
-    const timeString = estimatedDeliveryTime.toLocaleTimeString('pt-BR', { 
-      hour: '2-digit', 
-      minute: '2-digit' 
-    });
-    deliveryTimeText = `até 2 horas 🚚\n*Previsão:* ${timeString}`;
+  let shippingText = 'Retirada na loja';
+  if (!pickup && shipping) {
+    shippingText = shipping.isFree
+      ? '🎉 *FRETE GRÁTIS*'
+      : `R$ ${shipping.cost.toFixed(2)}`;
+  }
+
+  // Formatar forma de pagamento (cartão e dinheiro são pagos na entrega ou na retirada)
+  let paymentSection = '';
+  if (payment) {
+    let paymentDetails = '';
+    if (payment.method === 'cash') {
+      paymentDetails = payment.changeFor
+        ? `\nTroco para: R$ ${payment.changeFor.toFixed(2)}`
+        : '\nNão precisa de troco';
+    } else if ((payment.method === 'credit_card' || payment.method === 'debit_card') && !pickup) {
+      paymentDetails = '\nLevar maquininha';
+    } else if (payment.method === 'pix' && payment.pixCode) {
+      paymentDetails = `\nPIX copia e cola:\n${payment.pixCode}`;
+    }
+    const paymentLabel = getPaymentMethodLabel(payment.method, pickup ? 'pickup' : 'delivery');
+    paymentSection = `\n\n━━━━━━━━━━━━━━━━━━━━━━\n\n💳 *PAGAMENTO*\n${paymentLabel}${paymentDetails}`;
   }
 
-  // Formatar endereço completo
-  const fullAddress = [
-    `${shippingAddress.street}, ${shippingAddress.number}`,
-    shippingAddress.complement,
-    shippingAddress.neighborhood,
-    `${shippingAddress.city} - ${shippingAddress.state}`,
-    `CEP: ${shippingAddress.cep}`
-  ].filter(Boolean).join('\n');
+  // Formatar entrega e endereço, ou a retirada na loja (sem endereço)
+  let fulfillmentSection = '';
+  let addressSection = '';
+  if (pickup) {
+    const pickupDetails = [
+      pickup.address && `📍 ${pickup.address}`,
+      pickup.readyAt && `*Retirada:* ${formatPickupWindow({ start: pickup.readyAt, end: pickup.closesAt })}`,
+      pickup.instructions
+    ].filter(Boolean).join('\n');
+
+    fulfillmentSection = `🏪 *RETIRADA NA LOJA*\n${pickupDetails}`;
+  } else if (shipping && shippingAddress) {
+    // Formatar horário de entrega (faixa agendada ou previsão da entrega expressa)
+    let deliveryTimeText = `${formatDeliveryTime(shipping.estimatedHours ?? 2)} 🚚`;
+    if (estimatedDeliveryTime && deliveryWindowEnd) {
+      deliveryTimeText = `📅 *Agendada:* ${formatDeliverySlot(estimatedDeliveryTime, deliveryWindowEnd)}`;
+    } else if (estimatedDeliveryTime) {
+      // Store closed: the estimate rolls over to the next opening ("amanhã às 12:00")
+      deliveryTimeText += `\n*Previsão:* ${formatStoreMoment(estimatedDeliveryTime)}`;
+    }
+
+    // Formatar endereço completo
+    const fullAddress = [
+      `${shippingAddress.street}, ${shippingAddress.number}`,
+      shippingAddress.complement,
+      shippingAddress.neighborhood,
+      `${shippingAddress.city} - ${shippingAddress.state}`,
+      `CEP: ${shippingAddress.cep}`
+    ].filter(Boolean).join('\n');
+
+    fulfillmentSection = `🚚 *ENTREGA*\n${deliveryTimeText}\n📍 ${shipping.city}${shipping.zone ? ` (${shipping.zone})` : ''}`;
+    addressSection = `\n\n━━━━━━━━━━━━━━━━━━━━━━\n\n📍 *ENDEREÇO DE ENTREGA*\n${fullAddress}`;
+  }
 
   // Montar mensagem completa
   const message = `
@@ -143,24 +226,17 @@ ${productsList}
 Subtotal: R$ ${subtotal.toFixed(2)}
 Frete: ${shippingText}
 ━━━━━━━━━━━━━━━━━━━━━━
-*TOTAL: R$ ${total.toFixed(2)}*
+*TOTAL: R$ ${total.toFixed(2)}*${paymentSection}
 
 ━━━━━━━━━━━━━━━━━━━━━━
 
-🚚 *ENTREGA*
-${deliveryTimeText}
-📍 ${shipping.city}
+${fulfillmentSection}
 
 ━━━━━━━━━━━━━━━━━━━━━━
 
 👤 *DADOS DO CLIENTE*
 Nome: ${customerInfo.name}
-Telefone: ${customerInfo.phone}${customerInfo.email ? `\nEmail: ${customerInfo.email}` : ''}
-
-━━━━━━━━━━━━━━━━━━━━━━
-
-📍 *ENDEREÇO DE ENTREGA*
-${fullAddress}
+Telefone: ${customerInfo.phone}${customerInfo.email ? `\nEmail: ${customerInfo.email}` : ''}${addressSection}
 
 ━━━━━━━━━━━━━━━━━━━━━━
 
@@ -187,6 +263,59 @@ export function generateWhatsAppUrl(orderData: OrderMessageData): string {
   return WHATSAPP_CONFIG.generateUrl(message);
 }
 
+/**
+ * Converte um pedido salvo no banco nos dados da mensagem
+ * (usado para reenviar o pedido pelo WhatsApp na página de confirmação)
+ *
+ * @param order - Pedido retornado pelo orderService
+ * @param pixCode - Código PIX "copia e cola" do pedido, se houver
+ * @param pickup - Opções de retirada da loja (pedidos para retirada)
+ * @returns Dados prontos para generateWhatsAppMessage / generateWhatsAppUrl
+ */
+export function orderToMessageData(order: Order, pixCode?: string, pickup?: PickupSettings | null): OrderMessageData {
+  const { shippingAddress } = order;
+  const isPickup = order.fulfillmentMethod === 'pickup';
+
+  return {
+    id: order.orderNumber,
+    items: order.items.map(item => ({
+      id: item.productId,
+      name: item.name,
+      price: item.price,
+      quantity: item.quantity,
+    })),
+    subtotal: order.subtotal,
+    shipping: shippingAddress && !isPickup
+      ? {
+          cep: shippingAddress.cep,
+          city: shippingAddress.city,
+          cost: order.shippingCost,
+          isFree: order.shippingIsFree,
+          estimatedHours: order.estimatedHours,
+        }
+      : undefined,
+    total: order.total,
+    customerInfo: order.customerInfo,
+    shippingAddress: isPickup ? undefined : shippingAddress,
+    pickup: isPickup
+      ? {
+          address: pickup?.address,
+          readyAt: order.estimatedDeliveryTime ? new Date(order.estimatedDeliveryTime) : undefined,
+          instructions: pickup?.instructions,
+        }
+      : undefined,
+    payment: order.paymentMethod
+      ? { method: order.paymentMethod, changeFor: order.changeFor, pixCode }
+      : undefined,
+    estimatedDeliveryTime: order.estimatedDeliveryTime
+      ? new Date(order.estimatedDeliveryTime)
+      : undefined,
+    deliveryWindowEnd: order.deliveryWindowEnd
+      ? new Date(order.deliveryWindowEnd)
+      : undefined,
+  };
+}
+
 /**
  * Valida se todos os dados necessários estão presentes
  * 
@@ -202,6 +331,11 @@ export function validateOrderData(orderData: Partial<OrderMessageData>): boolean
     return false;
   }
 
+  // Retirada na loja: sem endereço nem frete
+  if (orderData.pickup) {
+    return true;
+  }
+
   if (!orderData.shippingAddress?.cep || !orderData.shippingAddress?.city) {
     return false;
   }
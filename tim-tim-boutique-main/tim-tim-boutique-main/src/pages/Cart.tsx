@@ -1,15 +1,57 @@
+import { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { useCart } from "@/contexts/CartContext";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { ShoppingBag } from "lucide-react";
 import { toast } from "sonner";
 import ShippingCalculator from "@/components/ShippingCalculator";
+import PickupInfo from "@/components/PickupInfo";
 import CartItem from "@/components/CartItem";
+import { getPickupSettings } from "@/services/settingsService";
+import { PICKUP_SHIPPING } from "@/lib/pickup";
+import { getCartItemKey } from "@/lib/productVariants";
+import type { FulfillmentMethod, PickupSettings } from "@/types";
 
 const Cart = () => {
-  const { items, removeItem, updateQuantity, total, itemCount, shipping, setShipping, grandTotal } = useCart();
+  const { items, removeItem, updateQuantity, total, itemCount, shipping, setShipping, grandTotal, stockShortages } = useCart();
   const navigate = useNavigate();
+  // undefined while loading, null when pickup is disabled
+  const [pickupSettings, setPickupSettings] = useState<PickupSettings | null | undefined>(undefined);
+  const isPickup = shipping?.method === "pickup";
+
+  // Store pickup is offered only when enabled in the settings
+  useEffect(() => {
+    let cancelled = false;
+
+    getPickupSettings()
+      .then((settings) => {
+        if (!cancelled) {
+          setPickupSettings(settings);
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading pickup settings:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Pickup chosen earlier but no longer offered: back to delivery
+  useEffect(() => {
+    if (pickupSettings === null && isPickup) {
+      setShipping(null);
+    }
+  }, [pickupSettings, isPickup, setShipping]);
+
+  // Pickup needs no CEP and is free; delivery asks for the CEP again
+  const handleFulfillmentChange = (value: string) => {
+    setShipping((value as FulfillmentMethod) === "pickup" ? PICKUP_SHIPPING : null);
+  };
 
   const handleShippingCalculated = (cost: number, isFree: boolean, city?: string, cep?: string) => {
     setShipping({
@@ -64,10 +106,11 @@ const Cart = () => {
           <div className="lg:col-span-8 space-y-3 sm:space-y-3 md:space-y-4">
             {items.map((item) => (
               <CartItem
-                key={item.id}
+                key={getCartItemKey(item)}
                 item={item}
                 onRemove={removeItem}
                 onUpdateQuantity={updateQuantity}
+                shortage={stockShortages[getCartItemKey(item)]}
               />
             ))}
           </div>
@@ -81,12 +124,45 @@ const Cart = () => {
                   Resumo do Pedido
                 </h2>
                 
-                {/* Calculadora de Frete */}
+                {/* Entrega ou retirada na loja */}
+                {pickupSettings && (
+                  <RadioGroup
+                    value={isPickup ? "pickup" : "delivery"}
+                    onValueChange={handleFulfillmentChange}
+                    aria-label="Forma de recebimento"
+                    className="grid grid-cols-2 gap-2 mb-3 sm:mb-4"
+                  >
+                    <Label
+                      htmlFor="fulfillment-delivery"
+                      className={`flex items-center gap-2 rounded-md border p-2.5 sm:p-3 cursor-pointer text-xs sm:text-sm font-normal transition-smooth ${
+                        !isPickup ? "border-secondary bg-secondary/5" : "border-border hover:border-secondary/50"
+                      }`}
+                    >
+                      <RadioGroupItem id="fulfillment-delivery" value="delivery" />
+                      Entrega
+                    </Label>
+                    <Label
+                      htmlFor="fulfillment-pickup"
+                      className={`flex items-center gap-2 rounded-md border p-2.5 sm:p-3 cursor-pointer text-xs sm:text-sm font-normal transition-smooth ${
+                        isPickup ? "border-secondary bg-secondary/5" : "border-border hover:border-secondary/50"
+                      }`}
+                    >
+                      <RadioGroupItem id="fulfillment-pickup" value="pickup" />
+                      Retirar na loja
+                    </Label>
+                  </RadioGroup>
+                )}
+
+                {/* Calculadora de Frete (retirada: endereço e horário da loja) */}
                 <div className="mb-3 sm:mb-4 md:mb-5">
-                  <ShippingCalculator 
-                    subtotal={total}
-                    onShippingCalculated={handleShippingCalculated}
-                  />
+                  {isPickup && pickupSettings ? (
+                    <PickupInfo settings={pickupSettings} />
+                  ) : (
+                    <ShippingCalculator 
+                      subtotal={total}
+                      onShippingCalculated={handleShippingCalculated}
+                    />
+                  )}
                 </div>
 
                 {/* Valores */}
@@ -102,7 +178,7 @@ const Cart = () => {
                     <span>Frete</span>
                     {shipping && shipping.isValid ? (
                       <span className={shipping.isFree ? "text-green-600 font-semibold" : "text-foreground font-medium"}>
-                        {shipping.isFree ? "GRÁTIS" : `R$ ${shipping.cost.toFixed(2)}`}
+                        {isPickup ? "Retirada na loja" : shipping.isFree ? "GRÁTIS" : `R$ ${shipping.cost.toFixed(2)}`}
                       </span>
                     ) : (
                       <span className="text-muted-foreground text-xs sm:text-sm">Calcule acima</span>
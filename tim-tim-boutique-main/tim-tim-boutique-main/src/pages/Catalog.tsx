@@ -1,8 +1,8 @@
-import { useState, useMemo, useEffect } from "react";
-import { useSearchParams } from "react-router-dom";
+import { useState, useMemo, useEffect, useRef } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import ProductCard from "@/components/ProductCard";
 import ProductCardSkeleton from "@/components/ProductCardSkeleton";
-import { useProducts } from "@/contexts/ProductContext";
+import CatalogFacets from "@/components/CatalogFacets";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -12,120 +12,219 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Search, X } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from "@/components/ui/pagination";
+import { ChevronLeft, ChevronRight, Search, SlidersHorizontal, X } from "lucide-react";
 import { useDebounce } from "@/hooks/useDebounce";
+import {
+  getProductFacets,
+  searchProducts,
+  type ProductFacets,
+  type ProductSearchResult,
+  type ProductSort,
+} from "@/services/productService";
+import { logSearchMiss, resolveSearch } from "@/services/searchRulesService";
+import { formatAlcohol, formatCurrency } from "@/lib/formatters";
+import {
+  CATALOG_FACETS,
+  CATALOG_SORTS,
+  countActiveFilters,
+  getDefaultSort,
+  getPageCount,
+  getPageNumbers,
+  hasActiveCatalogFilters,
+  hasRange,
+  parseCatalogParams,
+  toCatalogParams,
+  toggleFacetValue,
+  toProductFilters,
+  toProductSearch,
+  withSearchQuery,
+  type CatalogFilters,
+  type NumberRangeFilter,
+} from "@/lib/catalogFilters";
+
+// Filters shown when the options cannot be loaded (only the selected values)
+const NO_FACETS: ProductFacets = {
+  categories: [],
+  countries: [],
+  regions: [],
+  grapes: [],
+  producers: [],
+  volumes: [],
+  price: null,
+  alcohol: null,
+};
+
+const formatRangeLabel = ({ min, max }: NumberRangeFilter, format: (value: number) => string) => {
+  if (min !== undefined && max !== undefined) return `${format(min)} - ${format(max)}`;
+  return min !== undefined ? `A partir de ${format(min)}` : `Até ${format(max)}`;
+};
 
 const Catalog = () => {
-  // ✅ Usar ProductContext para obter produtos em tempo real
-  const { products } = useProducts();
-  const [searchParams] = useSearchParams();
-  
-  const [searchTerm, setSearchTerm] = useState<string>("");
-  const [categoryFilter, setCategoryFilter] = useState<string>("all");
-  const [countryFilter, setCountryFilter] = useState<string>("all");
-  const [priceRange, setPriceRange] = useState<string>("all");
-  const [sortOrder, setSortOrder] = useState<string>("default");
-  const [isLoading, setIsLoading] = useState<boolean>(true);
+  // ✅ Filtros na URL: a busca filtrada pode ser compartilhada
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseCatalogParams(searchParams), [searchParams]);
 
-  // ✅ Aplicar busca da URL quando o componente montar ou URL mudar
-  useEffect(() => {
-    const buscaParam = searchParams.get('busca');
-    const categoriaParam = searchParams.get('categoria');
-    
-    if (buscaParam) {
-      setSearchTerm(buscaParam);
-    }
-    
-    if (categoriaParam) {
-      setCategoryFilter(categoriaParam);
-    }
-  }, [searchParams]);
+  const [searchTerm, setSearchTerm] = useState<string>(filters.query);
+  const [result, setResult] = useState<ProductSearchResult | null>(null);
+  const [facets, setFacets] = useState<ProductFacets | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
   // Debounce search term for better performance
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  // Last search written to the URL by this page
+  const lastQuery = useRef(filters.query);
+
+  const updateFilters = (changes: Partial<CatalogFilters>, replace = false) => {
+    // Any filter change goes back to the first page
+    setSearchParams(toCatalogParams({ ...filters, page: 1, ...changes }), { replace });
+  };
 
-  // ✅ Categorias e países atualizam automaticamente quando produtos mudam
-  const categories = ["all", ...Array.from(new Set(products.map(p => p.category)))];
-  const countries = ["all", ...Array.from(new Set(products.map(p => p.country)))];
+  // Filters that change the facet counts (not the sort or the page)
+  const facetParams = useMemo(
+    () => toCatalogParams({ ...filters, sort: getDefaultSort(filters.query), page: 1 }).toString(),
+    [filters]
+  );
 
-  // Simulate initial loading
+  // Typed search -> URL (replace: one history entry per search, not per key)
   useEffect(() => {
-    const timer = setTimeout(() => {
-      setIsLoading(false);
-    }, 800);
-    return () => clearTimeout(timer);
-  }, []);
-
-  // Filter and sort products
-  const filteredProducts = useMemo(() => {
-    let filtered = products.filter(product => {
-      // Search filter - busca em múltiplos campos
-      if (debouncedSearchTerm) {
-        const searchLower = debouncedSearchTerm.toLowerCase();
-        const matchesSearch = 
-          product.name.toLowerCase().includes(searchLower) ||
-          product.description.toLowerCase().includes(searchLower) ||
-          product.category.toLowerCase().includes(searchLower) ||
-          product.country.toLowerCase().includes(searchLower) ||
-          (product.region && product.region.toLowerCase().includes(searchLower)) ||
-          product.tastingNotes.some(note => note.toLowerCase().includes(searchLower)) ||
-          product.pairing.some(pair => pair.toLowerCase().includes(searchLower)) ||
-          (product.grapes && product.grapes.some(grape => grape.toLowerCase().includes(searchLower)));
-        
-        if (!matchesSearch) return false;
-      }
-
-      // Category filter
-      if (categoryFilter !== "all" && product.category !== categoryFilter) return false;
-
-      // Country filter
-      if (countryFilter !== "all" && product.country !== countryFilter) return false;
-
-      // Price range filter
-      if (priceRange !== "all") {
-        const price = product.price;
-        switch (priceRange) {
-          case "0-500":
-            if (price > 500) return false;
-            break;
-          case "500-1000":
-            if (price < 500 || price > 1000) return false;
-            break;
-          case "1000-2000":
-            if (price < 1000 || price > 2000) return false;
-            break;
-          case "2000+":
-            if (price < 2000) return false;
-            break;
+    const query = debouncedSearchTerm.trim();
+    if (query === lastQuery.current) return;
+
+    lastQuery.current = query;
+    setSearchParams(
+      (params) => toCatalogParams(withSearchQuery(parseCatalogParams(params), query)),
+      { replace: true }
+    );
+  }, [debouncedSearchTerm, setSearchParams]);
+
+  // URL -> search field (header search, back button, shared link)
+  useEffect(() => {
+    if (filters.query === lastQuery.current) return;
+
+    lastQuery.current = filters.query;
+    setSearchTerm(filters.query);
+  }, [filters.query]);
+
+  // Opções dos filtros com a quantidade de produtos de cada uma
+  useEffect(() => {
+    let cancelled = false;
+    const facetFilters = parseCatalogParams(new URLSearchParams(facetParams));
+
+    resolveSearch(facetFilters.query)
+      .then(({ synonyms }) => getProductFacets({ ...toProductFilters(facetFilters), synonyms }))
+      .then((productFacets) => {
+        if (!cancelled) {
+          setFacets(productFacets);
+        }
+      })
+      .catch(() => {
+        // Filters stay limited to the current values; the products still load
+        if (!cancelled) {
+          setFacets(NO_FACETS);
         }
-      }
+      });
 
-      return true;
-    });
+    return () => {
+      cancelled = true;
+    };
+  }, [facetParams]);
 
-    // Sort products
-    if (sortOrder === "price-asc") {
-      filtered = [...filtered].sort((a, b) => a.price - b.price);
-    } else if (sortOrder === "price-desc") {
-      filtered = [...filtered].sort((a, b) => b.price - a.price);
-    }
+  // Busca executada no banco a cada mudança dos filtros
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    // Sinônimos cadastrados no painel entram na busca
+    resolveSearch(filters.query)
+      .then(({ synonyms }) => searchProducts({ ...toProductSearch(filters), synonyms }))
+      .then((searchResult) => {
+        if (cancelled) return;
+        setResult(searchResult);
+
+        // Only plain searches: a miss with other filters is not a missing synonym
+        const isPlainSearch = countActiveFilters(filters) === 0;
+        if (searchResult.total === 0 && filters.query && isPlainSearch) {
+          logSearchMiss(filters.query);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Não foi possível buscar os produtos");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
 
-    return filtered;
-  }, [debouncedSearchTerm, categoryFilter, countryFilter, priceRange, sortOrder]);
+    return () => {
+      cancelled = true;
+    };
+  }, [filters, reloadKey]);
 
-  const hasActiveFilters = 
-    searchTerm !== "" || 
-    categoryFilter !== "all" || 
-    countryFilter !== "all" || 
-    priceRange !== "all" || 
-    sortOrder !== "default";
+  const products = result?.products ?? [];
+  const total = result?.total ?? 0;
+  const pageCount = getPageCount(total);
+  const hasActiveFilters = hasActiveCatalogFilters(filters);
+  const activeFilterCount = countActiveFilters(filters);
+
+  const changeFilters = (changed: CatalogFilters) => {
+    setSearchParams(toCatalogParams(changed));
+  };
+
+  // Enter: redirect registered for the search, or search right away (no debounce)
+  const handleSearchSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchTerm.trim();
+    const { redirectUrl } = await resolveSearch(query);
+
+    if (redirectUrl) {
+      navigate(redirectUrl);
+      return;
+    }
+
+    if (query !== lastQuery.current) {
+      lastQuery.current = query;
+      setSearchParams(toCatalogParams(withSearchQuery(filters, query)), { replace: true });
+    }
+  };
 
   const clearAllFilters = () => {
+    lastQuery.current = "";
     setSearchTerm("");
-    setCategoryFilter("all");
-    setCountryFilter("all");
-    setPriceRange("all");
-    setSortOrder("default");
+    setSearchParams({});
+  };
+
+  const pageHref = (page: number) => {
+    const params = toCatalogParams({ ...filters, page }).toString();
+    return params ? `?${params}` : "?";
+  };
+
+  const goToPage = (e: React.MouseEvent, page: number) => {
+    e.preventDefault();
+    if (page < 1 || page > pageCount || page === filters.page) return;
+
+    setSearchParams(toCatalogParams({ ...filters, page }));
+    window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
   return (
@@ -142,7 +241,7 @@ const Catalog = () => {
         </div>
 
         {/* Search Bar */}
-        <div className="mb-6 md:mb-8 max-w-2xl mx-auto">
+        <form onSubmit={handleSearchSubmit} role="search" className="mb-6 md:mb-8 max-w-2xl mx-auto">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-muted-foreground" />
             <Input
@@ -154,7 +253,12 @@ const Catalog = () => {
             />
             {searchTerm && (
               <button
-                onClick={() => setSearchTerm("")}
+                type="button"
+                onClick={() => {
+                  lastQuery.current = "";
+                  setSearchTerm("");
+                  setSearchParams(toCatalogParams(withSearchQuery(filters, "")), { replace: true });
+                }}
                 className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground hover:text-foreground transition-colors"
                 aria-label="Limpar busca"
               >
@@ -162,120 +266,210 @@ const Catalog = () => {
               </button>
             )}
           </div>
-        </div>
+        </form>
 
-        {/* Filters */}
-        <div className="mb-6 md:mb-8 flex flex-col sm:flex-row flex-wrap gap-3 md:gap-3 lg:gap-3 xl:gap-4 justify-center items-center">
-          <div className="w-full sm:w-auto">
-            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
-              <SelectTrigger className="w-full sm:w-[180px] md:w-[200px] lg:w-[180px] xl:w-[200px] h-11 md:h-11 lg:h-10 xl:h-10 text-sm md:text-sm lg:text-sm xl:text-base">
-                <SelectValue placeholder="Categoria" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">Todas as Categorias</SelectItem>
-                {categories.filter(c => c !== "all").map(category => (
-                  <SelectItem key={category} value={category}>
-                    {category}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        <div className="flex gap-8 lg:gap-10">
+          {/* Filters */}
+          <aside className="hidden lg:block w-64 xl:w-72 shrink-0" aria-label="Filtros">
+            <CatalogFacets filters={filters} facets={facets} onChange={changeFilters} />
+          </aside>
 
-          <div className="w-full sm:w-auto">
-            <Select value={countryFilter} onValueChange={setCountryFilter}>
-              <SelectTrigger className="w-full sm:w-[180px] md:w-[200px] lg:w-[180px] xl:w-[200px] h-11 md:h-11 lg:h-10 xl:h-10 text-sm md:text-sm lg:text-sm xl:text-base">
-                <SelectValue placeholder="País" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">Todos os Países</SelectItem>
-                {countries.filter(c => c !== "all").map(country => (
-                  <SelectItem key={country} value={country}>
-                    {country}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+          <div className="flex-1 min-w-0">
+            {/* Toolbar */}
+            <div className="mb-4 flex flex-wrap gap-3 items-center justify-between">
+              <Sheet>
+                <SheetTrigger asChild>
+                  <Button variant="outline" className="lg:hidden h-11">
+                    <SlidersHorizontal className="mr-2 h-4 w-4" />
+                    Filtros{activeFilterCount > 0 && ` (${activeFilterCount})`}
+                  </Button>
+                </SheetTrigger>
+                <SheetContent side="left" className="overflow-y-auto">
+                  <SheetHeader className="mb-6">
+                    <SheetTitle className="font-heading">Filtros</SheetTitle>
+                  </SheetHeader>
+                  <CatalogFacets filters={filters} facets={facets} onChange={changeFilters} />
+                </SheetContent>
+              </Sheet>
 
-          <div className="w-full sm:w-auto">
-            <Select value={priceRange} onValueChange={setPriceRange}>
-              <SelectTrigger className="w-full sm:w-[180px] md:w-[200px] lg:w-[180px] xl:w-[200px] h-11 md:h-11 lg:h-10 xl:h-10 text-sm md:text-sm lg:text-sm xl:text-base">
-                <SelectValue placeholder="Faixa de Preço" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">Todos os Preços</SelectItem>
-                <SelectItem value="0-500">Até R$ 500</SelectItem>
-                <SelectItem value="500-1000">R$ 500 - R$ 1.000</SelectItem>
-                <SelectItem value="1000-2000">R$ 1.000 - R$ 2.000</SelectItem>
-                <SelectItem value="2000+">Acima de R$ 2.000</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+              {/* Results Counter */}
+              <p className="text-sm md:text-base text-muted-foreground" role="status">
+                {result && !error && (total === 0
+                  ? "Nenhum produto encontrado"
+                  : `${total} ${total === 1 ? 'produto encontrado' : 'produtos encontrados'}`
+                )}
+              </p>
 
-          <div className="w-full sm:w-auto">
-            <Select value={sortOrder} onValueChange={setSortOrder}>
-              <SelectTrigger className="w-full sm:w-[180px] md:w-[200px] lg:w-[180px] xl:w-[200px] h-11 md:h-11 lg:h-10 xl:h-10 text-sm md:text-sm lg:text-sm xl:text-base">
-                <SelectValue placeholder="Ordenar por" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="default">Padrão</SelectItem>
-                <SelectItem value="price-asc">Menor Preço</SelectItem>
-                <SelectItem value="price-desc">Maior Preço</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+              <Select
+                value={filters.sort}
+                onValueChange={(value) => updateFilters({ sort: value as ProductSort })}
+              >
+                <SelectTrigger className="w-full sm:w-[200px] h-11 lg:h-10 text-sm" aria-label="Ordenar por">
+                  <SelectValue placeholder="Ordenar por" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CATALOG_SORTS)
+                    .filter(([value]) => value !== "relevance" || filters.query)
+                    .map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
 
-          {hasActiveFilters && (
-            <Button
-              variant="outline"
-              onClick={clearAllFilters}
-              className="w-full sm:w-auto h-11 md:h-11 lg:h-10 xl:h-10 hover-glow text-sm md:text-sm lg:text-sm xl:text-sm px-4 md:px-5 lg:px-4 xl:px-4"
-            >
-              Limpar Filtros
-            </Button>
-          )}
-        </div>
+            {/* Active Filters */}
+            {hasActiveFilters && (
+              <div className="mb-6 flex flex-wrap gap-2 items-center">
+                {CATALOG_FACETS.flatMap((facet) =>
+                  filters[facet.key].map((value) => (
+                    <Button
+                      key={`${facet.key}-${value}`}
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => changeFilters(toggleFacetValue(filters, facet.key, value))}
+                      aria-label={`Remover filtro ${facet.label}: ${value}`}
+                    >
+                      {value}
+                      <X className="ml-1 h-3 w-3" />
+                    </Button>
+                  ))
+                )}
+                {hasRange(filters.price) && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => updateFilters({ price: {} })}
+                    aria-label="Remover filtro de preço"
+                  >
+                    {formatRangeLabel(filters.price, formatCurrency)}
+                    <X className="ml-1 h-3 w-3" />
+                  </Button>
+                )}
+                {hasRange(filters.alcohol) && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => updateFilters({ alcohol: {} })}
+                    aria-label="Remover filtro de teor alcoólico"
+                  >
+                    {formatRangeLabel(filters.alcohol, formatAlcohol)}
+                    <X className="ml-1 h-3 w-3" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={clearAllFilters}
+                  className="hover-glow"
+                >
+                  Limpar Filtros
+                </Button>
+              </div>
+            )}
 
-        {/* Results Counter */}
-        {hasActiveFilters && (
-          <div className="mb-6 text-center">
-            <p className="text-sm md:text-base text-muted-foreground">
-              {filteredProducts.length === 0 
-                ? "Nenhum produto encontrado" 
-                : `${filteredProducts.length} ${filteredProducts.length === 1 ? 'produto encontrado' : 'produtos encontrados'}`
-              }
-            </p>
-          </div>
-        )}
-
-        {/* Products Grid */}
-        {isLoading ? (
-          <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3 xl:grid-cols-4 gap-3 sm:gap-4 md:gap-4 lg:gap-5 xl:gap-6">
-            {Array.from({ length: 8 }).map((_, index) => (
-              <ProductCardSkeleton key={index} />
-            ))}
-          </div>
-        ) : filteredProducts.length > 0 ? (
-          <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3 xl:grid-cols-4 gap-3 sm:gap-4 md:gap-4 lg:gap-5 xl:gap-6 auto-rows-fr">
-            {filteredProducts.map(product => (
-              <ProductCard key={product.id} {...product} />
-            ))}
-          </div>
-        ) : (
-          <div className="text-center py-16 md:py-20">
-            <p className="text-muted-foreground text-base md:text-lg mb-4">
-              Nenhum produto encontrado com os filtros selecionados.
-            </p>
-            <Button
-              variant="outline"
-              onClick={clearAllFilters}
-              className="hover-glow"
-            >
-              Limpar Filtros
-            </Button>
+            {/* Products Grid */}
+            {isLoading ? (
+              <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3 xl:grid-cols-3 gap-3 sm:gap-4 md:gap-4 lg:gap-5 xl:gap-6">
+                {Array.from({ length: 8 }).map((_, index) => (
+                  <ProductCardSkeleton key={index} />
+                ))}
+              </div>
+            ) : error ? (
+              <div className="text-center py-16 md:py-20">
+                <p className="text-muted-foreground text-base md:text-lg mb-4">{error}</p>
+                <Button
+                  variant="outline"
+                  onClick={() => setReloadKey((key) => key + 1)}
+                  className="hover-glow"
+                >
+                  Tentar Novamente
+                </Button>
+              </div>
+            ) : products.length > 0 ? (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-3 xl:grid-cols-3 gap-3 sm:gap-4 md:gap-4 lg:gap-5 xl:gap-6 auto-rows-fr">
+                  {products.map(product => (
+                    <ProductCard key={product.id} {...product} />
+                  ))}
+                </div>
+
+                {/* Pagination */}
+                {pageCount > 1 && (
+                  <Pagination className="mt-8 md:mt-10" aria-label="Páginas do catálogo">
+                    <PaginationContent>
+                      <PaginationItem>
+                        <PaginationLink
+                          href={pageHref(Math.max(1, filters.page - 1))}
+                          onClick={(e) => goToPage(e, filters.page - 1)}
+                          aria-label="Página anterior"
+                          aria-disabled={filters.page === 1}
+                          className={filters.page === 1 ? "pointer-events-none opacity-50" : ""}
+                        >
+                          <ChevronLeft className="h-4 w-4" />
+                        </PaginationLink>
+                      </PaginationItem>
+                      {getPageNumbers(filters.page, pageCount).map((page, index) => (
+                        <PaginationItem key={page === "ellipsis" ? `ellipsis-${index}` : page}>
+                          {page === "ellipsis" ? (
+                            <PaginationEllipsis />
+                          ) : (
+                            <PaginationLink
+                              href={pageHref(page)}
+                              onClick={(e) => goToPage(e, page)}
+                              isActive={page === filters.page}
+                              aria-label={`Página ${page}`}
+                            >
+                              {page}
+                            </PaginationLink>
+                          )}
+                        </PaginationItem>
+                      ))}
+                      <PaginationItem>
+                        <PaginationLink
+                          href={pageHref(Math.min(pageCount, filters.page + 1))}
+                          onClick={(e) => goToPage(e, filters.page + 1)}
+                          aria-label="Próxima página"
+                          aria-disabled={filters.page === pageCount}
+                          className={filters.page === pageCount ? "pointer-events-none opacity-50" : ""}
+                        >
+                          <ChevronRight className="h-4 w-4" />
+                        </PaginationLink>
+                      </PaginationItem>
+                    </PaginationContent>
+                  </Pagination>
+                )}
+              </>
+            ) : total > 0 ? (
+              <div className="text-center py-16 md:py-20">
+                <p className="text-muted-foreground text-base md:text-lg mb-4">
+                  Esta página não existe. O catálogo tem {pageCount} {pageCount === 1 ? "página" : "páginas"}.
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={() => updateFilters({})}
+                  className="hover-glow"
+                >
+                  Ir para a primeira página
+                </Button>
+              </div>
+            ) : (
+              <div className="text-center py-16 md:py-20">
+                <p className="text-muted-foreground text-base md:text-lg mb-4">
+                  Nenhum produto encontrado com os filtros selecionados.
+                </p>
+                <Button
+                  variant="outline"
+                  onClick={clearAllFilters}
+                  className="hover-glow"
+                >
+                  Limpar Filtros
+                </Button>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
     </div>
   );
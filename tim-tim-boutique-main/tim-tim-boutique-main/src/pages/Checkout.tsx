@@ -1,26 +1,69 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { useForm } from "react-hook-form";
+import { useForm, type Resolver } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useCart } from "@/contexts/CartContext";
+import { useOrders } from "@/contexts/OrderContext";
 import { sessionService } from "@/services/sessionService";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
-import { MessageCircle, ArrowLeft, Loader2, MapPin, Truck } from "lucide-react";
-import { checkoutSchema, type CheckoutFormData } from "@/lib/validations";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { MessageCircle, ArrowLeft, Loader2, MapPin, Truck, CreditCard, CalendarClock, Store } from "lucide-react";
+import { checkoutSchema, pickupCheckoutSchema, type CheckoutFormData } from "@/lib/validations";
 import { fetchAddressByCep } from "@/services/cepService";
+import { getEstimatedDeliveryTime, loadShippingSettings } from "@/services/shippingService";
 import { maskCep, maskPhone } from "@/lib/masks";
+import { getSavedCep, saveCep } from "@/lib/savedCep";
+import { formatDeliveryTime } from "@/lib/formatters";
 import { toast as sonnerToast } from "sonner";
 import { generateWhatsAppUrl, type OrderMessageData } from "@/lib/whatsappMessage";
+import { createOrder, getDeliverySlotUsage } from "@/services/orderService";
+import { getDeliverySlotSettings, getPickupSettings, getPixSettings } from "@/services/settingsService";
+import { generatePixPayload } from "@/lib/pix";
+import { PAYMENT_METHODS, formatPaymentMethod, getPaymentMethodLabel, parseChangeFor } from "@/lib/payment";
+import {
+  formatDeliveryDate,
+  formatDeliverySlot,
+  getDeliveryDates,
+  getDeliveryPeriod,
+  getDeliverySlots,
+  type DeliverySlotUsage,
+} from "@/lib/deliverySlots";
+import { formatStoreMoment, getStoreStatus } from "@/lib/storeHours";
+import { PICKUP_SHIPPING, getPickupWindow, type PickupWindow } from "@/lib/pickup";
+import PickupInfo from "@/components/PickupInfo";
+import { getCartItemKey, getCartItemName } from "@/lib/productVariants";
+import {
+  DeliverySlotUnavailableError,
+  InsufficientStockError,
+  PriceChangedError,
+  ShippingChangedError,
+} from "@/lib/errorHandling";
+import type { DeliverySlotSettings, PickupSettings, StoreHours } from "@/types";
+
+// Store pickup skips the address fields
+const checkoutResolver: Resolver<CheckoutFormData> = (values, context, options) =>
+  values.fulfillment === "pickup"
+    ? zodResolver(pickupCheckoutSchema)(values, context, options)
+    : zodResolver(checkoutSchema)(values, context, options);
 
 const Checkout = () => {
-  const { items, total, itemCount, clearCart, shipping, grandTotal } = useCart();
+  const { items, total, itemCount, clearCart, shipping, setShipping, grandTotal, stockShortages, applyStockShortages, refreshPrices } = useCart();
+  const { setLastOrder } = useOrders();
+  const hasStockShortages = Object.keys(stockShortages).length > 0;
   const navigate = useNavigate();
 
   const [isLoadingCep, setIsLoadingCep] = useState(false);
+  const [slotSettings, setSlotSettings] = useState<DeliverySlotSettings | null>(null);
+  const [slotUsage, setSlotUsage] = useState<DeliverySlotUsage>({});
+  const [storeHours, setStoreHours] = useState<StoreHours | null>(null);
+  // undefined while loading, null when pickup is disabled
+  const [pickupSettings, setPickupSettings] = useState<PickupSettings | null | undefined>(undefined);
+  // Delivery shipping calculated in the cart, restored when switching back from pickup
+  const deliveryShipping = useRef(shipping?.method === "pickup" ? null : shipping);
 
   // Initialize React Hook Form with Zod validation and real-time validation
   const {
@@ -29,26 +72,54 @@ const Checkout = () => {
     setValue,
     watch,
     trigger,
+    setError,
+    clearErrors,
     formState: { errors, isSubmitting, touchedFields, dirtyFields },
   } = useForm<CheckoutFormData>({
-    resolver: zodResolver(checkoutSchema),
+    resolver: checkoutResolver,
     mode: "onChange", // Enable real-time validation
     reValidateMode: "onChange",
     defaultValues: {
       name: "",
       email: "",
       phone: "",
-      cep: shipping?.cep || "",
+      cep: shipping?.cep || getSavedCep(),
       address: "",
       number: "",
       complement: "",
       neighborhood: "",
       city: shipping?.city || "",
       state: "",
+      paymentMethod: "pix",
+      changeFor: "",
+      deliveryType: "express",
+      deliveryDate: "",
+      deliverySlot: "",
+      fulfillment: shipping?.method ?? "delivery",
     },
   });
 
   const cepValue = watch("cep");
+  const paymentMethod = watch("paymentMethod");
+  const changeForValue = watch("changeFor");
+  const deliveryType = watch("deliveryType");
+  const deliveryDate = watch("deliveryDate");
+  const deliverySlotValue = watch("deliverySlot");
+  const fulfillment = watch("fulfillment");
+  const isPickup = fulfillment === "pickup";
+
+  // Scheduled delivery: dates and windows configured by the store, within its opening hours
+  const deliveryDates = useMemo(
+    () => (slotSettings ? getDeliveryDates(slotSettings, storeHours) : []),
+    [slotSettings, storeHours]
+  );
+  const deliverySlots = slotSettings && deliveryDate
+    ? getDeliverySlots(slotSettings, deliveryDate, slotUsage, storeHours)
+    : [];
+  const selectedSlot = !isPickup && deliveryType === "scheduled"
+    ? deliverySlots.find((slot) => slot.id === deliverySlotValue)
+    : undefined;
+  const storeStatus = getStoreStatus(storeHours);
 
   // Helper function to get field validation state
   const getFieldState = (fieldName: keyof CheckoutFormData) => {
@@ -81,18 +152,82 @@ const Checkout = () => {
     }
   }, [shipping, setValue]);
 
+  // Load scheduled delivery options (the option is hidden when disabled)
+  // and the opening hours (express orders placed while closed go out at the opening)
+  useEffect(() => {
+    getDeliverySlotSettings()
+      .then(setSlotSettings)
+      .catch((error) => {
+        console.error("Error loading delivery slots:", error);
+      });
+
+    loadShippingSettings().then((settings) => setStoreHours(settings.storeHours));
+
+    getPickupSettings()
+      .then(setPickupSettings)
+      .catch((error) => {
+        console.error("Error loading pickup settings:", error);
+      });
+  }, []);
+
+  // Pickup: free, no address. Delivery: back to the shipping calculated in the cart
+  const handleFulfillmentChange = useCallback((value: CheckoutFormData["fulfillment"]) => {
+    setValue("fulfillment", value, { shouldDirty: true });
+
+    if (value === "pickup") {
+      if (shipping && shipping.method !== "pickup") {
+        deliveryShipping.current = shipping;
+      }
+      setShipping(PICKUP_SHIPPING);
+      clearErrors(["cep", "address", "number", "complement", "neighborhood", "city", "state"]);
+    } else {
+      setShipping(deliveryShipping.current);
+    }
+  }, [shipping, setShipping, setValue, clearErrors]);
+
+  // Pickup chosen in the cart but no longer offered
+  useEffect(() => {
+    if (pickupSettings === null && isPickup) {
+      handleFulfillmentChange("delivery");
+    }
+  }, [pickupSettings, isPickup, handleFulfillmentChange]);
+
+  // Orders already placed in each slot, to disable the full ones
+  const loadSlotUsage = useCallback(async () => {
+    const period = getDeliveryPeriod(deliveryDates);
+    if (!period) return;
+
+    try {
+      setSlotUsage(await getDeliverySlotUsage(period.from, period.to));
+    } catch (error) {
+      console.error("Error loading delivery slot usage:", error);
+    }
+  }, [deliveryDates]);
+
+  useEffect(() => {
+    if (deliveryType === "scheduled") {
+      loadSlotUsage();
+    }
+  }, [deliveryType, loadSlotUsage]);
+
   // Auto-fetch address when CEP is complete
   useEffect(() => {
     const fetchAddress = async () => {
       // Check if CEP is complete (8 digits)
       const cleanCep = cepValue?.replace(/\D/g, "") || "";
       if (cleanCep.length === 8) {
+        saveCep(cleanCep);
         setIsLoadingCep(true);
         const addressData = await fetchAddressByCep(cleanCep);
 
         if (addressData) {
-          setValue("address", addressData.street);
-          setValue("neighborhood", addressData.neighborhood);
+          // Offline lookups (local CEP table) only know the city
+          if (addressData.street) {
+            setValue("address", addressData.street);
+          }
+          if (addressData.neighborhood) {
+            setValue("neighborhood", addressData.neighborhood);
+          }
           setValue("city", addressData.city);
           setValue("state", addressData.state);
           sonnerToast.success("Endereço encontrado!");
@@ -117,46 +252,127 @@ const Checkout = () => {
         return;
       }
 
-      // Generate order ID
-      const orderId = `TIM-${Date.now()}`;
-      const orderDate = new Date().toISOString();
+      // Cash: the change must be for at least the order total
+      const changeFor = data.paymentMethod === "cash" ? parseChangeFor(data.changeFor) : undefined;
+      if (changeFor !== undefined && changeFor < grandTotal) {
+        setError("changeFor", {
+          message: `O valor para troco deve ser maior ou igual ao total (R$ ${grandTotal.toFixed(2)})`,
+        });
+        return;
+      }
+
+      // Pickup: ready after the preparation time, within the opening hours
+      // Scheduled delivery: the chosen window (may have filled up meanwhile)
+      // Express: promise of the delivery zone (2 hours by default), counted
+      // from the next opening when the store is closed
+      const pickup = data.fulfillment === "pickup";
+      let estimatedHours: number | undefined;
+      let deliveryTime: Date;
+      let deliveryWindowEnd: Date | undefined;
+      let pickupWindow: PickupWindow | undefined;
 
-      // Calculate delivery time (2 hours from now)
-      const deliveryTime = new Date();
-      deliveryTime.setHours(deliveryTime.getHours() + 2);
+      if (pickup) {
+        if (!pickupSettings) {
+          sonnerToast.error("A retirada na loja não está disponível no momento");
+          return;
+        }
+        pickupWindow = getPickupWindow(pickupSettings, storeHours);
+        deliveryTime = pickupWindow.start;
+      } else if (data.deliveryType === "scheduled") {
+        if (!selectedSlot?.isAvailable) {
+          setError("deliverySlot", { message: "Este horário não está mais disponível. Escolha outro." });
+          return;
+        }
+        deliveryTime = selectedSlot.start;
+        deliveryWindowEnd = selectedSlot.end;
+      } else {
+        estimatedHours = shipping.estimatedHours ?? 2;
+        deliveryTime = getEstimatedDeliveryTime(await loadShippingSettings(), estimatedHours);
+      }
+
+      const customerInfo = {
+        name: data.name,
+        email: data.email || undefined,
+        phone: data.phone,
+      };
+      const shippingAddress = pickup ? undefined : {
+        cep: data.cep,
+        street: data.address,
+        number: data.number,
+        complement: data.complement || undefined,
+        neighborhood: data.neighborhood,
+        city: data.city,
+        state: data.state,
+      };
+
+      // Persist order and items before handing off to WhatsApp.
+      // The database assigns the order number shown to the customer.
+      const order = await createOrder({
+        items: items.map(item => ({
+          productId: item.id,
+          variantId: item.variantId,
+          name: getCartItemName(item),
+          price: item.price,
+          quantity: item.quantity,
+        })),
+        subtotal: total,
+        shippingCost: shipping.cost,
+        shippingIsFree: shipping.isFree,
+        total: grandTotal,
+        customerInfo,
+        fulfillmentMethod: data.fulfillment,
+        shippingAddress,
+        paymentMethod: data.paymentMethod,
+        changeFor,
+        estimatedHours,
+        estimatedDeliveryTime: deliveryTime,
+        deliveryWindowEnd,
+      });
+
+      // PIX: send the "copia e cola" code with the order (when the key is configured)
+      let pixCode: string | undefined;
+      if (data.paymentMethod === "pix") {
+        try {
+          const pixSettings = await getPixSettings();
+          if (pixSettings) {
+            pixCode = generatePixPayload({ ...pixSettings, amount: grandTotal, txid: order.orderNumber });
+          }
+        } catch (error) {
+          console.error("Error loading PIX settings:", error);
+        }
+      }
 
       // Prepare WhatsApp message using centralized generator
       const messageData: OrderMessageData = {
-        id: orderId,
+        id: order.orderNumber,
         items: items.map(item => ({
           id: item.id,
-          name: item.name,
+          name: getCartItemName(item),
           price: item.price,
+          originalPrice: item.originalPrice,
           quantity: item.quantity,
         })),
         subtotal: total,
-        shipping: {
+        shipping: pickup ? undefined : {
           cep: shipping.cep,
           city: shipping.city,
           cost: shipping.cost,
           isFree: shipping.isFree,
+          zone: shipping.zone,
+          estimatedHours,
         },
         total: grandTotal,
-        customerInfo: {
-          name: data.name,
-          email: data.email || undefined,
-          phone: data.phone,
-        },
-        shippingAddress: {
-          cep: data.cep,
-          street: data.address,
-          number: data.number,
-          complement: data.complement || undefined,
-          neighborhood: data.neighborhood,
-          city: data.city,
-          state: data.state,
+        customerInfo,
+        shippingAddress,
+        pickup: pickupWindow && {
+          address: pickupSettings.address,
+          readyAt: pickupWindow.start,
+          closesAt: pickupWindow.end,
+          instructions: pickupSettings.instructions,
         },
+        payment: { method: data.paymentMethod, changeFor, pixCode },
         estimatedDeliveryTime: deliveryTime,
+        deliveryWindowEnd,
       };
 
       // Generate WhatsApp URL with formatted message
@@ -171,18 +387,62 @@ const Checkout = () => {
         duration: 5000,
       });
 
+      // Keep the order for the confirmation page (also survives a refresh)
+      setLastOrder(order);
+
       // Clear cart and session AFTER opening WhatsApp
       sessionService.clearSession();
       clearCart();
 
-      // Redirect to home page
-      navigate("/");
+      navigate(`/pedido-confirmado?orderId=${encodeURIComponent(order.orderNumber)}`);
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        applyStockShortages(error.shortages);
+        sonnerToast.error("Estoque insuficiente", {
+          description: "Alguns produtos acabaram de ser vendidos. Ajuste as quantidades no carrinho.",
+        });
+        return;
+      }
+
+      if (error instanceof DeliverySlotUnavailableError) {
+        setError("deliverySlot", { message: "Este horário acabou de esgotar. Escolha outro." });
+        sonnerToast.error("Horário de entrega esgotado", {
+          description: "Escolha outro horário para a entrega.",
+        });
+        loadSlotUsage();
+        return;
+      }
+
+      if (error instanceof PriceChangedError) {
+        await refreshPrices();
+        sonnerToast.error("Preços atualizados", {
+          description: "Os preços de alguns produtos mudaram. Confira os valores e finalize o pedido novamente.",
+        });
+        return;
+      }
+
+      // Back to "Frete não calculado": the shipping has to be calculated again in the cart
+      if (error instanceof ShippingChangedError) {
+        deliveryShipping.current = null;
+        setShipping(null);
+        sonnerToast.error("Frete atualizado", {
+          description: "O frete deste endereço mudou. Calcule o frete novamente no carrinho.",
+        });
+        return;
+      }
+
       console.error("Error creating order:", error);
-      sonnerToast.error("Erro ao criar pedido. Tente novamente.");
+      sonnerToast.error("Erro ao criar pedido. Tente novamente.", {
+        description: error instanceof Error ? error.message : undefined,
+      });
     }
   };
 
+  // Charge today's prices, not the ones saved when the items were added
+  useEffect(() => {
+    refreshPrices();
+  }, [refreshPrices]);
+
   // Redirect to cart if empty (Requirement 6.5)
   useEffect(() => {
     if (items.length === 0) {
@@ -342,216 +602,439 @@ const Checkout = () => {
 
 
 
-            <Card className="p-4 md:p-6 bg-card border-border">
-              <h2 className="font-heading text-xl md:text-2xl mb-4 md:mb-6">Endereço de Entrega</h2>
-              <div className="grid grid-cols-1 gap-4">
-                <div>
-                  <Label htmlFor="cep" className="text-base md:text-sm">
-                    CEP * {isLoadingCep && <span className="text-muted-foreground">(buscando...)</span>}
+            {pickupSettings && (
+              <Card className="p-4 md:p-6 bg-card border-border">
+                <h2 className="font-heading text-xl md:text-2xl mb-4 md:mb-6">Como Receber</h2>
+                <RadioGroup
+                  value={fulfillment}
+                  onValueChange={(value) => handleFulfillmentChange(value as CheckoutFormData["fulfillment"])}
+                  aria-label="Forma de recebimento"
+                  className="grid grid-cols-1 md:grid-cols-2 gap-3"
+                >
+                  <Label
+                    htmlFor="fulfillment-delivery"
+                    className={`flex items-center gap-3 rounded-md border p-4 cursor-pointer text-base md:text-sm font-normal transition-smooth ${
+                      !isPickup ? "border-secondary bg-secondary/5" : "border-border hover:border-secondary/50"
+                    }`}
+                  >
+                    <RadioGroupItem id="fulfillment-delivery" value="delivery" />
+                    <Truck className="h-4 w-4 text-secondary" />
+                    Entrega no endereço
                   </Label>
-                  <div className="relative">
-                    <Input
-                      id="cep"
-                      {...register("cep")}
-                      placeholder="00000-000"
-                      className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("cep").className}`}
-                      aria-invalid={!!errors.cep}
-                      aria-describedby={errors.cep ? "cep-error" : "cep-help"}
-                      maxLength={9}
-                      onChange={(e) => {
-                        const masked = maskCep(e.target.value);
-                        setValue("cep", masked, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
-                      }}
-                    />
-                    {getFieldState("cep").isValid && !isLoadingCep && (
-                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
-                        ✓
-                      </span>
-                    )}
-                    {isLoadingCep && (
-                      <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
-                    )}
-                  </div>
-                  {errors.cep && (
-                    <p id="cep-error" className="text-sm text-destructive mt-1" role="alert">
-                      {errors.cep.message}
-                    </p>
-                  )}
-                  {!errors.cep && shipping?.cep && (
-                    <p id="cep-help" className="text-xs text-muted-foreground mt-1">
-                      <MapPin className="inline h-3 w-3 mr-1" />
-                      Frete já calculado para este CEP
-                    </p>
-                  )}
-                  {!errors.cep && !shipping?.cep && (
-                    <p id="cep-help" className="text-xs text-muted-foreground mt-1">
-                      Formato: 00000-000
-                    </p>
-                  )}
-                </div>
+                  <Label
+                    htmlFor="fulfillment-pickup"
+                    className={`flex items-center gap-3 rounded-md border p-4 cursor-pointer text-base md:text-sm font-normal transition-smooth ${
+                      isPickup ? "border-secondary bg-secondary/5" : "border-border hover:border-secondary/50"
+                    }`}
+                  >
+                    <RadioGroupItem id="fulfillment-pickup" value="pickup" />
+                    <Store className="h-4 w-4 text-secondary" />
+                    Retirar na loja (grátis)
+                  </Label>
+                </RadioGroup>
 
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                  <div className="md:col-span-3">
-                    <Label htmlFor="address" className="text-base md:text-sm">Endereço *</Label>
-                    <div className="relative">
-                      <Input
-                        id="address"
-                        {...register("address")}
-                        placeholder="Rua, Avenida, etc."
-                        className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("address").className}`}
-                        aria-invalid={!!errors.address}
-                        aria-describedby={errors.address ? "address-error" : undefined}
-                        disabled={isLoadingCep}
-                        onChange={(e) => {
-                          setValue("address", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
-                        }}
-                      />
-                      {getFieldState("address").isValid && (
-                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
-                          ✓
-                        </span>
+                {isPickup && <PickupInfo settings={pickupSettings} className="mt-4" />}
+              </Card>
+            )}
+
+            {!isPickup && (
+              <>
+                <Card className="p-4 md:p-6 bg-card border-border">
+                  <h2 className="font-heading text-xl md:text-2xl mb-4 md:mb-6">Endereço de Entrega</h2>
+                  <div className="grid grid-cols-1 gap-4">
+                    <div>
+                      <Label htmlFor="cep" className="text-base md:text-sm">
+                        CEP * {isLoadingCep && <span className="text-muted-foreground">(buscando...)</span>}
+                      </Label>
+                      <div className="relative">
+                        <Input
+                          id="cep"
+                          {...register("cep")}
+                          placeholder="00000-000"
+                          className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("cep").className}`}
+                          aria-invalid={!!errors.cep}
+                          aria-describedby={errors.cep ? "cep-error" : "cep-help"}
+                          maxLength={9}
+                          onChange={(e) => {
+                            const masked = maskCep(e.target.value);
+                            setValue("cep", masked, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                          }}
+                        />
+                        {getFieldState("cep").isValid && !isLoadingCep && (
+                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
+                            ✓
+                          </span>
+                        )}
+                        {isLoadingCep && (
+                          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+                        )}
+                      </div>
+                      {errors.cep && (
+                        <p id="cep-error" className="text-sm text-destructive mt-1" role="alert">
+                          {errors.cep.message}
+                        </p>
                       )}
-                    </div>
-                    {errors.address && (
-                      <p id="address-error" className="text-sm text-destructive mt-1" role="alert">
-                        {errors.address.message}
-                      </p>
-                    )}
-                  </div>
-                  <div>
-                    <Label htmlFor="number" className="text-base md:text-sm">Número *</Label>
-                    <div className="relative">
-                      <Input
-                        id="number"
-                        {...register("number")}
-                        placeholder="123"
-                        className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("number").className}`}
-                        aria-invalid={!!errors.number}
-                        aria-describedby={errors.number ? "number-error" : undefined}
-                        maxLength={10}
-                        onChange={(e) => {
-                          setValue("number", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
-                        }}
-                      />
-                      {getFieldState("number").isValid && (
-                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
-                          ✓
-                        </span>
+                      {!errors.cep && shipping?.cep && (
+                        <p id="cep-help" className="text-xs text-muted-foreground mt-1">
+                          <MapPin className="inline h-3 w-3 mr-1" />
+                          Frete já calculado para este CEP
+                        </p>
+                      )}
+                      {!errors.cep && !shipping?.cep && (
+                        <p id="cep-help" className="text-xs text-muted-foreground mt-1">
+                          Formato: 00000-000
+                        </p>
                       )}
                     </div>
-                    {errors.number && (
-                      <p id="number-error" className="text-sm text-destructive mt-1" role="alert">
-                        {errors.number.message}
-                      </p>
-                    )}
-                  </div>
-                </div>
 
-                <div>
-                  <Label htmlFor="complement" className="text-base md:text-sm">
-                    Complemento <span className="text-muted-foreground">(opcional)</span>
-                  </Label>
-                  <Input
-                    id="complement"
-                    {...register("complement")}
-                    placeholder="Apto, Bloco, etc."
-                    className="h-12 md:h-10 text-base md:text-sm"
-                    maxLength={100}
-                    onChange={(e) => {
-                      setValue("complement", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
-                    }}
-                  />
-                </div>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      <div className="md:col-span-3">
+                        <Label htmlFor="address" className="text-base md:text-sm">Endereço *</Label>
+                        <div className="relative">
+                          <Input
+                            id="address"
+                            {...register("address")}
+                            placeholder="Rua, Avenida, etc."
+                            className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("address").className}`}
+                            aria-invalid={!!errors.address}
+                            aria-describedby={errors.address ? "address-error" : undefined}
+                            disabled={isLoadingCep}
+                            onChange={(e) => {
+                              setValue("address", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                            }}
+                          />
+                          {getFieldState("address").isValid && (
+                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
+                              ✓
+                            </span>
+                          )}
+                        </div>
+                        {errors.address && (
+                          <p id="address-error" className="text-sm text-destructive mt-1" role="alert">
+                            {errors.address.message}
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="number" className="text-base md:text-sm">Número *</Label>
+                        <div className="relative">
+                          <Input
+                            id="number"
+                            {...register("number")}
+                            placeholder="123"
+                            className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("number").className}`}
+                            aria-invalid={!!errors.number}
+                            aria-describedby={errors.number ? "number-error" : undefined}
+                            maxLength={10}
+                            onChange={(e) => {
+                              setValue("number", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                            }}
+                          />
+                          {getFieldState("number").isValid && (
+                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
+                              ✓
+                            </span>
+                          )}
+                        </div>
+                        {errors.number && (
+                          <p id="number-error" className="text-sm text-destructive mt-1" role="alert">
+                            {errors.number.message}
+                          </p>
+                        )}
+                      </div>
+                    </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div>
-                    <Label htmlFor="neighborhood" className="text-base md:text-sm">Bairro *</Label>
-                    <div className="relative">
+                    <div>
+                      <Label htmlFor="complement" className="text-base md:text-sm">
+                        Complemento <span className="text-muted-foreground">(opcional)</span>
+                      </Label>
                       <Input
-                        id="neighborhood"
-                        {...register("neighborhood")}
-                        placeholder="Bairro"
-                        className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("neighborhood").className}`}
-                        aria-invalid={!!errors.neighborhood}
-                        aria-describedby={errors.neighborhood ? "neighborhood-error" : undefined}
-                        disabled={isLoadingCep}
+                        id="complement"
+                        {...register("complement")}
+                        placeholder="Apto, Bloco, etc."
+                        className="h-12 md:h-10 text-base md:text-sm"
+                        maxLength={100}
                         onChange={(e) => {
-                          setValue("neighborhood", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                          setValue("complement", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
                         }}
                       />
-                      {getFieldState("neighborhood").isValid && (
-                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
-                          ✓
-                        </span>
-                      )}
                     </div>
-                    {errors.neighborhood && (
-                      <p id="neighborhood-error" className="text-sm text-destructive mt-1" role="alert">
-                        {errors.neighborhood.message}
-                      </p>
-                    )}
-                  </div>
-                  <div>
-                    <Label htmlFor="city" className="text-base md:text-sm">Cidade *</Label>
-                    <div className="relative">
-                      <Input
-                        id="city"
-                        {...register("city")}
-                        placeholder="Cidade"
-                        className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("city").className}`}
-                        aria-invalid={!!errors.city}
-                        aria-describedby={errors.city ? "city-error" : undefined}
-                        disabled={isLoadingCep}
-                        onChange={(e) => {
-                          setValue("city", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
-                        }}
-                      />
-                      {getFieldState("city").isValid && (
-                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
-                          ✓
-                        </span>
-                      )}
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <Label htmlFor="neighborhood" className="text-base md:text-sm">Bairro *</Label>
+                        <div className="relative">
+                          <Input
+                            id="neighborhood"
+                            {...register("neighborhood")}
+                            placeholder="Bairro"
+                            className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("neighborhood").className}`}
+                            aria-invalid={!!errors.neighborhood}
+                            aria-describedby={errors.neighborhood ? "neighborhood-error" : undefined}
+                            disabled={isLoadingCep}
+                            onChange={(e) => {
+                              setValue("neighborhood", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                            }}
+                          />
+                          {getFieldState("neighborhood").isValid && (
+                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
+                              ✓
+                            </span>
+                          )}
+                        </div>
+                        {errors.neighborhood && (
+                          <p id="neighborhood-error" className="text-sm text-destructive mt-1" role="alert">
+                            {errors.neighborhood.message}
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="city" className="text-base md:text-sm">Cidade *</Label>
+                        <div className="relative">
+                          <Input
+                            id="city"
+                            {...register("city")}
+                            placeholder="Cidade"
+                            className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("city").className}`}
+                            aria-invalid={!!errors.city}
+                            aria-describedby={errors.city ? "city-error" : undefined}
+                            disabled={isLoadingCep}
+                            onChange={(e) => {
+                              setValue("city", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                            }}
+                          />
+                          {getFieldState("city").isValid && (
+                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
+                              ✓
+                            </span>
+                          )}
+                        </div>
+                        {errors.city && (
+                          <p id="city-error" className="text-sm text-destructive mt-1" role="alert">
+                            {errors.city.message}
+                          </p>
+                        )}
+                      </div>
+                      <div>
+                        <Label htmlFor="state" className="text-base md:text-sm">Estado *</Label>
+                        <div className="relative">
+                          <Input
+                            id="state"
+                            {...register("state")}
+                            placeholder="SP"
+                            maxLength={2}
+                            className={`h-12 md:h-10 text-base md:text-sm uppercase ${getFieldState("state").className}`}
+                            aria-invalid={!!errors.state}
+                            aria-describedby={errors.state ? "state-error" : "state-help"}
+                            disabled={isLoadingCep}
+                            onChange={(e) => {
+                              const upperValue = e.target.value.toUpperCase();
+                              setValue("state", upperValue, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                            }}
+                          />
+                          {getFieldState("state").isValid && (
+                            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
+                              ✓
+                            </span>
+                          )}
+                        </div>
+                        {errors.state && (
+                          <p id="state-error" className="text-sm text-destructive mt-1" role="alert">
+                            {errors.state.message}
+                          </p>
+                        )}
+                        {!errors.state && (
+                          <p id="state-help" className="text-xs text-muted-foreground mt-1"></p>
+                        )}
+                      </div>
                     </div>
-                    {errors.city && (
-                      <p id="city-error" className="text-sm text-destructive mt-1" role="alert">
-                        {errors.city.message}
-                      </p>
-                    )}
                   </div>
-                  <div>
-                    <Label htmlFor="state" className="text-base md:text-sm">Estado *</Label>
-                    <div className="relative">
-                      <Input
-                        id="state"
-                        {...register("state")}
-                        placeholder="SP"
-                        maxLength={2}
-                        className={`h-12 md:h-10 text-base md:text-sm uppercase ${getFieldState("state").className}`}
-                        aria-invalid={!!errors.state}
-                        aria-describedby={errors.state ? "state-error" : "state-help"}
-                        disabled={isLoadingCep}
-                        onChange={(e) => {
-                          const upperValue = e.target.value.toUpperCase();
-                          setValue("state", upperValue, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
-                        }}
-                      />
-                      {getFieldState("state").isValid && (
-                        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-green-500" aria-hidden="true">
-                          ✓
-                        </span>
+                </Card>
+
+                <Card className="p-4 md:p-6 bg-card border-border">
+                  <h2 className="font-heading text-xl md:text-2xl mb-4 md:mb-6">Entrega</h2>
+                  <RadioGroup
+                    value={deliveryType}
+                    onValueChange={(value) => {
+                      setValue("deliveryType", value as CheckoutFormData["deliveryType"], { shouldDirty: true });
+                      trigger(["deliveryDate", "deliverySlot"]);
+                    }}
+                    aria-label="Tipo de entrega"
+                    className="grid grid-cols-1 md:grid-cols-2 gap-3"
+                  >
+                    <Label
+                      htmlFor="delivery-express"
+                      className={`flex items-center gap-3 rounded-md border p-4 cursor-pointer text-base md:text-sm font-normal transition-smooth ${
+                        deliveryType === "express" ? "border-secondary bg-secondary/5" : "border-border hover:border-secondary/50"
+                      }`}
+                    >
+                      <RadioGroupItem id="delivery-express" value="express" />
+                      Entrega expressa ({formatDeliveryTime(shipping?.estimatedHours ?? 2)})
+                    </Label>
+                    {deliveryDates.length > 0 && (
+                      <Label
+                        htmlFor="delivery-scheduled"
+                        className={`flex items-center gap-3 rounded-md border p-4 cursor-pointer text-base md:text-sm font-normal transition-smooth ${
+                          deliveryType === "scheduled" ? "border-secondary bg-secondary/5" : "border-border hover:border-secondary/50"
+                        }`}
+                      >
+                        <RadioGroupItem id="delivery-scheduled" value="scheduled" />
+                        Agendar entrega
+                      </Label>
+                    )}
+                  </RadioGroup>
+
+                  {deliveryType === "express" && storeStatus.opensAt && (
+                    <p className="mt-3 text-sm text-muted-foreground">
+                      Estamos fechados agora. Seu pedido sai para entrega após a abertura,{" "}
+                      {formatStoreMoment(storeStatus.opensAt)}.
+                    </p>
+                  )}
+
+                  {deliveryType === "scheduled" && (
+                    <div className="mt-4 space-y-4">
+                      <div>
+                        <p className="text-base md:text-sm font-medium mb-2">Data</p>
+                        <RadioGroup
+                          value={deliveryDate}
+                          onValueChange={(value) => {
+                            setValue("deliveryDate", value, { shouldValidate: true, shouldDirty: true });
+                            setValue("deliverySlot", "", { shouldDirty: true });
+                          }}
+                          aria-label="Data da entrega"
+                          className="flex flex-wrap gap-2"
+                        >
+                          {deliveryDates.map((date) => (
+                            <Label
+                              key={date}
+                              htmlFor={`delivery-date-${date}`}
+                              className={`flex items-center gap-2 rounded-md border px-3 py-2 cursor-pointer text-sm font-normal capitalize transition-smooth ${
+                                deliveryDate === date ? "border-secondary bg-secondary/5" : "border-border hover:border-secondary/50"
+                              }`}
+                            >
+                              <RadioGroupItem id={`delivery-date-${date}`} value={date} />
+                              {formatDeliveryDate(date)}
+                            </Label>
+                          ))}
+                        </RadioGroup>
+                        {errors.deliveryDate && (
+                          <p className="text-sm text-destructive mt-1" role="alert">
+                            {errors.deliveryDate.message}
+                          </p>
+                        )}
+                      </div>
+
+                      {deliveryDate && (
+                        <div>
+                          <p className="text-base md:text-sm font-medium mb-2">Horário</p>
+                          <RadioGroup
+                            value={deliverySlotValue}
+                            onValueChange={(value) => {
+                              setValue("deliverySlot", value, { shouldValidate: true, shouldDirty: true });
+                            }}
+                            aria-label="Horário da entrega"
+                            className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+                          >
+                            {deliverySlots.map((slot) => (
+                              <Label
+                                key={slot.id}
+                                htmlFor={`delivery-slot-${slot.id}`}
+                                className={`flex items-center gap-2 rounded-md border px-3 py-2 text-sm font-normal transition-smooth ${
+                                  !slot.isAvailable
+                                    ? "border-border opacity-50 cursor-not-allowed"
+                                    : deliverySlotValue === slot.id
+                                      ? "border-secondary bg-secondary/5 cursor-pointer"
+                                      : "border-border hover:border-secondary/50 cursor-pointer"
+                                }`}
+                              >
+                                <RadioGroupItem id={`delivery-slot-${slot.id}`} value={slot.id} disabled={!slot.isAvailable} />
+                                {slot.label}
+                                {slot.remaining === 0 ? (
+                                  <span className="ml-auto text-xs text-muted-foreground">Esgotado</span>
+                                ) : slot.isAvailable && slot.remaining <= 2 ? (
+                                  <span className="ml-auto text-xs text-secondary">Últimas vagas</span>
+                                ) : null}
+                              </Label>
+                            ))}
+                          </RadioGroup>
+                        </div>
+                      )}
+                      {errors.deliverySlot && (
+                        <p className="text-sm text-destructive mt-1" role="alert">
+                          {errors.deliverySlot.message}
+                        </p>
                       )}
                     </div>
-                    {errors.state && (
-                      <p id="state-error" className="text-sm text-destructive mt-1" role="alert">
-                        {errors.state.message}
-                      </p>
-                    )}
-                    {!errors.state && (
-                      <p id="state-help" className="text-xs text-muted-foreground mt-1"></p>
-                    )}
-                  </div>
+                  )}
+                </Card>
+              </>
+            )}
+
+            <Card className="p-4 md:p-6 bg-card border-border">
+              <h2 className="font-heading text-xl md:text-2xl mb-4 md:mb-6">Forma de Pagamento</h2>
+              <RadioGroup
+                value={paymentMethod}
+                onValueChange={(value) => {
+                  setValue("paymentMethod", value as CheckoutFormData["paymentMethod"], { shouldValidate: true, shouldDirty: true });
+                  trigger("changeFor");
+                }}
+                aria-label="Forma de pagamento"
+                aria-describedby={errors.paymentMethod ? "paymentMethod-error" : "paymentMethod-help"}
+                className="grid grid-cols-1 md:grid-cols-2 gap-3"
+              >
+                {PAYMENT_METHODS.map((method) => (
+                  <Label
+                    key={method}
+                    htmlFor={`payment-${method}`}
+                    className={`flex items-center gap-3 rounded-md border p-4 cursor-pointer text-base md:text-sm font-normal transition-smooth ${
+                      paymentMethod === method ? "border-secondary bg-secondary/5" : "border-border hover:border-secondary/50"
+                    }`}
+                  >
+                    <RadioGroupItem id={`payment-${method}`} value={method} />
+                    {getPaymentMethodLabel(method, fulfillment)}
+                  </Label>
+                ))}
+              </RadioGroup>
+              {errors.paymentMethod ? (
+                <p id="paymentMethod-error" className="text-sm text-destructive mt-2" role="alert">
+                  {errors.paymentMethod.message}
+                </p>
+              ) : (
+                <p id="paymentMethod-help" className="text-xs text-muted-foreground mt-2">
+                  {isPickup
+                    ? "Cartão e dinheiro são pagos na retirada, na loja."
+                    : "Cartão e dinheiro são pagos na entrega; o entregador leva a maquininha."}
+                </p>
+              )}
+
+              {paymentMethod === "cash" && (
+                <div className="mt-4">
+                  <Label htmlFor="changeFor" className="text-base md:text-sm">
+                    Troco para <span className="text-muted-foreground">(opcional)</span>
+                  </Label>
+                  <Input
+                    id="changeFor"
+                    {...register("changeFor")}
+                    inputMode="decimal"
+                    placeholder="Ex: 100,00"
+                    className={`h-12 md:h-10 text-base md:text-sm ${getFieldState("changeFor").className}`}
+                    aria-invalid={!!errors.changeFor}
+                    aria-describedby={errors.changeFor ? "changeFor-error" : "changeFor-help"}
+                    onChange={(e) => {
+                      setValue("changeFor", e.target.value, { shouldValidate: true, shouldDirty: true, shouldTouch: true });
+                    }}
+                  />
+                  {errors.changeFor ? (
+                    <p id="changeFor-error" className="text-sm text-destructive mt-1" role="alert">
+                      {errors.changeFor.message}
+                    </p>
+                  ) : (
+                    <p id="changeFor-help" className="text-xs text-muted-foreground mt-1">
+                      Deixe em branco se não precisar de troco
+                    </p>
+                  )}
                 </div>
-              </div>
+              )}
             </Card>
           </form>
 
@@ -560,16 +1043,29 @@ const Checkout = () => {
             <Card className="p-4 md:p-6 bg-card border-border lg:sticky lg:top-24">
               <h2 className="font-heading text-xl md:text-2xl mb-4 md:mb-6">Resumo do Pedido</h2>
               <div className="space-y-2 md:space-y-3 mb-3 md:mb-4 lg:mb-6">
-                  {items.map((item) => (
-                    <div key={item.id} className="flex justify-between text-xs md:text-sm">
-                      <span className="text-foreground/90">
-                        {item.quantity}x {item.name}
-                      </span>
-                      <span className="font-body">
-                        R$ {(item.price * item.quantity).toFixed(2)}
-                      </span>
-                    </div>
-                  ))}
+                  {items.map((item) => {
+                    const shortage = stockShortages[getCartItemKey(item)];
+
+                    return (
+                      <div key={getCartItemKey(item)}>
+                        <div className="flex justify-between text-xs md:text-sm">
+                          <span className="text-foreground/90">
+                            {item.quantity}x {getCartItemName(item)}
+                          </span>
+                          <span className="font-body">
+                            R$ {(item.price * item.quantity).toFixed(2)}
+                          </span>
+                        </div>
+                        {shortage && (
+                          <p className="text-xs text-destructive mt-0.5" role="alert">
+                            {shortage.available === 0
+                              ? "Produto esgotado"
+                              : `Só restam ${shortage.available} unidades`}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
               </div>
 
               <Separator className="my-2 md:my-3 lg:my-4" />
@@ -583,7 +1079,7 @@ const Checkout = () => {
                     <span>Frete</span>
                     {shipping && shipping.isValid ? (
                       <span className={shipping.isFree ? "text-green-600 font-semibold" : "text-foreground"}>
-                        {shipping.isFree ? "GRÁTIS" : `R$ ${shipping.cost.toFixed(2)}`}
+                        {isPickup ? "Retirada na loja" : shipping.isFree ? "GRÁTIS" : `R$ ${shipping.cost.toFixed(2)}`}
                       </span>
                     ) : (
                       <span className="text-destructive">Não calculado</span>
@@ -596,10 +1092,33 @@ const Checkout = () => {
                       R$ {shipping && shipping.isValid ? grandTotal.toFixed(2) : total.toFixed(2)}
                     </span>
                   </div>
-                  {shipping && shipping.isValid && (
+                  {shipping && shipping.isValid && selectedSlot && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground pt-2">
+                      <CalendarClock className="h-3 w-3" />
+                      <span>Entrega agendada: {formatDeliverySlot(selectedSlot.start, selectedSlot.end)}</span>
+                    </div>
+                  )}
+                  {shipping && shipping.isValid && isPickup && pickupSettings && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground pt-2">
+                      <Store className="h-3 w-3" />
+                      <span>Retirada na loja: {pickupSettings.address}</span>
+                    </div>
+                  )}
+                  {shipping && shipping.isValid && !isPickup && !selectedSlot && (
                     <div className="flex items-center gap-2 text-xs text-muted-foreground pt-2">
                       <Truck className="h-3 w-3" />
-                      <span>Entrega em até 2 horas</span>
+                      <span>
+                        {storeStatus.opensAt
+                          ? `Entrega após a abertura, ${formatStoreMoment(storeStatus.opensAt)}`
+                          : `Entrega em ${formatDeliveryTime(shipping.estimatedHours ?? 2)}`}
+                        {shipping.zone && ` · ${shipping.zone}`}
+                      </span>
+                    </div>
+                  )}
+                  {paymentMethod && (
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <CreditCard className="h-3 w-3" />
+                      <span>{formatPaymentMethod(paymentMethod, parseChangeFor(changeForValue), fulfillment)}</span>
                     </div>
                   )}
               </div>
@@ -607,7 +1126,7 @@ const Checkout = () => {
               <Button
                   type="button"
                   size="lg"
-                  disabled={isSubmitting || isLoadingCep || !shipping || !shipping.isValid}
+                  disabled={isSubmitting || isLoadingCep || !shipping || !shipping.isValid || hasStockShortages}
                   onClick={handleSubmit(onSubmit)}
                   className="w-full gradient-wine text-white hover:opacity-90 font-semibold"
                 >
@@ -624,6 +1143,18 @@ const Checkout = () => {
                   )}
               </Button>
 
+              {hasStockShortages && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate("/carrinho")}
+                  className="w-full mt-2"
+                >
+                  Ajustar quantidades no carrinho
+                </Button>
+              )}
+
               <p className="text-xs text-muted-foreground text-center mt-2 md:mt-3 lg:mt-4">
                 Você será redirecionado para o WhatsApp para confirmar seu pedido
               </p>
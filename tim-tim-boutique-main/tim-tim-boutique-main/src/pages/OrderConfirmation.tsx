@@ -3,95 +3,154 @@ import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
-import { CheckCircle2, Package, MapPin, User, Phone, Mail, Home } from "lucide-react";
-
-// Order type for confirmation page (read from sessionStorage)
-interface OrderData {
-  id: string;
-  date: string;
-  items: Array<{
-    id: string;
-    name: string;
-    price: number;
-    quantity: number;
-    image: string;
-  }>;
-  subtotal: number;
-  shippingCost: number;
-  shippingIsFree: boolean;
-  total: number;
-  estimatedDelivery: string;
-  shippingAddress: {
-    cep: string;
-    street: string;
-    number: string;
-    complement?: string;
-    neighborhood: string;
-    city: string;
-    state: string;
-  };
-  customerInfo: {
-    name: string;
-    email?: string;
-    phone: string;
-  };
-  status: string;
-}
+import { CheckCircle2, Package, MapPin, User, Phone, Mail, Home, MessageCircle, Printer, Search, Store } from "lucide-react";
+import OrderStatusTimeline from "@/components/OrderStatusTimeline";
+import OrderReceipt from "@/components/OrderReceipt";
+import PixPayment from "@/components/PixPayment";
+import { useOrders } from "@/contexts/OrderContext";
+import { trackOrder } from "@/services/orderService";
+import { getPickupSettings, getPixSettings } from "@/services/settingsService";
+import { generatePixPayload } from "@/lib/pix";
+import { generateWhatsAppUrl, orderToMessageData } from "@/lib/whatsappMessage";
+import { formatPaymentMethod } from "@/lib/payment";
+import { formatDeliverySlot } from "@/lib/deliverySlots";
+import { formatStoreMoment } from "@/lib/storeHours";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import type { PickupSettings, PixSettings } from "@/types";
 
+// Confirmation page shown after checkout (/pedido-confirmado?orderId=TIM-2026-000123)
 const OrderConfirmation = () => {
   const [searchParams] = useSearchParams();
-  const orderId = searchParams.get("orderId");
+  const orderNumber = searchParams.get("orderId");
   const navigate = useNavigate();
-  const [order, setOrder] = useState<OrderData | null>(null);
+  const { lastOrder, setLastOrder } = useOrders();
+
+  // The last order is kept in sessionStorage, so it survives a refresh
+  const order = lastOrder && lastOrder.orderNumber === orderNumber ? lastOrder : null;
+  const trackingNumber = order?.orderNumber;
+  const trackingContact = order?.customerInfo.phone;
+  const [pixSettings, setPixSettings] = useState<PixSettings | null>(null);
+  const [pickupSettings, setPickupSettings] = useState<PickupSettings | null>(null);
+
+  // PIX orders show the QR code until the order is cancelled
+  const awaitingPix = order?.paymentMethod === "pix" && order.status !== "cancelled";
+  const isPickup = order?.fulfillmentMethod === "pickup";
 
   useEffect(() => {
-    // Redirect to home if no order ID
-    if (!orderId) {
+    // Redirect to home if no order number
+    if (!orderNumber) {
       navigate("/");
-      return;
     }
+  }, [orderNumber, navigate]);
 
-    // Get order details from sessionStorage (Requirements 1.4, 1.5)
-    try {
-      const orderJson = sessionStorage.getItem("tim-tim-last-order");
-      if (!orderJson) {
-        navigate("/");
-        return;
-      }
-
-      const orderData = JSON.parse(orderJson) as OrderData;
-      
-      // Verify order ID matches
-      if (orderData.id !== orderId) {
-        navigate("/");
-        return;
-      }
-
-      setOrder(orderData);
-    } catch (error) {
-      console.error("Error loading order:", error);
-      navigate("/");
-    }
-  }, [orderId, navigate]);
+  // Reload the persisted order: the status may have changed since checkout
+  useEffect(() => {
+    if (!trackingNumber || !trackingContact) return;
 
-  if (!order) {
+    let cancelled = false;
+
+    trackOrder(trackingNumber, trackingContact)
+      .then((persisted) => {
+        if (!cancelled && persisted) {
+          setLastOrder(persisted);
+        }
+      })
+      .catch((error) => {
+        console.error("Error reloading order:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trackingNumber, trackingContact, setLastOrder]);
+
+  // Load the store PIX key (no QR code while it is not configured)
+  useEffect(() => {
+    if (!awaitingPix) return;
+
+    let cancelled = false;
+
+    getPixSettings()
+      .then((settings) => {
+        if (!cancelled) {
+          setPixSettings(settings);
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading PIX settings:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [awaitingPix]);
+
+  // Pickup orders show the store address
+  useEffect(() => {
+    if (!isPickup) return;
+
+    let cancelled = false;
+
+    getPickupSettings()
+      .then((settings) => {
+        if (!cancelled) {
+          setPickupSettings(settings);
+        }
+      })
+      .catch((error) => {
+        console.error("Error loading pickup settings:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isPickup]);
+
+  if (!orderNumber) {
     return null;
   }
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString("pt-BR", {
-      day: "2-digit",
-      month: "long",
-      year: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
+  if (!order) {
+    return (
+      <div className="min-h-screen pt-24 pb-20">
+        <div className="container mx-auto px-4 sm:px-6 max-w-2xl text-center">
+          <div className="flex justify-center mb-4">
+            <div className="rounded-full bg-secondary/10 p-4">
+              <Package className="h-16 w-16 text-secondary" />
+            </div>
+          </div>
+          <h1 className="font-heading text-3xl mb-2">Pedido {orderNumber}</h1>
+          <p className="text-muted-foreground mb-8">
+            Não encontramos os detalhes deste pedido nesta sessão.
+            <br />
+            Consulte o pedido pelo número e o email ou telefone usado na compra.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <Button onClick={() => navigate("/perfil")} className="gradient-wine text-white">
+              <Search className="mr-2 h-4 w-4" />
+              Rastrear Pedido
+            </Button>
+            <Button onClick={() => navigate("/")} variant="outline">
+              <Home className="mr-2 h-4 w-4" />
+              Voltar para Home
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const pixCode = awaitingPix && pixSettings
+    ? generatePixPayload({ ...pixSettings, amount: order.total, txid: order.orderNumber })
+    : undefined;
+
+  const handleResendWhatsApp = () => {
+    window.open(generateWhatsAppUrl(orderToMessageData(order, pixCode, pickupSettings)), "_blank");
   };
 
   return (
-    <div className="min-h-screen pt-24 pb-20">
-      <div className="container mx-auto px-4 sm:px-6 max-w-4xl">
+    <div className="min-h-screen pt-24 pb-20 print:p-0">
+      <div className="container mx-auto px-4 sm:px-6 max-w-4xl print:hidden">
         {/* Success Header */}
         <div className="text-center mb-8">
           <div className="flex justify-center mb-4">
@@ -111,13 +170,27 @@ const OrderConfirmation = () => {
         <Card className="p-6 mb-6 bg-secondary/10 border-secondary">
           <div className="text-center">
             <p className="text-sm text-muted-foreground mb-1">Número do Pedido</p>
-            <p className="font-heading text-2xl text-secondary">{order.id}</p>
+            <p className="font-heading text-2xl text-secondary">{order.orderNumber}</p>
             <p className="text-sm text-muted-foreground mt-2">
               {formatDate(order.createdAt)}
             </p>
           </div>
         </Card>
 
+        {/* PIX Payment */}
+        {pixCode && (
+          <Card className="p-6 mb-6">
+            <h2 className="font-heading text-xl mb-4 text-center">Pague com PIX</h2>
+            <PixPayment payload={pixCode} amount={order.total} className="max-w-md mx-auto" />
+          </Card>
+        )}
+
+        {/* Status */}
+        <Card className="p-6 mb-6">
+          <h2 className="font-heading text-xl mb-4">Andamento</h2>
+          <OrderStatusTimeline status={order.status} history={order.statusHistory} />
+        </Card>
+
         {/* Order Items */}
         <Card className="p-6 mb-6">
           <div className="flex items-center gap-2 mb-4">
@@ -127,41 +200,36 @@ const OrderConfirmation = () => {
           <div className="space-y-4">
             {order.items.map((item) => (
               <div key={item.id} className="flex justify-between items-start">
-                <div className="flex gap-4">
-                  <img
-                    src={item.image}
-                    alt={item.name}
-                    className="w-16 h-16 object-cover rounded"
-                  />
-                  <div>
-                    <p className="font-medium">{item.name}</p>
-                    <p className="text-sm text-muted-foreground">
-                      Quantidade: {item.quantity}
-                    </p>
-                  </div>
+                <div>
+                  <p className="font-medium">{item.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Quantidade: {item.quantity}
+                  </p>
                 </div>
-                <p className="font-medium">
-                  R$ {(item.price * item.quantity).toFixed(2)}
-                </p>
+                <p className="font-medium">{formatCurrency(item.subtotal)}</p>
               </div>
             ))}
           </div>
-          
+
           <Separator className="my-4" />
-          
+
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Subtotal</span>
-              <span>R$ {order.subtotal.toFixed(2)}</span>
+              <span>{formatCurrency(order.subtotal)}</span>
             </div>
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Frete</span>
-              <span>R$ {order.shippingCost.toFixed(2)}</span>
+              <span>
+                {isPickup
+                  ? "Retirada na loja"
+                  : order.shippingIsFree ? "Grátis" : formatCurrency(order.shippingCost)}
+              </span>
             </div>
             <Separator />
             <div className="flex justify-between font-heading text-lg">
               <span>Total</span>
-              <span className="text-secondary">R$ {order.total.toFixed(2)}</span>
+              <span className="text-secondary">{formatCurrency(order.total)}</span>
             </div>
           </div>
         </Card>
@@ -190,43 +258,90 @@ const OrderConfirmation = () => {
           </div>
         </Card>
 
+        {/* Store Pickup */}
+        {!order.shippingAddress && (
+          <Card className="p-6 mb-6">
+            <div className="flex items-center gap-2 mb-4">
+              <Store className="h-5 w-5 text-secondary" />
+              <h2 className="font-heading text-xl">Retirada na Loja</h2>
+            </div>
+            <div className="text-muted-foreground">
+              {pickupSettings && <p>{pickupSettings.address}</p>}
+              {order.estimatedDeliveryTime && (
+                <p className="mt-2 font-medium text-foreground">
+                  Pronto para retirada a partir de {formatStoreMoment(new Date(order.estimatedDeliveryTime))}
+                </p>
+              )}
+              {pickupSettings?.instructions && <p className="mt-2">{pickupSettings.instructions}</p>}
+            </div>
+          </Card>
+        )}
+
         {/* Shipping Address */}
-        <Card className="p-6 mb-6">
-          <div className="flex items-center gap-2 mb-4">
-            <MapPin className="h-5 w-5 text-secondary" />
-            <h2 className="font-heading text-xl">Endereço de Entrega</h2>
-          </div>
-          <div className="text-muted-foreground">
-            <p>{order.shippingAddress.street}, {order.shippingAddress.number}</p>
-            {order.shippingAddress.complement && (
-              <p>{order.shippingAddress.complement}</p>
-            )}
-            <p>{order.shippingAddress.neighborhood}</p>
-            <p>
-              {order.shippingAddress.city} - {order.shippingAddress.state}
-            </p>
-            <p>CEP: {order.shippingAddress.cep}</p>
-          </div>
-        </Card>
+        {order.shippingAddress && (
+          <Card className="p-6 mb-6">
+            <div className="flex items-center gap-2 mb-4">
+              <MapPin className="h-5 w-5 text-secondary" />
+              <h2 className="font-heading text-xl">Endereço de Entrega</h2>
+            </div>
+            <div className="text-muted-foreground">
+              <p>{order.shippingAddress.street}, {order.shippingAddress.number}</p>
+              {order.shippingAddress.complement && (
+                <p>{order.shippingAddress.complement}</p>
+              )}
+              <p>{order.shippingAddress.neighborhood}</p>
+              <p>
+                {order.shippingAddress.city} - {order.shippingAddress.state}
+              </p>
+              <p>CEP: {order.shippingAddress.cep}</p>
+              {order.estimatedDeliveryTime && order.deliveryWindowEnd && (
+                <p className="mt-2 font-medium text-foreground">
+                  Entrega agendada: {formatDeliverySlot(order.estimatedDeliveryTime, order.deliveryWindowEnd)}
+                </p>
+              )}
+            </div>
+          </Card>
+        )}
 
         {/* Payment Method */}
-        <Card className="p-6 mb-8">
-          <h2 className="font-heading text-xl mb-2">Forma de Pagamento</h2>
-          <p className="text-muted-foreground">{order.paymentMethod}</p>
-        </Card>
+        {order.paymentMethod && (
+          <Card className="p-6 mb-6">
+            <h2 className="font-heading text-xl mb-2">Forma de Pagamento</h2>
+            <p className="text-muted-foreground">{formatPaymentMethod(order.paymentMethod, order.changeFor, order.fulfillmentMethod)}</p>
+          </Card>
+        )}
 
         {/* Action Buttons */}
-        <div className="flex flex-col sm:flex-row gap-4">
+        <div className="flex flex-col sm:flex-row gap-4 mt-8">
+          <Button
+            onClick={handleResendWhatsApp}
+            className="flex-1 gradient-wine text-white"
+          >
+            <MessageCircle className="mr-2 h-4 w-4" />
+            Reenviar para o WhatsApp
+          </Button>
+          <Button
+            onClick={() => window.print()}
+            variant="outline"
+            className="flex-1"
+          >
+            <Printer className="mr-2 h-4 w-4" />
+            Imprimir Comprovante
+          </Button>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-4 mt-4">
           <Button
             onClick={() => navigate("/perfil")}
             variant="outline"
             className="flex-1"
           >
-            Ver Meus Pedidos
+            <Search className="mr-2 h-4 w-4" />
+            Rastrear Pedido
           </Button>
           <Button
             onClick={() => navigate("/")}
-            className="flex-1 gradient-wine text-white"
+            variant="outline"
+            className="flex-1"
           >
             <Home className="mr-2 h-4 w-4" />
             Voltar para Home
@@ -238,10 +353,13 @@ const OrderConfirmation = () => {
           <p className="text-sm text-muted-foreground text-center">
             Você receberá atualizações sobre seu pedido por WhatsApp.
             <br />
-            Em caso de dúvidas, entre em contato conosco.
+            Para salvar o comprovante em PDF, use "Imprimir Comprovante" e escolha "Salvar como PDF".
           </p>
         </div>
       </div>
+
+      {/* Printable receipt (only visible when printing) */}
+      <OrderReceipt order={order} className="hidden print:block" />
     </div>
   );
 };
@@ -3,27 +3,63 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { useProducts } from "@/contexts/ProductContext";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { getProductById } from "@/services/productService";
 import { ArrowLeft, MessageCircle, ShoppingCart, Plus, Minus } from "lucide-react";
 import { useCart } from "@/contexts/CartContext";
 import { useToast } from "@/hooks/use-toast";
 import OptimizedImage from "@/components/OptimizedImage";
-import { useState } from "react";
+import LoadingSpinner from "@/components/LoadingSpinner";
+import DeliveryChecker from "@/components/DeliveryChecker";
+import { getCartItemName, getDefaultVariant, hasVariants, toCartProduct } from "@/lib/productVariants";
+import { getDiscountPercent, getSalePrice } from "@/lib/salePricing";
+import { formatDateShort } from "@/lib/formatters";
+import { useEffect, useState } from "react";
+import type { Product } from "@/types";
 
 const ProductDetail = () => {
   const { id } = useParams();
-  // ✅ Usar ProductContext para obter produtos em tempo real
-  const { products } = useProducts();
-  const product = products.find(p => p.id === id);
+  const [product, setProduct] = useState<Product | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
   const { addItem } = useCart();
   const { toast } = useToast();
   const [quantity, setQuantity] = useState(1);
   const [isAdding, setIsAdding] = useState(false);
+  const [variantId, setVariantId] = useState<string | null>(null);
+
+  // ✅ Carrega só este produto (não o catálogo inteiro)
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setVariantId(null);
+    setQuantity(1);
+
+    getProductById(id).then((found) => {
+      if (!cancelled) {
+        setProduct(found);
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  // Products sold in variants show the price, stock and image of the chosen one
+  const variant = product
+    ? product.variants?.find(v => v.id === variantId) ?? getDefaultVariant(product)
+    : undefined;
+  const selected = product ? toCartProduct(product, variant) : undefined;
 
   // Default stock to 10 if not specified
-  const availableStock = product?.stock ?? 10;
+  const availableStock = selected?.stock ?? 10;
   const isOutOfStock = availableStock === 0;
 
+  if (isLoading) {
+    return <LoadingSpinner />;
+  }
+
   if (!product) {
     return (
       <div className="min-h-screen pt-24 pb-20 flex items-center justify-center">
@@ -41,7 +77,7 @@ const ProductDetail = () => {
   }
 
   const handleWhatsAppContact = () => {
-    const message = `Olá! Tenho interesse no produto: ${product.name}`;
+    const message = `Olá! Tenho interesse no produto: ${getCartItemName(selected)}`;
     const whatsappUrl = `https://wa.me/5581995985278?text=${encodeURIComponent(message)}`;
     window.open(whatsappUrl, '_blank');
   };
@@ -54,7 +90,7 @@ const ProductDetail = () => {
     // Add items based on selected quantity (Requirement 6.3)
     let addedCount = 0;
     for (let i = 0; i < quantity; i++) {
-      const success = addItem(product);
+      const success = addItem(product, variant);
       if (success) {
         addedCount++;
       } else {
@@ -66,7 +102,7 @@ const ProductDetail = () => {
     if (addedCount > 0) {
       toast({
         title: "Produto adicionado!",
-        description: `${addedCount}x ${product.name} ${addedCount > 1 ? 'foram adicionados' : 'foi adicionado'} ao carrinho.`,
+        description: `${addedCount}x ${getCartItemName(selected)} ${addedCount > 1 ? 'foram adicionados' : 'foi adicionado'} ao carrinho.`,
       });
     }
     
@@ -108,6 +144,13 @@ const ProductDetail = () => {
     handleQuantityChange(quantity - 1);
   };
 
+  const handleVariantChange = (id: string) => {
+    // Radix sends "" when the selected item is clicked again
+    if (!id) return;
+    setVariantId(id);
+    setQuantity(1);
+  };
+
   return (
     <div className="min-h-screen pt-40 pb-20">
       <div className="container mx-auto px-6">
@@ -120,8 +163,8 @@ const ProductDetail = () => {
           {/* Product Image */}
           <div className="aspect-square overflow-hidden rounded-lg bg-muted shadow-premium">
             <OptimizedImage
-              src={product.image}
-              alt={product.name}
+              src={selected.image}
+              alt={getCartItemName(selected)}
               className="w-full h-full object-cover"
               sizes="(max-width: 768px) 100vw, 50vw"
               priority={true}
@@ -141,11 +184,58 @@ const ProductDetail = () => {
             </div>
 
             <div className="mb-6">
+              {selected.originalPrice && (
+                <div className="flex items-center gap-3 mb-1">
+                  <span className="text-lg text-muted-foreground line-through">
+                    <span className="sr-only">De </span>R$ {selected.originalPrice.toFixed(2)}
+                  </span>
+                  <Badge variant="destructive">
+                    -{getDiscountPercent(selected.originalPrice, selected.price)}%
+                  </Badge>
+                </div>
+              )}
               <span className="text-4xl font-heading text-secondary">
-                R$ {product.price.toFixed(2)}
+                {selected.originalPrice && <span className="sr-only">Por </span>}
+                R$ {selected.price.toFixed(2)}
               </span>
+              {selected.originalPrice && product.sale?.endsAt && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Oferta válida até {formatDateShort(product.sale.endsAt)}
+                </p>
+              )}
             </div>
 
+            {/* Variant Picker */}
+            {hasVariants(product) && (
+              <div className="mb-6">
+                <p id="variant-label" className="text-sm text-muted-foreground mb-2">Volume</p>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={variant?.id ?? ""}
+                  onValueChange={handleVariantChange}
+                  aria-labelledby="variant-label"
+                  className="flex-wrap justify-start gap-2"
+                >
+                  {product.variants.map(option => (
+                    <ToggleGroupItem
+                      key={option.id}
+                      value={option.id}
+                      aria-label={`${option.volume}, R$ ${getSalePrice(product, option.price).toFixed(2)}${option.stock === 0 ? ", fora de estoque" : ""}`}
+                      className={`h-auto flex-col items-start px-4 py-2 data-[state=on]:border-secondary data-[state=on]:text-secondary ${
+                        option.stock === 0 ? "opacity-60" : ""
+                      }`}
+                    >
+                      <span className="font-semibold">{option.volume}</span>
+                      <span className="text-xs">
+                        {option.stock === 0 ? "Esgotado" : `R$ ${getSalePrice(product, option.price).toFixed(2)}`}
+                      </span>
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+            )}
+
             <p className="text-foreground/90 mb-6 leading-relaxed">
               {product.description}
             </p>
@@ -158,7 +248,7 @@ const ProductDetail = () => {
                 </div>
                 <div>
                   <p className="text-muted-foreground mb-1">Volume</p>
-                  <p className="font-body font-semibold">{product.volume}</p>
+                  <p className="font-body font-semibold">{selected.volume}</p>
                 </div>
               </div>
             </Card>
@@ -251,6 +341,11 @@ const ProductDetail = () => {
               )}
             </Card>
 
+            {/* Delivery time and shipping for the customer's CEP */}
+            {!isOutOfStock && (
+              <DeliveryChecker product={selected} quantity={quantity} className="mb-6" />
+            )}
+
             <div className="grid grid-cols-2 gap-3 mb-4">
               <Button
                 onClick={handleAddToCart}
@@ -4,23 +4,46 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
-import { Package, Search } from "lucide-react";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, MapPin, Package, Search, Store } from "lucide-react";
 import { toast } from "sonner";
+import OrderStatusTimeline from "@/components/OrderStatusTimeline";
+import { trackOrder } from "@/services/orderService";
+import { getOrderStatusLabel } from "@/lib/orderStatus";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import type { Order } from "@/types";
 
-// Temporary simplified Profile page - will be converted to order tracking in Task 9
+// Order tracking: the customer looks an order up by number + email or phone
 const Profile = () => {
   const navigate = useNavigate();
   const [orderNumber, setOrderNumber] = useState("");
-  const [email, setEmail] = useState("");
+  const [contact, setContact] = useState("");
+  const [isSearching, setIsSearching] = useState(false);
+  const [order, setOrder] = useState<Order | null>(null);
+  const [notFound, setNotFound] = useState(false);
 
-  const handleTrackOrder = () => {
-    if (!orderNumber || !email) {
+  const handleTrackOrder = async () => {
+    if (!orderNumber.trim() || !contact.trim()) {
       toast.error("Por favor, preencha todos os campos");
       return;
     }
-    
-    // TODO: Task 9 - Implement order tracking with Supabase
-    toast.info("Funcionalidade de rastreamento será implementada na Task 9");
+
+    setIsSearching(true);
+    setNotFound(false);
+
+    try {
+      const result = await trackOrder(orderNumber, contact);
+      setOrder(result);
+      setNotFound(!result);
+    } catch (error) {
+      console.error("Error tracking order:", error);
+      setOrder(null);
+      toast.error("Erro ao consultar pedido", {
+        description: "Tente novamente em alguns instantes.",
+      });
+    } finally {
+      setIsSearching(false);
+    }
   };
 
   return (
@@ -41,46 +64,150 @@ const Profile = () => {
         </div>
 
         <Card className="p-6">
-          <div className="space-y-4">
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleTrackOrder();
+            }}
+          >
             <div>
               <Label htmlFor="orderNumber">Número do Pedido</Label>
               <Input
                 id="orderNumber"
-                placeholder="Ex: TIM-2024-001"
+                placeholder="Ex: TIM-2026-000123"
                 value={orderNumber}
                 onChange={(e) => setOrderNumber(e.target.value)}
               />
             </div>
-            
+
             <div>
-              <Label htmlFor="email">Email usado na compra</Label>
+              <Label htmlFor="contact">Email ou telefone usado na compra</Label>
               <Input
-                id="email"
-                type="email"
-                placeholder="seu@email.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
+                id="contact"
+                placeholder="seu@email.com ou (81) 99999-9999"
+                value={contact}
+                onChange={(e) => setContact(e.target.value)}
               />
             </div>
 
             <Button
-              onClick={handleTrackOrder}
+              type="submit"
+              disabled={isSearching}
               className="w-full gradient-wine text-white"
             >
-              <Search className="mr-2 h-4 w-4" />
-              Rastrear Pedido
+              {isSearching ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Search className="mr-2 h-4 w-4" />
+              )}
+              {isSearching ? "Buscando..." : "Rastrear Pedido"}
             </Button>
-          </div>
+          </form>
 
-          <div className="mt-6 p-4 bg-muted/50 rounded-lg">
-            <p className="text-sm text-muted-foreground text-center">
-              Esta funcionalidade será implementada na Task 9.
-              <br />
-              Por enquanto, você pode navegar pelo site sem necessidade de login.
-            </p>
-          </div>
+          {notFound && (
+            <div className="mt-6 p-4 bg-muted/50 rounded-lg" role="status">
+              <p className="text-sm text-muted-foreground text-center">
+                Nenhum pedido encontrado com esses dados.
+                <br />
+                Confira o número do pedido e o email ou telefone informados no checkout.
+              </p>
+            </div>
+          )}
         </Card>
 
+        {order && (
+          <Card className="p-6 mt-6">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 mb-6">
+              <div>
+                <p className="text-sm text-muted-foreground">Pedido</p>
+                <p className="font-heading text-2xl text-secondary">{order.orderNumber}</p>
+                <p className="text-sm text-muted-foreground">{formatDate(order.createdAt)}</p>
+              </div>
+              <p className="text-sm">
+                Status: <span className="font-medium">{getOrderStatusLabel(order.status)}</span>
+              </p>
+            </div>
+
+            <OrderStatusTimeline status={order.status} history={order.statusHistory} className="mb-6" />
+
+            {order.cancellationReason && (
+              <p className="text-sm text-muted-foreground mb-6">
+                Motivo do cancelamento: {order.cancellationReason}
+              </p>
+            )}
+
+            <Separator className="my-4" />
+
+            <h2 className="font-heading text-xl mb-3">Itens do Pedido</h2>
+            <div className="space-y-2">
+              {order.items.map((item) => (
+                <div key={item.id} className="flex justify-between text-sm">
+                  <span>
+                    {item.quantity}x {item.name}
+                  </span>
+                  <span>{formatCurrency(item.subtotal)}</span>
+                </div>
+              ))}
+            </div>
+
+            <Separator className="my-4" />
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatCurrency(order.subtotal)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Frete</span>
+                <span>
+                  {order.fulfillmentMethod === "pickup"
+                    ? "Retirada na loja"
+                    : order.shippingIsFree ? "Grátis" : formatCurrency(order.shippingCost)}
+                </span>
+              </div>
+              <div className="flex justify-between font-heading text-lg">
+                <span>Total</span>
+                <span className="text-secondary">{formatCurrency(order.total)}</span>
+              </div>
+            </div>
+
+            <Separator className="my-4" />
+
+            {order.shippingAddress ? (
+              <>
+                <div className="flex items-center gap-2 mb-2">
+                  <MapPin className="h-5 w-5 text-secondary" />
+                  <h2 className="font-heading text-xl">Endereço de Entrega</h2>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  <p>{order.shippingAddress.street}, {order.shippingAddress.number}</p>
+                  {order.shippingAddress.complement && (
+                    <p>{order.shippingAddress.complement}</p>
+                  )}
+                  <p>{order.shippingAddress.neighborhood}</p>
+                  <p>
+                    {order.shippingAddress.city} - {order.shippingAddress.state}
+                  </p>
+                  <p>CEP: {order.shippingAddress.cep}</p>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 mb-2">
+                  <Store className="h-5 w-5 text-secondary" />
+                  <h2 className="font-heading text-xl">Retirada na Loja</h2>
+                </div>
+                {order.estimatedDeliveryTime && (
+                  <p className="text-sm text-muted-foreground">
+                    Pronto a partir de {formatDate(order.estimatedDeliveryTime)}
+                  </p>
+                )}
+              </>
+            )}
+          </Card>
+        )}
+
         <div className="mt-8 text-center">
           <Button
             variant="outline"
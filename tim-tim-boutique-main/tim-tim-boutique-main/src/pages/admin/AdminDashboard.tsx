@@ -2,11 +2,12 @@ import { useMemo } from 'react';
 import { AdminLayout, AdminCard } from '@/components/admin';
 import { QuickImageUpload } from '@/components/admin/QuickImageUpload';
 import { useProducts } from '@/contexts/ProductContext';
+import { Link } from 'react-router-dom';
 import { Package, Star, ShoppingBag, AlertCircle } from 'lucide-react';
 
 /**
- * Admin Dashboard - Simplified without order management
- * Orders are managed via WhatsApp, not stored in database
+ * Admin Dashboard - Product statistics and quick links
+ * Orders are stored in the database and managed at /admin/pedidos
  * Requirements: 2.1, 2.2, 2.6
  */
 export const AdminDashboard = () => {
@@ -98,7 +99,7 @@ export const AdminDashboard = () => {
                 <span className="text-2xl">📱</span>
                 <div>
                   <strong className="text-foreground font-heading block mb-1">Pedidos via WhatsApp</strong>
-                  <p className="text-sm">Os clientes finalizam suas compras diretamente pelo WhatsApp. Não há armazenamento de pedidos no banco de dados.</p>
+                  <p className="text-sm">Os pedidos feitos no site são registrados e enviados pelo WhatsApp. Acompanhe e atualize o status na seção de <Link to="/admin/pedidos" className="text-secondary hover:underline">pedidos</Link>.</p>
                 </div>
               </div>
               <div className="flex gap-4 p-4 bg-background/50 rounded-lg border border-border/30">
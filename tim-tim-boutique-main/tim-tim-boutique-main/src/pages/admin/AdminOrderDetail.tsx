@@ -0,0 +1,365 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, CreditCard, Loader2, Mail, MapPin, Package, Phone, Store, User } from 'lucide-react';
+import { toast } from 'sonner';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { OrderStatusBadge } from '@/components/admin/OrderStatusBadge';
+import { ErrorState } from '@/components/admin/ErrorState';
+import OrderStatusTimeline from '@/components/OrderStatusTimeline';
+import { useAdminAuth } from '@/contexts/AdminAuthContext';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { cancelOrder, getOrderById, updateOrderStatus } from '@/services/orderService';
+import { getNextOrderStatuses, ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { formatPaymentMethod } from '@/lib/payment';
+import { formatDeliverySlot } from '@/lib/deliverySlots';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import type { Order, OrderStatus } from '@/types';
+
+export default function AdminOrderDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { admin } = useAdminAuth();
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingTo, setUpdatingTo] = useState<OrderStatus | null>(null);
+  const [showCancelDialog, setShowCancelDialog] = useState(false);
+  const [note, setNote] = useState('');
+  const [cancelReason, setCancelReason] = useState('');
+
+  const loadOrder = useCallback(async () => {
+    if (!id) return;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await getOrderById(id);
+      if (!data) {
+        setError('Pedido não encontrado');
+      }
+      setOrder(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar pedido');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadOrder();
+  }, [loadOrder]);
+
+  const handleStatusChange = async (newStatus: OrderStatus) => {
+    if (!order) return;
+
+    setUpdatingTo(newStatus);
+    try {
+      const updated = await updateOrderStatus(order.id, order.status, newStatus, {
+        changedBy: admin?.email,
+        note,
+      });
+      setOrder(updated);
+      setNote('');
+      toast.success(`Pedido atualizado para "${ORDER_STATUS_LABELS[newStatus]}"`);
+    } catch (err) {
+      toast.error('Erro ao atualizar pedido', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setUpdatingTo(null);
+      setShowCancelDialog(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!order) return;
+
+    setUpdatingTo('cancelled');
+    try {
+      const updated = await cancelOrder(order.id, order.status, cancelReason, {
+        changedBy: admin?.email,
+      });
+      setOrder(updated);
+      setCancelReason('');
+      toast.success('Pedido cancelado e estoque devolvido');
+    } catch (err) {
+      toast.error('Erro ao cancelar pedido', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setUpdatingTo(null);
+      setShowCancelDialog(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-secondary" aria-label="Carregando pedido" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <AdminLayout>
+        <ErrorState
+          title="Erro ao carregar pedido"
+          message={error ?? undefined}
+          onRetry={loadOrder}
+        />
+      </AdminLayout>
+    );
+  }
+
+  const nextStatuses = getNextOrderStatuses(order.status);
+  const forwardStatuses = nextStatuses.filter((status) => status !== 'cancelled');
+  const canCancel = nextStatuses.includes('cancelled');
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        <Link
+          to="/admin/pedidos"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-secondary"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Voltar para pedidos
+        </Link>
+
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight font-heading">
+              Pedido {order.orderNumber}
+            </h1>
+            <p className="text-muted-foreground mt-1">{formatDate(order.createdAt)}</p>
+          </div>
+          <OrderStatusBadge status={order.status} className="self-start sm:self-auto text-sm" />
+        </div>
+
+        {/* Status Workflow */}
+        <Card className="p-6">
+          <h2 className="font-heading text-xl mb-4">Atualizar Status</h2>
+          {nextStatuses.length === 0 ? (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">
+                Este pedido está {ORDER_STATUS_LABELS[order.status].toLowerCase()} e não pode mais ser alterado.
+              </p>
+              {order.cancellationReason && (
+                <p className="text-sm">
+                  <span className="font-medium">Motivo do cancelamento:</span> {order.cancellationReason}
+                </p>
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="mb-4">
+                <Label htmlFor="status-note">Observação (opcional)</Label>
+                <Textarea
+                  id="status-note"
+                  placeholder="Ex: pagamento confirmado pelo WhatsApp"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={2}
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {forwardStatuses.map((status) => (
+                  <Button
+                    key={status}
+                    onClick={() => handleStatusChange(status)}
+                    disabled={updatingTo !== null}
+                    className="gradient-wine text-white"
+                  >
+                    {updatingTo === status && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Marcar como {ORDER_STATUS_LABELS[status]}
+                  </Button>
+                ))}
+                {canCancel && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowCancelDialog(true)}
+                    disabled={updatingTo !== null}
+                    className="border-destructive/50 text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                  >
+                    Cancelar Pedido
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Items */}
+          <Card className="p-6 lg:col-span-2">
+            <div className="flex items-center gap-2 mb-4">
+              <Package className="h-5 w-5 text-secondary" />
+              <h2 className="font-heading text-xl">Itens do Pedido</h2>
+            </div>
+            <div className="space-y-3">
+              {order.items.map((item) => (
+                <div key={item.id} className="flex justify-between text-sm">
+                  <div>
+                    <p className="font-medium">{item.name}</p>
+                    <p className="text-muted-foreground">
+                      {item.quantity} x {formatCurrency(item.price)}
+                    </p>
+                  </div>
+                  <span className="font-medium">{formatCurrency(item.subtotal)}</span>
+                </div>
+              ))}
+            </div>
+
+            <Separator className="my-4" />
+
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatCurrency(order.subtotal)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Frete</span>
+                <span>
+                  {order.fulfillmentMethod === 'pickup'
+                    ? 'Retirada na loja'
+                    : order.shippingIsFree ? 'Grátis' : formatCurrency(order.shippingCost)}
+                </span>
+              </div>
+              <div className="flex justify-between font-heading text-lg">
+                <span>Total</span>
+                <span className="text-secondary">{formatCurrency(order.total)}</span>
+              </div>
+            </div>
+          </Card>
+
+          <div className="space-y-6">
+            {/* Status History */}
+            <Card className="p-6">
+              <h2 className="font-heading text-xl mb-4">Histórico</h2>
+              <OrderStatusTimeline status={order.status} history={order.statusHistory} showDetails />
+            </Card>
+
+            {/* Customer */}
+            <Card className="p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <User className="h-5 w-5 text-secondary" />
+                <h2 className="font-heading text-xl">Cliente</h2>
+              </div>
+              <div className="space-y-2 text-sm">
+                <p className="font-medium">{order.customerInfo.name}</p>
+                <p className="flex items-center gap-2 text-muted-foreground">
+                  <Phone className="h-4 w-4" />
+                  {order.customerInfo.phone}
+                </p>
+                {order.customerInfo.email && (
+                  <p className="flex items-center gap-2 text-muted-foreground">
+                    <Mail className="h-4 w-4" />
+                    {order.customerInfo.email}
+                  </p>
+                )}
+                {order.paymentMethod && (
+                  <p className="flex items-center gap-2 text-muted-foreground">
+                    <CreditCard className="h-4 w-4" />
+                    {formatPaymentMethod(order.paymentMethod, order.changeFor, order.fulfillmentMethod)}
+                  </p>
+                )}
+              </div>
+            </Card>
+
+            {/* Shipping Address */}
+            {order.shippingAddress ? (
+              <Card className="p-6">
+                <div className="flex items-center gap-2 mb-4">
+                  <MapPin className="h-5 w-5 text-secondary" />
+                  <h2 className="font-heading text-xl">Entrega</h2>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  <p>{order.shippingAddress.street}, {order.shippingAddress.number}</p>
+                  {order.shippingAddress.complement && <p>{order.shippingAddress.complement}</p>}
+                  <p>{order.shippingAddress.neighborhood}</p>
+                  <p>{order.shippingAddress.city} - {order.shippingAddress.state}</p>
+                  <p>CEP: {order.shippingAddress.cep}</p>
+                  {order.estimatedDeliveryTime && order.deliveryWindowEnd ? (
+                    <p className="mt-2 font-medium text-foreground">
+                      Agendada: {formatDeliverySlot(order.estimatedDeliveryTime, order.deliveryWindowEnd)}
+                    </p>
+                  ) : order.estimatedDeliveryTime && (
+                    <p className="mt-2">Previsão: {formatDate(order.estimatedDeliveryTime)}</p>
+                  )}
+                </div>
+              </Card>
+            ) : (
+              <Card className="p-6">
+                <div className="flex items-center gap-2 mb-4">
+                  <Store className="h-5 w-5 text-secondary" />
+                  <h2 className="font-heading text-xl">Retirada na loja</h2>
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  <p>O cliente retira o pedido na loja</p>
+                  {order.estimatedDeliveryTime && (
+                    <p className="mt-2 font-medium text-foreground">
+                      Pronto a partir de: {formatDate(order.estimatedDeliveryTime)}
+                    </p>
+                  )}
+                </div>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Cancel Confirmation Dialog */}
+      <AlertDialog open={showCancelDialog} onOpenChange={setShowCancelDialog}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-foreground font-heading">Cancelar pedido</AlertDialogTitle>
+            <AlertDialogDescription className="text-muted-foreground">
+              Tem certeza que deseja cancelar o pedido {order.orderNumber}? Os itens voltarão ao estoque e esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div>
+            <Label htmlFor="cancel-reason">Motivo do cancelamento</Label>
+            <Textarea
+              id="cancel-reason"
+              placeholder="Ex: cliente desistiu da compra"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              rows={3}
+              className="mt-1"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-border">Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancel}
+              disabled={!cancelReason.trim()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Cancelar Pedido
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2, Search, ShoppingBag } from 'lucide-react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { OrderStatusBadge } from '@/components/admin/OrderStatusBadge';
+import { ErrorState } from '@/components/admin/ErrorState';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useDebounce } from '@/hooks/useDebounce';
+import { getOrders } from '@/services/orderService';
+import { ORDER_STATUS_FLOW, ORDER_STATUS_LABELS } from '@/lib/orderStatus';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import type { Order, OrderStatus } from '@/types';
+
+const ALL_STATUSES = 'todos';
+
+const STATUS_OPTIONS: OrderStatus[] = [...ORDER_STATUS_FLOW, 'cancelled'];
+
+export default function AdminOrders() {
+  const navigate = useNavigate();
+
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [status, setStatus] = useState<string>(ALL_STATUSES);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [customer, setCustomer] = useState('');
+
+  const debouncedCustomer = useDebounce(customer, 300);
+
+  const loadOrders = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const data = await getOrders({
+        status: status === ALL_STATUSES ? undefined : (status as OrderStatus),
+        dateFrom: dateFrom || undefined,
+        dateTo: dateTo || undefined,
+        customer: debouncedCustomer || undefined,
+      });
+      setOrders(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar pedidos');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, dateFrom, dateTo, debouncedCustomer]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const hasFilters = status !== ALL_STATUSES || dateFrom || dateTo || customer;
+
+  const clearFilters = () => {
+    setStatus(ALL_STATUSES);
+    setDateFrom('');
+    setDateTo('');
+    setCustomer('');
+  };
+
+  if (error) {
+    return (
+      <AdminLayout>
+        <ErrorState
+          title="Erro ao carregar pedidos"
+          message={error}
+          onRetry={loadOrders}
+        />
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl md:text-4xl font-bold text-foreground font-heading tracking-tight">
+            Pedidos
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Acompanhe e atualize os pedidos feitos no site
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-gradient-card border border-border/50 rounded-xl p-6 shadow-card">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="order-customer">Cliente</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  id="order-customer"
+                  type="text"
+                  placeholder="Nome, e-mail, telefone ou nº do pedido"
+                  value={customer}
+                  onChange={(e) => setCustomer(e.target.value)}
+                  className="pl-10 h-11 bg-background border-border focus:border-secondary transition-colors"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="order-date-from">De</Label>
+              <Input
+                id="order-date-from"
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => setDateFrom(e.target.value)}
+                className="h-11 bg-background border-border"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="order-date-to">Até</Label>
+              <Input
+                id="order-date-to"
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => setDateTo(e.target.value)}
+                className="h-11 bg-background border-border"
+              />
+            </div>
+          </div>
+
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger
+                className="w-full sm:w-[220px] h-11 bg-background border-border focus:border-secondary"
+                aria-label="Filtrar por status"
+              >
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                <SelectItem value={ALL_STATUSES}>Todos os status</SelectItem>
+                {STATUS_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {ORDER_STATUS_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-4 text-sm">
+              <p className="text-muted-foreground">
+                {orders.length === 1 ? '1 pedido encontrado' : `${orders.length} pedidos encontrados`}
+              </p>
+              {hasFilters && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={clearFilters}
+                  className="text-secondary hover:text-secondary/80"
+                >
+                  Limpar filtros
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Orders Table */}
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-secondary" aria-label="Carregando pedidos" />
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-16 px-4">
+            <div className="w-20 h-20 rounded-full bg-muted flex items-center justify-center mb-4">
+              <ShoppingBag className="h-10 w-10 text-muted-foreground" />
+            </div>
+            <h3 className="text-xl font-semibold text-foreground font-heading mb-2">
+              Nenhum pedido encontrado
+            </h3>
+            <p className="text-muted-foreground text-center max-w-md">
+              {hasFilters
+                ? 'Tente ajustar os filtros.'
+                : 'Os pedidos feitos no checkout aparecerão aqui.'}
+            </p>
+          </div>
+        ) : (
+          <div className="bg-gradient-card border border-border/50 rounded-xl shadow-card overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pedido</TableHead>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Cliente</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow
+                    key={order.id}
+                    onClick={() => navigate(`/admin/pedidos/${order.id}`)}
+                    className="cursor-pointer"
+                  >
+                    <TableCell className="font-medium">{order.orderNumber}</TableCell>
+                    <TableCell>{formatDate(order.createdAt)}</TableCell>
+                    <TableCell>
+                      <div>{order.customerInfo.name}</div>
+                      <div className="text-xs text-muted-foreground">{order.customerInfo.phone}</div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(order.total)}</TableCell>
+                    <TableCell>
+                      <OrderStatusBadge status={order.status} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,327 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowRight, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { ErrorState } from '@/components/admin/ErrorState';
+import { FieldError } from '@/components/admin/FieldError';
+import { TagInput } from '@/components/admin/TagInput';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  deleteSearchMiss,
+  getSearchMisses,
+  getSearchRules,
+  loadSearchRules,
+  saveSearchRules,
+} from '@/services/searchRulesService';
+import { getFieldErrors, searchRulesSchema, type SearchRulesFormData } from '@/lib/validations';
+import { formatDate } from '@/lib/formatters';
+import type { SearchMiss } from '@/types';
+
+type RedirectFormData = SearchRulesFormData['redirects'][number];
+
+export default function AdminSearchSettings() {
+  const [form, setForm] = useState<SearchRulesFormData | null>(null);
+  const [misses, setMisses] = useState<SearchMiss[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [rules, searchMisses] = await Promise.all([getSearchRules(), getSearchMisses()]);
+      setForm(rules);
+      setMisses(searchMisses);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar configurações da busca');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const updateForm = (changes: Partial<SearchRulesFormData>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateSynonyms = (index: number, terms: string[]) => {
+    updateForm({ synonyms: form.synonyms.map((group, i) => (i === index ? { ...group, terms } : group)) });
+  };
+
+  const updateRedirect = (index: number, changes: Partial<RedirectFormData>) => {
+    updateForm({ redirects: form.redirects.map((redirect, i) => (i === index ? { ...redirect, ...changes } : redirect)) });
+  };
+
+  const handleSave = async () => {
+    const result = searchRulesSchema.safeParse(form);
+
+    if (!result.success) {
+      setErrors(getFieldErrors(result.error));
+      toast.error('Por favor, corrija os erros no formulário');
+      return;
+    }
+
+    setErrors({});
+    setSaving(true);
+    try {
+      await saveSearchRules(result.data);
+      // New rows get their ids; the store search uses the new rules right away
+      setForm(await getSearchRules());
+      loadSearchRules(true);
+      toast.success('Configurações da busca salvas!');
+    } catch (err) {
+      toast.error('Erro ao salvar configurações', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // A missed search starts a synonym group or a redirect (saved with the form)
+  const handleAddSynonymFor = (miss: SearchMiss) => {
+    updateForm({ synonyms: [...form.synonyms, { terms: [miss.query] }] });
+    toast.info(`Adicione os termos equivalentes a "${miss.query}" e salve`);
+  };
+
+  const handleAddRedirectFor = (miss: SearchMiss) => {
+    updateForm({ redirects: [...form.redirects, { query: miss.query, url: '' }] });
+    toast.info(`Informe o endereço para "${miss.query}" e salve`);
+  };
+
+  const handleDeleteMiss = async (miss: SearchMiss) => {
+    try {
+      await deleteSearchMiss(miss.term);
+      setMisses((prev) => prev.filter((item) => item.term !== miss.term));
+    } catch (err) {
+      toast.error('Erro ao remover busca', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-secondary" aria-label="Carregando configurações" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error || !form) {
+    return (
+      <AdminLayout>
+        <ErrorState
+          title="Erro ao carregar configurações"
+          message={error ?? undefined}
+          onRetry={loadRules}
+        />
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight font-heading">Busca</h1>
+            <p className="text-muted-foreground mt-1">
+              Sinônimos, redirecionamentos e buscas que não encontraram produtos
+            </p>
+          </div>
+          <Button onClick={handleSave} disabled={saving} className="gradient-wine text-white min-w-[120px]">
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {saving ? 'Salvando...' : 'Salvar Alterações'}
+          </Button>
+        </div>
+
+        {/* Sinônimos */}
+        <Card className="p-6 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+            <div>
+              <h2 className="font-heading text-xl">Sinônimos</h2>
+              <p className="text-sm text-muted-foreground">
+                Buscar qualquer termo de um grupo encontra os produtos de todos. Acentos e maiúsculas não importam.
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => updateForm({ synonyms: [...form.synonyms, { terms: [] }] })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Adicionar grupo
+            </Button>
+          </div>
+
+          {form.synonyms.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhum sinônimo cadastrado.</p>
+          )}
+
+          {form.synonyms.map((group, index) => (
+            <div key={group.id ?? `new-${index}`} className="rounded-lg border p-4">
+              <div className="flex items-start gap-3">
+                <div className="flex-1">
+                  <TagInput
+                    id={`synonyms-${index}`}
+                    label={`Grupo ${index + 1}`}
+                    value={group.terms}
+                    onChange={(terms) => updateSynonyms(index, terms)}
+                    placeholder="Ex: espumante, champanhe, prosecco"
+                  />
+                  <FieldError message={errors[`synonyms.${index}.terms`]} />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updateForm({ synonyms: form.synonyms.filter((_, i) => i !== index) })}
+                  aria-label={`Remover grupo ${index + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </Card>
+
+        {/* Redirecionamentos */}
+        <Card className="p-6 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+            <div>
+              <h2 className="font-heading text-xl">Redirecionamentos</h2>
+              <p className="text-sm text-muted-foreground">
+                Ao buscar exatamente estes termos, o cliente vai direto para a página indicada.
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => updateForm({ redirects: [...form.redirects, { query: '', url: '' }] })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Adicionar redirecionamento
+            </Button>
+          </div>
+
+          {form.redirects.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhum redirecionamento cadastrado.</p>
+          )}
+
+          {form.redirects.map((redirect, index) => (
+            <div key={redirect.id ?? `new-${index}`} className="flex flex-col md:flex-row md:items-start gap-3">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor={`redirect-${index}-query`}>Busca</Label>
+                <Input
+                  id={`redirect-${index}-query`}
+                  value={redirect.query}
+                  onChange={(e) => updateRedirect(index, { query: e.target.value })}
+                  placeholder="Ex: kit presente"
+                  aria-invalid={!!errors[`redirects.${index}.query`]}
+                />
+                <FieldError message={errors[`redirects.${index}.query`]} />
+              </div>
+              <ArrowRight className="hidden md:block h-4 w-4 mt-10 text-muted-foreground" aria-hidden="true" />
+              <div className="flex-1 space-y-2">
+                <Label htmlFor={`redirect-${index}-url`}>Endereço</Label>
+                <Input
+                  id={`redirect-${index}-url`}
+                  value={redirect.url}
+                  onChange={(e) => updateRedirect(index, { url: e.target.value })}
+                  placeholder="Ex: /catalogo?categoria=kit"
+                  aria-invalid={!!errors[`redirects.${index}.url`]}
+                />
+                <FieldError message={errors[`redirects.${index}.url`]} />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="md:mt-8"
+                onClick={() => updateForm({ redirects: form.redirects.filter((_, i) => i !== index) })}
+                aria-label={`Remover redirecionamento ${redirect.query}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </Card>
+
+        {/* Buscas sem Resultado */}
+        <Card className="p-6 space-y-4">
+          <div>
+            <h2 className="font-heading text-xl">Buscas sem Resultado</h2>
+            <p className="text-sm text-muted-foreground">
+              Termos buscados no catálogo que não encontraram nenhum produto. Cadastre um sinônimo ou um
+              redirecionamento e remova a busca da lista.
+            </p>
+          </div>
+
+          {misses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhuma busca sem resultado registrada.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Busca</TableHead>
+                  <TableHead className="text-right">Vezes</TableHead>
+                  <TableHead>Última busca</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {misses.map((miss) => (
+                  <TableRow key={miss.term}>
+                    <TableCell className="font-medium">{miss.query}</TableCell>
+                    <TableCell className="text-right">{miss.searches}</TableCell>
+                    <TableCell>{formatDate(miss.lastSearchedAt)}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button type="button" variant="outline" size="sm" onClick={() => handleAddSynonymFor(miss)}>
+                          Sinônimo
+                        </Button>
+                        <Button type="button" variant="outline" size="sm" onClick={() => handleAddRedirectFor(miss)}>
+                          Redirecionar
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDeleteMiss(miss)}
+                          aria-label={`Remover busca ${miss.query}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
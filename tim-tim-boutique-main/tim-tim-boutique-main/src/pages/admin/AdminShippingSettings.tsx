@@ -0,0 +1,586 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Calculator, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { ErrorState } from '@/components/admin/ErrorState';
+import { FieldError } from '@/components/admin/FieldError';
+import { TagInput } from '@/components/admin/TagInput';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { getShippingSettings, saveShippingSettings } from '@/services/settingsService';
+import {
+  calculateShipping,
+  DEFAULT_SHIPPING_SETTINGS,
+  loadShippingSettings,
+  type ShippingCalculation,
+} from '@/services/shippingService';
+import { getFieldErrors, shippingSettingsSchema, type ShippingSettingsFormData } from '@/lib/validations';
+import { formatCEP, formatCurrency } from '@/lib/formatters';
+import { maskCep } from '@/lib/masks';
+import type { Product, ShippingSettings, ShippingZone } from '@/types';
+
+type ZoneFormData = ShippingSettingsFormData['zones'][number];
+type ClosureFormData = ShippingSettingsFormData['closures'][number];
+
+const WEEKDAY_LABELS = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+// Opening hours suggested for a day the owner opens
+const DEFAULT_HOURS = { open: '10:00', close: '22:00' };
+
+const EMPTY_ZONE: ZoneFormData = {
+  name: '',
+  cepRanges: [],
+  neighborhoods: [],
+  baseShippingCost: '',
+  costPerKg: '',
+  freeShippingThreshold: '',
+  deliveryTimeHours: '',
+};
+
+const EMPTY_CLOSURE: ClosureFormData = { date: '', name: '', open: '', close: '' };
+
+// Bottle of default weight used by the preview
+const PREVIEW_BOTTLE: Product = {
+  id: 'preview',
+  name: 'Garrafa',
+  category: '',
+  country: '',
+  price: 0,
+  image: '',
+  description: '',
+  alcoholContent: '',
+  volume: '',
+  tastingNotes: [],
+  pairing: [],
+  stock: 0,
+};
+
+const toAmountField = (value?: number) => (value === undefined ? '' : String(value));
+
+function toZoneForm(zone: ShippingZone): ZoneFormData {
+  return {
+    name: zone.name,
+    cepRanges: zone.cepRanges.map((range) => `${formatCEP(range.start)} a ${formatCEP(range.end)}`),
+    neighborhoods: zone.neighborhoods,
+    baseShippingCost: toAmountField(zone.baseShippingCost),
+    costPerKg: toAmountField(zone.costPerKg),
+    freeShippingThreshold: toAmountField(zone.freeShippingThreshold),
+    deliveryTimeHours: toAmountField(zone.deliveryTimeHours),
+  };
+}
+
+/**
+ * Form values of the current shipping rules
+ */
+function toShippingSettingsForm(settings: ShippingSettings): ShippingSettingsFormData {
+  const { storeHours } = settings;
+
+  return {
+    coveredCities: settings.coveredCities,
+    freeShippingThreshold: String(settings.freeShippingThreshold),
+    baseShippingCost: String(settings.baseShippingCost),
+    costPerKg: String(settings.costPerKg),
+    weightPerBottle: String(settings.weightPerBottle),
+    deliveryTimeHours: String(settings.deliveryTimeHours),
+    zones: settings.zones.map(toZoneForm),
+    hoursEnabled: storeHours !== null,
+    weekly: WEEKDAY_LABELS.map((_, weekday) => {
+      const hours = storeHours?.weekly[weekday];
+      return hours ? { closed: false, ...hours } : { closed: storeHours !== null, ...DEFAULT_HOURS };
+    }),
+    closures: (storeHours?.closures ?? []).map((closure) => ({
+      date: closure.date,
+      name: closure.name,
+      open: closure.hours?.open ?? '',
+      close: closure.hours?.close ?? '',
+    })),
+  };
+}
+
+export default function AdminShippingSettings() {
+  const [form, setForm] = useState<ShippingSettingsFormData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Preview: "CEP 50000-000 with 3 bottles would cost..."
+  const [previewCep, setPreviewCep] = useState('');
+  const [previewBottles, setPreviewBottles] = useState('3');
+  const [previewSubtotal, setPreviewSubtotal] = useState('100');
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<ShippingCalculation | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const settings = await getShippingSettings();
+      setForm(toShippingSettingsForm({ ...DEFAULT_SHIPPING_SETTINGS, ...settings }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao carregar configurações');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const updateForm = (changes: Partial<ShippingSettingsFormData>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+    setPreview(null);
+  };
+
+  const updateZone = (index: number, changes: Partial<ZoneFormData>) => {
+    updateForm({ zones: form.zones.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)) });
+  };
+
+  const updateWeekday = (weekday: number, changes: Partial<ShippingSettingsFormData['weekly'][number]>) => {
+    updateForm({ weekly: form.weekly.map((day, i) => (i === weekday ? { ...day, ...changes } : day)) });
+  };
+
+  const updateClosure = (index: number, changes: Partial<ClosureFormData>) => {
+    updateForm({ closures: form.closures.map((closure, i) => (i === index ? { ...closure, ...changes } : closure)) });
+  };
+
+  /**
+   * Validate the form, showing the errors
+   * @returns Parsed rules, or null when the form is invalid
+   */
+  const parseForm = (): ShippingSettings | null => {
+    const result = shippingSettingsSchema.safeParse(form);
+
+    if (!result.success) {
+      setErrors(getFieldErrors(result.error));
+      toast.error('Por favor, corrija os erros no formulário');
+      return null;
+    }
+
+    setErrors({});
+    return result.data;
+  };
+
+  const handleSave = async () => {
+    const settings = parseForm();
+    if (!settings) return;
+
+    setSaving(true);
+    try {
+      await saveShippingSettings(settings);
+      await loadShippingSettings(true);
+      toast.success('Configurações de entrega salvas!');
+    } catch (err) {
+      toast.error('Erro ao salvar configurações', {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Runs the checkout calculation with the rules being edited (not saved yet)
+  const handlePreview = async () => {
+    const settings = parseForm();
+    if (!settings) return;
+
+    const bottles = Math.max(1, Math.floor(Number(previewBottles) || 1));
+    const subtotal = Math.max(0, Number(previewSubtotal) || 0);
+
+    setPreviewing(true);
+    try {
+      setPreview(await calculateShipping(previewCep, [{ ...PREVIEW_BOTTLE, quantity: bottles }], subtotal, settings));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-secondary" aria-label="Carregando configurações" />
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  if (error || !form) {
+    return (
+      <AdminLayout>
+        <ErrorState
+          title="Erro ao carregar configurações"
+          message={error ?? undefined}
+          onRetry={loadSettings}
+        />
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight font-heading">Entrega</h1>
+            <p className="text-muted-foreground mt-1">
+              Área atendida, preços do frete e horário de funcionamento da loja
+            </p>
+          </div>
+          <Button onClick={handleSave} disabled={saving} className="gradient-wine text-white min-w-[120px]">
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {saving ? 'Salvando...' : 'Salvar Alterações'}
+          </Button>
+        </div>
+
+        {/* Área de Entrega */}
+        <Card className="p-6 space-y-4">
+          <h2 className="font-heading text-xl">Área de Entrega</h2>
+          <TagInput
+            id="coveredCities"
+            label="Cidades atendidas"
+            value={form.coveredCities}
+            onChange={(coveredCities) => updateForm({ coveredCities })}
+            placeholder="Digite uma cidade e pressione Enter"
+          />
+          <FieldError message={errors.coveredCities} />
+        </Card>
+
+        {/* Preços e Prazo */}
+        <Card className="p-6 space-y-4">
+          <div>
+            <h2 className="font-heading text-xl">Preços e Prazo</h2>
+            <p className="text-sm text-muted-foreground">
+              Regras gerais, usadas fora das regiões e nos valores que uma região não define.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {([
+              ['baseShippingCost', 'Frete base (R$)', 'Já inclui a primeira garrafa', '0.01'],
+              ['costPerKg', 'Valor por kg adicional (R$)', undefined, '0.01'],
+              ['freeShippingThreshold', 'Frete grátis a partir de (R$)', undefined, '0.01'],
+              ['weightPerBottle', 'Peso por garrafa (kg)', 'Para produtos sem peso cadastrado', '0.001'],
+              ['deliveryTimeHours', 'Prazo de entrega (horas)', 'Entrega expressa', '0.5'],
+            ] as const).map(([field, label, hint, step]) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={field}>{label}</Label>
+                <Input
+                  id={field}
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={form[field]}
+                  onChange={(e) => updateForm({ [field]: e.target.value })}
+                  aria-invalid={!!errors[field]}
+                />
+                {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+                <FieldError message={errors[field]} />
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        {/* Regiões */}
+        <Card className="p-6 space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+            <div>
+              <h2 className="font-heading text-xl">Regiões com Preço Próprio</h2>
+              <p className="text-sm text-muted-foreground">
+                Definidas por faixas de CEP e/ou bairros. O bairro tem prioridade; entre faixas de CEP, vale a mais estreita.
+                Valores em branco usam as regras gerais.
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => updateForm({ zones: [...form.zones, EMPTY_ZONE] })}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Adicionar região
+            </Button>
+          </div>
+
+          {form.zones.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma região: o mesmo preço vale para toda a área.</p>
+          )}
+
+          {form.zones.map((zone, index) => (
+            <div key={index} className="rounded-lg border p-4 space-y-4">
+              <div className="flex items-end gap-3">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor={`zone-${index}-name`}>Nome da região</Label>
+                  <Input
+                    id={`zone-${index}-name`}
+                    value={zone.name}
+                    onChange={(e) => updateZone(index, { name: e.target.value })}
+                    placeholder="Ex: Zona Sul"
+                    aria-invalid={!!errors[`zones.${index}.name`]}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updateForm({ zones: form.zones.filter((_, i) => i !== index) })}
+                  aria-label={`Remover região ${zone.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <FieldError message={errors[`zones.${index}.name`]} />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <TagInput
+                    id={`zone-${index}-cepRanges`}
+                    label="Faixas de CEP"
+                    value={zone.cepRanges}
+                    onChange={(cepRanges) => updateZone(index, { cepRanges })}
+                    placeholder="Ex: 51000-000 a 51349-999"
+                  />
+                  <FieldError message={errors[`zones.${index}.cepRanges`]} />
+                </div>
+                <TagInput
+                  id={`zone-${index}-neighborhoods`}
+                  label="Bairros"
+                  value={zone.neighborhoods}
+                  onChange={(neighborhoods) => updateZone(index, { neighborhoods })}
+                  placeholder="Digite um bairro e pressione Enter"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {([
+                  ['baseShippingCost', 'Frete base (R$)'],
+                  ['costPerKg', 'Valor por kg (R$)'],
+                  ['freeShippingThreshold', 'Frete grátis (R$)'],
+                  ['deliveryTimeHours', 'Prazo (horas)'],
+                ] as const).map(([field, label]) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`zone-${index}-${field}`}>{label}</Label>
+                    <Input
+                      id={`zone-${index}-${field}`}
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={zone[field]}
+                      onChange={(e) => updateZone(index, { [field]: e.target.value })}
+                      placeholder="Geral"
+                      aria-invalid={!!errors[`zones.${index}.${field}`]}
+                    />
+                    <FieldError message={errors[`zones.${index}.${field}`]} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </Card>
+
+        {/* Horário de Funcionamento */}
+        <Card className="p-6 space-y-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h2 className="font-heading text-xl">Horário de Funcionamento</h2>
+              <p className="text-sm text-muted-foreground">
+                Pedidos feitos com a loja fechada têm a entrega contada a partir da próxima abertura.
+                Desativado, a loja é considerada sempre aberta.
+              </p>
+            </div>
+            <Switch
+              checked={form.hoursEnabled}
+              onCheckedChange={(hoursEnabled) => updateForm({ hoursEnabled })}
+              aria-label="Usar horário de funcionamento"
+            />
+          </div>
+
+          {form.hoursEnabled && (
+            <>
+              <div className="space-y-2">
+                {form.weekly.map((day, weekday) => (
+                  <div key={weekday} className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <span className="w-20 text-sm font-medium">{WEEKDAY_LABELS[weekday]}</span>
+                      <Input
+                        type="time"
+                        value={day.open}
+                        onChange={(e) => updateWeekday(weekday, { open: e.target.value })}
+                        disabled={day.closed}
+                        className="w-32"
+                        aria-label={`Abertura de ${WEEKDAY_LABELS[weekday]}`}
+                      />
+                      <span className="text-sm text-muted-foreground">às</span>
+                      <Input
+                        type="time"
+                        value={day.close}
+                        onChange={(e) => updateWeekday(weekday, { close: e.target.value })}
+                        disabled={day.closed}
+                        className="w-32"
+                        aria-label={`Fechamento de ${WEEKDAY_LABELS[weekday]}`}
+                      />
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={day.closed}
+                          onCheckedChange={(checked) => updateWeekday(weekday, { closed: checked === true })}
+                        />
+                        Fechado
+                      </label>
+                    </div>
+                    <FieldError message={errors[`weekly.${weekday}`]} />
+                  </div>
+                ))}
+                <FieldError message={errors.weekly} />
+              </div>
+
+              <div className="space-y-3 pt-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <h3 className="font-medium">Feriados e Fechamentos</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Sem horário, a loja fica fechada o dia todo; com horário, abre em horário reduzido.
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateForm({ closures: [...form.closures, EMPTY_CLOSURE] })}
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Adicionar
+                  </Button>
+                </div>
+
+                {form.closures.map((closure, index) => (
+                  <div key={index} className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <Input
+                        type="date"
+                        value={closure.date}
+                        onChange={(e) => updateClosure(index, { date: e.target.value })}
+                        className="w-40"
+                        aria-label="Data"
+                        aria-invalid={!!errors[`closures.${index}.date`]}
+                      />
+                      <Input
+                        value={closure.name}
+                        onChange={(e) => updateClosure(index, { name: e.target.value })}
+                        placeholder="Ex: Natal"
+                        className="flex-1 min-w-[140px]"
+                        aria-label="Nome"
+                      />
+                      <Input
+                        type="time"
+                        value={closure.open}
+                        onChange={(e) => updateClosure(index, { open: e.target.value })}
+                        className="w-32"
+                        aria-label="Abertura"
+                      />
+                      <span className="text-sm text-muted-foreground">às</span>
+                      <Input
+                        type="time"
+                        value={closure.close}
+                        onChange={(e) => updateClosure(index, { close: e.target.value })}
+                        className="w-32"
+                        aria-label="Fechamento"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => updateForm({ closures: form.closures.filter((_, i) => i !== index) })}
+                        aria-label="Remover fechamento"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <FieldError message={errors[`closures.${index}.date`] ?? errors[`closures.${index}`]} />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </Card>
+
+        {/* Simular Frete */}
+        <Card className="p-6 space-y-4">
+          <div>
+            <h2 className="font-heading text-xl">Simular Frete</h2>
+            <p className="text-sm text-muted-foreground">
+              Calcula o frete como no checkout, com as regras acima (mesmo antes de salvar).
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_auto] gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="preview-cep">CEP</Label>
+              <Input
+                id="preview-cep"
+                value={previewCep}
+                onChange={(e) => setPreviewCep(maskCep(e.target.value))}
+                placeholder="00000-000"
+                maxLength={9}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preview-bottles">Garrafas</Label>
+              <Input
+                id="preview-bottles"
+                type="number"
+                min="1"
+                value={previewBottles}
+                onChange={(e) => setPreviewBottles(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="preview-subtotal">Valor dos produtos (R$)</Label>
+              <Input
+                id="preview-subtotal"
+                type="number"
+                min="0"
+                step="0.01"
+                value={previewSubtotal}
+                onChange={(e) => setPreviewSubtotal(e.target.value)}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handlePreview}
+              disabled={previewing || previewCep.replace(/\D/g, '').length !== 8}
+            >
+              {previewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Calculator className="mr-2 h-4 w-4" />}
+              Simular
+            </Button>
+          </div>
+
+          {preview && (
+            <div role="status" className="rounded-lg bg-muted p-4 text-sm space-y-1">
+              {preview.isAvailable ? (
+                <>
+                  <p>
+                    CEP {formatCEP(previewCep)} ({preview.city}
+                    {preview.zone ? ` · ${preview.zone}` : ''}) com {previewBottles} garrafa(s):{' '}
+                    <strong>{preview.isFree ? 'Frete grátis' : formatCurrency(preview.cost)}</strong>
+                  </p>
+                  <p className="text-muted-foreground">
+                    Peso: {preview.totalWeight.toFixed(1)} kg · Frete grátis a partir de{' '}
+                    {formatCurrency(preview.freeShippingThreshold ?? 0)}
+                  </p>
+                  <p className="text-muted-foreground">{preview.message}</p>
+                </>
+              ) : (
+                <p className="text-red-600">{preview.message}</p>
+              )}
+            </div>
+          )}
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+}
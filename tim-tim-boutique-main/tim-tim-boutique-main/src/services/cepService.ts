@@ -1,9 +1,13 @@
 /**
- * Service for fetching address data from ViaCEP API
- * with enhanced error handling and retry logic
+ * Service for fetching address data by CEP
+ *
+ * Providers are tried in order (ViaCEP, BrasilAPI, then a local table of the
+ * covered cities), so checkout keeps working when one of them is slow or
+ * down. The local table is only used when no online provider answered: a
+ * CEP they report as not found stays not found. Addresses found online are cached in localStorage for CEP_CACHE_TTL_MS.
  */
 
-import { retryWithBackoff, handleNetworkError, AppError, ErrorType } from "@/lib/errorHandling";
+import { handleNetworkError, AppError, ErrorType } from "@/lib/errorHandling";
 
 export interface CepResponse {
   cep: string;
@@ -12,7 +16,16 @@ export interface CepResponse {
   bairro: string;
   localidade: string;
   uf: string;
-  erro?: boolean;
+  erro?: boolean | string;
+}
+
+// BrasilAPI response (https://brasilapi.com.br/api/cep/v1/{cep})
+interface BrasilApiCepResponse {
+  cep: string;
+  state: string;
+  city: string;
+  neighborhood: string | null;
+  street: string | null;
 }
 
 export interface AddressData {
@@ -23,7 +36,169 @@ export interface AddressData {
 }
 
 /**
- * Fetch address data by CEP from ViaCEP API with retry logic
+ * Source of addresses for fetchAddressByCep
+ */
+export interface CepProvider {
+  name: string;
+  /**
+   * Look up an 8-digit CEP
+   * @returns Address, or null when the provider does not know the CEP
+   * @throws AppError (NETWORK) when the provider is unavailable
+   */
+  lookup(cep: string): Promise<AddressData | null>;
+  /** Store found addresses in the cache (default: true) */
+  cache?: boolean;
+  /** Only used when every earlier provider failed (none answered "not found") */
+  fallback?: boolean;
+}
+
+// Time limit of each online provider before trying the next one
+const PROVIDER_TIMEOUT_MS = 4000;
+
+// Cached addresses (streets and CEPs rarely change)
+const CEP_CACHE_KEY = "tim-tim-cep-cache";
+export const CEP_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const CEP_CACHE_MAX_ENTRIES = 100;
+
+interface CepCacheEntry {
+  address: AddressData;
+  cachedAt: number;
+}
+
+// CEP ranges of the covered cities (Correios), used when the online
+// providers are unavailable: city and state only
+const LOCAL_CEP_RANGES: { start: string; end: string; city: string; state: string }[] = [
+  { start: "50000000", end: "52999999", city: "Recife", state: "PE" },
+  { start: "53000000", end: "53199999", city: "Olinda", state: "PE" },
+  { start: "53400000", end: "53499999", city: "Paulista", state: "PE" },
+  { start: "54000000", end: "54499999", city: "Jaboatão dos Guararapes", state: "PE" },
+  { start: "54750000", end: "54799999", city: "Camaragibe", state: "PE" },
+];
+
+/**
+ * Fetch a provider URL, failing with a network error after PROVIDER_TIMEOUT_MS
+ */
+async function fetchCep(url: string): Promise<Response> {
+  try {
+    return await fetch(url, { signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) });
+  } catch (error) {
+    throw new AppError("Erro ao buscar CEP", ErrorType.NETWORK, error instanceof Error ? error : undefined);
+  }
+}
+
+export const viaCepProvider: CepProvider = {
+  name: "ViaCEP",
+  async lookup(cep) {
+    const response = await fetchCep(`https://viacep.com.br/ws/${cep}/json/`);
+
+    if (!response.ok) {
+      throw new AppError("Erro ao buscar CEP", ErrorType.NETWORK);
+    }
+
+    const data: CepResponse = await response.json();
+    if (data.erro) {
+      return null;
+    }
+
+    return {
+      street: data.logradouro,
+      neighborhood: data.bairro,
+      city: data.localidade,
+      state: data.uf,
+    };
+  },
+};
+
+export const brasilApiProvider: CepProvider = {
+  name: "BrasilAPI",
+  async lookup(cep) {
+    const response = await fetchCep(`https://brasilapi.com.br/api/cep/v1/${cep}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new AppError("Erro ao buscar CEP", ErrorType.NETWORK);
+    }
+
+    const data: BrasilApiCepResponse = await response.json();
+    return {
+      street: data.street ?? "",
+      neighborhood: data.neighborhood ?? "",
+      city: data.city,
+      state: data.state,
+    };
+  },
+};
+
+export const localCepProvider: CepProvider = {
+  name: "local",
+  cache: false,
+  fallback: true,
+  async lookup(cep) {
+    const range = LOCAL_CEP_RANGES.find(({ start, end }) => cep >= start && cep <= end);
+    return range ? { street: "", neighborhood: "", city: range.city, state: range.state } : null;
+  },
+};
+
+export const DEFAULT_CEP_PROVIDERS: CepProvider[] = [viaCepProvider, brasilApiProvider, localCepProvider];
+
+let cepProviders = DEFAULT_CEP_PROVIDERS;
+
+/**
+ * Replace the CEP providers (tests, or a different order)
+ * @param providers - Providers tried in order; null restores the defaults
+ */
+export function setCepProviders(providers: CepProvider[] | null): void {
+  cepProviders = providers ?? DEFAULT_CEP_PROVIDERS;
+}
+
+function readCepCache(): Record<string, CepCacheEntry> {
+  try {
+    return JSON.parse(localStorage.getItem(CEP_CACHE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+function getCachedAddress(cep: string): AddressData | null {
+  const entry = readCepCache()[cep];
+  if (!entry || Date.now() - entry.cachedAt > CEP_CACHE_TTL_MS) {
+    return null;
+  }
+  return entry.address;
+}
+
+function cacheAddress(cep: string, address: AddressData): void {
+  const cache = readCepCache();
+  cache[cep] = { address, cachedAt: Date.now() };
+
+  // Keep only the most recent lookups
+  const entries = Object.entries(cache)
+    .sort(([, a], [, b]) => b.cachedAt - a.cachedAt)
+    .slice(0, CEP_CACHE_MAX_ENTRIES);
+
+  try {
+    localStorage.setItem(CEP_CACHE_KEY, JSON.stringify(Object.fromEntries(entries)));
+  } catch (error) {
+    // The cache is optional (storage full or unavailable)
+    console.warn("Erro ao salvar CEP no cache:", error);
+  }
+}
+
+/**
+ * Remove all cached addresses
+ */
+export function clearCepCache(): void {
+  try {
+    localStorage.removeItem(CEP_CACHE_KEY);
+  } catch {
+    // Storage unavailable: nothing cached
+  }
+}
+
+/**
+ * Fetch address data by CEP, from the cache or the first provider that knows it
  * @param cep - CEP string (can be formatted or not)
  * @returns Address data or null if not found/error
  */
@@ -37,31 +212,36 @@ export async function fetchAddressByCep(cep: string): Promise<AddressData | null
       throw new AppError("CEP deve ter 8 dígitos", ErrorType.VALIDATION);
     }
 
-    // Fetch with retry logic for network errors
-    const data = await retryWithBackoff(async () => {
-      const response = await fetch(`https://viacep.com.br/ws/${cleanCep}/json/`, {
-        signal: AbortSignal.timeout(5000), // 5 second timeout
-      });
+    const cached = getCachedAddress(cleanCep);
+    if (cached) {
+      return cached;
+    }
 
-      if (!response.ok) {
-        throw new AppError("Erro ao buscar CEP", ErrorType.NETWORK);
+    // Try the next provider when one fails or does not know the CEP
+    let lastError: unknown;
+    let answered = false;
+    for (const provider of cepProviders) {
+      if (provider.fallback && answered) {
+        continue;
       }
 
-      return response.json() as Promise<CepResponse>;
-    }, 2, 1000); // 2 retries, 1 second base delay
-
-    // Check if CEP was not found
-    if (data.erro) {
-      throw new AppError("CEP não encontrado", ErrorType.NOT_FOUND);
+      try {
+        const address = await provider.lookup(cleanCep);
+        answered = true;
+        if (address) {
+          if (provider.cache !== false) {
+            cacheAddress(cleanCep, address);
+          }
+          return address;
+        }
+      } catch (error) {
+        console.warn(`Erro ao buscar CEP (${provider.name}):`, error);
+        lastError = error;
+      }
     }
 
-    // Return formatted address data
-    return {
-      street: data.logradouro,
-      neighborhood: data.bairro,
-      city: data.localidade,
-      state: data.uf,
-    };
+    // Not found anywhere, or no provider answered
+    throw (!answered && lastError) || new AppError("CEP não encontrado", ErrorType.NOT_FOUND);
   } catch (error) {
     console.error("Erro ao buscar CEP:", error);
     
@@ -1,36 +1,536 @@
 /**
- * Simplified Order Service
- * 
- * This service only provides utility functions for order ID generation and formatting.
- * Orders are NOT saved to database - they are sent via WhatsApp only.
- * 
+ * Order Service
+ *
+ * Persists checkout orders to Supabase (`orders` / `order_items`) before the
+ * customer is handed off to WhatsApp, looks orders up for customer tracking,
+ * lists and updates orders for the admin panel, and provides formatting helpers.
+ *
  * Requirements: 2.1, 2.2, 2.6
  */
 
+import { supabase } from '@/lib/supabase';
+import {
+  DeliverySlotUnavailableError,
+  InsufficientStockError,
+  PriceChangedError,
+  ShippingChangedError,
+} from '@/lib/errorHandling';
+import { mapDbStockShortages } from '@/services/productService';
+import { canTransitionOrderStatus, getOrderStatusLabel } from '@/lib/orderStatus';
+import type { DeliverySlotUsage } from '@/lib/deliverySlots';
+import type { Address, FulfillmentMethod, Order, OrderStatus, PaymentMethod } from '@/types';
+
+// Database order item type (matches Supabase schema)
+interface DbOrderItem {
+  id: string;
+  order_id: string;
+  product_id: string;
+  variant_id?: string | null;
+  product_name: string;
+  product_price: number;
+  quantity: number;
+  subtotal: number;
+  created_at: string;
+}
+
+// Database status history type (matches Supabase schema)
+interface DbOrderStatusHistory {
+  id: string;
+  order_id: string;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  changed_by?: string | null;
+  note?: string | null;
+  created_at: string;
+}
+
+// Database order type (matches Supabase schema)
+interface DbOrder {
+  id: string;
+  order_number: string;
+  customer_name: string;
+  customer_email: string | null;
+  customer_phone: string;
+  fulfillment_method?: FulfillmentMethod | null;
+  // Address columns are null for store pickup
+  shipping_street: string | null;
+  shipping_number: string | null;
+  shipping_complement: string | null;
+  shipping_neighborhood: string | null;
+  shipping_city: string | null;
+  shipping_state: string | null;
+  shipping_zip_code: string | null;
+  subtotal: number;
+  shipping_cost: number;
+  total: number;
+  shipping_carrier: string;
+  shipping_estimated_hours: number | null;
+  shipping_is_free: boolean;
+  shipping_tracking_code: string | null;
+  shipping_delivery_time: string | null;
+  shipping_delivery_window_end?: string | null;
+  status: OrderStatus;
+  payment_method: PaymentMethod | null;
+  payment_change_for?: number | null;
+  cancellation_reason?: string | null;
+  cancelled_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  order_items?: DbOrderItem[];
+  order_status_history?: DbOrderStatusHistory[];
+}
+
+export interface CreateOrderItemData {
+  productId: string;
+  /** Produtos com variantes: variante comprada (baixa o estoque dela) */
+  variantId?: string;
+  /** Com o volume da variante: "Johnnie Walker Black Label (1L)" */
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export interface CreateOrderData {
+  items: CreateOrderItemData[];
+  subtotal: number;
+  shippingCost: number;
+  shippingIsFree: boolean;
+  total: number;
+  customerInfo: {
+    name: string;
+    email?: string;
+    phone: string;
+  };
+  /** Padrão: entrega no endereço */
+  fulfillmentMethod?: FulfillmentMethod;
+  /** Obrigatório para entrega; ausente na retirada na loja */
+  shippingAddress?: Address;
+  paymentMethod: PaymentMethod;
+  /** Apenas dinheiro: valor para troco */
+  changeFor?: number;
+  estimatedHours?: number;
+  /** Entrega agendada: início da faixa; expressa: previsão de entrega; retirada: pedido pronto */
+  estimatedDeliveryTime?: Date;
+  /** Apenas entrega agendada: fim da faixa */
+  deliveryWindowEnd?: Date;
+}
+
+export interface OrderFilters {
+  status?: OrderStatus;
+  /** Data inicial (YYYY-MM-DD), inclusiva */
+  dateFrom?: string;
+  /** Data final (YYYY-MM-DD), inclusiva */
+  dateTo?: string;
+  /** Nome, e-mail, telefone ou número do pedido */
+  customer?: string;
+}
+
+// Carrier name stored on every order (own express delivery or store pickup)
+const SHIPPING_CARRIER = 'Tim-Tim Entrega Expressa';
+const PICKUP_CARRIER = 'Retirada na loja';
+
+export interface UpdateOrderStatusOptions {
+  /** Nome ou e-mail de quem alterou (admin) */
+  changedBy?: string;
+  /** Observação opcional registrada no histórico */
+  note?: string;
+}
+
 /**
- * Generate a unique order ID
- * Format: TIM-{timestamp}
- * Example: TIM-1697123456789
+ * Convert database order (with embedded order_items and
+ * order_status_history) to app Order type
  */
-export function generateOrderId(): string {
-  const timestamp = Date.now();
-  return `TIM-${timestamp}`;
+function mapDbOrderToOrder(dbOrder: DbOrder): Order {
+  const fulfillmentMethod = dbOrder.fulfillment_method || 'delivery';
+
+  return {
+    id: dbOrder.id,
+    orderNumber: dbOrder.order_number,
+    items: (dbOrder.order_items || []).map(item => ({
+      id: item.id,
+      productId: item.product_id,
+      variantId: item.variant_id || undefined,
+      name: item.product_name,
+      price: Number(item.product_price),
+      quantity: item.quantity,
+      subtotal: Number(item.subtotal),
+    })),
+    subtotal: Number(dbOrder.subtotal),
+    shippingCost: Number(dbOrder.shipping_cost),
+    shippingIsFree: dbOrder.shipping_is_free ?? false,
+    total: Number(dbOrder.total),
+    fulfillmentMethod,
+    shippingAddress: fulfillmentMethod === 'pickup'
+      ? undefined
+      : {
+          cep: dbOrder.shipping_zip_code ?? '',
+          street: dbOrder.shipping_street ?? '',
+          number: dbOrder.shipping_number ?? '',
+          complement: dbOrder.shipping_complement || undefined,
+          neighborhood: dbOrder.shipping_neighborhood ?? '',
+          city: dbOrder.shipping_city ?? '',
+          state: dbOrder.shipping_state ?? '',
+        },
+    customerInfo: {
+      name: dbOrder.customer_name,
+      email: dbOrder.customer_email || undefined,
+      phone: dbOrder.customer_phone,
+    },
+    paymentMethod: dbOrder.payment_method || undefined,
+    changeFor: dbOrder.payment_change_for ? Number(dbOrder.payment_change_for) : undefined,
+    estimatedHours: dbOrder.shipping_estimated_hours ?? undefined,
+    estimatedDeliveryTime: dbOrder.shipping_delivery_time || undefined,
+    deliveryWindowEnd: dbOrder.shipping_delivery_window_end || undefined,
+    status: dbOrder.status,
+    statusHistory: (dbOrder.order_status_history || [])
+      .map(entry => ({
+        id: entry.id,
+        fromStatus: entry.from_status || undefined,
+        toStatus: entry.to_status,
+        changedBy: entry.changed_by || undefined,
+        note: entry.note || undefined,
+        createdAt: entry.created_at,
+      }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    cancellationReason: dbOrder.cancellation_reason || undefined,
+    cancelledAt: dbOrder.cancelled_at || undefined,
+    createdAt: dbOrder.created_at,
+    updatedAt: dbOrder.updated_at,
+  };
 }
 
 /**
- * Generate a unique order number (alternative format)
- * Format: ORD-YYYYMMDD-XXXXX
- * Example: ORD-20241013-00001
+ * Criar pedido com seus itens (checkout público)
+ *
+ * Usa a função `create_order` (scripts/create-order-function.sql) para gravar
+ * `orders` e `order_items` e baixar o estoque na mesma transação: se qualquer
+ * item falhar, nada é salvo. O número do pedido (ex: TIM-2026-000123) é
+ * gerado pelo banco e volta em `orderNumber`.
+ *
+ * @throws InsufficientStockError com as linhas sem estoque suficiente
+ * @throws DeliverySlotUnavailableError se a faixa de entrega agendada esgotou
+ * @throws PriceChangedError se os preços do carrinho não batem com os do banco
+ * @throws ShippingChangedError se o frete não bate com o calculado pelo banco
  */
-export function generateOrderNumber(): string {
-  const date = new Date();
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  const random = Math.floor(Math.random() * 100000);
-  const randomStr = String(random).padStart(5, '0');
-  
-  return `ORD-${year}${month}${day}-${randomStr}`;
+export async function createOrder(orderData: CreateOrderData): Promise<Order> {
+  const fulfillmentMethod = orderData.fulfillmentMethod ?? 'delivery';
+  const address = fulfillmentMethod === 'pickup' ? undefined : orderData.shippingAddress;
+
+  try {
+    const { data, error } = await supabase.rpc('create_order', {
+      p_order: {
+        customer_name: orderData.customerInfo.name,
+        customer_email: orderData.customerInfo.email || null,
+        customer_phone: orderData.customerInfo.phone,
+        fulfillment_method: fulfillmentMethod,
+        shipping_street: address?.street ?? null,
+        shipping_number: address?.number ?? null,
+        shipping_complement: address?.complement || null,
+        shipping_neighborhood: address?.neighborhood ?? null,
+        shipping_city: address?.city ?? null,
+        shipping_state: address?.state ?? null,
+        shipping_zip_code: address?.cep ?? null,
+        subtotal: orderData.subtotal,
+        shipping_cost: orderData.shippingCost,
+        total: orderData.total,
+        shipping_carrier: fulfillmentMethod === 'pickup' ? PICKUP_CARRIER : SHIPPING_CARRIER,
+        shipping_estimated_hours: orderData.estimatedHours ?? null,
+        shipping_is_free: orderData.shippingIsFree,
+        shipping_delivery_time: orderData.estimatedDeliveryTime?.toISOString() ?? null,
+        shipping_delivery_window_end: orderData.deliveryWindowEnd?.toISOString() ?? null,
+        payment_method: orderData.paymentMethod,
+        payment_change_for: orderData.paymentMethod === 'cash' ? orderData.changeFor ?? null : null,
+      },
+      p_items: orderData.items.map(item => ({
+        product_id: item.productId,
+        variant_id: item.variantId ?? null,
+        product_name: item.name,
+        product_price: item.price,
+        quantity: item.quantity,
+      })),
+    });
+
+    if (error) {
+      console.error('Erro ao criar pedido:', error);
+
+      if (error.hint === 'insufficient_stock') {
+        throw new InsufficientStockError(mapDbStockShortages(JSON.parse(error.details || '[]')));
+      }
+
+      if (error.hint === 'delivery_slot_unavailable') {
+        throw new DeliverySlotUnavailableError();
+      }
+
+      if (error.hint === 'price_changed') {
+        throw new PriceChangedError();
+      }
+
+      if (error.hint === 'shipping_changed') {
+        throw new ShippingChangedError();
+      }
+
+      if (error.code === '23505') {
+        throw new Error('Já existe um pedido com este número. Tente novamente.');
+      }
+
+      throw new Error(`Erro ao criar pedido: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Nenhum dado retornado ao criar pedido');
+    }
+
+    return mapDbOrderToOrder(data as DbOrder);
+  } catch (error) {
+    console.error('Erro ao criar pedido:', error);
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Não foi possível registrar o pedido. Tente novamente.');
+  }
+}
+
+/**
+ * Buscar quantos pedidos já ocupam cada faixa de entrega agendada (checkout)
+ *
+ * Usa a função `get_delivery_slot_usage` (scripts/delivery-slots.sql): a
+ * tabela `orders` não é legível pelo público.
+ *
+ * @returns Pedidos por início de faixa (ISO)
+ */
+export async function getDeliverySlotUsage(from: Date, to: Date): Promise<DeliverySlotUsage> {
+  const { data, error } = await supabase.rpc('get_delivery_slot_usage', {
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  if (error) {
+    console.error('Erro ao buscar horários de entrega:', error);
+    throw new Error('Não foi possível carregar os horários de entrega');
+  }
+
+  const usage: DeliverySlotUsage = {};
+  for (const row of (data || []) as { slot_start: string; orders_count: number }[]) {
+    usage[new Date(row.slot_start).toISOString()] = Number(row.orders_count);
+  }
+
+  return usage;
+}
+
+/**
+ * Rastrear pedido pelo número + e-mail ou telefone (página /perfil)
+ *
+ * Usa a função `track_order` (scripts/track-order-function.sql), que só
+ * devolve o pedido quando os dois dados conferem; a tabela `orders` não é
+ * legível pelo público.
+ *
+ * @returns O pedido encontrado, ou null se número e contato não conferem
+ */
+export async function trackOrder(orderNumber: string, contact: string): Promise<Order | null> {
+  try {
+    const { data, error } = await supabase.rpc('track_order', {
+      p_order_number: orderNumber.trim(),
+      p_contact: contact.trim(),
+    });
+
+    if (error) {
+      console.error('Erro ao rastrear pedido:', error);
+      throw new Error(`Erro ao rastrear pedido: ${error.message}`);
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    return mapDbOrderToOrder(data as DbOrder);
+  } catch (error) {
+    console.error('Erro ao rastrear pedido:', error);
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Não foi possível consultar o pedido. Tente novamente.');
+  }
+}
+
+/**
+ * Buscar pedidos com filtros (apenas admin)
+ */
+export async function getOrders(filters: OrderFilters = {}): Promise<Order[]> {
+  try {
+    let query = supabase
+      .from('orders')
+      .select('*, order_items(*), order_status_history(*)')
+      .order('created_at', { ascending: false });
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.dateFrom) {
+      query = query.gte('created_at', new Date(`${filters.dateFrom}T00:00:00`).toISOString());
+    }
+
+    if (filters.dateTo) {
+      query = query.lte('created_at', new Date(`${filters.dateTo}T23:59:59.999`).toISOString());
+    }
+
+    const customer = filters.customer?.trim().replace(/[,()%]/g, '');
+    if (customer) {
+      const pattern = `%${customer}%`;
+      query = query.or(
+        [
+          `customer_name.ilike.${pattern}`,
+          `customer_email.ilike.${pattern}`,
+          `customer_phone.ilike.${pattern}`,
+          `order_number.ilike.${pattern}`,
+        ].join(',')
+      );
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Erro ao buscar pedidos:', error);
+      throw new Error(`Erro ao carregar pedidos: ${error.message}`);
+    }
+
+    return (data || []).map(mapDbOrderToOrder);
+  } catch (error) {
+    console.error('Erro ao buscar pedidos:', error);
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Não foi possível carregar os pedidos. Verifique sua conexão.');
+  }
+}
+
+/**
+ * Buscar pedido por ID (apenas admin)
+ */
+export async function getOrderById(id: string): Promise<Order | null> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('*, order_items(*), order_status_history(*)')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Erro ao buscar pedido:', error);
+    throw new Error(`Erro ao carregar pedido: ${error.message}`);
+  }
+
+  return data ? mapDbOrderToOrder(data) : null;
+}
+
+/**
+ * Atualizar status do pedido (apenas admin)
+ *
+ * Usa a função `change_order_status` (scripts/order-status-history.sql),
+ * que só permite transições válidas do fluxo (ver `ORDER_STATUS_TRANSITIONS`),
+ * grava o histórico na mesma transação e só altera o pedido se ele ainda
+ * estiver em `currentStatus` no banco. Cancelamentos passam por
+ * `cancelOrder`, usando a observação como motivo.
+ */
+export async function updateOrderStatus(
+  id: string,
+  currentStatus: OrderStatus,
+  newStatus: OrderStatus,
+  options: UpdateOrderStatusOptions = {}
+): Promise<Order> {
+  if (!canTransitionOrderStatus(currentStatus, newStatus)) {
+    throw new Error(
+      `Não é possível alterar o pedido de "${getOrderStatusLabel(currentStatus)}" para "${getOrderStatusLabel(newStatus)}"`
+    );
+  }
+
+  if (newStatus === 'cancelled') {
+    return cancelOrder(id, currentStatus, options.note ?? '', options);
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('change_order_status', {
+      p_order_id: id,
+      p_from_status: currentStatus,
+      p_to_status: newStatus,
+      p_changed_by: options.changedBy ?? null,
+      p_note: options.note?.trim() || null,
+    });
+
+    if (error) {
+      console.error('Erro ao atualizar status do pedido:', error);
+
+      if (error.hint === 'status_conflict') {
+        throw new Error('O pedido foi alterado por outra pessoa. Recarregue a página e tente novamente.');
+      }
+
+      throw new Error(`Erro ao atualizar pedido: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Nenhum dado retornado ao atualizar pedido');
+    }
+
+    return mapDbOrderToOrder(data as DbOrder);
+  } catch (error) {
+    console.error('Erro ao atualizar status do pedido:', error);
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Não foi possível atualizar o pedido. Tente novamente.');
+  }
+}
+
+/**
+ * Cancelar pedido devolvendo o estoque (apenas admin)
+ *
+ * Usa a função `cancel_order` (scripts/order-cancellation.sql), que grava o
+ * motivo e devolve as quantidades dos itens ao estoque na mesma transação.
+ * Cancelar um pedido já cancelado não devolve o estoque de novo.
+ */
+export async function cancelOrder(
+  id: string,
+  currentStatus: OrderStatus,
+  reason: string,
+  options: Pick<UpdateOrderStatusOptions, 'changedBy'> = {}
+): Promise<Order> {
+  if (!reason.trim()) {
+    throw new Error('Informe o motivo do cancelamento');
+  }
+
+  if (currentStatus !== 'cancelled' && !canTransitionOrderStatus(currentStatus, 'cancelled')) {
+    throw new Error(`Pedidos com status "${getOrderStatusLabel(currentStatus)}" não podem ser cancelados`);
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('cancel_order', {
+      p_order_id: id,
+      p_reason: reason.trim(),
+      p_changed_by: options.changedBy ?? null,
+      p_expected_status: currentStatus === 'cancelled' ? null : currentStatus,
+    });
+
+    if (error) {
+      console.error('Erro ao cancelar pedido:', error);
+
+      if (error.hint === 'status_conflict') {
+        throw new Error('O pedido foi alterado por outra pessoa. Recarregue a página e tente novamente.');
+      }
+
+      throw new Error(`Erro ao cancelar pedido: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error('Nenhum dado retornado ao cancelar pedido');
+    }
+
+    return mapDbOrderToOrder(data as DbOrder);
+  } catch (error) {
+    console.error('Erro ao cancelar pedido:', error);
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error('Não foi possível cancelar o pedido. Tente novamente.');
+  }
 }
 
 /**
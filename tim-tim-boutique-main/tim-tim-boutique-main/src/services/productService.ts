@@ -1,5 +1,5 @@
 import { supabase } from '@/lib/supabase';
-import type { Product } from '@/types';
+import type { Product, ProductSale, ProductVariant, StockShortage } from '@/types';
 
 // Database product type (matches Supabase schema)
 interface DbProduct {
@@ -13,6 +13,9 @@ interface DbProduct {
   tags: string[];
   featured: boolean;
   discount: number;
+  sale_price?: number | null;
+  sale_starts_at?: string | null;
+  sale_ends_at?: string | null;
   alcohol_content?: string;
   volume?: string;
   pairing?: string[];
@@ -22,10 +25,29 @@ interface DbProduct {
   region?: string;
   producer?: string;
   vintage?: string;
+  weight_kg?: number | null;
+  length_cm?: number | null;
+  width_cm?: number | null;
+  height_cm?: number | null;
+  product_variants?: DbProductVariant[];
   created_at: string;
   updated_at: string;
 }
 
+interface DbProductVariant {
+  id: string;
+  product_id: string;
+  sku: string;
+  volume: string;
+  price: number;
+  stock: number;
+  image_url: string | null;
+  position: number;
+}
+
+// Products are always read with their variants
+const PRODUCT_COLUMNS = '*, product_variants(*)';
+
 export interface CreateProductData {
   name: string;
   description: string;
@@ -35,7 +57,10 @@ export interface CreateProductData {
   stock: number;
   tags?: string[];
   featured?: boolean;
-  discount?: number;
+  discount?: number; // Sale percentage (0 = none)
+  sale_price?: number | null; // Fixed sale price (only without discount)
+  sale_starts_at?: string | null;
+  sale_ends_at?: string | null;
   alcohol_content?: string;
   volume?: string;
   pairing?: string[];
@@ -45,12 +70,140 @@ export interface CreateProductData {
   region?: string;
   producer?: string;
   vintage?: string;
+  weight_kg?: number | null;
+  length_cm?: number | null;
+  width_cm?: number | null;
+  height_cm?: number | null;
 }
 
 export interface UpdateProductData extends Partial<CreateProductData> {
   id: string;
 }
 
+export interface StockRequest {
+  productId: string;
+  variantId?: string; // Products with variants: stock of this variant
+  quantity: number;
+}
+
+export type ProductSort = 'relevance' | 'newest' | 'price-asc' | 'price-desc' | 'name-asc';
+
+// Several values of the same filter match any of them (empty = all)
+export interface ProductFilters {
+  query?: string;
+  synonyms?: string[]; // Variations of the query also matched (see resolveSearch)
+  categories?: string[];
+  countries?: string[];
+  regions?: string[];
+  grapes?: string[];
+  producers?: string[];
+  volumes?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  minAlcohol?: number; // Alcohol content in % vol.
+  maxAlcohol?: number;
+  featured?: boolean;
+}
+
+export interface ProductSearchFilters extends ProductFilters {
+  sort?: ProductSort; // Default: relevance with a query, newest without
+  page?: number; // Starts at 1
+  pageSize?: number;
+}
+
+export interface ProductSearchResult {
+  products: Product[];
+  total: number; // Products matching the filters, in all pages
+  page: number;
+  pageSize: number;
+}
+
+export interface FacetValue {
+  value: string;
+  count: number; // Products with this value, given the other filters
+}
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+// Filter options of a search, each counted without its own selection
+export interface ProductFacets {
+  categories: FacetValue[];
+  countries: FacetValue[];
+  regions: FacetValue[];
+  grapes: FacetValue[];
+  producers: FacetValue[];
+  volumes: FacetValue[];
+  price: NumberRange | null; // null = no products
+  alcohol: NumberRange | null;
+}
+
+const DEFAULT_PAGE_SIZE = 12;
+
+// Longer search terms are cut (nobody types more than this in a search box)
+const MAX_SEARCH_LENGTH = 100;
+
+// Result of the search_products function
+interface DbProductSearchResult {
+  total: number;
+  products: DbProduct[];
+}
+
+// Result of the search_product_facets function
+interface DbProductFacets {
+  categories?: FacetValue[];
+  countries?: FacetValue[];
+  regions?: FacetValue[];
+  grapes?: FacetValue[];
+  producers?: FacetValue[];
+  volumes?: FacetValue[];
+  price?: { min: number | null; max: number | null } | null;
+  alcohol?: { min: number | null; max: number | null } | null;
+}
+
+// Row returned by decrement_stock for each line without enough stock
+interface DbStockShortage {
+  product_id: string;
+  variant_id?: string | null;
+  product_name: string | null;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Convert database variant to app ProductVariant type
+ */
+function mapDbVariantToVariant(dbVariant: DbProductVariant): ProductVariant {
+  return {
+    id: dbVariant.id,
+    sku: dbVariant.sku,
+    volume: dbVariant.volume,
+    price: Number(dbVariant.price),
+    stock: dbVariant.stock,
+    image: dbVariant.image_url || undefined,
+  };
+}
+
+/**
+ * Convert the sale columns to the product sale (percentage or fixed price)
+ */
+function mapDbSaleToSale(dbProduct: DbProduct): ProductSale | undefined {
+  const period = {
+    startsAt: dbProduct.sale_starts_at || undefined,
+    endsAt: dbProduct.sale_ends_at || undefined,
+  };
+
+  if (dbProduct.sale_price != null) {
+    return { type: 'fixed', value: Number(dbProduct.sale_price), ...period };
+  }
+  if (Number(dbProduct.discount) > 0) {
+    return { type: 'percentage', value: Number(dbProduct.discount), ...period };
+  }
+  return undefined;
+}
+
 /**
  * Convert database product to app Product type
  */
@@ -70,6 +223,14 @@ function mapDbProductToProduct(dbProduct: DbProduct): Product {
     alcoholContent: dbProduct.alcohol_content || '',
     volume: dbProduct.volume || '',
     grapes: dbProduct.grapes || [],
+    weightKg: dbProduct.weight_kg ?? undefined,
+    lengthCm: dbProduct.length_cm ?? undefined,
+    widthCm: dbProduct.width_cm ?? undefined,
+    heightCm: dbProduct.height_cm ?? undefined,
+    variants: [...(dbProduct.product_variants || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(mapDbVariantToVariant),
+    sale: mapDbSaleToSale(dbProduct),
     createdAt: dbProduct.created_at,
     updatedAt: dbProduct.updated_at,
   };
@@ -82,7 +243,7 @@ export async function getAllProducts(): Promise<Product[]> {
   try {
     const { data, error } = await supabase
       .from('products')
-      .select('*')
+      .select(PRODUCT_COLUMNS)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -110,7 +271,7 @@ export async function getAllProducts(): Promise<Product[]> {
 export async function getProductById(id: string): Promise<Product | null> {
   const { data, error } = await supabase
     .from('products')
-    .select('*')
+    .select(PRODUCT_COLUMNS)
     .eq('id', id)
     .single();
 
@@ -122,13 +283,32 @@ export async function getProductById(id: string): Promise<Product | null> {
   return mapDbProductToProduct(data);
 }
 
+/**
+ * Buscar produtos por ID (ex: produtos do carrinho, com preço e promoção atuais)
+ */
+export async function getProductsByIds(ids: string[]): Promise<Product[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('products')
+    .select(PRODUCT_COLUMNS)
+    .in('id', ids);
+
+  if (error) {
+    console.error('Erro ao buscar produtos:', error);
+    throw new Error('Não foi possível carregar os produtos');
+  }
+
+  return (data || []).map(mapDbProductToProduct);
+}
+
 /**
  * Buscar produtos por categoria
  */
 export async function getProductsByCategory(category: string): Promise<Product[]> {
   const { data, error } = await supabase
     .from('products')
-    .select('*')
+    .select(PRODUCT_COLUMNS)
     .eq('category', category)
     .order('created_at', { ascending: false });
 
@@ -146,7 +326,7 @@ export async function getProductsByCategory(category: string): Promise<Product[]
 export async function getFeaturedProducts(): Promise<Product[]> {
   const { data, error } = await supabase
     .from('products')
-    .select('*')
+    .select(PRODUCT_COLUMNS)
     .eq('featured', true)
     .order('created_at', { ascending: false });
 
@@ -166,7 +346,7 @@ export async function createProduct(productData: CreateProductData): Promise<Pro
     const { data, error } = await supabase
       .from('products')
       .insert([productData])
-      .select()
+      .select(PRODUCT_COLUMNS)
       .single();
 
     if (error) {
@@ -208,7 +388,7 @@ export async function updateProduct(productData: UpdateProductData): Promise<Pro
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
-      .select()
+      .select(PRODUCT_COLUMNS)
       .single();
 
     if (error) {
@@ -278,66 +458,188 @@ export async function updateProductStock(id: string, quantity: number): Promise<
 }
 
 /**
- * Decrementar estoque do produto
+ * Salvar as variantes de um produto (substitui a lista atual, na ordem recebida)
+ *
+ * Usa a função `save_product_variants` (scripts/product-variants.sql), que
+ * remove as variantes que saíram da lista, atualiza as mantidas e insere as
+ * novas (sem id) numa única transação. O preço e o estoque do produto são
+ * recalculados pelo banco.
  */
-export async function decrementProductStock(id: string, quantity: number): Promise<void> {
-  // Primeiro buscar o produto atual
-  const product = await getProductById(id);
-  
-  if (!product) {
-    throw new Error('Produto não encontrado');
-  }
+export async function saveProductVariants(productId: string, variants: ProductVariant[]): Promise<void> {
+  const { error } = await supabase.rpc('save_product_variants', {
+    p_product_id: productId,
+    p_variants: variants.map(variant => ({
+      id: variant.id || null,
+      sku: variant.sku.trim(),
+      volume: variant.volume.trim(),
+      price: variant.price,
+      stock: variant.stock,
+      image_url: variant.image?.trim() || null,
+    })),
+  });
 
-  const newStock = product.stock - quantity;
-
-  if (newStock < 0) {
-    throw new Error('Estoque insuficiente');
+  if (error) {
+    console.error('Erro ao salvar variantes:', error);
+    throw new Error(error.code === '23505'
+      ? 'Já existe uma variante com este SKU'
+      : 'Não foi possível salvar as variantes do produto');
   }
+}
 
-  await updateProductStock(id, newStock);
+/**
+ * Converter linhas sem estoque retornadas pelo banco
+ */
+export function mapDbStockShortages(rows: DbStockShortage[]): StockShortage[] {
+  return rows.map(row => ({
+    productId: row.product_id,
+    variantId: row.variant_id || undefined,
+    productName: row.product_name || '',
+    requested: Number(row.requested),
+    available: Number(row.available),
+  }));
 }
 
 /**
- * Buscar produtos com filtros
+ * Baixar estoque de vários produtos de forma atômica
+ *
+ * Usa a função `decrement_stock` (scripts/stock-functions.sql). Se qualquer
+ * item não tiver estoque suficiente, nada é alterado e as linhas que
+ * falharam são retornadas. Lista vazia significa sucesso.
  */
-export async function searchProducts(filters: {
-  query?: string;
-  category?: string;
-  minPrice?: number;
-  maxPrice?: number;
-  featured?: boolean;
-}): Promise<Product[]> {
-  let query = supabase.from('products').select('*');
+export async function decrementStock(items: StockRequest[]): Promise<StockShortage[]> {
+  const { data, error } = await supabase.rpc('decrement_stock', {
+    p_items: items.map(item => ({
+      product_id: item.productId,
+      variant_id: item.variantId ?? null,
+      quantity: item.quantity,
+    })),
+  });
 
-  // Aplicar filtros
-  if (filters.category) {
-    query = query.eq('category', filters.category);
+  if (error) {
+    console.error('Erro ao baixar estoque:', error);
+    throw new Error('Não foi possível atualizar o estoque');
   }
 
-  if (filters.featured !== undefined) {
-    query = query.eq('featured', filters.featured);
-  }
+  return mapDbStockShortages((data || []) as DbStockShortage[]);
+}
 
-  if (filters.minPrice !== undefined) {
-    query = query.gte('price', filters.minPrice);
-  }
+/**
+ * Decrementar estoque do produto
+ */
+export async function decrementProductStock(id: string, quantity: number): Promise<void> {
+  const shortages = await decrementStock([{ productId: id, quantity }]);
 
-  if (filters.maxPrice !== undefined) {
-    query = query.lte('price', filters.maxPrice);
+  if (shortages.length > 0) {
+    throw new Error('Estoque insuficiente');
   }
+}
 
-  if (filters.query) {
-    query = query.or(`name.ilike.%${filters.query}%,description.ilike.%${filters.query}%`);
-  }
+/**
+ * Termo de busca limpo: sem espaços repetidos e com tamanho limitado
+ * (o termo vai como parâmetro da função, nunca concatenado em filtros)
+ */
+function toSearchTerm(query: string | undefined): string {
+  return (query ?? '').replace(/\s+/g, ' ').trim().slice(0, MAX_SEARCH_LENGTH);
+}
 
-  query = query.order('created_at', { ascending: false });
+/**
+ * Filtros no formato de search_products e search_product_facets
+ * (filtros vazios ficam de fora)
+ */
+function toDbFilters(filters: ProductFilters): Record<string, unknown> {
+  const dbFilters: Record<string, unknown> = {
+    categories: filters.categories,
+    countries: filters.countries,
+    regions: filters.regions,
+    grapes: filters.grapes,
+    producers: filters.producers,
+    volumes: filters.volumes,
+    min_price: filters.minPrice,
+    max_price: filters.maxPrice,
+    min_alcohol: filters.minAlcohol,
+    max_alcohol: filters.maxAlcohol,
+    featured: filters.featured,
+  };
 
-  const { data, error } = await query;
+  return Object.fromEntries(
+    Object.entries(dbFilters).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null
+    )
+  );
+}
+
+/**
+ * Synonyms sent with a search term (none without a term)
+ */
+function toDbSynonyms(term: string, synonyms: string[] | undefined): string[] | null {
+  return term && synonyms?.length ? synonyms : null;
+}
+
+/**
+ * Buscar produtos com filtros, ordenação e paginação (executados no banco)
+ * A busca ignora acentos, compara radicais em português e tolera erros de
+ * digitação (função search_products, ver scripts/product-search.sql)
+ */
+export async function searchProducts(filters: ProductSearchFilters = {}): Promise<ProductSearchResult> {
+  const page = Math.max(1, filters.page ?? 1);
+  const pageSize = filters.pageSize ?? DEFAULT_PAGE_SIZE;
+  const term = toSearchTerm(filters.query);
+
+  const { data, error } = await supabase.rpc('search_products', {
+    p_query: term || null,
+    p_filters: toDbFilters(filters),
+    p_sort: filters.sort ?? (term ? 'relevance' : 'newest'),
+    p_limit: pageSize,
+    p_offset: (page - 1) * pageSize,
+    p_synonyms: toDbSynonyms(term, filters.synonyms),
+  });
 
   if (error) {
     console.error('Erro ao buscar produtos:', error);
     throw new Error('Não foi possível buscar os produtos');
   }
 
-  return (data || []).map(mapDbProductToProduct);
+  const result = data as DbProductSearchResult | null;
+
+  return {
+    products: (result?.products || []).map(mapDbProductToProduct),
+    total: result?.total ?? 0,
+    page,
+    pageSize,
+  };
+}
+
+/**
+ * Buscar as opções dos filtros do catálogo para uma busca, com a quantidade
+ * de produtos de cada uma e as faixas reais de preço e teor alcoólico
+ * (a contagem de cada filtro desconsidera as opções marcadas nele mesmo)
+ */
+export async function getProductFacets(filters: ProductFilters = {}): Promise<ProductFacets> {
+  const term = toSearchTerm(filters.query);
+
+  const { data, error } = await supabase.rpc('search_product_facets', {
+    p_query: term || null,
+    p_filters: toDbFilters(filters),
+    p_synonyms: toDbSynonyms(term, filters.synonyms),
+  });
+
+  if (error) {
+    console.error('Erro ao buscar filtros do catálogo:', error);
+    throw new Error('Não foi possível carregar os filtros do catálogo');
+  }
+
+  const facets = (data || {}) as DbProductFacets;
+  const toRange = (range: DbProductFacets['price']): NumberRange | null =>
+    range?.min != null && range?.max != null ? { min: Number(range.min), max: Number(range.max) } : null;
+
+  return {
+    categories: facets.categories || [],
+    countries: facets.countries || [],
+    regions: facets.regions || [],
+    grapes: facets.grapes || [],
+    producers: facets.producers || [],
+    volumes: facets.volumes || [],
+    price: toRange(facets.price),
+    alcohol: toRange(facets.alcohol),
+  };
 }
@@ -0,0 +1,193 @@
+/**
+ * Search Rules Service
+ *
+ * Synonyms and redirects of the store search (tables search_synonyms and
+ * search_redirects, edited in /admin/configuracoes/busca) and the log of searches without
+ * results (search_misses). See scripts/product-search.sql.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { expandSynonyms, findSearchRedirect, normalizeSearchText } from '@/lib/searchRules';
+import type { SearchMiss, SearchRedirect, SearchRules, SynonymGroup } from '@/types';
+
+interface DbSynonymGroup {
+  id: string;
+  terms: string[];
+}
+
+interface DbSearchRedirect {
+  id: string;
+  query: string;
+  url: string;
+}
+
+interface DbSearchMiss {
+  term: string;
+  query: string;
+  searches: number;
+  last_searched_at: string;
+}
+
+// Search prepared with the rules: redirect or synonyms to match
+export interface ResolvedSearch {
+  redirectUrl?: string;
+  synonyms: string[];
+}
+
+const EMPTY_SEARCH_RULES: SearchRules = { synonyms: [], redirects: [] };
+
+// Rules loaded once per page load (reloaded by the admin after saving)
+let rulesRequest: Promise<SearchRules> | null = null;
+
+/**
+ * Buscar sinônimos e redirecionamentos da busca
+ */
+export async function getSearchRules(): Promise<SearchRules> {
+  const [synonyms, redirects] = await Promise.all([
+    supabase.from('search_synonyms').select('id, terms').order('created_at', { ascending: true }),
+    supabase.from('search_redirects').select('id, query, url').order('query', { ascending: true }),
+  ]);
+
+  const error = synonyms.error || redirects.error;
+  if (error) {
+    console.error('Erro ao buscar regras da busca:', error);
+    throw new Error('Não foi possível carregar os sinônimos e redirecionamentos');
+  }
+
+  return {
+    synonyms: ((synonyms.data || []) as DbSynonymGroup[]).map((row) => ({ id: row.id, terms: row.terms || [] })),
+    redirects: ((redirects.data || []) as DbSearchRedirect[]).map((row) => ({
+      id: row.id,
+      query: row.query,
+      url: row.url,
+    })),
+  };
+}
+
+/**
+ * Load the search rules (once per page load)
+ * On error searches run without synonyms or redirects, and the next call retries
+ * @param forceRefresh - Reload even if the rules were already loaded
+ */
+export function loadSearchRules(forceRefresh = false): Promise<SearchRules> {
+  if (!rulesRequest || forceRefresh) {
+    rulesRequest = getSearchRules().catch((error) => {
+      console.error('Error loading search rules, searching without them:', error);
+      rulesRequest = null;
+      return EMPTY_SEARCH_RULES;
+    });
+  }
+
+  return rulesRequest;
+}
+
+/**
+ * Apply the rules to a search: its redirect, or the synonyms to match
+ */
+export async function resolveSearch(query: string): Promise<ResolvedSearch> {
+  if (!normalizeSearchText(query)) {
+    return { synonyms: [] };
+  }
+
+  const rules = await loadSearchRules();
+
+  return {
+    redirectUrl: findSearchRedirect(query, rules.redirects)?.url,
+    synonyms: expandSynonyms(query, rules.synonyms),
+  };
+}
+
+/**
+ * Salvar sinônimos e redirecionamentos (substitui as listas atuais)
+ */
+export async function saveSearchRules(rules: SearchRules): Promise<void> {
+  await saveRows<SynonymGroup>('search_synonyms', rules.synonyms, (group) => ({ terms: group.terms }));
+  await saveRows<SearchRedirect>('search_redirects', rules.redirects, (redirect) => ({
+    query: redirect.query,
+    url: redirect.url,
+  }));
+}
+
+/**
+ * Replace the rows of a rules table: updates the kept rows, inserts the new
+ * ones (without id) and deletes the rows no longer in the list
+ */
+async function saveRows<T extends { id?: string }>(
+  table: 'search_synonyms' | 'search_redirects',
+  rows: T[],
+  toDbRow: (row: T) => Record<string, unknown>
+): Promise<void> {
+  const fail = (error: unknown) => {
+    console.error('Erro ao salvar regras da busca:', error);
+    return new Error('Não foi possível salvar os sinônimos e redirecionamentos');
+  };
+
+  const { data: current, error: readError } = await supabase.from(table).select('id');
+  if (readError) throw fail(readError);
+
+  // Deleted first: a new redirect may reuse the search of a removed one
+  const keptIds = new Set(rows.map((row) => row.id).filter(Boolean));
+  const removedIds = (current || []).map((row) => row.id as string).filter((id) => !keptIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase.from(table).delete().in('id', removedIds);
+    if (error) throw fail(error);
+  }
+
+  const newRows = rows.filter((row) => !row.id);
+  const results = await Promise.all([
+    ...rows.filter((row) => row.id).map((row) => supabase.from(table).update(toDbRow(row)).eq('id', row.id)),
+    ...(newRows.length > 0 ? [supabase.from(table).insert(newRows.map(toDbRow))] : []),
+  ]);
+
+  const error = results.find((result) => result.error)?.error;
+  if (error) throw fail(error);
+}
+
+/**
+ * Registrar uma busca sem resultado
+ * Falhas são ignoradas: o registro não pode atrapalhar a busca do cliente
+ */
+export async function logSearchMiss(query: string): Promise<void> {
+  const { error } = await supabase.rpc('log_search_miss', { p_query: query.trim() });
+
+  if (error) {
+    console.warn('Não foi possível registrar a busca sem resultado:', error);
+  }
+}
+
+/**
+ * Buscar as buscas sem resultado, das mais frequentes às menos
+ */
+export async function getSearchMisses(limit = 50): Promise<SearchMiss[]> {
+  const { data, error } = await supabase
+    .from('search_misses')
+    .select('*')
+    .order('searches', { ascending: false })
+    .order('last_searched_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Erro ao buscar buscas sem resultado:', error);
+    throw new Error('Não foi possível carregar as buscas sem resultado');
+  }
+
+  return ((data || []) as DbSearchMiss[]).map((row) => ({
+    term: row.term,
+    query: row.query,
+    searches: row.searches,
+    lastSearchedAt: row.last_searched_at,
+  }));
+}
+
+/**
+ * Remover uma busca sem resultado (ex: depois de cadastrar o sinônimo)
+ */
+export async function deleteSearchMiss(term: string): Promise<void> {
+  const { error } = await supabase.from('search_misses').delete().eq('term', term);
+
+  if (error) {
+    console.error('Erro ao remover busca sem resultado:', error);
+    throw new Error('Não foi possível remover a busca');
+  }
+}
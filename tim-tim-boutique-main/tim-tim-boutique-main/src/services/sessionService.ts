@@ -7,13 +7,17 @@
  * Requirements: 1.1, 1.2, 1.3, 2.1, 2.2, 2.3, 2.4, 2.5, 4.1, 4.2, 4.3, 4.4, 4.5
  */
 
-import { CartItem } from '@/types';
+import { CartItem, FulfillmentMethod, Order } from '@/types';
 
 interface ShippingInfo {
+  method?: FulfillmentMethod; // Store pickup: no CEP, free (default: delivery)
   cost: number;
   isFree: boolean;
   city?: string;
   cep?: string;
+  zone?: string; // Delivery zone name
+  estimatedHours?: number; // Delivery time promised for the address
+  freeShippingThreshold?: number; // Free shipping threshold for the address
   isValid: boolean;
 }
 
@@ -26,6 +30,7 @@ interface CartData {
 const SESSION_ID_KEY = 'tim-tim-session-id';
 const CART_KEY_PREFIX = 'tim-tim-cart-';
 const SHIPPING_KEY_PREFIX = 'tim-tim-shipping-';
+const LAST_ORDER_KEY = 'tim-tim-last-order';
 
 class SessionService {
   private sessionId: string;
@@ -285,6 +290,38 @@ class SessionService {
     this.clearShipping();
   }
 
+  /**
+   * Save the order just placed, so the confirmation page survives a refresh.
+   * Not removed by clearSession: the cart is cleared right after checkout.
+   */
+  saveLastOrder(order: Order): void {
+    const success = this.safeSetItem(LAST_ORDER_KEY, order);
+
+    if (!success && this.isStorageAvailable) {
+      console.warn('⚠️ Não foi possível salvar o último pedido na sessão');
+    }
+  }
+
+  /**
+   * Get the last order placed in this session
+   */
+  getLastOrder(): Order | null {
+    return this.safeGetItem<Order | null>(LAST_ORDER_KEY, null);
+  }
+
+  /**
+   * Clear the last order from session
+   */
+  clearLastOrder(): void {
+    if (!this.isStorageAvailable) return;
+
+    try {
+      sessionStorage.removeItem(LAST_ORDER_KEY);
+    } catch (error) {
+      console.error('Erro ao limpar último pedido:', error);
+    }
+  }
+
   /**
    * Migrate data from localStorage to sessionStorage
    * Requirements: 1.2, 2.4
@@ -0,0 +1,357 @@
+/**
+ * Settings Service
+ *
+ * Reads store configuration from the Supabase `settings` table (key/value
+ * JSONB, readable by everyone).
+ */
+
+import { supabase } from '@/lib/supabase';
+import { formatCEP } from '@/lib/formatters';
+import type {
+  CepRange,
+  DeliverySlotSettings,
+  DeliveryWindow,
+  OpeningHours,
+  PickupSettings,
+  PixSettings,
+  ShippingSettings,
+  ShippingZone,
+  StoreClosure,
+  StoreHours,
+} from '@/types';
+
+// Database value of settings.pix (matches scripts/pix-settings.sql)
+interface DbPixSettings {
+  key?: string;
+  merchant_name?: string;
+  merchant_city?: string;
+}
+
+// Database value of settings.store_pickup (matches scripts/store-pickup.sql)
+interface DbPickupSettings {
+  enabled?: boolean;
+  address?: string;
+  ready_hours?: number | string;
+  instructions?: string;
+}
+
+// Database value of settings.delivery_slots (matches scripts/delivery-slots.sql)
+interface DbDeliverySlotSettings {
+  enabled?: boolean;
+  days_ahead?: number | string;
+  min_notice_hours?: number | string;
+  windows?: { start?: string; end?: string; capacity?: number | string }[];
+}
+
+// Database value of each item of settings.shipping_zones
+interface DbShippingZone {
+  name?: string;
+  cep_ranges?: { start?: string; end?: string }[];
+  neighborhoods?: string[];
+  base_cost?: number | string;
+  cost_per_kg?: number | string;
+  free_threshold?: number | string;
+  delivery_hours?: number | string;
+}
+
+// Database value of settings.store_hours (matches scripts/store-hours.sql)
+interface DbStoreHours {
+  weekly?: Record<string, { open?: string; close?: string } | null>;
+  closures?: { date?: string; name?: string; open?: string; close?: string }[];
+}
+
+// Keys of DbStoreHours.weekly, in StoreHours.weekly order (0 = Sunday)
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// settings rows read by getShippingSettings
+const SHIPPING_SETTING_KEYS = {
+  shipping_cities: 'coveredCities',
+  shipping_free_threshold: 'freeShippingThreshold',
+  shipping_base_cost: 'baseShippingCost',
+  shipping_cost_per_kg: 'costPerKg',
+  shipping_weight_per_bottle: 'weightPerBottle',
+  shipping_delivery_hours: 'deliveryTimeHours',
+  shipping_zones: 'zones',
+  store_hours: 'storeHours',
+} as const satisfies Record<string, keyof ShippingSettings>;
+
+/**
+ * Converter um valor numérico de settings (número ou texto, ex: "15.00")
+ * Retorna undefined se não for um número válido e não negativo
+ */
+function parseAmount(value: unknown): number | undefined {
+  const amount = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof amount === 'number' && Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+/**
+ * Converter uma zona de entrega do banco (null se for inválida)
+ */
+function mapShippingZone(zone: DbShippingZone): ShippingZone | null {
+  const name = typeof zone?.name === 'string' ? zone.name.trim() : '';
+
+  const cepRanges = (Array.isArray(zone?.cep_ranges) ? zone.cep_ranges : [])
+    .map((range) => ({
+      start: String(range?.start ?? '').replace(/\D/g, ''),
+      end: String(range?.end ?? '').replace(/\D/g, ''),
+    }))
+    .filter((range): range is CepRange =>
+      range.start.length === 8 && range.end.length === 8 && range.start <= range.end
+    );
+
+  const neighborhoods = (Array.isArray(zone?.neighborhoods) ? zone.neighborhoods : [])
+    .filter((neighborhood): neighborhood is string => typeof neighborhood === 'string' && neighborhood.trim() !== '')
+    .map((neighborhood) => neighborhood.trim());
+
+  if (!name || (cepRanges.length === 0 && neighborhoods.length === 0)) {
+    return null;
+  }
+
+  return {
+    name,
+    cepRanges,
+    neighborhoods,
+    baseShippingCost: parseAmount(zone.base_cost),
+    costPerKg: parseAmount(zone.cost_per_kg),
+    freeShippingThreshold: parseAmount(zone.free_threshold),
+    deliveryTimeHours: parseAmount(zone.delivery_hours),
+  };
+}
+
+/**
+ * Converter um horário de funcionamento ("10:00" às "22:00")
+ * Retorna null se estiver incompleto ou se fechar antes de abrir
+ */
+function mapOpeningHours(hours?: { open?: string; close?: string } | null): OpeningHours | null {
+  const open = String(hours?.open ?? '');
+  const close = String(hours?.close ?? '');
+
+  if (!/^\d{2}:\d{2}$/.test(open) || !/^\d{2}:\d{2}$/.test(close) || open >= close) {
+    return null;
+  }
+
+  return { open, close };
+}
+
+/**
+ * Converter horários e feriados do banco (null se nenhum dia abrir)
+ */
+function mapStoreHours(value: DbStoreHours): StoreHours | null {
+  const weekly = WEEKDAYS.map((day) => mapOpeningHours(value?.weekly?.[day]));
+
+  const closures = (Array.isArray(value?.closures) ? value.closures : [])
+    .filter((closure) => /^\d{4}-\d{2}-\d{2}$/.test(String(closure?.date ?? '')))
+    .map((closure): StoreClosure => {
+      const hours = mapOpeningHours(closure);
+      return {
+        date: String(closure.date),
+        name: typeof closure.name === 'string' && closure.name.trim() ? closure.name.trim() : 'Feriado',
+        ...(hours && { hours }),
+      };
+    });
+
+  if (weekly.every((hours) => hours === null)) {
+    return null;
+  }
+
+  return { weekly, closures };
+}
+
+/**
+ * Converter uma zona de entrega para o formato do banco
+ */
+function toDbShippingZone(zone: ShippingZone): DbShippingZone {
+  return {
+    name: zone.name,
+    cep_ranges: zone.cepRanges.map((range) => ({ start: formatCEP(range.start), end: formatCEP(range.end) })),
+    neighborhoods: zone.neighborhoods,
+    base_cost: zone.baseShippingCost,
+    cost_per_kg: zone.costPerKg,
+    free_threshold: zone.freeShippingThreshold,
+    delivery_hours: zone.deliveryTimeHours,
+  };
+}
+
+/**
+ * Converter horários e feriados para o formato do banco
+ * Sem horários (null), nenhum dia abre: a loja é considerada sempre aberta
+ */
+function toDbStoreHours(storeHours: StoreHours | null): DbStoreHours {
+  if (!storeHours) {
+    return { weekly: {}, closures: [] };
+  }
+
+  return {
+    weekly: Object.fromEntries(WEEKDAYS.map((day, weekday) => [day, storeHours.weekly[weekday]])),
+    closures: storeHours.closures.map((closure) => ({
+      date: closure.date,
+      name: closure.name,
+      ...closure.hours,
+    })),
+  };
+}
+
+/**
+ * Buscar o valor de uma configuração (null se não existir)
+ */
+async function getSetting<T>(key: string): Promise<T | null> {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Erro ao buscar configuração ${key}:`, error);
+    throw new Error('Não foi possível carregar as configurações da loja');
+  }
+
+  return (data?.value as T | undefined) ?? null;
+}
+
+/**
+ * Buscar os dados PIX da loja
+ * Retorna null enquanto a chave PIX não estiver configurada
+ */
+export async function getPixSettings(): Promise<PixSettings | null> {
+  const value = await getSetting<DbPixSettings>('pix');
+
+  if (!value?.key?.trim() || !value.merchant_name?.trim() || !value.merchant_city?.trim()) {
+    return null;
+  }
+
+  return {
+    key: value.key.trim(),
+    merchantName: value.merchant_name.trim(),
+    merchantCity: value.merchant_city.trim(),
+  };
+}
+
+/**
+ * Buscar as opções de retirada na loja
+ * Retorna null quando a retirada está desativada ou sem endereço
+ */
+export async function getPickupSettings(): Promise<PickupSettings | null> {
+  const value = await getSetting<DbPickupSettings>('store_pickup');
+
+  if (!value?.enabled || !value.address?.trim()) {
+    return null;
+  }
+
+  return {
+    address: value.address.trim(),
+    readyHours: parseAmount(value.ready_hours) ?? 1,
+    instructions: value.instructions?.trim() || undefined,
+  };
+}
+
+/**
+ * Buscar as regras de frete da loja
+ * Só retorna as configurações presentes e válidas: o shippingService
+ * completa o restante com os valores padrão
+ */
+export async function getShippingSettings(): Promise<Partial<ShippingSettings>> {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('key, value')
+    .in('key', Object.keys(SHIPPING_SETTING_KEYS));
+
+  if (error) {
+    console.error('Erro ao buscar configurações de frete:', error);
+    throw new Error('Não foi possível carregar as configurações da loja');
+  }
+
+  const settings: Partial<ShippingSettings> = {};
+
+  for (const row of (data ?? []) as { key: keyof typeof SHIPPING_SETTING_KEYS; value: unknown }[]) {
+    const field = SHIPPING_SETTING_KEYS[row.key];
+
+    if (field === 'coveredCities') {
+      const cities = Array.isArray(row.value)
+        ? row.value.filter((city): city is string => typeof city === 'string' && city.trim() !== '')
+        : [];
+      if (cities.length > 0) {
+        settings.coveredCities = cities.map((city) => city.trim());
+      }
+    } else if (field === 'storeHours') {
+      if (row.value && typeof row.value === 'object') {
+        settings.storeHours = mapStoreHours(row.value as DbStoreHours);
+      }
+    } else if (field === 'zones') {
+      if (Array.isArray(row.value)) {
+        settings.zones = (row.value as DbShippingZone[])
+          .map(mapShippingZone)
+          .filter((zone): zone is ShippingZone => zone !== null);
+      }
+    } else if (field) {
+      const value = parseAmount(row.value);
+      if (value !== undefined) {
+        settings[field] = value;
+      }
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Salvar as regras de frete e o horário de funcionamento (apenas admin)
+ * Grava todas as chaves lidas por getShippingSettings
+ *
+ * Usa a função `save_shipping_settings` (scripts/shipping-settings.sql), que
+ * grava todas as chaves na mesma transação: ou tudo é salvo, ou nada. Menos
+ * chaves gravadas do que as enviadas também conta como erro.
+ */
+export async function saveShippingSettings(settings: ShippingSettings): Promise<void> {
+  const values = Object.fromEntries(
+    Object.entries(SHIPPING_SETTING_KEYS).map(([key, field]) => [
+      key,
+      field === 'zones' ? settings.zones.map(toDbShippingZone) :
+      field === 'storeHours' ? toDbStoreHours(settings.storeHours) :
+      settings[field],
+    ])
+  );
+
+  const { data, error } = await supabase.rpc('save_shipping_settings', { p_values: values });
+
+  if (error || data !== Object.keys(values).length) {
+    console.error('Erro ao salvar configurações de frete:', error ?? `${data} chaves gravadas`);
+    throw new Error('Não foi possível salvar as configurações de frete');
+  }
+}
+
+/**
+ * Buscar as opções de entrega agendada
+ * Retorna null quando o agendamento está desativado ou sem faixas válidas
+ */
+export async function getDeliverySlotSettings(): Promise<DeliverySlotSettings | null> {
+  const value = await getSetting<DbDeliverySlotSettings>('delivery_slots');
+
+  if (!value?.enabled) {
+    return null;
+  }
+
+  const windows = (Array.isArray(value.windows) ? value.windows : [])
+    .map((window) => ({
+      start: String(window?.start ?? ''),
+      end: String(window?.end ?? ''),
+      capacity: parseAmount(window?.capacity) ?? 0,
+    }))
+    .filter((window): window is DeliveryWindow =>
+      /^\d{2}:\d{2}$/.test(window.start) &&
+      /^\d{2}:\d{2}$/.test(window.end) &&
+      window.start < window.end &&
+      window.capacity > 0
+    )
+    .sort((a, b) => a.start.localeCompare(b.start));
+
+  if (windows.length === 0) {
+    return null;
+  }
+
+  return {
+    daysAhead: Math.max(1, Math.floor(parseAmount(value.days_ahead) ?? 7)),
+    minNoticeHours: parseAmount(value.min_notice_hours) ?? 0,
+    windows,
+  };
+}
@@ -1,28 +1,35 @@
 /**
  * Shipping Service for Tim-Tim Bebidas
- * Handles express delivery (up to 2 hours) for covered cities
- * Coverage: Recife, Olinda, Jaboatão dos Guararapes, Camaragibe
+ * Handles express delivery for covered cities
+ * Rules (cities, costs, free shipping threshold, delivery time, opening
+ * hours) come from the settings table, falling back to DEFAULT_SHIPPING_SETTINGS
  */
 
 import { fetchAddressByCep, type AddressData } from './cepService';
+import { getShippingSettings } from './settingsService';
 import { AppError, ErrorType } from '@/lib/errorHandling';
-import type { CartItem } from '@/types';
-
-// Constants
-const WEIGHT_PER_BOTTLE_KG = 1.5; // Each bottle weighs 1.5kg
-const FREE_SHIPPING_THRESHOLD = 200; // Free shipping above R$ 200
-const DELIVERY_TIME_HOURS = 2; // Delivery within 2 hours
-const BASE_SHIPPING_COST = 15; // Base shipping cost in R$
-const COST_PER_KG = 5; // Additional cost per kg
-
-// Covered cities (case-insensitive)
-const COVERED_CITIES = [
-  'recife',
-  'olinda',
-  'jaboatão dos guararapes',
-  'jaboatao dos guararapes',
-  'camaragibe'
-];
+import { formatDeliveryTime } from '@/lib/formatters';
+import { formatStoreMoment, getEstimatedDelivery, getStoreStatus } from '@/lib/storeHours';
+import type { CartItem, Product, ShippingSettings, ShippingZone } from '@/types';
+
+// Fallback rules, used until settings load or when a setting is missing
+export const DEFAULT_SHIPPING_SETTINGS: ShippingSettings = {
+  coveredCities: ['Recife', 'Olinda', 'Jaboatão dos Guararapes', 'Camaragibe'],
+  freeShippingThreshold: 200, // Free shipping above R$ 200
+  baseShippingCost: 15, // Base shipping cost in R$
+  costPerKg: 5, // Additional cost per kg
+  weightPerBottle: 1.5, // Each bottle weighs 1.5kg
+  deliveryTimeHours: 2, // Delivery within 2 hours
+  zones: [], // Same price for the whole covered area
+  storeHours: null // Always open until opening hours are configured
+};
+
+// Package volume (cm³) billed as 1 kg, as carriers do for light, bulky packages
+const VOLUMETRIC_DIVISOR = 6000;
+
+// Last rules loaded from settings (used by the synchronous helpers)
+let currentSettings: ShippingSettings = DEFAULT_SHIPPING_SETTINGS;
+let settingsRequest: Promise<ShippingSettings> | null = null;
 
 export interface ShippingCalculation {
   isAvailable: boolean;
@@ -33,6 +40,10 @@ export interface ShippingCalculation {
   message: string;
   city?: string;
   state?: string;
+  zone?: string; // Delivery zone name, when the address matches one
+  freeShippingThreshold?: number; // Threshold of the matched zone (or the general one)
+  opensAt?: Date; // Next opening, when the store is closed now
+  deliveryAt?: Date; // Estimate, when the delivery can't start now (closed or closing before it ends)
 }
 
 export interface ShippingValidation {
@@ -41,13 +52,136 @@ export interface ShippingValidation {
   error?: string;
 }
 
+/**
+ * Load shipping rules from settings (once per page load)
+ * On error keeps the current rules and retries on the next call
+ * @param forceRefresh - Reload even if the rules were already loaded
+ * @returns Shipping rules, with defaults for missing settings
+ */
+export function loadShippingSettings(forceRefresh = false): Promise<ShippingSettings> {
+  if (!settingsRequest || forceRefresh) {
+    settingsRequest = getShippingSettings()
+      .then((settings) => {
+        currentSettings = { ...DEFAULT_SHIPPING_SETTINGS, ...settings };
+        return currentSettings;
+      })
+      .catch((error) => {
+        console.error('Error loading shipping settings, using defaults:', error);
+        settingsRequest = null;
+        return currentSettings;
+      });
+  }
+
+  return settingsRequest;
+}
+
+/**
+ * Normalize a city or neighborhood name for comparison (case and accent-insensitive)
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Join city names for messages: "Recife, Olinda e Camaragibe"
+ */
+function formatCityList(cities: string[]): string {
+  if (cities.length <= 1) {
+    return cities.join('');
+  }
+  return `${cities.slice(0, -1).join(', ')} e ${cities[cities.length - 1]}`;
+}
+
+/**
+ * Delivery promise for messages: "em até 2 horas", or the estimate (see
+ * getEstimatedDelivery) when the delivery would end after closing time
+ */
+function describeDelivery(hours: number, deliveryAt?: Date, opensAt?: Date): string {
+  const estimate = deliveryAt ?? (opensAt && new Date(opensAt.getTime() + hours * 60 * 60 * 1000));
+  if (!estimate) {
+    return `em ${formatDeliveryTime(hours)}`;
+  }
+
+  return `prevista para ${formatStoreMoment(estimate)}${opensAt ? ' (loja fechada agora)' : ''}`;
+}
+
+/**
+ * Find the delivery zone of an address
+ * A neighborhood match wins over CEP ranges; among CEP ranges the
+ * narrowest one wins. Ties keep the configured order.
+ * @param cep - CEP string (formatted or not)
+ * @param neighborhood - Neighborhood returned by the CEP lookup
+ * @param settings - Shipping rules (defaults to the last loaded)
+ * @returns Matching zone, or undefined to use the general rules
+ */
+export function findShippingZone(
+  cep: string,
+  neighborhood?: string,
+  settings = currentSettings
+): ShippingZone | undefined {
+  const cleanCep = cep.replace(/\D/g, '');
+  const neighborhoodName = neighborhood ? normalizeName(neighborhood) : '';
+
+  // Width of the best match so far (-1 for a neighborhood match)
+  let bestZone: ShippingZone | undefined;
+  let bestWidth = Infinity;
+
+  for (const zone of settings.zones) {
+    if (neighborhoodName && zone.neighborhoods.some(name => normalizeName(name) === neighborhoodName)) {
+      if (bestWidth !== -1) {
+        bestZone = zone;
+        bestWidth = -1;
+      }
+      continue;
+    }
+
+    if (cleanCep.length !== 8) {
+      continue;
+    }
+
+    for (const range of zone.cepRanges) {
+      const width = Number(range.end) - Number(range.start);
+      if (cleanCep >= range.start && cleanCep <= range.end && width < bestWidth) {
+        bestZone = zone;
+        bestWidth = width;
+      }
+    }
+  }
+
+  return bestZone;
+}
+
+/**
+ * Shipping rules of a zone: its own prices, general rules for the rest
+ */
+function getZoneSettings(settings: ShippingSettings, zone?: ShippingZone): ShippingSettings {
+  if (!zone) {
+    return settings;
+  }
+
+  return {
+    ...settings,
+    baseShippingCost: zone.baseShippingCost ?? settings.baseShippingCost,
+    costPerKg: zone.costPerKg ?? settings.costPerKg,
+    freeShippingThreshold: zone.freeShippingThreshold ?? settings.freeShippingThreshold,
+    deliveryTimeHours: zone.deliveryTimeHours ?? settings.deliveryTimeHours
+  };
+}
+
 /**
  * Validate if CEP is in coverage area
  * @param cep - CEP string (formatted or not)
+ * @param rules - Rules to apply instead of the loaded ones (admin preview)
  * @returns Validation result with address data
  */
-export async function validateShippingArea(cep: string): Promise<ShippingValidation> {
+export async function validateShippingArea(cep: string, rules?: ShippingSettings): Promise<ShippingValidation> {
   try {
+    const settings = rules ?? await loadShippingSettings();
+
     // Fetch address from ViaCEP
     const address = await fetchAddressByCep(cep);
     
@@ -59,16 +193,11 @@ export async function validateShippingArea(cep: string): Promise<ShippingValidat
     }
 
     // Check if city is in coverage area
-    const cityLower = address.city.toLowerCase().trim();
-    const isInCoverage = COVERED_CITIES.some(city => 
-      cityLower === city || cityLower.includes(city) || city.includes(cityLower)
-    );
-
-    if (!isInCoverage) {
+    if (!isCityInCoverage(address.city, settings)) {
       return {
         isValid: false,
         address,
-        error: `Desculpe, não entregamos em ${address.city}. Atendemos apenas: Recife, Olinda, Jaboatão dos Guararapes e Camaragibe.`
+        error: `Desculpe, não entregamos em ${address.city}. Atendemos apenas: ${formatCityList(settings.coveredCities)}.`
       };
     }
 
@@ -93,33 +222,54 @@ export async function validateShippingArea(cep: string): Promise<ShippingValidat
   }
 }
 
+/**
+ * Shipping weight of one unit of a product
+ * Products without a weight count as one bottle. When the package
+ * dimensions are set, the volumetric weight is used if it is higher.
+ * @param product - Product (or cart item)
+ * @param settings - Shipping rules (defaults to the last loaded)
+ * @returns Weight in kg
+ */
+export function getProductShippingWeight(product: Product, settings = currentSettings): number {
+  const weight = product.weightKg ?? settings.weightPerBottle;
+
+  if (!product.lengthCm || !product.widthCm || !product.heightCm) {
+    return weight;
+  }
+
+  const volumetricWeight = (product.lengthCm * product.widthCm * product.heightCm) / VOLUMETRIC_DIVISOR;
+  return Math.max(weight, volumetricWeight);
+}
+
 /**
  * Calculate total weight of cart items
  * @param items - Cart items
+ * @param settings - Shipping rules (defaults to the last loaded)
  * @returns Total weight in kg
  */
-export function calculateTotalWeight(items: CartItem[]): number {
-  const totalBottles = items.reduce((sum, item) => sum + item.quantity, 0);
-  return totalBottles * WEIGHT_PER_BOTTLE_KG;
+export function calculateTotalWeight(items: CartItem[], settings = currentSettings): number {
+  return items.reduce((sum, item) => sum + getProductShippingWeight(item, settings) * item.quantity, 0);
 }
 
 /**
  * Calculate shipping cost based on weight
  * @param weightKg - Total weight in kg
  * @param subtotal - Order subtotal
+ * @param settings - Shipping rules (defaults to the last loaded)
  * @returns Shipping cost in R$
  */
-export function calculateShippingCost(weightKg: number, subtotal: number): number {
+export function calculateShippingCost(weightKg: number, subtotal: number, settings = currentSettings): number {
   // Free shipping for orders above threshold
-  if (subtotal >= FREE_SHIPPING_THRESHOLD) {
+  if (subtotal >= settings.freeShippingThreshold) {
     return 0;
   }
 
-  // Base cost + additional cost per kg
-  const additionalWeight = Math.max(0, weightKg - 1.5); // First 1.5kg included in base
-  const additionalCost = Math.ceil(additionalWeight) * COST_PER_KG;
+  // Base cost + additional cost per started kg, counted from whole grams
+  // (as calculate_order_shipping in scripts/create-order-function.sql)
+  const additionalWeight = Math.max(0, weightKg - settings.weightPerBottle); // First bottle included in base
+  const additionalCost = Math.ceil(Math.round(additionalWeight * 1000) / 1000) * settings.costPerKg;
   
-  return BASE_SHIPPING_COST + additionalCost;
+  return settings.baseShippingCost + additionalCost;
 }
 
 /**
@@ -127,16 +277,18 @@ export function calculateShippingCost(weightKg: number, subtotal: number): numbe
  * @param cep - CEP string
  * @param items - Cart items
  * @param subtotal - Order subtotal
+ * @param rules - Rules to apply instead of the loaded ones (admin preview)
  * @returns Complete shipping calculation
  */
 export async function calculateShipping(
   cep: string,
   items: CartItem[],
-  subtotal: number
+  subtotal: number,
+  rules?: ShippingSettings
 ): Promise<ShippingCalculation> {
   try {
     // Validate shipping area
-    const validation = await validateShippingArea(cep);
+    const validation = await validateShippingArea(cep, rules);
     
     if (!validation.isValid) {
       return {
@@ -149,22 +301,35 @@ export async function calculateShipping(
       };
     }
 
-    // Calculate weight and cost
-    const totalWeight = calculateTotalWeight(items);
-    const shippingCost = calculateShippingCost(totalWeight, subtotal);
+    // Calculate weight and cost with the rules of the address zone
+    // (settings were loaded by validateShippingArea)
+    const loadedSettings = rules ?? await loadShippingSettings();
+    const zone = findShippingZone(cep, validation.address?.neighborhood, loadedSettings);
+    const settings = getZoneSettings(loadedSettings, zone);
+    const totalWeight = calculateTotalWeight(items, settings);
+    const shippingCost = calculateShippingCost(totalWeight, subtotal, settings);
     const isFree = shippingCost === 0;
+    const hours = settings.deliveryTimeHours;
+    const now = new Date();
+    const { opensAt } = getStoreStatus(settings.storeHours, now);
+    const estimate = getEstimatedDelivery(settings.storeHours, hours, now);
+    const deliveryAt = estimate.getTime() > now.getTime() + hours * 60 * 60 * 1000 ? estimate : undefined;
 
     return {
       isAvailable: true,
       cost: shippingCost,
       isFree,
-      estimatedHours: DELIVERY_TIME_HOURS,
+      estimatedHours: hours,
       totalWeight,
       city: validation.address?.city,
       state: validation.address?.state,
+      zone: zone?.name,
+      freeShippingThreshold: settings.freeShippingThreshold,
+      opensAt,
+      deliveryAt,
       message: isFree 
-        ? '🎉 Frete Grátis! Entrega em até 2 horas.'
-        : `Entrega expressa em até 2 horas por R$ ${shippingCost.toFixed(2)}`
+        ? `🎉 Frete Grátis! Entrega ${describeDelivery(hours, deliveryAt, opensAt)}.`
+        : `Entrega expressa ${describeDelivery(hours, deliveryAt, opensAt)} por R$ ${shippingCost.toFixed(2)}`
     };
   } catch (error) {
     console.error('Error calculating shipping:', error);
@@ -183,23 +348,30 @@ export async function calculateShipping(
 /**
  * Check if CEP is in coverage area (quick check without full validation)
  * @param city - City name
+ * @param settings - Shipping rules (defaults to the last loaded)
  * @returns true if city is covered
  */
-export function isCityInCoverage(city: string): boolean {
-  const cityLower = city.toLowerCase().trim();
-  return COVERED_CITIES.some(coveredCity => 
-    cityLower === coveredCity || cityLower.includes(coveredCity) || coveredCity.includes(cityLower)
-  );
+export function isCityInCoverage(city: string, settings = currentSettings): boolean {
+  const cityName = normalizeName(city);
+  if (!cityName) {
+    return false;
+  }
+
+  return settings.coveredCities.some(coveredCity => {
+    const covered = normalizeName(coveredCity);
+    return cityName === covered || cityName.includes(covered) || covered.includes(cityName);
+  });
 }
 
 /**
  * Get estimated delivery time
+ * Orders placed while the store is closed count from the next opening
+ * @param settings - Shipping rules (defaults to the last loaded)
+ * @param hours - Delivery time of the address zone (defaults to the general one)
  * @returns Estimated delivery date/time
  */
-export function getEstimatedDeliveryTime(): Date {
-  const now = new Date();
-  now.setHours(now.getHours() + DELIVERY_TIME_HOURS);
-  return now;
+export function getEstimatedDeliveryTime(settings = currentSettings, hours = settings.deliveryTimeHours): Date {
+  return getEstimatedDelivery(settings.storeHours, hours);
 }
 
 /**
@@ -212,31 +384,36 @@ export function formatShippingMessage(calculation: ShippingCalculation): string
     return calculation.message;
   }
 
+  const delivery = describeDelivery(calculation.estimatedHours, calculation.deliveryAt, calculation.opensAt);
+
   if (calculation.isFree) {
-    return `🎉 Frete Grátis para ${calculation.city}! Entrega em até ${calculation.estimatedHours} horas.`;
+    return `🎉 Frete Grátis para ${calculation.city}! Entrega ${delivery}.`;
   }
 
-  return `Frete para ${calculation.city}: R$ ${calculation.cost.toFixed(2)} - Entrega em até ${calculation.estimatedHours} horas.`;
+  return `Frete para ${calculation.city}: R$ ${calculation.cost.toFixed(2)} - Entrega ${delivery}.`;
 }
 
 /**
  * Get covered cities list
+ * @param settings - Shipping rules (defaults to the last loaded)
  * @returns Array of covered city names
  */
-export function getCoveredCities(): string[] {
-  return ['Recife', 'Olinda', 'Jaboatão dos Guararapes', 'Camaragibe'];
+export function getCoveredCities(settings = currentSettings): string[] {
+  return [...settings.coveredCities];
 }
 
 /**
  * Get shipping info summary
+ * @param settings - Shipping rules (defaults to the last loaded)
  * @returns Shipping service information
  */
-export function getShippingInfo() {
+export function getShippingInfo(settings = currentSettings) {
   return {
-    deliveryTime: `até ${DELIVERY_TIME_HOURS} horas`,
-    freeShippingThreshold: FREE_SHIPPING_THRESHOLD,
-    coveredCities: getCoveredCities(),
-    baseShippingCost: BASE_SHIPPING_COST,
-    weightPerBottle: WEIGHT_PER_BOTTLE_KG
+    deliveryTime: formatDeliveryTime(settings.deliveryTimeHours),
+    freeShippingThreshold: settings.freeShippingThreshold,
+    coveredCities: getCoveredCities(settings),
+    baseShippingCost: settings.baseShippingCost,
+    weightPerBottle: settings.weightPerBottle,
+    storeHours: settings.storeHours
   };
 }
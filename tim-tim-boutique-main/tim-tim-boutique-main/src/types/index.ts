@@ -35,34 +35,208 @@ export interface Product {
   pairing: string[];
   grapes?: string[];
   stock: number; // Available stock quantity
+  weightKg?: number; // Unit weight with packaging (default: weightPerBottle)
+  lengthCm?: number; // Package dimensions
+  widthCm?: number;
+  heightCm?: number;
+  variants?: ProductVariant[]; // Empty = sold as a single item (product price and stock)
+  sale?: ProductSale; // Undefined = no sale
   createdAt?: string;
   updatedAt?: string;
 }
 
+// Sale of a product: a percentage off or a fixed price, optionally for a period
+export interface ProductSale {
+  type: 'percentage' | 'fixed'; // Fixed prices only for products without variants
+  value: number; // Percentage off (1-99) or sale price in R$
+  startsAt?: string; // ISO dates, undefined = no limit
+  endsAt?: string;
+}
+
+// Size of a product sold separately ("750ml", "1L", "Magnum 1,5L")
+export interface ProductVariant {
+  id?: string; // Undefined for variants not saved yet
+  sku: string;
+  volume: string;
+  price: number;
+  stock: number;
+  image?: string; // Undefined = product image
+}
+
+// Variant lines carry the variant price, stock, volume and image
 export interface CartItem extends Product {
   quantity: number;
+  variantId?: string;
+  originalPrice?: number; // Regular price of lines added on sale (price is the sale price)
+}
+
+// Cart line rejected by the stock check (requested more than available)
+export interface StockShortage {
+  productId: string;
+  variantId?: string;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+export interface OrderItem {
+  id: string;
+  productId: string;
+  variantId?: string;
+  name: string; // Includes the variant volume: "Johnnie Walker Black Label (1L)"
+  price: number;
+  quantity: number;
+  subtotal: number;
 }
 
 export interface Order {
   id: string;
-  userId: string;
-  items: CartItem[];
+  orderNumber: string;
+  userId?: string; // Only for legacy localStorage orders
+  items: OrderItem[];
   subtotal: number;
   shippingCost: number;
+  shippingIsFree: boolean;
   total: number;
-  shippingAddress: Address;
+  fulfillmentMethod: FulfillmentMethod;
+  shippingAddress?: Address; // Undefined for store pickup
   customerInfo: {
     name: string;
     email?: string;
     phone: string;
   };
-  paymentMethod: string;
+  paymentMethod?: PaymentMethod; // Undefined for orders placed before the payment step
+  changeFor?: number; // Cash only: amount the customer will pay with
+  estimatedHours?: number; // Delivery time promised at checkout
+  estimatedDeliveryTime?: string; // Scheduled orders: start of the delivery window; pickup: ready time
+  deliveryWindowEnd?: string; // Scheduled orders only
   status: OrderStatus;
+  statusHistory: OrderStatusChange[];
+  cancellationReason?: string;
+  cancelledAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
-export type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
+export type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+// Cards and cash are paid on delivery (or at the store, for pickup)
+export type PaymentMethod = 'pix' | 'credit_card' | 'debit_card' | 'cash';
+
+// Delivery to the customer's address or pickup at the store
+export type FulfillmentMethod = 'delivery' | 'pickup';
+
+// Store pickup option (settings.store_pickup)
+export interface PickupSettings {
+  address: string; // Store address shown to the customer
+  readyHours: number; // Time to prepare the order, counted within opening hours
+  instructions?: string; // "Apresente o número do pedido no balcão"
+}
+
+// Store PIX data used to generate the "copia e cola" code (settings.pix)
+export interface PixSettings {
+  key: string;
+  merchantName: string;
+  merchantCity: string;
+}
+
+// Delivery time window offered for scheduling ("18:00" to "20:00", store time)
+export interface DeliveryWindow {
+  start: string;
+  end: string;
+  capacity: number; // Maximum orders per day in this window
+}
+
+// Scheduled delivery options (settings.delivery_slots)
+export interface DeliverySlotSettings {
+  daysAhead: number; // Days that can be chosen, starting today
+  minNoticeHours: number; // Minimum time between the order and the window start
+  windows: DeliveryWindow[];
+}
+
+// Opening hours of a day ("10:00" to "22:00", store time)
+export interface OpeningHours {
+  open: string;
+  close: string;
+}
+
+// Holiday or closure date: closed all day, or open with reduced hours
+export interface StoreClosure {
+  date: string; // YYYY-MM-DD
+  name: string; // "Natal"
+  hours?: OpeningHours;
+}
+
+// Opening hours and closure calendar (settings.store_hours)
+export interface StoreHours {
+  weekly: (OpeningHours | null)[]; // 7 days, 0 = Sunday; null = closed
+  closures: StoreClosure[];
+}
+
+// CEP range of a delivery zone (8 digits, inclusive)
+export interface CepRange {
+  start: string;
+  end: string;
+}
+
+// Delivery zone with its own prices (settings.shipping_zones)
+// Missing prices/times fall back to the general shipping rules
+export interface ShippingZone {
+  name: string;
+  cepRanges: CepRange[];
+  neighborhoods: string[];
+  baseShippingCost?: number;
+  costPerKg?: number;
+  freeShippingThreshold?: number;
+  deliveryTimeHours?: number;
+}
+
+// Delivery rules (settings.shipping_*)
+export interface ShippingSettings {
+  coveredCities: string[];
+  freeShippingThreshold: number; // R$
+  baseShippingCost: number; // R$, first bottle included
+  costPerKg: number; // R$ per additional kg
+  weightPerBottle: number; // kg
+  deliveryTimeHours: number;
+  zones: ShippingZone[];
+  storeHours: StoreHours | null; // settings.store_hours; null = always open
+}
+
+// Equivalent search terms (search_synonyms); no id = not saved yet
+export interface SynonymGroup {
+  id?: string;
+  terms: string[];
+}
+
+// Search that opens a page instead of the results (search_redirects)
+export interface SearchRedirect {
+  id?: string;
+  query: string;
+  url: string; // Store page, e.g. "/catalogo?categoria=kit"
+}
+
+export interface SearchRules {
+  synonyms: SynonymGroup[];
+  redirects: SearchRedirect[];
+}
+
+// Catalog search that found no product (search_misses)
+export interface SearchMiss {
+  term: string; // Normalized (no accents, lowercase)
+  query: string; // As last typed
+  searches: number;
+  lastSearchedAt: string;
+}
+
+export interface OrderStatusChange {
+  id: string;
+  fromStatus?: OrderStatus; // Undefined for the order creation entry
+  toStatus: OrderStatus;
+  changedBy?: string; // Admin only
+  note?: string; // Admin only
+  createdAt: string;
+}
 
 export interface ContactMessage {
   id: string;
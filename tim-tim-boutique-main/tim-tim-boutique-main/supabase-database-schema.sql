@@ -119,7 +119,10 @@ INSERT INTO settings (key, value) VALUES
   ('shipping_cities', '["Recife", "Olinda", "Jaboatão dos Guararapes", "Camaragibe"]'),
   ('shipping_free_threshold', '200.00'),
   ('shipping_base_cost', '15.00'),
-  ('shipping_weight_per_bottle', '1.5')
+  ('shipping_cost_per_kg', '5.00'),
+  ('shipping_weight_per_bottle', '1.5'),
+  ('shipping_delivery_hours', '2'),
+  ('shipping_zones', '[]')
 ON CONFLICT (key) DO NOTHING;
 
 -- ============================================